@@ -0,0 +1,235 @@
+import {
+  findCatalogExercise,
+  getMuscleCredits,
+  MUSCLE_GROUPS,
+  normalizeExerciseName,
+  WEEKLY_SET_LANDMARKS,
+  type MuscleGroup,
+  type WeeklySetLandmark
+} from "@fitness/shared";
+
+import type { FitnessGoal, WorkoutExerciseEntry, WorkoutLog, WorkoutSetEntry } from "./store.js";
+
+type VolumeStatus = "low" | "on_target" | "high";
+
+export interface MuscleGroupVolume {
+  group: MuscleGroup;
+  /** Working sets weighted by how much each exercise trains the group, to one decimal. */
+  sets: number;
+  target?: WeeklySetLandmark;
+  status?: VolumeStatus;
+}
+
+export interface WeeklyVolume {
+  weekStart: string;
+  weekEnd: string;
+  workouts: number;
+  workingSets: number;
+  volumeLoadKg: number;
+  muscleGroups: MuscleGroupVolume[];
+}
+
+export interface ExerciseHistoryPoint {
+  date: string;
+  workoutId: string;
+  topSet: WorkoutSetEntry;
+  workingSets: number;
+  volumeLoadKg: number;
+  workoutRpe?: number;
+}
+
+export interface ExerciseHistory {
+  exercise: string;
+  name: string;
+  points: ExerciseHistoryPoint[];
+}
+
+export interface WorkoutStreaks {
+  currentDays: number;
+  longestDays: number;
+  currentWeeks: number;
+  workoutsThisWeek: number;
+  lastWorkoutDate: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date keys are calendar days, so the arithmetic below stays in UTC to dodge DST shifts.
+function toDayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Day number of the Monday that starts the week containing `dayNumber`. */
+function startOfWeek(dayNumber: number): number {
+  const weekday = new Date(dayNumber * DAY_MS).getUTCDay();
+  return dayNumber - (weekday === 0 ? 6 : weekday - 1);
+}
+
+/** The calendar day `date` falls on in the server's time zone. */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function keyExerciseName(name: string): string {
+  return findCatalogExercise(name)?.id ?? normalizeExerciseName(name);
+}
+
+function getWorkingSets(entry: WorkoutExerciseEntry): WorkoutSetEntry[] {
+  return entry.sets.filter((set) => !set.isWarmup);
+}
+
+function getTopSet(entry: WorkoutExerciseEntry): WorkoutSetEntry | null {
+  let top: WorkoutSetEntry | null = null;
+  for (const set of getWorkingSets(entry)) {
+    const load = set.weightKg ?? 0;
+    const topLoad = top?.weightKg ?? 0;
+    if (!top || load > topLoad || (load === topLoad && set.reps > top.reps)) {
+      top = set;
+    }
+  }
+  return top;
+}
+
+function volumeLoad(sets: WorkoutSetEntry[]): number {
+  return sets.reduce((sum, set) => sum + set.reps * (set.weightKg ?? 0), 0);
+}
+
+/**
+ * Strength volume for the `weeks` Monday-to-Sunday weeks ending with the one that contains
+ * `today`, oldest first. Each working set credits every muscle group the exercise trains, at
+ * that group's catalog weight, and groups carry the goal's weekly set landmarks when a goal is known.
+ */
+export function buildWeeklyVolume(
+  workouts: WorkoutLog[],
+  goal: FitnessGoal | null,
+  weeks: number,
+  today: string
+): WeeklyVolume[] {
+  const firstWeek = startOfWeek(toDayNumber(today)) - (weeks - 1) * 7;
+
+  const summaries = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = firstWeek + index * 7;
+    return {
+      weekStart: fromDayNumber(weekStart),
+      weekEnd: fromDayNumber(weekStart + 6),
+      workouts: 0,
+      workingSets: 0,
+      volumeLoadKg: 0,
+      groupSets: Object.fromEntries(MUSCLE_GROUPS.map((group) => [group, 0])) as Record<MuscleGroup, number>
+    };
+  });
+
+  for (const workout of workouts) {
+    if (workout.workoutType !== "strength") {
+      continue;
+    }
+    const index = Math.floor((toDayNumber(workout.date) - firstWeek) / 7);
+    const summary = summaries[index];
+    if (!summary) {
+      continue;
+    }
+
+    summary.workouts += 1;
+    for (const exercise of workout.exerciseEntries) {
+      const sets = getWorkingSets(exercise);
+      summary.workingSets += sets.length;
+      summary.volumeLoadKg += volumeLoad(sets);
+      for (const [group, credit] of Object.entries(getMuscleCredits(exercise.name))) {
+        summary.groupSets[group as MuscleGroup] += credit * sets.length;
+      }
+    }
+  }
+
+  return summaries.map(({ groupSets, ...summary }) => ({
+    ...summary,
+    volumeLoadKg: Math.round(summary.volumeLoadKg),
+    muscleGroups: MUSCLE_GROUPS.map((group) => {
+      const sets = Math.round(groupSets[group] * 10) / 10;
+      const target = goal ? WEEKLY_SET_LANDMARKS[goal][group] : undefined;
+      if (!target) {
+        return { group, sets };
+      }
+      const status: VolumeStatus = sets < target.min ? "low" : sets > target.max ? "high" : "on_target";
+      return { group, sets, target, status };
+    })
+  }));
+}
+
+/** Every session that trained `exercise` or one of its catalog aliases, oldest first. */
+export function buildExerciseHistory(workouts: WorkoutLog[], exercise: string): ExerciseHistory {
+  const key = keyExerciseName(exercise);
+  const ordered = [...workouts].sort((a, b) =>
+    a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date.localeCompare(b.date)
+  );
+
+  const points = ordered.flatMap((workout) =>
+    workout.exerciseEntries.flatMap((entry): ExerciseHistoryPoint[] => {
+      const topSet = keyExerciseName(entry.name) === key ? getTopSet(entry) : null;
+      if (!topSet) {
+        return [];
+      }
+      const workingSets = getWorkingSets(entry);
+      return [
+        {
+          date: workout.date,
+          workoutId: workout.id,
+          topSet,
+          workingSets: workingSets.length,
+          volumeLoadKg: Math.round(volumeLoad(workingSets)),
+          workoutRpe: workout.intensityRpe
+        }
+      ];
+    })
+  );
+
+  return { exercise: key, name: findCatalogExercise(exercise)?.name ?? exercise.trim(), points };
+}
+
+/**
+ * Day streaks count consecutive calendar days with a workout; the current one ends today, or
+ * yesterday when nothing is logged yet today. Week streaks count consecutive Monday-based weeks.
+ */
+export function buildWorkoutStreaks(workouts: WorkoutLog[], today: string): WorkoutStreaks {
+  const todayNumber = toDayNumber(today);
+  const days = Array.from(new Set(workouts.map((workout) => toDayNumber(workout.date))))
+    .filter((day) => day <= todayNumber)
+    .sort((a, b) => a - b);
+  const daySet = new Set(days);
+
+  let longestDays = 0;
+  let run = 0;
+  for (let index = 0; index < days.length; index += 1) {
+    run = index > 0 && days[index] - days[index - 1] === 1 ? run + 1 : 1;
+    longestDays = Math.max(longestDays, run);
+  }
+
+  let currentDays = 0;
+  for (let day = daySet.has(todayNumber) ? todayNumber : todayNumber - 1; daySet.has(day); day -= 1) {
+    currentDays += 1;
+  }
+
+  const weeks = new Set(days.map(startOfWeek));
+  const thisWeek = startOfWeek(todayNumber);
+  let currentWeeks = 0;
+  for (let week = weeks.has(thisWeek) ? thisWeek : thisWeek - 7; weeks.has(week); week -= 7) {
+    currentWeeks += 1;
+  }
+
+  return {
+    currentDays,
+    longestDays,
+    currentWeeks,
+    workoutsThisWeek: workouts.filter((workout) => {
+      const day = toDayNumber(workout.date);
+      return day >= thisWeek && day <= todayNumber;
+    }).length,
+    lastWorkoutDate: days.length ? fromDayNumber(days[days.length - 1]) : null
+  };
+}
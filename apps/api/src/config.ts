@@ -4,9 +4,21 @@ const envSchema = z.object({
   PORT: z.coerce.number().int().positive().default(4000),
   CORS_ORIGIN: z.string().default("*"),
   NODE_ENV: z.enum(["development", "test", "production"]).default("development"),
-  STORAGE_BACKEND: z.enum(["file", "postgres"]).optional(),
+  STORAGE_BACKEND: z.enum(["file", "postgres", "sqlite", "memory"]).optional(),
   DATABASE_URL: z.string().url().optional(),
-  FILE_STORAGE_PATH: z.string().optional()
+  FILE_STORAGE_PATH: z.string().optional(),
+  SQLITE_PATH: z.string().optional(),
+  ANONYMOUS_ACCESS: z.enum(["device", "shared", "off"]).default("device"),
+  SESSION_ACCESS_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+  SESSION_IDLE_TIMEOUT_DAYS: z.coerce.number().int().positive().default(30),
+  SESSION_MAX_AGE_DAYS: z.coerce.number().int().positive().default(90),
+  LOGIN_MAX_FAILURES_PER_EMAIL: z.coerce.number().int().positive().default(10),
+  LOGIN_MAX_FAILURES_PER_IP: z.coerce.number().int().positive().default(100),
+  LOGIN_LOCKOUT_MINUTES: z.coerce.number().int().positive().default(15),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(30),
+  MAIL_TRANSPORT: z.enum(["console", "file"]).default("console"),
+  MAIL_OUTBOX_DIR: z.string().optional(),
+  MAIL_FROM: z.string().default("PulseFit <no-reply@pulsefit.local>")
 });
 
 const parsedConfig = envSchema.parse(process.env);
@@ -0,0 +1,69 @@
+export interface LoginThrottleOptions {
+  /** Failures that lock the key out for `lockoutMs`. The first half of them are free. */
+  maxFailures: number;
+  lockoutMs: number;
+}
+
+export interface LoginThrottle {
+  /** Milliseconds until `key` may try again; 0 when it is not being held back. */
+  retryAfterMs: (key: string, nowMs: number) => number;
+  recordFailure: (key: string, nowMs: number) => void;
+  reset: (key: string) => void;
+}
+
+interface FailureRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+}
+
+const BACKOFF_BASE_MS = 1000;
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * Counts failed logins per key in memory. Once half of `maxFailures` is used up every further
+ * failure doubles the wait, and reaching `maxFailures` locks the key out. Failures are forgotten
+ * after `lockoutMs` without another one.
+ */
+export function createLoginThrottle({ maxFailures, lockoutMs }: LoginThrottleOptions): LoginThrottle {
+  const records = new Map<string, FailureRecord>();
+  const freeFailures = Math.floor(maxFailures / 2);
+
+  function isStale(record: FailureRecord, nowMs: number): boolean {
+    return nowMs - record.lastFailureAt >= lockoutMs && nowMs >= record.blockedUntil;
+  }
+
+  function prune(nowMs: number) {
+    for (const [key, record] of records) {
+      if (isStale(record, nowMs)) {
+        records.delete(key);
+      }
+    }
+  }
+
+  return {
+    retryAfterMs: (key, nowMs) => {
+      const record = records.get(key);
+      return record ? Math.max(0, record.blockedUntil - nowMs) : 0;
+    },
+    recordFailure: (key, nowMs) => {
+      if (records.size >= PRUNE_THRESHOLD) {
+        prune(nowMs);
+      }
+
+      const previous = records.get(key);
+      const failures = previous && !isStale(previous, nowMs) ? previous.failures + 1 : 1;
+      let blockedUntil = nowMs;
+      if (failures >= maxFailures) {
+        blockedUntil = nowMs + lockoutMs;
+      } else if (failures > freeFailures) {
+        blockedUntil = nowMs + Math.min(BACKOFF_BASE_MS * 2 ** (failures - freeFailures - 1), lockoutMs);
+      }
+
+      records.set(key, { failures, lastFailureAt: nowMs, blockedUntil });
+    },
+    reset: (key) => {
+      records.delete(key);
+    }
+  };
+}
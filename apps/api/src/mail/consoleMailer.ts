@@ -0,0 +1,12 @@
+import type { Mailer } from "./types.js";
+
+/** Prints each message to stdout. The default for local development. */
+export function createConsoleMailer(): Mailer {
+  return {
+    send: async (message) => {
+      console.log(
+        [`[mail] From: ${message.from}`, `To: ${message.to}`, `Subject: ${message.subject}`, "", message.text].join("\n")
+      );
+    }
+  };
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { Mailer } from "./types.js";
+
+/** Writes each message as an `.eml` file into `outboxDir`, which any mail client can open. */
+export function createFileMailer(outboxDir: string): Mailer {
+  let sequence = 0;
+
+  return {
+    send: async (message) => {
+      await mkdir(outboxDir, { recursive: true });
+      const sentAt = new Date();
+      sequence += 1;
+      const fileName = `${sentAt.getTime()}-${sequence}.eml`;
+      const contents = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${sentAt.toUTCString()}`,
+        "Content-Type: text/plain; charset=utf-8",
+        "",
+        message.text
+      ].join("\r\n");
+      await writeFile(join(outboxDir, fileName), contents, "utf-8");
+    }
+  };
+}
@@ -0,0 +1,10 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Delivers transactional email. Swap the transport without touching the routes that send mail. */
+export interface Mailer {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { isAbsolute, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import { config } from "./config.js";
+import { createConsoleMailer } from "./mail/consoleMailer.js";
+import { createFileMailer } from "./mail/fileMailer.js";
+import type { MailMessage, Mailer } from "./mail/types.js";
+
+export type * from "./mail/types.js";
+
+function createConfiguredMailer(): Mailer {
+  if (config.MAIL_TRANSPORT === "file") {
+    const outboxDir = config.MAIL_OUTBOX_DIR
+      ? (isAbsolute(config.MAIL_OUTBOX_DIR) ? config.MAIL_OUTBOX_DIR : resolve(process.cwd(), config.MAIL_OUTBOX_DIR))
+      : fileURLToPath(new URL("../data/outbox", import.meta.url));
+    return createFileMailer(outboxDir);
+  }
+  return createConsoleMailer();
+}
+
+let activeMailer: Mailer = createConfiguredMailer();
+
+/** Swaps the transport, e.g. so tests can capture outgoing mail. */
+export function useMailer(mailer: Mailer) {
+  activeMailer = mailer;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await activeMailer.send({ ...message, from: config.MAIL_FROM });
+}
@@ -2,10 +2,17 @@ import "dotenv/config";
 
 import { config } from "./config.js";
 import { createServer } from "./server.js";
+import { prepareStorage } from "./store.js";
+
+try {
+  await prepareStorage();
+} catch (error) {
+  console.error(`[api] Refusing to start: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
 
 const app = createServer();
 
 app.listen(config.PORT, () => {
   console.log(`API listening on http://localhost:${config.PORT}`);
 });
-
@@ -0,0 +1,22 @@
+import "dotenv/config";
+
+import { config } from "./config.js";
+import { migratePostgres } from "./storage/postgresMigrations.js";
+
+if (!config.DATABASE_URL) {
+  console.error("[migrate] DATABASE_URL is not configured");
+  process.exit(1);
+}
+
+try {
+  const applied = await migratePostgres(config.DATABASE_URL);
+  if (!applied.length) {
+    console.log("[migrate] Schema is up to date");
+  }
+  for (const item of applied) {
+    console.log(`[migrate] Applied ${item.version}_${item.name}`);
+  }
+} catch (error) {
+  console.error(`[migrate] Failed: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -3,9 +3,19 @@ import { mkdtemp, rm } from "node:fs/promises";
 import type { AddressInfo } from "node:net";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
-import { after, before, beforeEach, test } from "node:test";
+import { after, before, beforeEach, describe, mock, test } from "node:test";
 
 import type { Server } from "node:http";
+import type { Express } from "express";
+
+import { createFileDriver } from "./storage/fileDriver.js";
+import { createMemoryDriver } from "./storage/memoryDriver.js";
+import { createPostgresDriver } from "./storage/postgresDriver.js";
+import { migratePostgres } from "./storage/postgresMigrations.js";
+import { createSqliteDriver, isSqliteAvailable } from "./storage/sqliteDriver.js";
+import type { StorageDriver } from "./storage/types.js";
+import type { MailMessage, Mailer } from "./mailer.js";
+import type { ServerOptions } from "./server.js";
 
 interface JsonResponse<T> {
   status: number;
@@ -14,7 +24,42 @@ interface JsonResponse<T> {
 
 let server: Server;
 let baseUrl = "";
+let createServer: (options?: ServerOptions) => Express;
 let tempDir = "";
+let useStorageDriver: (driver: StorageDriver) => void;
+const sentMail: MailMessage[] = [];
+const captureMailer: Mailer = {
+  send: async (message) => {
+    sentMail.push(message);
+  }
+};
+
+// Every test below runs once per backend. Postgres joins in when TEST_DATABASE_URL is set, and
+// SQLite is skipped on Node builds without `node:sqlite`.
+const sqliteAvailable = await isSqliteAvailable();
+const storageDrivers: Array<{
+  name: string;
+  create: () => StorageDriver;
+  setup?: () => Promise<unknown>;
+  skip?: string;
+}> = [
+  { name: "file", create: () => createFileDriver(join(tempDir, "app-data.json")) },
+  { name: "memory", create: () => createMemoryDriver() },
+  {
+    name: "sqlite",
+    create: () => createSqliteDriver(join(tempDir, "app-data.sqlite")),
+    skip: sqliteAvailable ? undefined : `node:sqlite is not available on Node ${process.versions.node}`
+  },
+  ...(process.env.TEST_DATABASE_URL
+    ? [
+        {
+          name: "postgres",
+          create: () => createPostgresDriver(process.env.TEST_DATABASE_URL ?? ""),
+          setup: () => migratePostgres(process.env.TEST_DATABASE_URL ?? "")
+        }
+      ]
+    : [])
+];
 
 async function requestJson<T>(path: string, init?: RequestInit): Promise<JsonResponse<T>> {
   const response = await fetch(`${baseUrl}${path}`, init);
@@ -25,6 +70,26 @@ async function requestJson<T>(path: string, init?: RequestInit): Promise<JsonRes
   };
 }
 
+async function listen(app: Express): Promise<{ server: Server; baseUrl: string }> {
+  const started = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  const address = started.address() as AddressInfo;
+  return { server: started, baseUrl: `http://127.0.0.1:${address.port}` };
+}
+
+function closeServer(target: Server): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    target.close((error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+}
+
 function toDateKey(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -41,15 +106,12 @@ before(async () => {
   process.env.FILE_STORAGE_PATH = join(tempDir, "app-data.json");
   process.env.PORT = "4001";
 
-  const { createServer } = await import("./server.js");
-  const app = createServer();
-
-  server = await new Promise<Server>((resolve) => {
-    const started = app.listen(0, () => resolve(started));
-  });
-
-  const address = server.address() as AddressInfo;
-  baseUrl = `http://127.0.0.1:${address.port}`;
+  ({ createServer } = await import("./server.js"));
+  ({ useStorageDriver } = await import("./store.js"));
+  const { useMailer } = await import("./mailer.js");
+  useMailer(captureMailer);
+  // Most tests talk to the API without a token, so the shared server keeps the legacy guest bucket.
+  ({ server, baseUrl } = await listen(createServer({ anonymousAccess: "shared" })));
 });
 
 beforeEach(async () => {
@@ -60,431 +122,2032 @@ beforeEach(async () => {
 
 after(async () => {
   if (server) {
-    await new Promise<void>((resolve, reject) => {
-      server.close((error) => {
-        if (error) {
-          reject(error);
-          return;
-        }
-        resolve();
-      });
-    });
+    await closeServer(server);
   }
 
   await rm(tempDir, { recursive: true, force: true });
 });
 
-test("GET /health returns service and storage info", async () => {
-  const result = await requestJson<{
-    status: string;
-    storage: {
-      backend: string;
-      fallbackReason: string | null;
-    };
-  }>("/health");
-
-  assert.equal(result.status, 200);
-  assert.equal(result.body.status, "ok");
-  assert.equal(result.body.storage.backend, "file");
-});
+for (const driver of storageDrivers) {
+  describe(`${driver.name} storage`, { skip: driver.skip }, () => {
+    let activeDriver: StorageDriver;
 
-test("profile roundtrip works", async () => {
-  const profile = {
-    id: "local-user",
-    name: "Test User",
-    age: 28,
-    heightCm: 176,
-    currentWeightKg: 73,
-    goal: "maintain",
-    dailyCalorieTarget: 2400,
-    proteinTargetGrams: 140
-  };
+    before(async () => {
+      await driver.setup?.();
+      activeDriver = driver.create();
+      await activeDriver.prepare();
+      useStorageDriver(activeDriver);
+    });
 
-  const putResult = await requestJson<{ data: typeof profile }>("/api/v1/profile", {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(profile)
-  });
+    after(async () => {
+      await activeDriver.close();
+    });
 
-  assert.equal(putResult.status, 200);
-  assert.equal(putResult.body.data.name, profile.name);
+    test("GET /health returns service and storage info", async () => {
+      const result = await requestJson<{
+        status: string;
+        storage: {
+          backend: string;
+          fallbackReason: string | null;
+        };
+      }>("/health");
+
+      assert.equal(result.status, 200);
+      assert.equal(result.body.status, "ok");
+      assert.equal(result.body.storage.backend, driver.name);
+      assert.equal(result.body.storage.fallbackReason, null);
+    });
 
-  const getResult = await requestJson<{ data: typeof profile | null }>("/api/v1/profile");
-  assert.equal(getResult.status, 200);
-  assert.equal(getResult.body.data?.dailyCalorieTarget, profile.dailyCalorieTarget);
-});
+    test("profile roundtrip works", async () => {
+      const profile = {
+        id: "local-user",
+        name: "Test User",
+        age: 28,
+        heightCm: 176,
+        currentWeightKg: 73,
+        goal: "maintain",
+        dailyCalorieTarget: 2400,
+        proteinTargetGrams: 140
+      };
+
+      const putResult = await requestJson<{ data: typeof profile }>("/api/v1/profile", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(profile)
+      });
 
-test("profile id is always scoped to request user", async () => {
-  const unique = Date.now().toString(36);
-  const password = "password123";
-
-  const registerResult = await requestJson<{
-    token: string;
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/register", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({ email: `scope_${unique}@example.com`, password })
-  });
+      assert.equal(putResult.status, 200);
+      assert.equal(putResult.body.data.name, profile.name);
 
-  assert.equal(registerResult.status, 201);
-
-  const putResult = await requestJson<{ data: { id: string } }>("/api/v1/profile", {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${registerResult.body.token}`
-    },
-    body: JSON.stringify({
-      id: "spoofed-profile-id",
-      name: "Scoped User",
-      age: 31,
-      heightCm: 178,
-      currentWeightKg: 77,
-      goal: "maintain",
-      dailyCalorieTarget: 2500,
-      proteinTargetGrams: 145
-    })
-  });
+      const getResult = await requestJson<{ data: typeof profile | null }>("/api/v1/profile");
+      assert.equal(getResult.status, 200);
+      assert.equal(getResult.body.data?.dailyCalorieTarget, profile.dailyCalorieTarget);
+    });
 
-  assert.equal(putResult.status, 200);
-  assert.equal(putResult.body.data.id, registerResult.body.user.id);
+    test("profile stores full macro targets and keeps older profiles valid", async () => {
+      const base = {
+        id: "profile-targets",
+        name: "Riley",
+        age: 34,
+        heightCm: 170,
+        currentWeightKg: 68,
+        goal: "lose_weight",
+        dailyCalorieTarget: 1850,
+        proteinTargetGrams: 136
+      };
+      const full = {
+        ...base,
+        sex: "female",
+        activityLevel: "moderate",
+        weeklyRateKg: -0.35,
+        carbsTargetGrams: 185,
+        fatTargetGrams: 51,
+        fiberTargetGrams: 26,
+        waterTargetLiters: 2.4
+      };
+
+      const saved = await requestJson<{ data: typeof full }>("/api/v1/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(full)
+      });
+      assert.equal(saved.status, 200);
+      const read = await requestJson<{ data: typeof full | null }>("/api/v1/profile");
+      assert.equal(read.body.data?.activityLevel, "moderate");
+      assert.equal(read.body.data?.weeklyRateKg, -0.35);
+      assert.equal(read.body.data?.fiberTargetGrams, 26);
+      assert.equal(read.body.data?.waterTargetLiters, 2.4);
+
+      const badActivity = await requestJson<{ message: string }>("/api/v1/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...full, activityLevel: "extreme" })
+      });
+      assert.equal(badActivity.status, 400);
 
-  const getResult = await requestJson<{ data: { id: string } | null }>("/api/v1/profile", {
-    headers: {
-      Authorization: `Bearer ${registerResult.body.token}`
-    }
-  });
+      // A client that only knows calories and protein can still save, clearing the extra targets.
+      const legacy = await requestJson<{ data: Partial<typeof full> }>("/api/v1/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(base)
+      });
+      assert.equal(legacy.status, 200);
+      const afterLegacy = await requestJson<{ data: Partial<typeof full> | null }>("/api/v1/profile");
+      assert.equal(afterLegacy.body.data?.dailyCalorieTarget, 1850);
+      assert.equal(afterLegacy.body.data?.sex, undefined);
+    });
 
-  assert.equal(getResult.status, 200);
-  assert.equal(getResult.body.data?.id, registerResult.body.user.id);
-});
+    test("profile keeps an optional goal weight within the weight limits", async () => {
+      const profile = {
+        id: "profile-goal-weight",
+        name: "Jo",
+        age: 41,
+        heightCm: 182,
+        currentWeightKg: 94,
+        goal: "lose_weight",
+        dailyCalorieTarget: 2300,
+        proteinTargetGrams: 180,
+        goalWeightKg: 85.5
+      };
+
+      const saved = await requestJson<{ data: typeof profile }>("/api/v1/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(profile)
+      });
+      assert.equal(saved.status, 200);
+      const read = await requestJson<{ data: typeof profile | null }>("/api/v1/profile");
+      assert.equal(read.body.data?.goalWeightKg, 85.5);
+
+      const tooLight = await requestJson<{ message: string }>("/api/v1/profile", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...profile, goalWeightKg: 20 })
+      });
+      assert.equal(tooLight.status, 400);
+    });
 
-test("workout create/list/delete works", async () => {
-  const payload = {
-    id: "wk_test_1",
-    date: "2026-02-16",
-    workoutType: "strength",
-    durationMinutes: 48,
-    exerciseEntries: [
-      {
-        id: "ex_test_1",
-        name: "Barbell Bench Press",
-        sets: 4,
-        reps: 6,
-        weightKg: 70
-      },
-      {
-        id: "ex_test_2",
-        name: "Cable Row",
-        sets: 3,
-        reps: 10
-      }
-    ],
-    intensityRpe: 8.5,
-    caloriesBurned: 390,
-    templateName: "Push A",
-    notes: "solid session",
-    createdAt: new Date().toISOString()
-  };
+    test("profile id is always scoped to request user", async () => {
+      const unique = Date.now().toString(36);
+      const password = "password123";
+
+      const registerResult = await requestJson<{
+        token: string;
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ email: `scope_${unique}@example.com`, password })
+      });
 
-  const createResult = await requestJson<{ data: { id: string } }>("/api/v1/workouts/logs", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(payload)
-  });
+      assert.equal(registerResult.status, 201);
+
+      const putResult = await requestJson<{ data: { id: string } }>("/api/v1/profile", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${registerResult.body.token}`
+        },
+        body: JSON.stringify({
+          id: "spoofed-profile-id",
+          name: "Scoped User",
+          age: 31,
+          heightCm: 178,
+          currentWeightKg: 77,
+          goal: "maintain",
+          dailyCalorieTarget: 2500,
+          proteinTargetGrams: 145
+        })
+      });
 
-  assert.equal(createResult.status, 201);
-  assert.equal(createResult.body.data.id, payload.id);
-
-  const listResult = await requestJson<{
-    count: number;
-    data: Array<{
-      id: string;
-      exerciseEntries: Array<{ name: string; sets: number; reps: number; weightKg?: number }>;
-      intensityRpe?: number;
-      caloriesBurned?: number;
-      templateName?: string;
-    }>;
-  }>("/api/v1/workouts/logs");
-  assert.equal(listResult.status, 200);
-  assert.equal(listResult.body.count, 1);
-  assert.equal(listResult.body.data[0]?.exerciseEntries.length, 2);
-  assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.name, "Barbell Bench Press");
-  assert.equal(listResult.body.data[0]?.intensityRpe, 8.5);
-  assert.equal(listResult.body.data[0]?.caloriesBurned, 390);
-  assert.equal(listResult.body.data[0]?.templateName, "Push A");
-
-  const deleteResult = await requestJson<{ message: string }>("/api/v1/workouts/logs/wk_test_1", {
-    method: "DELETE"
-  });
+      assert.equal(putResult.status, 200);
+      assert.equal(putResult.body.data.id, registerResult.body.user.id);
 
-  assert.equal(deleteResult.status, 200);
-  assert.equal(deleteResult.body.message, "Workout deleted");
+      const getResult = await requestJson<{ data: { id: string } | null }>("/api/v1/profile", {
+        headers: {
+          Authorization: `Bearer ${registerResult.body.token}`
+        }
+      });
 
-  const listAfterDelete = await requestJson<{ count: number }>("/api/v1/workouts/logs");
-  assert.equal(listAfterDelete.body.count, 0);
-});
+      assert.equal(getResult.status, 200);
+      assert.equal(getResult.body.data?.id, registerResult.body.user.id);
+    });
 
-test("sample plan adapts to recent strength frequency", async () => {
-  const baseline = await requestJson<{
-    weeklyPlan: Array<{ day: string; focus: string; durationMinutes: number }>;
-  }>("/api/v1/plans/sample?goal=gain_muscle");
-
-  assert.equal(baseline.status, 200);
-  assert.equal(baseline.body.weeklyPlan.length, 3);
-
-  for (let index = 0; index < 3; index += 1) {
-    const date = new Date();
-    date.setDate(date.getDate() - index);
-
-    const createResult = await requestJson<{ data: { id: string } }>("/api/v1/workouts/logs", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        id: `wk_plan_${index}`,
-        date: toDateKey(date),
+    test("workout create/list/delete works", async () => {
+      const payload = {
+        id: "wk_test_1",
+        date: "2026-02-16",
         workoutType: "strength",
-        durationMinutes: 55,
+        durationMinutes: 48,
         exerciseEntries: [
           {
-            id: `ex_plan_${index}`,
+            id: "ex_test_1",
             name: "Barbell Bench Press",
-            sets: 4,
-            reps: 6,
-            weightKg: 70 + index
+            sets: [
+              { reps: 8, weightKg: 40, isWarmup: true },
+              { reps: 5, weightKg: 80, rpe: 9 },
+              { reps: 8, weightKg: 70, rir: 2 },
+              { reps: 8, weightKg: 70, rir: 1 }
+            ]
+          },
+          {
+            id: "ex_test_2",
+            name: "Cable Row",
+            sets: [{ reps: 10 }, { reps: 10 }, { reps: 9 }]
           }
         ],
-        intensityRpe: 8,
+        intensityRpe: 8.5,
+        caloriesBurned: 390,
+        templateName: "Push A",
+        notes: "solid session",
         createdAt: new Date().toISOString()
-      })
+      };
+
+      const createResult = await requestJson<{ data: { id: string } }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(payload)
+      });
+
+      assert.equal(createResult.status, 201);
+      assert.equal(createResult.body.data.id, payload.id);
+
+      const listResult = await requestJson<{
+        count: number;
+        data: Array<{
+          id: string;
+          exerciseEntries: Array<{
+            name: string;
+            sets: Array<{ reps: number; weightKg?: number; rpe?: number; rir?: number; isWarmup?: boolean }>;
+          }>;
+          intensityRpe?: number;
+          caloriesBurned?: number;
+          templateName?: string;
+        }>;
+      }>("/api/v1/workouts/logs");
+      assert.equal(listResult.status, 200);
+      assert.equal(listResult.body.count, 1);
+      assert.equal(listResult.body.data[0]?.exerciseEntries.length, 2);
+      assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.name, "Barbell Bench Press");
+      assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.sets.length, 4);
+      assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.sets[0]?.isWarmup, true);
+      assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.sets[1]?.rpe, 9);
+      assert.equal(listResult.body.data[0]?.exerciseEntries[0]?.sets[3]?.rir, 1);
+      assert.equal(listResult.body.data[0]?.intensityRpe, 8.5);
+      assert.equal(listResult.body.data[0]?.caloriesBurned, 390);
+      assert.equal(listResult.body.data[0]?.templateName, "Push A");
+
+      const deleteResult = await requestJson<{ message: string }>("/api/v1/workouts/logs/wk_test_1", {
+        method: "DELETE"
+      });
+
+      assert.equal(deleteResult.status, 200);
+      assert.equal(deleteResult.body.message, "Workout deleted");
+
+      const listAfterDelete = await requestJson<{ count: number }>("/api/v1/workouts/logs");
+      assert.equal(listAfterDelete.body.count, 0);
     });
 
-    assert.equal(createResult.status, 201);
-  }
+    test("workout history is paged with a cursor and can be filtered", async () => {
+      const workouts = [
+        { id: "wk_hist_1", date: "2026-02-01", workoutType: "strength", templateName: "Push A", exercise: "Bench Press" },
+        { id: "wk_hist_2", date: "2026-02-03", workoutType: "cardio", exercise: "Rowing Intervals" },
+        { id: "wk_hist_3", date: "2026-02-05", workoutType: "strength", templateName: "Pull A", exercise: "Barbell Row" },
+        { id: "wk_hist_4", date: "2026-02-07", workoutType: "strength", templateName: "push a", exercise: "Incline Bench Press" },
+        { id: "wk_hist_5", date: "2026-02-09", workoutType: "mobility", exercise: "Hip Flow" }
+      ];
+      for (const workout of workouts) {
+        await requestJson("/api/v1/workouts/logs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            id: workout.id,
+            date: workout.date,
+            workoutType: workout.workoutType,
+            durationMinutes: 45,
+            templateName: workout.templateName,
+            exerciseEntries: [{ id: `ex_${workout.id}`, name: workout.exercise, sets: [{ reps: 8 }] }]
+          })
+        });
+      }
 
-  const progressed = await requestJson<{
-    weeklyPlan: Array<{ day: string; focus: string; durationMinutes: number }>;
-  }>("/api/v1/plans/sample?goal=gain_muscle");
+      type HistoryPage = { count: number; data: Array<{ id: string }>; nextCursor: string | null };
+      const firstPage = await requestJson<HistoryPage>("/api/v1/workouts/logs?limit=2");
+      assert.equal(firstPage.status, 200);
+      assert.equal(firstPage.body.count, 5);
+      assert.deepEqual(firstPage.body.data.map((entry) => entry.id), ["wk_hist_5", "wk_hist_4"]);
+      assert.ok(firstPage.body.nextCursor);
+
+      const secondPage = await requestJson<HistoryPage>(
+        `/api/v1/workouts/logs?limit=2&cursor=${firstPage.body.nextCursor}`
+      );
+      assert.deepEqual(secondPage.body.data.map((entry) => entry.id), ["wk_hist_3", "wk_hist_2"]);
+      const lastPage = await requestJson<HistoryPage>(`/api/v1/workouts/logs?limit=2&cursor=${secondPage.body.nextCursor}`);
+      assert.deepEqual(lastPage.body.data.map((entry) => entry.id), ["wk_hist_1"]);
+      assert.equal(lastPage.body.nextCursor, null);
+
+      const filtered = await requestJson<HistoryPage>(
+        "/api/v1/workouts/logs?from=2026-02-02&to=2026-02-08&workoutType=strength"
+      );
+      assert.deepEqual(filtered.body.data.map((entry) => entry.id), ["wk_hist_4", "wk_hist_3"]);
+      const byTemplate = await requestJson<HistoryPage>("/api/v1/workouts/logs?templateName=Push%20A");
+      assert.deepEqual(byTemplate.body.data.map((entry) => entry.id), ["wk_hist_4", "wk_hist_1"]);
+      const byExercise = await requestJson<HistoryPage>("/api/v1/workouts/logs?exercise=bench");
+      assert.equal(byExercise.body.count, 2);
+      const bySearch = await requestJson<HistoryPage>("/api/v1/workouts/logs?q=PULL&limit=1");
+      assert.deepEqual(bySearch.body.data.map((entry) => entry.id), ["wk_hist_3"]);
+      assert.equal(bySearch.body.nextCursor, null);
+      const unpaged = await requestJson<HistoryPage>("/api/v1/workouts/logs");
+      assert.equal(unpaged.body.data.length, 5);
+      assert.equal(unpaged.body.nextCursor, null);
+
+      const badCursor = await requestJson<{ message: string }>("/api/v1/workouts/logs?cursor=nonsense");
+      assert.equal(badCursor.status, 400);
+      const badRange = await requestJson<{ message: string }>("/api/v1/workouts/logs?from=2026-03-01&to=2026-02-01");
+      assert.equal(badRange.status, 400);
+
+      const single = await requestJson<{ data: { id: string; templateName?: string } }>("/api/v1/workouts/logs/wk_hist_3");
+      assert.equal(single.status, 200);
+      assert.equal(single.body.data.templateName, "Pull A");
+      const missing = await requestJson<{ message: string }>("/api/v1/workouts/logs/wk_missing");
+      assert.equal(missing.status, 404);
+    });
 
-  assert.equal(progressed.status, 200);
-  assert.equal(progressed.body.weeklyPlan.length, 4);
-});
+    test("analytics summarize volume, exercise history and streaks on the server", async () => {
+      // 2026-03-04 is a Wednesday; the week before runs 2026-02-23 to 2026-03-01.
+      const sessions = [
+        { id: "wk_an_1", date: "2026-02-27", bench: [60, 60, 60] },
+        { id: "wk_an_2", date: "2026-03-02", bench: [62.5, 62.5, 62.5] },
+        { id: "wk_an_3", date: "2026-03-03", bench: [65, 65] },
+        { id: "wk_an_4", date: "2026-03-04", bench: [] }
+      ];
+      for (const session of sessions) {
+        await requestJson("/api/v1/workouts/logs", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            id: session.id,
+            date: session.date,
+            workoutType: session.bench.length ? "strength" : "mobility",
+            durationMinutes: 50,
+            exerciseEntries: session.bench.length
+              ? [
+                  {
+                    id: `ex_${session.id}`,
+                    name: session.id === "wk_an_3" ? "  barbell  bench press" : "Barbell Bench Press",
+                    sets: [{ reps: 5, weightKg: 40, isWarmup: true }, ...session.bench.map((weightKg) => ({ reps: 5, weightKg }))]
+                  }
+                ]
+              : []
+          })
+        });
+      }
 
-test("nutrition put/delete works", async () => {
-  const putResult = await requestJson<{ message: string }>("/api/v1/nutrition/logs/2026-02-16", {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({
-      calories: 2200,
-      protein: 140,
-      carbs: 250,
-      fat: 70,
-      waterLiters: 2.5
-    })
-  });
+      const volume = await requestJson<{
+        goal: string | null;
+        data: Array<{
+          weekStart: string;
+          workouts: number;
+          workingSets: number;
+          volumeLoadKg: number;
+          muscleGroups: Array<{ group: string; sets: number }>;
+        }>;
+      }>("/api/v1/analytics/volume?weeks=2&date=2026-03-04");
+      assert.equal(volume.status, 200);
+      assert.deepEqual(volume.body.data.map((week) => week.weekStart), ["2026-02-23", "2026-03-02"]);
+      assert.equal(volume.body.data[0].workingSets, 3);
+      assert.equal(volume.body.data[1].workouts, 2);
+      assert.equal(volume.body.data[1].volumeLoadKg, Math.round(3 * 5 * 62.5 + 2 * 5 * 65));
+      assert.equal(volume.body.data[1].muscleGroups.find((entry) => entry.group === "chest")?.sets, 5);
+      assert.equal(volume.body.data[1].muscleGroups.find((entry) => entry.group === "triceps")?.sets, 2.5);
+
+      const history = await requestJson<{
+        data: { name: string; points: Array<{ date: string; topSet: { weightKg: number }; workingSets: number }> };
+      }>("/api/v1/analytics/exercises/BB%20Bench/history");
+      assert.equal(history.status, 200);
+      assert.equal(history.body.data.name, "Barbell Bench Press");
+      assert.deepEqual(history.body.data.points.map((point) => point.date), ["2026-02-27", "2026-03-02", "2026-03-03"]);
+      assert.equal(history.body.data.points[2].topSet.weightKg, 65);
+      assert.equal(history.body.data.points[2].workingSets, 2);
+
+      const streaks = await requestJson<{
+        data: { currentDays: number; longestDays: number; currentWeeks: number; workoutsThisWeek: number; lastWorkoutDate: string };
+      }>("/api/v1/analytics/streaks?date=2026-03-05");
+      assert.equal(streaks.status, 200);
+      assert.deepEqual(streaks.body.data, {
+        currentDays: 3,
+        longestDays: 3,
+        currentWeeks: 2,
+        workoutsThisWeek: 3,
+        lastWorkoutDate: "2026-03-04"
+      });
 
-  assert.equal(putResult.status, 200);
+      const invalid = await requestJson<{ message: string }>("/api/v1/analytics/volume?weeks=0");
+      assert.equal(invalid.status, 400);
+    });
 
-  const deleteResult = await requestJson<{ message: string }>("/api/v1/nutrition/logs/2026-02-16", {
-    method: "DELETE"
-  });
+    test("program enrollment prescribes the day's session with deload weeks", async () => {
+      const programs = await requestJson<{ count: number; data: Array<{ id: string }> }>("/api/v1/programs");
+      assert.equal(programs.status, 200);
+      assert.ok(programs.body.data.some((program) => program.id === "full_body_3x"));
 
-  assert.equal(deleteResult.status, 200);
-  assert.equal(deleteResult.body.message, "Nutrition deleted");
-});
+      const notEnrolled = await requestJson<{ message: string }>("/api/v1/programs/today");
+      assert.equal(notEnrolled.status, 404);
 
-test("progress post/delete and snapshot consistency works", async () => {
-  const progressPayload = {
-    id: "prog_test_1",
-    date: "2026-02-16",
-    weightKg: 72.4,
-    bodyFatPct: 16.2,
-    waistCm: 80
-  };
+      const unknown = await requestJson<{ message: string }>("/api/v1/programs/enrollment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ programId: "nope" })
+      });
+      assert.equal(unknown.status, 404);
 
-  const createResult = await requestJson<{ message: string }>("/api/v1/progress/entries", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify(progressPayload)
-  });
-  assert.equal(createResult.status, 201);
+      // 2026-03-04 is a Wednesday, so week 1 runs from Monday 2026-03-02.
+      const enrolled = await requestJson<{ data: { programId: string; startDate: string } }>("/api/v1/programs/enrollment", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ programId: "full_body_3x", startDate: "2026-03-04" })
+      });
+      assert.equal(enrolled.status, 201);
+      assert.deepEqual(
+        { programId: enrolled.body.data.programId, startDate: enrolled.body.data.startDate },
+        { programId: "full_body_3x", startDate: "2026-03-04" }
+      );
+
+      type ProgramDayBody = {
+        data: {
+          week: number;
+          isDeload: boolean;
+          session: { name: string; exercises: Array<{ name: string; sets: number; targetRpe: number }> } | null;
+          nextSession: { date: string; name: string } | null;
+        } | null;
+      };
+      const firstDay = await requestJson<ProgramDayBody>("/api/v1/programs/today?date=2026-03-04");
+      assert.equal(firstDay.status, 200);
+      assert.equal(firstDay.body.data?.week, 1);
+      assert.equal(firstDay.body.data?.session?.name, "Full Body B");
+      assert.deepEqual(firstDay.body.data?.nextSession, { date: "2026-03-06", name: "Full Body C" });
+
+      const restDay = await requestJson<ProgramDayBody>("/api/v1/programs/today?date=2026-03-10");
+      assert.equal(restDay.body.data?.session, null);
+
+      const secondWeek = await requestJson<ProgramDayBody>("/api/v1/programs/today?date=2026-03-09");
+      const squat = secondWeek.body.data?.session?.exercises.find((exercise) => exercise.name === "Back Squat");
+      assert.deepEqual({ sets: squat?.sets, targetRpe: squat?.targetRpe }, { sets: 3, targetRpe: 7.5 });
+
+      const deload = await requestJson<ProgramDayBody>("/api/v1/programs/today?date=2026-03-23");
+      assert.equal(deload.body.data?.week, 4);
+      assert.equal(deload.body.data?.isDeload, true);
+      const deloadSquat = deload.body.data?.session?.exercises.find((exercise) => exercise.name === "Back Squat");
+      assert.deepEqual({ sets: deloadSquat?.sets, targetRpe: deloadSquat?.targetRpe }, { sets: 2, targetRpe: 5 });
+
+      const beforeStart = await requestJson<ProgramDayBody>("/api/v1/programs/today?date=2026-03-01");
+      assert.equal(beforeStart.body.data, null);
+
+      const left = await requestJson<{ message: string }>("/api/v1/programs/enrollment", { method: "DELETE" });
+      assert.equal(left.status, 200);
+      const current = await requestJson<{ data: unknown }>("/api/v1/programs/enrollment");
+      assert.equal(current.body.data, null);
+    });
 
-  const snapshotBeforeDelete = await requestJson<{
-    progressEntries: Array<{ id: string }>;
-  }>("/api/v1/sync/snapshot");
-  assert.equal(snapshotBeforeDelete.status, 200);
-  assert.equal(snapshotBeforeDelete.body.progressEntries.length, 1);
+    test("food-level nutrition logs derive day totals and search custom foods", async () => {
+      const reserved = await requestJson<{ message: string }>("/api/v1/nutrition/foods/custom/db_oats", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Oats", servingSize: 40, servingUnit: "g", calories: 150, protein: 5, carbs: 27, fat: 3 })
+      });
+      assert.equal(reserved.status, 400);
+      const reservedDelete = await requestJson("/api/v1/nutrition/foods/custom/db_oats", { method: "DELETE" });
+      assert.equal(reservedDelete.status, 400);
+
+      const saved = await requestJson<{ data: { id: string; name: string; userId?: string } }>(
+        "/api/v1/nutrition/foods/custom/food_prep_bowl",
+        {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name: "Chicken Rice Prep Bowl",
+            servingSize: 1,
+            servingUnit: "bowl",
+            calories: 520,
+            protein: 45,
+            carbs: 60,
+            fat: 10
+          })
+        }
+      );
+      assert.equal(saved.status, 200);
+      assert.equal(saved.body.data.userId, undefined);
+
+      const search = await requestJson<{ data: Array<{ id: string }> }>("/api/v1/nutrition/foods?q=chicken");
+      assert.equal(search.status, 200);
+      assert.deepEqual(
+        search.body.data.slice(0, 3).map((food) => food.id),
+        ["food_prep_bowl", "db_chicken_breast", "db_chicken_thigh"]
+      );
+
+      const logged = await requestJson<{
+        data: { calories: number; protein: number; waterLiters: number; items: Array<{ meal: string; name: string }> };
+      }>("/api/v1/nutrition/logs/2026-03-05", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          // Totals the client sends are replaced by the sum of the items.
+          calories: 9999,
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          waterLiters: 2,
+          items: [
+            { id: "i1", meal: "breakfast", foodId: "db_egg", name: "Egg, whole", servings: 2, calories: 144, protein: 12.6, carbs: 0.8, fat: 9.6 },
+            { id: "i2", meal: "lunch", foodId: "food_prep_bowl", name: "Chicken Rice Prep Bowl", servings: 1, calories: 520, protein: 45, carbs: 60, fat: 10 }
+          ]
+        })
+      });
+      assert.equal(logged.status, 200);
+      assert.equal(logged.body.data.calories, 664);
+      assert.equal(logged.body.data.protein, 57.6);
+      assert.equal(logged.body.data.waterLiters, 2);
+
+      const logs = await requestJson<{ data: Record<string, { items: Array<{ meal: string }> }> }>("/api/v1/nutrition/logs");
+      assert.deepEqual(logs.body.data["2026-03-05"]?.items.map((item) => item.meal), ["breakfast", "lunch"]);
+
+      const badMeal = await requestJson<{ message: string }>("/api/v1/nutrition/logs/2026-03-05", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          calories: 0,
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          waterLiters: 0,
+          items: [{ id: "i3", meal: "brunch", foodId: null, name: "Toast", servings: 1, calories: 80, protein: 3, carbs: 14, fat: 1 }]
+        })
+      });
+      assert.equal(badMeal.status, 400);
 
-  const deleteResult = await requestJson<{ message: string }>("/api/v1/progress/entries/prog_test_1", {
-    method: "DELETE"
-  });
-  assert.equal(deleteResult.status, 200);
-  assert.equal(deleteResult.body.message, "Progress deleted");
-
-  const snapshotAfterDelete = await requestJson<{
-    progressEntries: Array<{ id: string }>;
-  }>("/api/v1/sync/snapshot");
-  assert.equal(snapshotAfterDelete.status, 200);
-  assert.equal(snapshotAfterDelete.body.progressEntries.length, 0);
-});
+      const removed = await requestJson<{ message: string }>("/api/v1/nutrition/foods/custom/food_prep_bowl", {
+        method: "DELETE"
+      });
+      assert.equal(removed.status, 200);
+      const missing = await requestJson<{ message: string }>("/api/v1/nutrition/foods/custom/food_prep_bowl", {
+        method: "DELETE"
+      });
+      assert.equal(missing.status, 404);
 
-test("auth register/login/me works", async () => {
-  const unique = Date.now().toString(36);
-  const email = `tester_${unique}@example.com`;
-  const password = "password123";
-
-  const registerResult = await requestJson<{
-    token: string;
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/register", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({ email, password })
-  });
+      // The day keeps the bowl it logged even though the food is gone.
+      const after = await requestJson<{ data: Record<string, { calories: number }> }>("/api/v1/nutrition/logs");
+      assert.equal(after.body.data["2026-03-05"]?.calories, 664);
+    });
 
-  assert.equal(registerResult.status, 201);
-  assert.equal(registerResult.body.user.email, email);
-  assert.equal(typeof registerResult.body.token, "string");
-
-  const loginResult = await requestJson<{
-    token: string;
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/login", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json"
-    },
-    body: JSON.stringify({ email, password })
-  });
+    test("recipes compute per-serving macros and saved meals can be edited without touching logged days", async () => {
+      const chili = {
+        name: "Turkey Chili",
+        yieldServings: 4,
+        ingredients: [
+          { id: "g1", foodId: "db_turkey_breast", name: "Turkey Breast, roasted", servings: 5, calories: 675, protein: 150, carbs: 0, fat: 5 },
+          { id: "g2", foodId: "db_black_beans", name: "Black Beans, cooked", servings: 4, calories: 528, protein: 35.6, carbs: 94.8, fat: 2 }
+        ]
+      };
+      const saved = await requestJson<{
+        data: { id: string; userId?: string; perServing: { calories: number; protein: number; carbs: number; fat: number } };
+      }>("/api/v1/nutrition/recipes/recipe_chili", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(chili)
+      });
+      assert.equal(saved.status, 200);
+      assert.equal(saved.body.data.userId, undefined);
+      assert.deepEqual(saved.body.data.perServing, { calories: 301, protein: 46.4, carbs: 23.7, fat: 1.8, fiber: 0 });
+
+      const empty = await requestJson<{ message: string }>("/api/v1/nutrition/recipes/recipe_empty", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...chili, ingredients: [] })
+      });
+      assert.equal(empty.status, 400);
+      const oversizedRecipeId = await requestJson(`/api/v1/nutrition/recipes/${"r".repeat(81)}`, { method: "DELETE" });
+      assert.equal(oversizedRecipeId.status, 400);
+
+      const search = await requestJson<{ data: Array<{ id: string; servingUnit: string; calories: number }> }>(
+        "/api/v1/nutrition/foods?q=turkey"
+      );
+      assert.equal(search.body.data[0]?.id, "recipe_chili");
+      assert.equal(search.body.data[0]?.servingUnit, "serving");
+      assert.equal(search.body.data[0]?.calories, 301);
+
+      const lunch = { id: "i1", foodId: "recipe_chili", name: "Turkey Chili", servings: 1, calories: 301, protein: 46.4, carbs: 23.7, fat: 1.8 };
+      const meal = await requestJson<{ data: { name: string; items: unknown[] } }>("/api/v1/nutrition/saved-meals/meal_lunch", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Chili Lunch", items: [lunch] })
+      });
+      assert.equal(meal.status, 200);
+      assert.equal(meal.body.data.items.length, 1);
+      const reservedMeal = await requestJson("/api/v1/nutrition/saved-meals/db_lunch", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Chili Lunch", items: [lunch] })
+      });
+      assert.equal(reservedMeal.status, 400);
+      const oversizedMealId = await requestJson(`/api/v1/nutrition/saved-meals/${"m".repeat(81)}`, { method: "DELETE" });
+      assert.equal(oversizedMealId.status, 400);
+
+      const logged = await requestJson<{ data: { calories: number } }>("/api/v1/nutrition/logs/2026-03-06", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          calories: 0,
+          protein: 0,
+          carbs: 0,
+          fat: 0,
+          waterLiters: 1,
+          items: [{ ...lunch, meal: "lunch" }]
+        })
+      });
+      assert.equal(logged.body.data.calories, 301);
 
-  assert.equal(loginResult.status, 200);
-  assert.equal(loginResult.body.user.email, email);
-  assert.equal(typeof loginResult.body.token, "string");
-
-  const meResult = await requestJson<{
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/me", {
-    headers: {
-      Authorization: `Bearer ${loginResult.body.token}`
-    }
-  });
+      // Doubling the batch yield halves a portion; the day already logged keeps its numbers.
+      const edited = await requestJson<{ data: { perServing: { calories: number } } }>("/api/v1/nutrition/recipes/recipe_chili", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...chili, yieldServings: 8 })
+      });
+      assert.equal(edited.body.data.perServing.calories, 150);
+      await requestJson("/api/v1/nutrition/saved-meals/meal_lunch", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: "Chili Lunch", items: [{ ...lunch, servings: 2, calories: 602 }] })
+      });
 
-  assert.equal(meResult.status, 200);
-  assert.equal(meResult.body.user.email, email);
-});
+      const logs = await requestJson<{ data: Record<string, { calories: number }> }>("/api/v1/nutrition/logs");
+      assert.equal(logs.body.data["2026-03-06"]?.calories, 301);
+
+      const recipes = await requestJson<{ count: number; data: Array<{ yieldServings: number }> }>("/api/v1/nutrition/recipes");
+      assert.equal(recipes.body.count, 1);
+      assert.equal(recipes.body.data[0]?.yieldServings, 8);
+      const meals = await requestJson<{ data: Array<{ items: Array<{ servings: number }> }> }>("/api/v1/nutrition/saved-meals");
+      assert.equal(meals.body.data[0]?.items[0]?.servings, 2);
+
+      const removed = await requestJson("/api/v1/nutrition/saved-meals/meal_lunch", { method: "DELETE" });
+      assert.equal(removed.status, 200);
+      const missing = await requestJson("/api/v1/nutrition/saved-meals/meal_lunch", { method: "DELETE" });
+      assert.equal(missing.status, 404);
+      const recipeRemoved = await requestJson("/api/v1/nutrition/recipes/recipe_chili", { method: "DELETE" });
+      assert.equal(recipeRemoved.status, 200);
+    });
 
-test("auth users are data-isolated", async () => {
-  const unique = Date.now().toString(36);
-  const password = "password123";
-
-  const registerA = await requestJson<{
-    token: string;
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/register", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ email: `a_${unique}@example.com`, password })
-  });
-  assert.equal(registerA.status, 201);
-
-  const registerB = await requestJson<{
-    token: string;
-    user: {
-      id: string;
-      email: string;
-    };
-  }>("/api/v1/auth/register", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ email: `b_${unique}@example.com`, password })
-  });
-  assert.equal(registerB.status, 201);
-
-  const profileA = {
-    id: "profile-a",
-    name: "User A",
-    age: 30,
-    heightCm: 175,
-    currentWeightKg: 70,
-    goal: "maintain",
-    dailyCalorieTarget: 2400,
-    proteinTargetGrams: 130
-  };
+    test("legacy sets x reps x weight exercise payloads are expanded into per-set entries", async () => {
+      const createResult = await requestJson<{
+        data: {
+          exerciseEntries: Array<{ sets: Array<{ reps: number; weightKg?: number }> }>;
+        };
+      }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          id: "wk_legacy_1",
+          date: "2026-02-16",
+          workoutType: "strength",
+          durationMinutes: 40,
+          exerciseEntries: [
+            {
+              id: "ex_legacy_1",
+              name: "Back Squat",
+              sets: 3,
+              reps: 5,
+              weightKg: 100
+            }
+          ]
+        })
+      });
 
-  const profileB = {
-    id: "profile-b",
-    name: "User B",
-    age: 26,
-    heightCm: 168,
-    currentWeightKg: 62,
-    goal: "lose_weight",
-    dailyCalorieTarget: 1900,
-    proteinTargetGrams: 110
-  };
+      assert.equal(createResult.status, 201);
+      const sets = createResult.body.data.exerciseEntries[0]?.sets ?? [];
+      assert.equal(sets.length, 3);
+      assert.ok(sets.every((set) => set.reps === 5 && set.weightKg === 100));
+
+      const invalidResult = await requestJson<{ message: string }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          id: "wk_legacy_2",
+          date: "2026-02-16",
+          workoutType: "strength",
+          durationMinutes: 40,
+          exerciseEntries: [{ id: "ex_legacy_2", name: "Back Squat", sets: [] }]
+        })
+      });
 
-  const putProfileA = await requestJson<{ data: { name: string } }>("/api/v1/profile", {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${registerA.body.token}`
-    },
-    body: JSON.stringify(profileA)
-  });
-  assert.equal(putProfileA.status, 200);
-
-  const putProfileB = await requestJson<{ data: { name: string } }>("/api/v1/profile", {
-    method: "PUT",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${registerB.body.token}`
-    },
-    body: JSON.stringify(profileB)
-  });
-  assert.equal(putProfileB.status, 200);
+      assert.equal(invalidResult.status, 400);
+    });
 
-  const snapshotA = await requestJson<{ profile: { name: string } | null }>("/api/v1/sync/snapshot", {
-    headers: {
-      Authorization: `Bearer ${registerA.body.token}`
-    }
+    test("sample plan adapts to recent strength frequency", async () => {
+      const baseline = await requestJson<{
+        weeklyPlan: Array<{ day: string; focus: string; durationMinutes: number }>;
+      }>("/api/v1/plans/sample?goal=gain_muscle");
+
+      assert.equal(baseline.status, 200);
+      assert.equal(baseline.body.weeklyPlan.length, 3);
+
+      for (let index = 0; index < 3; index += 1) {
+        const date = new Date();
+        date.setDate(date.getDate() - index);
+
+        const createResult = await requestJson<{ data: { id: string } }>("/api/v1/workouts/logs", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({
+            id: `wk_plan_${index}`,
+            date: toDateKey(date),
+            workoutType: "strength",
+            durationMinutes: 55,
+            exerciseEntries: [
+              {
+                id: `ex_plan_${index}`,
+                name: "Barbell Bench Press",
+                sets: Array.from({ length: 4 }, () => ({ reps: 6, weightKg: 70 + index }))
+              }
+            ],
+            intensityRpe: 8,
+            createdAt: new Date().toISOString()
+          })
+        });
+
+        assert.equal(createResult.status, 201);
+      }
+
+      const progressed = await requestJson<{
+        weeklyPlan: Array<{ day: string; focus: string; durationMinutes: number }>;
+      }>("/api/v1/plans/sample?goal=gain_muscle");
+
+      assert.equal(progressed.status, 200);
+      assert.equal(progressed.body.weeklyPlan.length, 4);
+    });
+
+    test("nutrition put/delete works", async () => {
+      const putResult = await requestJson<{ message: string }>("/api/v1/nutrition/logs/2026-02-16", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({
+          calories: 2200,
+          protein: 140,
+          carbs: 250,
+          fat: 70,
+          waterLiters: 2.5
+        })
+      });
+
+      assert.equal(putResult.status, 200);
+
+      const deleteResult = await requestJson<{ message: string }>("/api/v1/nutrition/logs/2026-02-16", {
+        method: "DELETE"
+      });
+
+      assert.equal(deleteResult.status, 200);
+      assert.equal(deleteResult.body.message, "Nutrition deleted");
+    });
+
+    test("progress post/delete and snapshot consistency works", async () => {
+      const progressPayload = {
+        id: "prog_test_1",
+        date: "2026-02-16",
+        weightKg: 72.4,
+        bodyFatPct: 16.2,
+        waistCm: 80
+      };
+
+      const createResult = await requestJson<{ message: string }>("/api/v1/progress/entries", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify(progressPayload)
+      });
+      assert.equal(createResult.status, 201);
+
+      const snapshotBeforeDelete = await requestJson<{
+        progressEntries: Array<{ id: string }>;
+      }>("/api/v1/sync/snapshot");
+      assert.equal(snapshotBeforeDelete.status, 200);
+      assert.equal(snapshotBeforeDelete.body.progressEntries.length, 1);
+
+      const deleteResult = await requestJson<{ message: string }>("/api/v1/progress/entries/prog_test_1", {
+        method: "DELETE"
+      });
+      assert.equal(deleteResult.status, 200);
+      assert.equal(deleteResult.body.message, "Progress deleted");
+
+      const snapshotAfterDelete = await requestJson<{
+        progressEntries: Array<{ id: string }>;
+      }>("/api/v1/sync/snapshot");
+      assert.equal(snapshotAfterDelete.status, 200);
+      assert.equal(snapshotAfterDelete.body.progressEntries.length, 0);
+    });
+
+    test("sync changes returns only records changed after the cursor, with tombstones", async () => {
+      interface ChangesBody {
+        cursor: string;
+        changes: {
+          profile?: { name: string } | null;
+          workouts: Array<{ id: string }>;
+          nutritionByDate: Record<string, { calories: number }>;
+          progressEntries: Array<{ id: string }>;
+          deletedWorkoutIds: string[];
+          deletedNutritionDates: string[];
+          deletedProgressIds: string[];
+        };
+      }
+
+      const initial = await requestJson<ChangesBody>("/api/v1/sync/changes");
+      assert.equal(initial.status, 200);
+      assert.equal(initial.body.changes.workouts.length, 0);
+      assert.ok("profile" in initial.body.changes);
+
+      const jsonHeaders = { "Content-Type": "application/json" };
+      await requestJson("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          id: "wk_delta_1",
+          date: "2026-02-16",
+          workoutType: "cardio",
+          durationMinutes: 30,
+          exerciseEntries: []
+        })
+      });
+      await requestJson("/api/v1/nutrition/logs/2026-02-16", {
+        method: "PUT",
+        headers: jsonHeaders,
+        body: JSON.stringify({ calories: 2100, protein: 150, carbs: 200, fat: 60, waterLiters: 2 })
+      });
+
+      const afterWrites = await requestJson<ChangesBody>(`/api/v1/sync/changes?since=${initial.body.cursor}`);
+      assert.equal(afterWrites.status, 200);
+      assert.ok(Number(afterWrites.body.cursor) > Number(initial.body.cursor));
+      assert.equal("profile" in afterWrites.body.changes, false);
+      assert.deepEqual(afterWrites.body.changes.workouts.map((entry) => entry.id), ["wk_delta_1"]);
+      assert.equal(afterWrites.body.changes.nutritionByDate["2026-02-16"]?.calories, 2100);
+      assert.equal(afterWrites.body.changes.progressEntries.length, 0);
+
+      await requestJson("/api/v1/workouts/logs/wk_delta_1", { method: "DELETE" });
+
+      const afterDelete = await requestJson<ChangesBody>(`/api/v1/sync/changes?since=${afterWrites.body.cursor}`);
+      assert.equal(afterDelete.status, 200);
+      assert.equal(afterDelete.body.changes.workouts.length, 0);
+      assert.equal(Object.keys(afterDelete.body.changes.nutritionByDate).length, 0);
+      assert.deepEqual(afterDelete.body.changes.deletedWorkoutIds, ["wk_delta_1"]);
+
+      const unchanged = await requestJson<ChangesBody>(`/api/v1/sync/changes?since=${afterDelete.body.cursor}`);
+      assert.equal(unchanged.body.cursor, afterDelete.body.cursor);
+      assert.equal(unchanged.body.changes.deletedWorkoutIds.length, 0);
+
+      const invalid = await requestJson<{ message: string }>("/api/v1/sync/changes?since=abc");
+      assert.equal(invalid.status, 400);
+    });
+
+    test("sync batch applies ordered upserts and deletes with per-item results", async () => {
+      await requestJson("/api/v1/progress/entries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: "prog_batch_old", date: "2026-02-10", weightKg: 75 })
+      });
+
+      const batch = await requestJson<{
+        appliedCount: number;
+        rejectedCount: number;
+        results: Array<{ index: number; entity: string | null; key: string | null; status: string; message: string }>;
+      }>("/api/v1/sync/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          operations: [
+            {
+              op: "upsert",
+              entity: "workout",
+              data: {
+                id: "wk_batch_1",
+                date: "2026-02-16",
+                workoutType: "strength",
+                durationMinutes: 50,
+                exerciseEntries: [{ id: "ex_batch_1", name: "Back Squat", sets: [{ reps: 5, weightKg: 100 }] }]
+              }
+            },
+            {
+              op: "upsert",
+              entity: "nutrition",
+              data: { date: "2026-02-16", calories: 2300, protein: 160, carbs: 240, fat: 70, waterLiters: 3 }
+            },
+            { op: "upsert", entity: "progress", data: { id: "prog_batch_bad", date: "2026-02-16", weightKg: -1 } },
+            { op: "delete", entity: "progress", key: "prog_batch_old" },
+            { op: "delete", entity: "workout", key: "wk_missing" },
+            { op: "rename", entity: "workout", key: "wk_batch_1" }
+          ]
+        })
+      });
+
+      assert.equal(batch.status, 200);
+      assert.equal(batch.body.appliedCount, 4);
+      assert.equal(batch.body.rejectedCount, 2);
+      assert.deepEqual(
+        batch.body.results.map((result) => result.status),
+        ["applied", "applied", "rejected", "applied", "applied", "rejected"]
+      );
+      assert.equal(batch.body.results[1]?.key, "2026-02-16");
+      assert.equal(batch.body.results[2]?.entity, "progress");
+      assert.equal(batch.body.results[4]?.message, "Workout not found");
+
+      const snapshot = await requestJson<{
+        workouts: Array<{ id: string; syncedAt: string | null }>;
+        nutritionByDate: Record<string, { calories: number }>;
+        progressEntries: Array<{ id: string }>;
+      }>("/api/v1/sync/snapshot");
+      assert.deepEqual(snapshot.body.workouts.map((entry) => entry.id), ["wk_batch_1"]);
+      assert.equal(typeof snapshot.body.workouts[0]?.syncedAt, "string");
+      assert.equal(snapshot.body.nutritionByDate["2026-02-16"]?.calories, 2300);
+      assert.equal(snapshot.body.progressEntries.length, 0);
+
+      const empty = await requestJson<{ message: string }>("/api/v1/sync/batch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operations: [] })
+      });
+      assert.equal(empty.status, 400);
+    });
+
+    test("stale versioned writes are rejected with 409 and the current server copy", async () => {
+      const jsonHeaders = { "Content-Type": "application/json" };
+      const workout = {
+        id: "wk_versioned",
+        date: "2026-02-16",
+        workoutType: "strength",
+        durationMinutes: 40,
+        exerciseEntries: [],
+        notes: "first"
+      };
+
+      const created = await requestJson<{ data: { version: number; updatedAt: string } }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify(workout)
+      });
+      assert.equal(created.status, 201);
+      assert.equal(created.body.data.version, 1);
+      assert.equal(typeof created.body.data.updatedAt, "string");
+
+      const phoneA = await requestJson<{ data: { version: number } }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...workout, notes: "edited on phone A", version: 1 })
+      });
+      assert.equal(phoneA.status, 201);
+      assert.equal(phoneA.body.data.version, 2);
+
+      const phoneB = await requestJson<{ message: string; data: { version: number; notes: string } }>("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...workout, notes: "edited on phone B", version: 1 })
+      });
+      assert.equal(phoneB.status, 409);
+      assert.equal(phoneB.body.data.version, 2);
+      assert.equal(phoneB.body.data.notes, "edited on phone A");
+
+      await requestJson("/api/v1/nutrition/logs/2026-02-16", {
+        method: "PUT",
+        headers: jsonHeaders,
+        body: JSON.stringify({ calories: 2000, protein: 140, carbs: 200, fat: 60, waterLiters: 2 })
+      });
+      const staleNutrition = await requestJson<{ data: { calories: number } }>("/api/v1/nutrition/logs/2026-02-16", {
+        method: "PUT",
+        headers: jsonHeaders,
+        body: JSON.stringify({ calories: 1800, protein: 140, carbs: 200, fat: 60, waterLiters: 2, version: 0 })
+      });
+      assert.equal(staleNutrition.status, 409);
+      assert.equal(staleNutrition.body.data.calories, 2000);
+
+      const batch = await requestJson<{ results: Array<{ status: string; data: { version: number } }> }>("/api/v1/sync/batch", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          operations: [
+            { op: "upsert", entity: "workout", data: { ...workout, notes: "stale batch", version: 1 } },
+            { op: "upsert", entity: "workout", data: { ...workout, notes: "current batch", version: 2 } }
+          ]
+        })
+      });
+      assert.equal(batch.status, 200);
+      assert.deepEqual(
+        batch.body.results.map((result) => result.status),
+        ["conflict", "applied"]
+      );
+      assert.equal(batch.body.results[1]?.data.version, 3);
+    });
+
+    test("unversioned overwrites and edits of deleted records are reported as conflicts", async () => {
+      const jsonHeaders = { "Content-Type": "application/json" };
+      const entry = { id: "prog_versioned", date: "2026-02-17", weightKg: 81.2 };
+
+      const created = await requestJson<{ data: { version: number } }>("/api/v1/progress/entries", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify(entry)
+      });
+      assert.equal(created.body.data.version, 1);
+
+      const blind = await requestJson<{ data: { weightKg: number } }>("/api/v1/progress/entries", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...entry, weightKg: 79 })
+      });
+      assert.equal(blind.status, 409);
+      assert.equal(blind.body.data.weightKg, 81.2);
+
+      const removed = await fetch(`${baseUrl}/api/v1/progress/entries/${entry.id}`, { method: "DELETE" });
+      assert.equal(removed.status, 200);
+
+      const staleEdit = await requestJson<{ message: string; data: null }>("/api/v1/progress/entries", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...entry, weightKg: 80.5, version: 1 })
+      });
+      assert.equal(staleEdit.status, 409);
+      assert.equal(staleEdit.body.data, null);
+      assert.match(staleEdit.body.message, /deleted/);
+
+      const batch = await requestJson<{ results: Array<{ status: string; data?: unknown }> }>("/api/v1/sync/batch", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({
+          operations: [{ op: "upsert", entity: "progress", data: { ...entry, weightKg: 80.5, version: 1 } }]
+        })
+      });
+      assert.equal(batch.body.results[0]?.status, "conflict");
+      assert.equal(batch.body.results[0]?.data, undefined);
+
+      // Without a version the client is creating the record on purpose, e.g. after choosing its own copy.
+      const recreated = await requestJson<{ data: { version: number } }>("/api/v1/progress/entries", {
+        method: "POST",
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...entry, weightKg: 80.5 })
+      });
+      assert.equal(recreated.status, 201);
+      assert.equal(recreated.body.data.version, 1);
+    });
+
+    test("auth register/login/me works", async () => {
+      const unique = Date.now().toString(36);
+      const email = `tester_${unique}@example.com`;
+      const password = "password123";
+
+      const registerResult = await requestJson<{
+        token: string;
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ email, password })
+      });
+
+      assert.equal(registerResult.status, 201);
+      assert.equal(registerResult.body.user.email, email);
+      assert.equal(typeof registerResult.body.token, "string");
+
+      const loginResult = await requestJson<{
+        token: string;
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json"
+        },
+        body: JSON.stringify({ email, password })
+      });
+
+      assert.equal(loginResult.status, 200);
+      assert.equal(loginResult.body.user.email, email);
+      assert.equal(typeof loginResult.body.token, "string");
+
+      const meResult = await requestJson<{
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/me", {
+        headers: {
+          Authorization: `Bearer ${loginResult.body.token}`
+        }
+      });
+
+      assert.equal(meResult.status, 200);
+      assert.equal(meResult.body.user.email, email);
+    });
+
+    test("expired access tokens refresh with single-use refresh tokens until the session idles out", async () => {
+      const email = `refresh_${Date.now().toString(36)}@example.com`;
+      const registered = await requestJson<{ token: string; refreshToken: string; expiresAt: string }>(
+        "/api/v1/auth/register",
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password: "password123" })
+        }
+      );
+      assert.equal(registered.status, 201);
+      assert.equal(typeof registered.body.refreshToken, "string");
+
+      mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      try {
+        mock.timers.tick(61 * 60 * 1000);
+
+        const expired = await requestJson<{ message: string }>("/api/v1/auth/me", {
+          headers: { Authorization: `Bearer ${registered.body.token}` }
+        });
+        assert.equal(expired.status, 401);
+
+        const refresh = (refreshToken: string) =>
+          requestJson<{ token: string; refreshToken: string; expiresAt: string }>("/api/v1/auth/refresh", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ refreshToken })
+          });
+
+        const refreshed = await refresh(registered.body.refreshToken);
+        assert.equal(refreshed.status, 200);
+        assert.notEqual(refreshed.body.token, registered.body.token);
+        assert.notEqual(refreshed.body.refreshToken, registered.body.refreshToken);
+        assert.ok(Date.parse(refreshed.body.expiresAt) > Date.now());
+
+        const replayed = await refresh(registered.body.refreshToken);
+        assert.equal(replayed.status, 401);
+
+        const me = await requestJson<{ user: { email: string } }>("/api/v1/auth/me", {
+          headers: { Authorization: `Bearer ${refreshed.body.token}` }
+        });
+        assert.equal(me.status, 200);
+        assert.equal(me.body.user.email, email);
+
+        mock.timers.tick(31 * 24 * 60 * 60 * 1000);
+        const idle = await refresh(refreshed.body.refreshToken);
+        assert.equal(idle.status, 401);
+      } finally {
+        mock.timers.reset();
+      }
+    });
+
+    test("sessions list signed-in devices and sign out everywhere else", async () => {
+      const email = `devices_${Date.now().toString(36)}@example.com`;
+      const password = "password123";
+
+      const phone = await requestJson<{ token: string }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password, deviceName: "Phone" })
+      });
+      const tablet = await requestJson<{ token: string }>("/api/v1/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password, deviceName: "Tablet" })
+      });
+      assert.equal(phone.status, 201);
+      assert.equal(tablet.status, 200);
+
+      const tabletHeaders = { Authorization: `Bearer ${tablet.body.token}` };
+      const listed = await requestJson<{ sessions: Array<{ deviceName: string; current: boolean }> }>(
+        "/api/v1/auth/sessions",
+        { headers: tabletHeaders }
+      );
+      assert.equal(listed.status, 200);
+      assert.deepEqual(
+        listed.body.sessions.map((session) => [session.deviceName, session.current]).sort(),
+        [
+          ["Phone", false],
+          ["Tablet", true]
+        ]
+      );
+
+      const revoked = await requestJson<{ revokedCount: number }>("/api/v1/auth/sessions", {
+        method: "DELETE",
+        headers: tabletHeaders
+      });
+      assert.equal(revoked.status, 200);
+      assert.equal(revoked.body.revokedCount, 1);
+
+      const phoneMe = await requestJson("/api/v1/auth/me", {
+        headers: { Authorization: `Bearer ${phone.body.token}` }
+      });
+      assert.equal(phoneMe.status, 401);
+
+      const remaining = await requestJson<{ sessions: Array<{ deviceName: string }> }>("/api/v1/auth/sessions", {
+        headers: tabletHeaders
+      });
+      assert.deepEqual(
+        remaining.body.sessions.map((session) => session.deviceName),
+        ["Tablet"]
+      );
+    });
+
+    test("changing the password requires the current one and signs out other devices", async () => {
+      const email = `password_${Date.now().toString(36)}@example.com`;
+      const login = (password: string, deviceName: string) =>
+        requestJson<{ token: string }>("/api/v1/auth/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password, deviceName })
+        });
+
+      const phone = await requestJson<{ token: string }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123", deviceName: "Phone" })
+      });
+      const tablet = await login("password123", "Tablet");
+      assert.equal(tablet.status, 200);
+
+      const change = (currentPassword: string) =>
+        requestJson<{ message: string; revokedCount?: number }>("/api/v1/auth/password", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${phone.body.token}`
+          },
+          body: JSON.stringify({ currentPassword, newPassword: "newpassword456" })
+        });
+
+      const wrong = await change("not-my-password");
+      assert.equal(wrong.status, 403);
+
+      const changed = await change("password123");
+      assert.equal(changed.status, 200);
+      assert.equal(changed.body.revokedCount, 1);
+
+      const tabletMe = await requestJson("/api/v1/auth/me", {
+        headers: { Authorization: `Bearer ${tablet.body.token}` }
+      });
+      assert.equal(tabletMe.status, 401);
+
+      const phoneMe = await requestJson("/api/v1/auth/me", {
+        headers: { Authorization: `Bearer ${phone.body.token}` }
+      });
+      assert.equal(phoneMe.status, 200);
+
+      assert.equal((await login("password123", "Laptop")).status, 401);
+      assert.equal((await login("newpassword456", "Laptop")).status, 200);
+    });
+
+    test("password reset codes are mailed, single-use and revoke existing sessions", async () => {
+      const email = `reset_${Date.now().toString(36)}@example.com`;
+      const registered = await requestJson<{ token: string }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123" })
+      });
+      assert.equal(registered.status, 201);
+
+      const requestReset = (target: string) =>
+        requestJson<{ message: string }>("/api/v1/auth/password-reset/request", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: target })
+        });
+
+      sentMail.length = 0;
+      const unknown = await requestReset(`nobody_${Date.now().toString(36)}@example.com`);
+      assert.equal(unknown.status, 202);
+      assert.equal(sentMail.length, 0);
+
+      const requested = await requestReset(email.toUpperCase());
+      assert.equal(requested.status, 202);
+      assert.equal(requested.body.message, unknown.body.message);
+      assert.equal(sentMail.length, 1);
+      assert.equal(sentMail[0].to, email);
+
+      const token = /Reset code: (\S+)/.exec(sentMail[0].text)?.[1] ?? "";
+      assert.ok(token);
+
+      const confirm = () =>
+        requestJson<{ message: string }>("/api/v1/auth/password-reset/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token, newPassword: "resetpassword789" })
+        });
+
+      assert.equal((await confirm()).status, 200);
+      assert.equal((await confirm()).status, 400);
+
+      const staleMe = await requestJson("/api/v1/auth/me", {
+        headers: { Authorization: `Bearer ${registered.body.token}` }
+      });
+      assert.equal(staleMe.status, 401);
+
+      const login = (password: string) =>
+        requestJson("/api/v1/auth/login", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password })
+        });
+      assert.equal((await login("password123")).status, 401);
+      assert.equal((await login("resetpassword789")).status, 200);
+    });
+
+    test("a failing mail transport still answers a reset request with 202", async () => {
+      const email = `reset_mailfail_${Date.now().toString(36)}@example.com`;
+      await requestJson("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123" })
+      });
+
+      const { useMailer } = await import("./mailer.js");
+      const logged = mock.method(console, "error", () => undefined);
+      useMailer({
+        send: async () => {
+          throw new Error("ENOSPC: no space left on device");
+        }
+      });
+      try {
+        const requested = await requestJson<{ message: string }>("/api/v1/auth/password-reset/request", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email })
+        });
+        assert.equal(requested.status, 202);
+
+        await new Promise((resolve) => setImmediate(resolve));
+        assert.equal(logged.mock.callCount(), 1);
+        assert.match(String(logged.mock.calls[0].arguments[0]), /ENOSPC/);
+      } finally {
+        useMailer(captureMailer);
+        logged.mock.restore();
+      }
+    });
+
+    test("password reset codes expire", async () => {
+      const email = `reset_expiry_${Date.now().toString(36)}@example.com`;
+      await requestJson("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123" })
+      });
+
+      sentMail.length = 0;
+      mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      try {
+        await requestJson("/api/v1/auth/password-reset/request", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email })
+        });
+        const token = /Reset code: (\S+)/.exec(sentMail[0]?.text ?? "")?.[1] ?? "";
+        assert.ok(token);
+
+        mock.timers.tick(31 * 60 * 1000);
+        const expired = await requestJson<{ message: string }>("/api/v1/auth/password-reset/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ token, newPassword: "resetpassword789" })
+        });
+        assert.equal(expired.status, 400);
+      } finally {
+        mock.timers.reset();
+      }
+    });
+
+    test("repeated failed logins back off, then lock the email out with Retry-After", async () => {
+      // A fresh app keeps these failures out of the shared server's per-IP count.
+      const isolated = await listen(createServer());
+      const email = `lockout_${Date.now().toString(36)}@example.com`;
+      const login = (password: string) =>
+        fetch(`${isolated.baseUrl}/api/v1/auth/login`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password })
+        });
+
+      mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      try {
+        const registered = await fetch(`${isolated.baseUrl}/api/v1/auth/register`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password: "password123" })
+        });
+        assert.equal(registered.status, 201);
+
+        for (let attempt = 1; attempt <= 5; attempt += 1) {
+          assert.equal((await login("wrong-password")).status, 401);
+        }
+
+        const backoff = [1, 2, 4, 8];
+        for (const seconds of backoff) {
+          const throttled = await login("wrong-password");
+          assert.equal(throttled.status, 429);
+          assert.equal(throttled.headers.get("Retry-After"), String(seconds));
+          assert.equal((await login("password123")).status, 429);
+          mock.timers.tick(seconds * 1000);
+        }
+
+        const locked = await login("wrong-password");
+        assert.equal(locked.status, 429);
+        assert.equal(locked.headers.get("Retry-After"), String(15 * 60));
+        const body = (await locked.json()) as { retryAfterSeconds: number };
+        assert.equal(body.retryAfterSeconds, 15 * 60);
+
+        mock.timers.tick(14 * 60 * 1000);
+        assert.equal((await login("password123")).status, 429);
+
+        mock.timers.tick(60 * 1000);
+        assert.equal((await login("password123")).status, 200);
+      } finally {
+        mock.timers.reset();
+        await closeServer(isolated.server);
+      }
+    });
+
+    test("password checks for signed-in users share the login throttle", async () => {
+      const isolated = await listen(createServer());
+      const email = `pw_throttle_${Date.now().toString(36)}@example.com`;
+
+      mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      try {
+        const registered = await fetch(`${isolated.baseUrl}/api/v1/auth/register`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password: "password123" })
+        });
+        const { token } = (await registered.json()) as { token: string };
+        const headers = { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+        const changePassword = (currentPassword: string) =>
+          fetch(`${isolated.baseUrl}/api/v1/auth/password`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ currentPassword, newPassword: "newpassword456" })
+          });
+        const deleteAccount = (password: string) =>
+          fetch(`${isolated.baseUrl}/api/v1/account`, {
+            method: "DELETE",
+            headers,
+            body: JSON.stringify({ password })
+          });
+
+        for (let attempt = 1; attempt <= 3; attempt += 1) {
+          assert.equal((await changePassword("wrong-password")).status, 403);
+        }
+        for (let attempt = 1; attempt <= 2; attempt += 1) {
+          assert.equal((await deleteAccount("wrong-password")).status, 403);
+        }
+
+        const throttled = await deleteAccount("wrong-password");
+        assert.equal(throttled.status, 429);
+        assert.equal(throttled.headers.get("Retry-After"), "1");
+        assert.equal((await changePassword("password123")).status, 429);
+
+        mock.timers.tick(1000);
+        assert.equal((await changePassword("password123")).status, 200);
+      } finally {
+        mock.timers.reset();
+        await closeServer(isolated.server);
+      }
+    });
+
+    test("failed logins are throttled per IP across emails", async () => {
+      const isolated = await listen(createServer());
+      const unique = Date.now().toString(36);
+      const login = (index: number) =>
+        fetch(`${isolated.baseUrl}/api/v1/auth/login`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: `spray_${unique}_${index}@example.com`, password: "password123" })
+        });
+
+      try {
+        for (let index = 1; index <= 50; index += 1) {
+          assert.equal((await login(index)).status, 401);
+        }
+        const throttled = await login(51);
+        assert.equal(throttled.status, 429);
+        assert.equal(throttled.headers.get("Retry-After"), "1");
+      } finally {
+        await closeServer(isolated.server);
+      }
+    });
+
+    test("account export returns everything held for the user", async () => {
+      const email = `export_${Date.now().toString(36)}@example.com`;
+      const registered = await requestJson<{ token: string; user: { id: string } }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123", deviceName: "Phone" })
+      });
+      const authHeaders = { Authorization: `Bearer ${registered.body.token}` };
+
+      await requestJson("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: "wk_export_1",
+          date: "2026-03-02",
+          workoutType: "cardio",
+          durationMinutes: 30,
+          exerciseEntries: [],
+          createdAt: new Date().toISOString()
+        })
+      });
+      await requestJson("/api/v1/progress/entries", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ id: "pg_export_1", date: "2026-03-02", weightKg: 81.5 })
+      });
+
+      const response = await fetch(`${baseUrl}/api/v1/account/export`, { headers: authHeaders });
+      assert.equal(response.status, 200);
+      assert.match(response.headers.get("Content-Disposition") ?? "", /attachment; filename="pulsefit-export-/);
+
+      const archive = (await response.json()) as {
+        account: { id: string; email: string };
+        sessions: Array<{ deviceName: string; current: boolean }>;
+        workouts: Array<{ id: string }>;
+        progressEntries: Array<{ id: string }>;
+      };
+      assert.equal(archive.account.email, email);
+      assert.equal(archive.account.id, registered.body.user.id);
+      assert.deepEqual(archive.sessions.map((session) => [session.deviceName, session.current]), [["Phone", true]]);
+      assert.deepEqual(archive.workouts.map((workout) => workout.id), ["wk_export_1"]);
+      assert.deepEqual(archive.progressEntries.map((entry) => entry.id), ["pg_export_1"]);
+      assert.equal(JSON.stringify(archive).includes("passwordHash"), false);
+
+      const anonymous = await requestJson("/api/v1/account/export");
+      assert.equal(anonymous.status, 401);
+    });
+
+    test("account export leaves out sessions that have idled out", async () => {
+      const email = `export_idle_${Date.now().toString(36)}@example.com`;
+      const signIn = (path: string, deviceName: string) =>
+        requestJson<{ token: string; refreshToken: string }>(path, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password: "password123", deviceName })
+        });
+      const refresh = (refreshToken: string) =>
+        requestJson<{ token: string; refreshToken: string }>("/api/v1/auth/refresh", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken })
+        });
+
+      mock.timers.enable({ apis: ["Date"], now: Date.now() });
+      try {
+        const phone = await signIn("/api/v1/auth/register", "Phone");
+        assert.equal(phone.status, 201);
+        const tablet = await signIn("/api/v1/auth/login", "Tablet");
+        assert.equal(tablet.status, 200);
+
+        // Keep the phone active while the tablet sits past its idle timeout.
+        mock.timers.tick(20 * 24 * 60 * 60 * 1000);
+        const first = await refresh(phone.body.refreshToken);
+        assert.equal(first.status, 200);
+        mock.timers.tick(15 * 24 * 60 * 60 * 1000);
+        const second = await refresh(first.body.refreshToken);
+        assert.equal(second.status, 200);
+
+        const exported = await requestJson<{ sessions: Array<{ deviceName: string; current: boolean }> }>(
+          "/api/v1/account/export",
+          { headers: { Authorization: `Bearer ${second.body.token}` } }
+        );
+        assert.equal(exported.status, 200);
+        assert.deepEqual(
+          exported.body.sessions.map((session) => [session.deviceName, session.current]),
+          [["Phone", true]]
+        );
+      } finally {
+        mock.timers.reset();
+      }
+    });
+
+    test("deleting the account requires the password and erases the user", async () => {
+      const email = `delete_${Date.now().toString(36)}@example.com`;
+      const register = () =>
+        requestJson<{ token: string; user: { id: string } }>("/api/v1/auth/register", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email, password: "password123" })
+        });
+      const registered = await register();
+      const authHeaders = { Authorization: `Bearer ${registered.body.token}` };
+
+      await requestJson("/api/v1/progress/entries", {
+        method: "POST",
+        headers: { ...authHeaders, "Content-Type": "application/json" },
+        body: JSON.stringify({ id: "pg_delete_1", date: "2026-03-02", weightKg: 70 })
+      });
+
+      const deleteAccount = (password: string) =>
+        requestJson<{ message: string }>("/api/v1/account", {
+          method: "DELETE",
+          headers: { ...authHeaders, "Content-Type": "application/json" },
+          body: JSON.stringify({ password })
+        });
+
+      assert.equal((await deleteAccount("wrong-password")).status, 403);
+      assert.equal((await deleteAccount("password123")).status, 200);
+
+      const me = await requestJson("/api/v1/auth/me", { headers: authHeaders });
+      assert.equal(me.status, 401);
+
+      const login = await requestJson("/api/v1/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123" })
+      });
+      assert.equal(login.status, 401);
+
+      const reregistered = await register();
+      assert.equal(reregistered.status, 201);
+      assert.notEqual(reregistered.body.user.id, registered.body.user.id);
+    });
+
+    test("guest data merges into an account without overwriting its records", async () => {
+      const email = `guest_merge_${Date.now().toString(36)}@example.com`;
+      const registered = await requestJson<{ token: string; user: { id: string } }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password: "password123" })
+      });
+      const authHeaders = { Authorization: `Bearer ${registered.body.token}`, "Content-Type": "application/json" };
+
+      const workout = (id: string, notes: string) => ({
+        id,
+        date: "2026-03-01",
+        workoutType: "cardio",
+        durationMinutes: 25,
+        exerciseEntries: [],
+        notes,
+        createdAt: "2026-03-01T08:00:00.000Z"
+      });
+      const nutrition = (date: string, calories: number) => ({
+        date,
+        calories,
+        protein: 120,
+        carbs: 200,
+        fat: 60,
+        waterLiters: 2
+      });
+
+      await requestJson("/api/v1/workouts/logs", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(workout("wk_shared", "account copy"))
+      });
+      await requestJson("/api/v1/nutrition/logs/2026-03-01", {
+        method: "PUT",
+        headers: authHeaders,
+        body: JSON.stringify(nutrition("2026-03-01", 2000))
+      });
+      const customFood = (name: string) => ({
+        name,
+        servingSize: 100,
+        servingUnit: "g",
+        calories: 120,
+        protein: 10,
+        carbs: 12,
+        fat: 3
+      });
+      await requestJson("/api/v1/nutrition/foods/custom/cf_shared", {
+        method: "PUT",
+        headers: authHeaders,
+        body: JSON.stringify(customFood("Account granola"))
+      });
+      const component = {
+        id: "mc_1",
+        foodId: "cf_guest",
+        name: "Guest oat bar",
+        servings: 1,
+        calories: 120,
+        protein: 10,
+        carbs: 12,
+        fat: 3
+      };
+      await requestJson("/api/v1/nutrition/recipes/rc_shared", {
+        method: "PUT",
+        headers: authHeaders,
+        body: JSON.stringify({ name: "Account bake", yieldServings: 4, ingredients: [component] })
+      });
+
+      const guestData = {
+        profile: {
+          id: "local-user",
+          name: "Guest",
+          age: 30,
+          heightCm: 175,
+          currentWeightKg: 72,
+          goal: "maintain",
+          dailyCalorieTarget: 2300,
+          proteinTargetGrams: 130
+        },
+        workouts: [workout("wk_shared", "guest copy"), workout("wk_guest", "guest only")],
+        nutritionLogs: [nutrition("2026-03-01", 1500), nutrition("2026-03-02", 1800)],
+        progressEntries: [{ id: "pg_guest", date: "2026-03-02", weightKg: 72 }],
+        customFoods: [
+          { id: "cf_shared", ...customFood("Guest granola") },
+          { id: "cf_guest", ...customFood("Guest oat bar") }
+        ],
+        recipes: [
+          { id: "rc_shared", name: "Guest bake", yieldServings: 2, ingredients: [component] },
+          { id: "rc_guest", name: "Guest stew", yieldServings: 6, ingredients: [component] }
+        ],
+        savedMeals: [{ id: "sm_guest", name: "Guest breakfast", items: [component] }],
+        programEnrollment: { programId: "full_body_3x", startDate: "2026-03-02", enrolledAt: "2026-03-02T07:00:00.000Z" }
+      };
+
+      const anonymous = await requestJson("/api/v1/account/guest-data", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(guestData)
+      });
+      assert.equal(anonymous.status, 401);
+
+      const merged = await requestJson<{
+        imported: Record<string, boolean | number>;
+        skipped: Record<string, boolean | number>;
+      }>("/api/v1/account/guest-data", {
+        method: "POST",
+        headers: authHeaders,
+        body: JSON.stringify(guestData)
+      });
+      assert.equal(merged.status, 200);
+      assert.deepEqual(merged.body.imported, {
+        profile: true,
+        workouts: 1,
+        nutrition: 1,
+        progress: 1,
+        customFoods: 1,
+        recipes: 1,
+        savedMeals: 1,
+        programEnrollment: true
+      });
+      assert.deepEqual(merged.body.skipped, {
+        profile: false,
+        workouts: 1,
+        nutrition: 1,
+        progress: 0,
+        customFoods: 1,
+        recipes: 1,
+        savedMeals: 0,
+        programEnrollment: false
+      });
+
+      const snapshot = await requestJson<{
+        profile: { id: string; name: string } | null;
+        workouts: Array<{ id: string; notes?: string }>;
+        nutritionByDate: Record<string, { calories: number }>;
+        progressEntries: Array<{ id: string }>;
+      }>("/api/v1/sync/snapshot", { headers: authHeaders });
+      assert.equal(snapshot.body.profile?.id, registered.body.user.id);
+      assert.equal(snapshot.body.profile?.name, "Guest");
+      assert.deepEqual(
+        snapshot.body.workouts.map((item) => [item.id, item.notes]).sort(),
+        [
+          ["wk_guest", "guest only"],
+          ["wk_shared", "account copy"]
+        ]
+      );
+      assert.equal(snapshot.body.nutritionByDate["2026-03-01"].calories, 2000);
+      assert.equal(snapshot.body.nutritionByDate["2026-03-02"].calories, 1800);
+      assert.deepEqual(snapshot.body.progressEntries.map((entry) => entry.id), ["pg_guest"]);
+
+      const foods = await requestJson<{ data: Array<{ id: string; name: string }> }>("/api/v1/nutrition/foods/custom", {
+        headers: authHeaders
+      });
+      assert.deepEqual(
+        foods.body.data.map((food) => [food.id, food.name]).sort(),
+        [
+          ["cf_guest", "Guest oat bar"],
+          ["cf_shared", "Account granola"]
+        ]
+      );
+
+      const recipes = await requestJson<{ data: Array<{ id: string; name: string }> }>("/api/v1/nutrition/recipes", {
+        headers: authHeaders
+      });
+      assert.deepEqual(
+        recipes.body.data.map((recipe) => [recipe.id, recipe.name]).sort(),
+        [
+          ["rc_guest", "Guest stew"],
+          ["rc_shared", "Account bake"]
+        ]
+      );
+      const meals = await requestJson<{ data: Array<{ id: string }> }>("/api/v1/nutrition/saved-meals", {
+        headers: authHeaders
+      });
+      assert.deepEqual(meals.body.data.map((meal) => meal.id), ["sm_guest"]);
+
+      const enrollment = await requestJson<{ data: { programId: string; startDate: string } | null }>(
+        "/api/v1/programs/enrollment",
+        { headers: authHeaders }
+      );
+      assert.deepEqual(enrollment.body.data, {
+        programId: "full_body_3x",
+        startDate: "2026-03-02",
+        enrolledAt: "2026-03-02T07:00:00.000Z"
+      });
+    });
+
+    test("auth users are data-isolated", async () => {
+      const unique = Date.now().toString(36);
+      const password = "password123";
+
+      const registerA = await requestJson<{
+        token: string;
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: `a_${unique}@example.com`, password })
+      });
+      assert.equal(registerA.status, 201);
+
+      const registerB = await requestJson<{
+        token: string;
+        user: {
+          id: string;
+          email: string;
+        };
+      }>("/api/v1/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: `b_${unique}@example.com`, password })
+      });
+      assert.equal(registerB.status, 201);
+
+      const profileA = {
+        id: "profile-a",
+        name: "User A",
+        age: 30,
+        heightCm: 175,
+        currentWeightKg: 70,
+        goal: "maintain",
+        dailyCalorieTarget: 2400,
+        proteinTargetGrams: 130
+      };
+
+      const profileB = {
+        id: "profile-b",
+        name: "User B",
+        age: 26,
+        heightCm: 168,
+        currentWeightKg: 62,
+        goal: "lose_weight",
+        dailyCalorieTarget: 1900,
+        proteinTargetGrams: 110
+      };
+
+      const putProfileA = await requestJson<{ data: { name: string } }>("/api/v1/profile", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${registerA.body.token}`
+        },
+        body: JSON.stringify(profileA)
+      });
+      assert.equal(putProfileA.status, 200);
+
+      const putProfileB = await requestJson<{ data: { name: string } }>("/api/v1/profile", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${registerB.body.token}`
+        },
+        body: JSON.stringify(profileB)
+      });
+      assert.equal(putProfileB.status, 200);
+
+      const snapshotA = await requestJson<{ profile: { name: string } | null }>("/api/v1/sync/snapshot", {
+        headers: {
+          Authorization: `Bearer ${registerA.body.token}`
+        }
+      });
+      const snapshotB = await requestJson<{ profile: { name: string } | null }>("/api/v1/sync/snapshot", {
+        headers: {
+          Authorization: `Bearer ${registerB.body.token}`
+        }
+      });
+
+      assert.equal(snapshotA.status, 200);
+      assert.equal(snapshotB.status, 200);
+      assert.equal(snapshotA.body.profile?.name, "User A");
+      assert.equal(snapshotB.body.profile?.name, "User B");
+    });
+
+    test("guest devices get their own data bucket", async () => {
+      const isolated = await listen(createServer({ anonymousAccess: "device" }));
+      const unique = Date.now().toString(36);
+      const registerDevice = (deviceId: string) =>
+        fetch(`${isolated.baseUrl}/api/v1/auth/anonymous`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ deviceId })
+        });
+      const putWorkout = (guestToken: string, id: string) =>
+        fetch(`${isolated.baseUrl}/api/v1/workouts/logs`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "X-Guest-Token": guestToken },
+          body: JSON.stringify({
+            id,
+            date: "2026-03-01",
+            workoutType: "cardio",
+            durationMinutes: 30,
+            exerciseEntries: []
+          })
+        });
+      const listWorkoutIds = async (guestToken: string) => {
+        const response = await fetch(`${isolated.baseUrl}/api/v1/sync/snapshot`, {
+          headers: { "X-Guest-Token": guestToken }
+        });
+        const body = (await response.json()) as { workouts: Array<{ id: string }> };
+        return body.workouts.map((workout) => workout.id);
+      };
+
+      try {
+        const untokened = await fetch(`${isolated.baseUrl}/api/v1/sync/snapshot`);
+        assert.equal(untokened.status, 401);
+
+        const first = await registerDevice(`device-a-${unique}`);
+        assert.equal(first.status, 201);
+        const deviceA = (await first.json()) as { guestToken: string; userId: string };
+        const second = await registerDevice(`device-b-${unique}`);
+        const deviceB = (await second.json()) as { guestToken: string; userId: string };
+        assert.notEqual(deviceA.userId, deviceB.userId);
+
+        const duplicate = await registerDevice(`device-a-${unique}`);
+        assert.equal(duplicate.status, 409);
+        const retried = await fetch(`${isolated.baseUrl}/api/v1/auth/anonymous`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "X-Guest-Token": deviceA.guestToken },
+          body: JSON.stringify({ deviceId: `device-a-${unique}` })
+        });
+        assert.equal(retried.status, 200);
+        assert.deepEqual(await retried.json(), deviceA);
+        const wrongDevice = await fetch(`${isolated.baseUrl}/api/v1/auth/anonymous`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", "X-Guest-Token": deviceB.guestToken },
+          body: JSON.stringify({ deviceId: `device-a-${unique}` })
+        });
+        assert.equal(wrongDevice.status, 409);
+
+        assert.equal((await putWorkout(deviceA.guestToken, "wk_device_a")).status, 201);
+        assert.equal((await putWorkout(deviceB.guestToken, "wk_device_b")).status, 201);
+        assert.deepEqual(await listWorkoutIds(deviceA.guestToken), ["wk_device_a"]);
+        assert.deepEqual(await listWorkoutIds(deviceB.guestToken), ["wk_device_b"]);
+
+        const forged = await fetch(`${isolated.baseUrl}/api/v1/sync/snapshot`, {
+          headers: { "X-Guest-Token": "not-a-real-token" }
+        });
+        assert.equal(forged.status, 401);
+      } finally {
+        await closeServer(isolated.server);
+      }
+    });
+
+    test("guest access can be switched off", async () => {
+      const isolated = await listen(createServer({ anonymousAccess: "off" }));
+
+      try {
+        const registered = await fetch(`${isolated.baseUrl}/api/v1/auth/anonymous`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ deviceId: `device-off-${Date.now().toString(36)}` })
+        });
+        assert.equal(registered.status, 403);
+
+        const untokened = await fetch(`${isolated.baseUrl}/api/v1/sync/snapshot`);
+        assert.equal(untokened.status, 401);
+      } finally {
+        await closeServer(isolated.server);
+      }
+    });
   });
-  const snapshotB = await requestJson<{ profile: { name: string } | null }>("/api/v1/sync/snapshot", {
-    headers: {
-      Authorization: `Bearer ${registerB.body.token}`
+}
+
+test("a failing embedded driver surfaces its error instead of falling back to file storage", async () => {
+  const { getStorageInfo, readAppData } = await import("./store.js");
+  const memory = createMemoryDriver();
+  const failing: StorageDriver = {
+    ...memory,
+    readAppData: async () => {
+      throw new Error("constraint failed");
     }
-  });
+  };
+  useStorageDriver(failing);
 
-  assert.equal(snapshotA.status, 200);
-  assert.equal(snapshotB.status, 200);
-  assert.equal(snapshotA.body.profile?.name, "User A");
-  assert.equal(snapshotB.body.profile?.name, "User B");
+  try {
+    await assert.rejects(readAppData("user_failing"), /constraint failed/);
+    assert.deepEqual(getStorageInfo(), { backend: "memory", fallbackReason: null });
+  } finally {
+    await memory.close();
+  }
 });
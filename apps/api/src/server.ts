@@ -1,35 +1,125 @@
+import {
+  FOOD_DATABASE,
+  findTrainingProgram,
+  getProgramDay,
+  getRecipeServingMacros,
+  listProgramsForGoal,
+  recipeAsFood,
+  searchFoods,
+  sumFoodLogItems
+} from "@fitness/shared";
 import cors from "cors";
 import express from "express";
-import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
 import type { Request, Response } from "express";
 import { z } from "zod";
 
+import { buildExerciseHistory, buildWeeklyVolume, buildWorkoutStreaks, toDateKey } from "./analytics.js";
 import { config } from "./config.js";
+import { createLoginThrottle } from "./loginThrottle.js";
+import { sendMail } from "./mailer.js";
 import {
+  consumePasswordReset,
+  createAnonymousDevice,
   createAuthSession,
   createAuthUser,
+  createPasswordReset,
   deleteAuthSession,
-  getAuthSessionUserId,
+  deleteAuthSessions,
+  deleteAuthUser,
+  deleteCustomFood,
+  deleteProgramEnrollment,
+  deleteRecipe,
+  deleteSavedMeal,
+  getAnonymousDeviceByTokenHash,
+  getAuthCredentialsById,
+  getAuthSessionByAccessToken,
+  getAuthSessionByRefreshToken,
   getAuthUserByEmail,
   getAuthUserById,
+  getProgramEnrollment,
   getStorageInfo,
+  getWorkout,
+  listAuthSessions,
+  listCustomFoods,
+  listRecipes,
+  listSavedMeals,
+  applyStoreMutations,
+  deleteNutrition,
+  deleteProgress,
+  deleteWorkout,
+  queryWorkoutHistory,
   resetAppData,
   readAppData,
+  readSyncSnapshot,
+  rotateAuthSession,
+  saveCustomFood,
+  saveProgramEnrollment,
+  saveRecipe,
+  saveSavedMeal,
+  updateAuthUserPassword,
   type AppData,
+  type AuthSession,
   type AuthUser,
+  type CustomFood,
   type FitnessGoal,
+  type NutritionInput,
+  type NutritionLog,
+  type ProgramEnrollment,
+  type ProgressEntry,
+  type ProgressInput,
+  type StoreMutation,
+  type StoreMutationResult,
+  type SyncChange,
+  type SyncJournalEntry,
+  type UserProfile,
+  type UserRecipe,
+  type UserSavedMeal,
+  type WorkoutInput,
   type WorkoutLog as StoredWorkoutLog,
-  writeAppData
+  upsertNutrition,
+  upsertProfile,
+  upsertProgress,
+  upsertWorkout
 } from "./store.js";
+import { compareWorkoutsNewestFirst, decodeWorkoutCursor, encodeWorkoutCursor } from "./workoutHistory.js";
 
-const workoutExerciseSchema = z.object({
-  id: z.string().min(1),
-  name: z.string().min(1).max(120),
-  sets: z.number().int().min(1).max(30),
+const workoutSetSchema = z.object({
   reps: z.number().int().min(1).max(200),
-  weightKg: z.number().min(0).max(1000).optional()
+  weightKg: z.number().min(0).max(1000).optional(),
+  rpe: z.number().min(1).max(10).optional(),
+  rir: z.number().int().min(0).max(10).optional(),
+  isWarmup: z.boolean().optional()
 });
 
+// Older clients still send a single sets x reps x weight triple per exercise.
+function upgradeLegacyExercisePayload(input: unknown): unknown {
+  if (!input || typeof input !== "object") {
+    return input;
+  }
+
+  const row = input as Record<string, unknown>;
+  if (typeof row.sets !== "number" || !Number.isInteger(row.sets) || row.sets < 1 || row.sets > 30) {
+    return input;
+  }
+
+  const { sets: count, reps, weightKg, ...rest } = row;
+  return {
+    ...rest,
+    sets: Array.from({ length: count as number }, () => ({ reps, weightKg }))
+  };
+}
+
+const workoutExerciseSchema = z.preprocess(
+  upgradeLegacyExercisePayload,
+  z.object({
+    id: z.string().min(1),
+    name: z.string().min(1).max(120),
+    sets: z.array(workoutSetSchema).min(1).max(30)
+  })
+);
+
 const workoutLogSchema = z.object({
   id: z.string().min(1),
   date: z.string().date(),
@@ -41,11 +131,51 @@ const workoutLogSchema = z.object({
   templateName: z.string().min(1).max(80).optional(),
   notes: z.string().max(500).optional(),
   createdAt: z.string().datetime().optional(),
-  syncedAt: z.string().datetime().nullable().optional()
+  syncedAt: z.string().datetime().nullable().optional(),
+  version: z.number().int().min(0).optional()
 });
 
 type WorkoutPayload = z.infer<typeof workoutLogSchema>;
 
+const workoutHistoryQuerySchema = z
+  .object({
+    // Without a limit every match is returned, as before history was paged.
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    cursor: z.string().min(1).optional(),
+    from: z.string().date().optional(),
+    to: z.string().date().optional(),
+    workoutType: z.enum(["strength", "cardio", "mobility"]).optional(),
+    templateName: z.string().trim().min(1).max(80).optional(),
+    exercise: z.string().trim().min(1).max(80).optional(),
+    q: z.string().trim().min(1).max(80).optional()
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: "`from` must not be after `to`",
+    path: ["from"]
+  });
+
+// Clients pass their own calendar day so "this week" matches the user's time zone.
+const analyticsDateSchema = z.string().date().optional();
+
+const volumeAnalyticsQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(8),
+  date: analyticsDateSchema
+});
+
+const streakAnalyticsQuerySchema = z.object({
+  date: analyticsDateSchema
+});
+
+const programEnrollmentSchema = z.object({
+  programId: z.string().trim().min(1).max(80),
+  // Defaults to today on the server; clients should send their own calendar day.
+  startDate: z.string().date().optional()
+});
+
+const programDayQuerySchema = z.object({
+  date: analyticsDateSchema
+});
+
 const profileSchema = z.object({
   id: z.string().min(1),
   name: z.string().min(1),
@@ -54,7 +184,32 @@ const profileSchema = z.object({
   currentWeightKg: z.number().positive().max(220),
   goal: z.enum(["lose_weight", "gain_muscle", "maintain"]),
   dailyCalorieTarget: z.number().int().positive(),
-  proteinTargetGrams: z.number().int().positive()
+  proteinTargetGrams: z.number().int().positive(),
+  // Optional so profiles from clients that predate full macro targets still save.
+  sex: z.enum(["male", "female"]).optional(),
+  activityLevel: z.enum(["sedentary", "light", "moderate", "active", "very_active"]).optional(),
+  weeklyRateKg: z.number().min(-1.5).max(1).optional(),
+  carbsTargetGrams: z.number().int().min(0).max(1500).optional(),
+  fatTargetGrams: z.number().int().min(0).max(500).optional(),
+  fiberTargetGrams: z.number().int().min(0).max(150).optional(),
+  waterTargetLiters: z.number().positive().max(10).optional(),
+  goalWeightKg: z.number().min(35).max(220).optional()
+});
+
+const mealComponentSchema = z.object({
+  id: z.string().min(1).max(80),
+  foodId: z.string().min(1).max(80).nullable(),
+  name: z.string().trim().min(1).max(120),
+  servings: z.number().positive().max(100),
+  calories: z.number().min(0).max(10000),
+  protein: z.number().min(0).max(1000),
+  carbs: z.number().min(0).max(1000),
+  fat: z.number().min(0).max(1000),
+  fiber: z.number().min(0).max(500).optional()
+});
+
+const foodLogItemSchema = mealComponentSchema.extend({
+  meal: z.enum(["breakfast", "lunch", "dinner", "snacks"])
 });
 
 const nutritionLogSchema = z.object({
@@ -63,24 +218,131 @@ const nutritionLogSchema = z.object({
   protein: z.number().min(0),
   carbs: z.number().min(0),
   fat: z.number().min(0),
-  waterLiters: z.number().min(0)
+  waterLiters: z.number().min(0),
+  items: z.array(foodLogItemSchema).max(200).default([]),
+  version: z.number().int().min(0).optional()
+});
+
+const customFoodSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  brand: z.string().trim().min(1).max(80).optional(),
+  servingSize: z.number().positive().max(5000),
+  servingUnit: z.string().trim().min(1).max(20),
+  calories: z.number().min(0).max(5000),
+  protein: z.number().min(0).max(500),
+  carbs: z.number().min(0).max(500),
+  fat: z.number().min(0).max(500),
+  fiber: z.number().min(0).max(200).optional()
+});
+
+// Bundled foods own the "db_" prefix so a custom food or recipe can never shadow one in search.
+const userFoodIdSchema = z
+  .string()
+  .min(1)
+  .max(80)
+  .refine((id) => !id.startsWith("db_"), "Ids starting with db_ are reserved for bundled foods");
+
+const recipeSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  yieldServings: z.number().positive().max(100),
+  ingredients: z.array(mealComponentSchema).min(1).max(50)
+});
+
+const savedMealSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  items: z.array(mealComponentSchema).min(1).max(30)
 });
 
+const foodSearchQuerySchema = z.object({
+  q: z.string().trim().max(80).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20)
+});
+
+type NutritionPayload = z.infer<typeof nutritionLogSchema>;
+
 const progressEntrySchema = z.object({
   id: z.string().min(1),
   date: z.string().date(),
   weightKg: z.number().positive().max(220),
   bodyFatPct: z.number().min(2).max(70).optional(),
-  waistCm: z.number().min(40).max(180).optional()
+  waistCm: z.number().min(40).max(180).optional(),
+  version: z.number().int().min(0).optional()
+});
+
+type ProgressPayload = z.infer<typeof progressEntrySchema>;
+
+const syncBatchOperationSchema = z.discriminatedUnion("op", [
+  z.object({
+    op: z.literal("upsert"),
+    entity: z.enum(["profile", "workout", "nutrition", "progress"]),
+    data: z.unknown()
+  }),
+  z.object({
+    op: z.literal("delete"),
+    entity: z.enum(["workout", "nutrition", "progress"]),
+    key: z.string().min(1)
+  })
+]);
+
+const syncBatchSchema = z.object({
+  operations: z.array(z.unknown()).min(1).max(500)
+});
+
+const anonymousDeviceSchema = z.object({
+  deviceId: z.string().trim().min(8).max(128)
 });
 
+const deviceNameSchema = z.string().trim().min(1).max(80).optional();
+
+const newPasswordSchema = z.string().min(6).max(120);
+
 const authRegisterSchema = z.object({
   email: z.string().email(),
-  password: z.string().min(6).max(120)
+  password: newPasswordSchema,
+  deviceName: deviceNameSchema
 });
 
 const authLoginSchema = z.object({
   email: z.string().email(),
+  password: z.string().min(1).max(120),
+  deviceName: deviceNameSchema
+});
+
+const authRefreshSchema = z.object({
+  refreshToken: z.string().min(1)
+});
+
+const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1).max(120),
+  newPassword: newPasswordSchema
+});
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().email()
+});
+
+const passwordResetConfirmSchema = z.object({
+  token: z.string().trim().min(1).max(200),
+  newPassword: newPasswordSchema
+});
+
+const guestDataImportSchema = z.object({
+  profile: profileSchema.nullable().default(null),
+  workouts: z.array(workoutLogSchema).max(5000).default([]),
+  nutritionLogs: z.array(nutritionLogSchema).max(5000).default([]),
+  progressEntries: z.array(progressEntrySchema).max(5000).default([]),
+  customFoods: z.array(customFoodSchema.extend({ id: userFoodIdSchema })).max(1000).default([]),
+  recipes: z.array(recipeSchema.extend({ id: userFoodIdSchema })).max(1000).default([]),
+  savedMeals: z.array(savedMealSchema.extend({ id: userFoodIdSchema })).max(1000).default([]),
+  programEnrollment: programEnrollmentSchema
+    .extend({ startDate: z.string().date(), enrolledAt: z.string().datetime().optional() })
+    .nullable()
+    .default(null)
+});
+
+type GuestDataImport = z.infer<typeof guestDataImportSchema>;
+
+const accountDeleteSchema = z.object({
   password: z.string().min(1).max(120)
 });
 
@@ -160,37 +422,398 @@ function getPlanForGoal(goal: FitnessGoal, workouts: StoredWorkoutLog[]): Array<
     : goalPlanMap[goal].base;
 }
 
-function replaceOrPushWorkout(data: AppData, workout: StoredWorkoutLog) {
-  const index = data.workouts.findIndex((entry) => entry.id === workout.id);
-  if (index === -1) {
-    data.workouts.unshift(workout);
-    return;
-  }
-  data.workouts[index] = workout;
+function toPublicCustomFood({ userId: _userId, ...food }: CustomFood) {
+  return food;
+}
+
+function toPublicRecipe({ userId: _userId, ...recipe }: UserRecipe) {
+  return recipe;
+}
+
+function toPublicSavedMeal({ userId: _userId, ...meal }: UserSavedMeal) {
+  return meal;
+}
+
+function toPublicEnrollment({ userId: _userId, ...enrollment }: ProgramEnrollment) {
+  return enrollment;
+}
+
+function toWorkoutInput(payload: WorkoutPayload, nowIso: string): WorkoutInput {
+  const { version: _baseVersion, ...workout } = payload;
+  return {
+    ...workout,
+    createdAt: workout.createdAt ?? nowIso,
+    syncedAt: nowIso
+  };
 }
 
-function replaceOrPushProgress(data: AppData, entry: z.infer<typeof progressEntrySchema>) {
-  const index = data.progressEntries.findIndex((item) => item.id === entry.id);
-  if (index === -1) {
-    data.progressEntries.unshift(entry);
-    return;
+// Days logged food by food carry their totals in the items; the typed totals only stand alone.
+function toNutritionInput(payload: NutritionPayload): NutritionInput {
+  const { version: _baseVersion, ...log } = payload;
+  if (!log.items.length) {
+    return log;
   }
-  data.progressEntries[index] = entry;
+  // Day logs keep the four classic totals; fiber stays on the items.
+  const { fiber: _fiber, ...totals } = sumFoodLogItems(log.items);
+  return { ...log, ...totals };
+}
+
+function toProgressInput(payload: ProgressPayload): ProgressInput {
+  const { version: _baseVersion, ...entry } = payload;
+  return entry;
 }
 
 function sortData(data: AppData): AppData {
   return {
     ...data,
-    workouts: [...data.workouts].sort((a, b) => {
-      if (a.date === b.date) {
-        return b.createdAt.localeCompare(a.createdAt);
-      }
-      return b.date.localeCompare(a.date);
-    }),
+    workouts: [...data.workouts].sort(compareWorkoutsNewestFirst),
     progressEntries: [...data.progressEntries].sort((a, b) => b.date.localeCompare(a.date))
   };
 }
 
+interface SyncChangeSet {
+  profile?: UserProfile | null;
+  workouts: StoredWorkoutLog[];
+  nutritionByDate: Record<string, NutritionLog>;
+  progressEntries: ProgressEntry[];
+  deletedWorkoutIds: string[];
+  deletedNutritionDates: string[];
+  deletedProgressIds: string[];
+}
+
+function buildSyncChangeSet(data: AppData, entries: SyncJournalEntry[] | null): SyncChangeSet {
+  if (!entries) {
+    return {
+      profile: data.profile,
+      workouts: data.workouts,
+      nutritionByDate: data.nutritionByDate,
+      progressEntries: data.progressEntries,
+      deletedWorkoutIds: [],
+      deletedNutritionDates: [],
+      deletedProgressIds: []
+    };
+  }
+
+  const changed = (entity: SyncJournalEntry["entity"], deleted: boolean) =>
+    new Set(entries.filter((entry) => entry.entity === entity && entry.deleted === deleted).map((entry) => entry.key));
+
+  const changedWorkoutIds = changed("workout", false);
+  const changedNutritionDates = changed("nutrition", false);
+  const changedProgressIds = changed("progress", false);
+  const profileChanged = entries.some((entry) => entry.entity === "profile");
+
+  return {
+    ...(profileChanged ? { profile: data.profile } : {}),
+    workouts: data.workouts.filter((entry) => changedWorkoutIds.has(entry.id)),
+    nutritionByDate: Object.fromEntries(
+      Object.entries(data.nutritionByDate).filter(([date]) => changedNutritionDates.has(date))
+    ),
+    progressEntries: data.progressEntries.filter((entry) => changedProgressIds.has(entry.id)),
+    deletedWorkoutIds: Array.from(changed("workout", true)),
+    deletedNutritionDates: Array.from(changed("nutrition", true)),
+    deletedProgressIds: Array.from(changed("progress", true))
+  };
+}
+
+interface SyncBatchResult {
+  index: number;
+  op: "upsert" | "delete" | null;
+  entity: SyncChange["entity"] | null;
+  key: string | null;
+  status: "applied" | "rejected" | "conflict";
+  message: string;
+  data?: unknown;
+  errors?: unknown;
+}
+
+interface PlannedBatchOperation {
+  index: number;
+  op: "upsert" | "delete";
+  entity: SyncChange["entity"];
+  key: string;
+  mutation: StoreMutation;
+}
+
+const batchEntityLabels: Record<SyncChange["entity"], string> = {
+  profile: "Profile",
+  workout: "Workout",
+  nutrition: "Nutrition",
+  progress: "Progress"
+};
+
+const batchUpsertMessages: Record<SyncChange["entity"], string> = {
+  profile: "Profile updated",
+  workout: "Workout logged",
+  nutrition: "Nutrition updated",
+  progress: "Progress logged"
+};
+
+function rejectBatchOperation(index: number, message: string, errors?: unknown): SyncBatchResult {
+  return {
+    index,
+    op: null,
+    entity: null,
+    key: null,
+    status: "rejected",
+    message,
+    errors
+  };
+}
+
+/**
+ * Validates one batch operation and turns it into a store mutation. Invalid operations are
+ * answered immediately so the valid ones can be applied together in a single transaction.
+ */
+function planSyncBatchOperation(
+  userId: string,
+  operation: unknown,
+  index: number,
+  nowIso: string
+): PlannedBatchOperation | SyncBatchResult {
+  const parsedOperation = syncBatchOperationSchema.safeParse(operation);
+  if (!parsedOperation.success) {
+    return rejectBatchOperation(index, "Invalid batch operation", parsedOperation.error.flatten());
+  }
+
+  const { op, entity } = parsedOperation.data;
+  const reject = (message: string, errors?: unknown): SyncBatchResult => ({
+    ...rejectBatchOperation(index, message, errors),
+    op,
+    entity
+  });
+  const plan = (key: string, mutation: StoreMutation): PlannedBatchOperation => ({ index, op, entity, key, mutation });
+
+  if (parsedOperation.data.op === "delete") {
+    const key = parsedOperation.data.key;
+
+    if (entity === "workout") {
+      return plan(key, { kind: "deleteWorkout", id: key });
+    }
+
+    if (entity === "nutrition") {
+      if (!z.string().date().safeParse(key).success) {
+        return reject("Invalid date");
+      }
+      return plan(key, { kind: "deleteNutrition", date: key });
+    }
+
+    return plan(key, { kind: "deleteProgress", id: key });
+  }
+
+  const payload = parsedOperation.data.data;
+
+  if (entity === "profile") {
+    const parsed = profileSchema.safeParse(payload);
+    if (!parsed.success) {
+      return reject("Invalid profile payload", parsed.error.flatten());
+    }
+    return plan("profile", { kind: "upsertProfile", profile: { ...parsed.data, id: userId } });
+  }
+
+  if (entity === "workout") {
+    const parsed = workoutLogSchema.safeParse(payload);
+    if (!parsed.success) {
+      return reject("Invalid workout log payload", parsed.error.flatten());
+    }
+    return plan(parsed.data.id, {
+      kind: "upsertWorkout",
+      workout: toWorkoutInput(parsed.data, nowIso),
+      baseVersion: parsed.data.version
+    });
+  }
+
+  if (entity === "nutrition") {
+    const parsed = nutritionLogSchema.safeParse(payload);
+    if (!parsed.success) {
+      return reject("Invalid nutrition payload", parsed.error.flatten());
+    }
+    return plan(parsed.data.date, {
+      kind: "upsertNutrition",
+      log: toNutritionInput(parsed.data),
+      baseVersion: parsed.data.version
+    });
+  }
+
+  const parsed = progressEntrySchema.safeParse(payload);
+  if (!parsed.success) {
+    return reject("Invalid progress payload", parsed.error.flatten());
+  }
+  return plan(parsed.data.id, {
+    kind: "upsertProgress",
+    entry: toProgressInput(parsed.data),
+    baseVersion: parsed.data.version
+  });
+}
+
+interface GuestImportCounts {
+  profile: boolean;
+  workouts: number;
+  nutrition: number;
+  progress: number;
+  customFoods: number;
+  recipes: number;
+  savedMeals: number;
+  programEnrollment: boolean;
+}
+
+/** What the account already holds, read before planning a guest import. */
+interface GuestImportTarget {
+  data: AppData;
+  customFoods: CustomFood[];
+  recipes: UserRecipe[];
+  savedMeals: UserSavedMeal[];
+  programEnrollment: ProgramEnrollment | null;
+}
+
+/**
+ * Plans the writes that fold guest data into an account. Records the account already has (same
+ * id, same nutrition date, any existing profile) win and are reported as skipped.
+ */
+function planGuestDataImport(
+  userId: string,
+  target: GuestImportTarget,
+  guest: GuestDataImport,
+  nowIso: string
+): {
+  mutations: StoreMutation[];
+  customFoods: CustomFood[];
+  recipes: UserRecipe[];
+  savedMeals: UserSavedMeal[];
+  programEnrollment: ProgramEnrollment | null;
+  imported: GuestImportCounts;
+  skipped: GuestImportCounts;
+} {
+  const account = target.data;
+  const mutations: StoreMutation[] = [];
+  const customFoods: CustomFood[] = [];
+  const recipes: UserRecipe[] = [];
+  const savedMeals: UserSavedMeal[] = [];
+  const emptyCounts = (): GuestImportCounts => ({
+    profile: false,
+    workouts: 0,
+    nutrition: 0,
+    progress: 0,
+    customFoods: 0,
+    recipes: 0,
+    savedMeals: 0,
+    programEnrollment: false
+  });
+  const imported = emptyCounts();
+  const skipped = emptyCounts();
+
+  if (guest.profile) {
+    if (account.profile) {
+      skipped.profile = true;
+    } else {
+      mutations.push({ kind: "upsertProfile", profile: { ...guest.profile, id: userId } });
+      imported.profile = true;
+    }
+  }
+
+  const workoutIds = new Set(account.workouts.map((workout) => workout.id));
+  for (const workout of guest.workouts) {
+    if (workoutIds.has(workout.id)) {
+      skipped.workouts += 1;
+      continue;
+    }
+    workoutIds.add(workout.id);
+    mutations.push({ kind: "upsertWorkout", workout: toWorkoutInput(workout, nowIso) });
+    imported.workouts += 1;
+  }
+
+  const nutritionDates = new Set(Object.keys(account.nutritionByDate));
+  for (const log of guest.nutritionLogs) {
+    if (nutritionDates.has(log.date)) {
+      skipped.nutrition += 1;
+      continue;
+    }
+    nutritionDates.add(log.date);
+    mutations.push({ kind: "upsertNutrition", log: toNutritionInput(log) });
+    imported.nutrition += 1;
+  }
+
+  const progressIds = new Set(account.progressEntries.map((entry) => entry.id));
+  for (const entry of guest.progressEntries) {
+    if (progressIds.has(entry.id)) {
+      skipped.progress += 1;
+      continue;
+    }
+    progressIds.add(entry.id);
+    mutations.push({ kind: "upsertProgress", entry: toProgressInput(entry) });
+    imported.progress += 1;
+  }
+
+  const foodIds = new Set(target.customFoods.map((food) => food.id));
+  for (const food of guest.customFoods) {
+    if (foodIds.has(food.id)) {
+      skipped.customFoods += 1;
+      continue;
+    }
+    foodIds.add(food.id);
+    customFoods.push({ ...food, userId, updatedAt: nowIso });
+    imported.customFoods += 1;
+  }
+
+  const recipeIds = new Set(target.recipes.map((recipe) => recipe.id));
+  for (const recipe of guest.recipes) {
+    if (recipeIds.has(recipe.id)) {
+      skipped.recipes += 1;
+      continue;
+    }
+    recipeIds.add(recipe.id);
+    recipes.push({ ...recipe, userId, updatedAt: nowIso });
+    imported.recipes += 1;
+  }
+
+  const mealIds = new Set(target.savedMeals.map((meal) => meal.id));
+  for (const meal of guest.savedMeals) {
+    if (mealIds.has(meal.id)) {
+      skipped.savedMeals += 1;
+      continue;
+    }
+    mealIds.add(meal.id);
+    savedMeals.push({ ...meal, userId, updatedAt: nowIso });
+    imported.savedMeals += 1;
+  }
+
+  // The account's own program wins, and a program this server no longer offers is dropped.
+  let programEnrollment: ProgramEnrollment | null = null;
+  if (guest.programEnrollment) {
+    if (target.programEnrollment || !findTrainingProgram(guest.programEnrollment.programId)) {
+      skipped.programEnrollment = true;
+    } else {
+      programEnrollment = { enrolledAt: nowIso, ...guest.programEnrollment, userId };
+      imported.programEnrollment = true;
+    }
+  }
+
+  return { mutations, customFoods, recipes, savedMeals, programEnrollment, imported, skipped };
+}
+
+function toSyncBatchResult(planned: PlannedBatchOperation, outcome: StoreMutationResult): SyncBatchResult {
+  const { index, op, entity, key } = planned;
+  const label = batchEntityLabels[entity];
+
+  switch (outcome.status) {
+    case "applied":
+      return { index, op, entity, key, status: "applied", message: batchUpsertMessages[entity], data: outcome.record };
+    case "conflict":
+      return {
+        index,
+        op,
+        entity,
+        key,
+        status: "conflict",
+        message: outcome.current ? "Version conflict" : `${label} was deleted on another device`,
+        data: outcome.current ?? undefined
+      };
+    case "deleted":
+      return { index, op, entity, key, status: "applied", message: `${label} deleted` };
+    case "not_found":
+      return { index, op, entity, key, status: "applied", message: `${label} not found` };
+  }
+}
+
 function createUserId(): string {
   return `usr_${Date.now()}_${randomBytes(5).toString("hex")}`;
 }
@@ -199,21 +822,22 @@ function createAuthToken(): string {
   return randomBytes(24).toString("hex");
 }
 
-function hashPassword(password: string, salt?: string): string {
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+async function hashPassword(password: string, salt?: string): Promise<string> {
   const resolvedSalt = salt ?? randomBytes(16).toString("hex");
-  const hash = scryptSync(password, resolvedSalt, 32).toString("hex");
+  const hash = (await scryptAsync(password, resolvedSalt, 32)).toString("hex");
   return `${resolvedSalt}:${hash}`;
 }
 
-function verifyPassword(password: string, passwordHash: string): boolean {
+async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
   const [salt, storedHash] = passwordHash.split(":");
   if (!salt || !storedHash) {
     return false;
   }
 
-  const calculatedHash = scryptSync(password, salt, 32).toString("hex");
   const storedBytes = Buffer.from(storedHash, "hex");
-  const calculatedBytes = Buffer.from(calculatedHash, "hex");
+  const calculatedBytes = await scryptAsync(password, salt, 32);
 
   if (storedBytes.length !== calculatedBytes.length) {
     return false;
@@ -222,15 +846,74 @@ function verifyPassword(password: string, passwordHash: string): boolean {
   return timingSafeEqual(storedBytes, calculatedBytes);
 }
 
-type AuthMode = "allow-local-fallback" | "require-token";
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
 
-async function resolveRequestUserId(req: Request, res: Response, mode: AuthMode): Promise<string | null> {
+function createSessionId(): string {
+  return `ses_${Date.now()}_${randomBytes(5).toString("hex")}`;
+}
+
+function toEarliestIso(nowMs: number, durationMs: number, capIso: string): string {
+  return new Date(Math.min(nowMs + durationMs, Date.parse(capIso))).toISOString();
+}
+
+// Issues a fresh token pair and slides the idle window, never past the absolute expiry.
+function renewAuthSession(session: AuthSession): AuthSession {
+  const nowMs = Date.now();
+  return {
+    ...session,
+    accessToken: createAuthToken(),
+    refreshToken: createAuthToken(),
+    lastActiveAt: new Date(nowMs).toISOString(),
+    accessExpiresAt: toEarliestIso(nowMs, config.SESSION_ACCESS_TTL_MINUTES * MINUTE_MS, session.expiresAt),
+    refreshExpiresAt: toEarliestIso(nowMs, config.SESSION_IDLE_TIMEOUT_DAYS * DAY_MS, session.expiresAt)
+  };
+}
+
+async function startAuthSession(req: Request, userId: string, deviceName?: string): Promise<AuthSession> {
+  const nowMs = Date.now();
+  const nowIso = new Date(nowMs).toISOString();
+  const session = renewAuthSession({
+    id: createSessionId(),
+    userId,
+    accessToken: "",
+    refreshToken: "",
+    deviceName: deviceName ?? req.header("user-agent")?.slice(0, 80) ?? null,
+    createdAt: nowIso,
+    lastActiveAt: nowIso,
+    accessExpiresAt: nowIso,
+    refreshExpiresAt: nowIso,
+    expiresAt: new Date(nowMs + config.SESSION_MAX_AGE_DAYS * DAY_MS).toISOString()
+  });
+  await createAuthSession(session);
+  return session;
+}
+
+function toAuthTokens(session: AuthSession) {
+  return {
+    token: session.accessToken,
+    refreshToken: session.refreshToken,
+    expiresAt: session.accessExpiresAt
+  };
+}
+
+// `refreshExpiresAt` is already capped by the absolute expiry, so it alone decides whether a session is over.
+function isSessionActive(session: AuthSession): boolean {
+  return Date.parse(session.refreshExpiresAt) > Date.now();
+}
+
+function isAccessTokenValid(session: AuthSession): boolean {
+  return isSessionActive(session) && Date.parse(session.accessExpiresAt) > Date.now();
+}
+
+async function resolveRequestSession(req: Request, res: Response): Promise<AuthSession | null> {
   const authHeader = req.header("authorization");
 
   if (!authHeader) {
-    if (mode === "allow-local-fallback") {
-      return "local-user";
-    }
     res.status(401).json({ message: "Missing authorization token" });
     return null;
   }
@@ -246,23 +929,143 @@ async function resolveRequestUserId(req: Request, res: Response, mode: AuthMode)
     return null;
   }
 
-  const userId = await getAuthSessionUserId(token);
-  if (!userId) {
+  const session = await getAuthSessionByAccessToken(token);
+  if (!session || !isAccessTokenValid(session)) {
     res.status(401).json({ message: "Session is invalid or expired" });
     return null;
   }
 
-  return userId;
+  return session;
+}
+
+type AuthMode = "allow-anonymous" | "require-token";
+
+/**
+ * How requests without a bearer token are treated: `device` needs the token a guest device got
+ * from `/auth/anonymous`, `shared` also lets tokenless clients into the old shared `local-user`
+ * bucket, and `off` requires an account for everything.
+ */
+export type AnonymousAccess = "device" | "shared" | "off";
+
+export interface ServerOptions {
+  anonymousAccess?: AnonymousAccess;
+}
+
+const SHARED_GUEST_USER_ID = "local-user";
+
+async function resolveAnonymousUserId(req: Request, res: Response): Promise<string | null> {
+  const access = req.app.locals.anonymousAccess as AnonymousAccess;
+  if (access === "off") {
+    res.status(401).json({
+      message: "Sign in required"
+    });
+    return null;
+  }
+
+  const guestToken = req.header("x-guest-token");
+  if (guestToken) {
+    const device = await getAnonymousDeviceByTokenHash(hashToken(guestToken));
+    if (!device) {
+      res.status(401).json({
+        message: "Guest token is invalid"
+      });
+      return null;
+    }
+    return device.userId;
+  }
+
+  if (access === "shared") {
+    return SHARED_GUEST_USER_ID;
+  }
+
+  res.status(401).json({
+    message: "Guest token required"
+  });
+  return null;
+}
+
+async function resolveRequestUserId(req: Request, res: Response, mode: AuthMode): Promise<string | null> {
+  if (!req.header("authorization") && mode === "allow-anonymous") {
+    return resolveAnonymousUserId(req, res);
+  }
+
+  const session = await resolveRequestSession(req, res);
+  return session?.userId ?? null;
+}
+
+function toSessionSummary(session: AuthSession, currentSessionId: string) {
+  return {
+    id: session.id,
+    deviceName: session.deviceName,
+    createdAt: session.createdAt,
+    lastActiveAt: session.lastActiveAt,
+    expiresAt: session.refreshExpiresAt,
+    current: session.id === currentSessionId
+  };
+}
+
+function sendTooManyLoginAttempts(res: Response, retryAfterMs: number) {
+  const retryAfterSeconds = Math.ceil(retryAfterMs / 1000);
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({
+    message: `Too many login attempts. Try again in ${retryAfterSeconds} seconds.`,
+    retryAfterSeconds
+  });
 }
 
-export function createServer() {
+export function createServer(options: ServerOptions = {}) {
   const app = express();
+  app.locals.anonymousAccess = options.anonymousAccess ?? config.ANONYMOUS_ACCESS;
+  const lockoutMs = config.LOGIN_LOCKOUT_MINUTES * MINUTE_MS;
+  const emailThrottle = createLoginThrottle({ maxFailures: config.LOGIN_MAX_FAILURES_PER_EMAIL, lockoutMs });
+  const ipThrottle = createLoginThrottle({ maxFailures: config.LOGIN_MAX_FAILURES_PER_IP, lockoutMs });
+
+  function loginRetryAfterMs(ip: string, email: string, nowMs: number): number {
+    return Math.max(ipThrottle.retryAfterMs(ip, nowMs), emailThrottle.retryAfterMs(email, nowMs));
+  }
+
+  /**
+   * Re-checks a signed-in user's password under the login throttles, so a stolen access token
+   * cannot be used to guess it. Answers 429, or 403 with `wrongMessage`, and returns false on failure.
+   */
+  async function verifyAccountPassword(
+    req: Request,
+    res: Response,
+    authUser: AuthUser,
+    password: string,
+    wrongMessage: string
+  ): Promise<boolean> {
+    const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+    const blockedForMs = loginRetryAfterMs(ip, authUser.email, Date.now());
+    if (blockedForMs > 0) {
+      sendTooManyLoginAttempts(res, blockedForMs);
+      return false;
+    }
+
+    if (await verifyPassword(password, authUser.passwordHash)) {
+      emailThrottle.reset(authUser.email);
+      return true;
+    }
+
+    const failedAtMs = Date.now();
+    ipThrottle.recordFailure(ip, failedAtMs);
+    emailThrottle.recordFailure(authUser.email, failedAtMs);
+    const retryAfterMs = loginRetryAfterMs(ip, authUser.email, failedAtMs);
+    if (retryAfterMs > 0) {
+      sendTooManyLoginAttempts(res, retryAfterMs);
+    } else {
+      res.status(403).json({ message: wrongMessage });
+    }
+    return false;
+  }
 
   app.use(
     cors({
       origin: config.CORS_ORIGIN === "*" ? true : config.CORS_ORIGIN
     })
   );
+  // Guest data uploads carry a device's whole history, so they get a larger body limit.
+  app.use("/api/v1/account/guest-data", express.json({ limit: "5mb" }));
   app.use(express.json());
 
   app.get("/health", (_req, res) => {
@@ -274,6 +1077,54 @@ export function createServer() {
     });
   });
 
+  app.post("/api/v1/auth/anonymous", async (req, res) => {
+    if (app.locals.anonymousAccess === "off") {
+      res.status(403).json({
+        message: "Guest mode is disabled on this server"
+      });
+      return;
+    }
+
+    const parsed = anonymousDeviceSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid device payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const guestToken = randomBytes(32).toString("hex");
+    const userId = `guest_${randomBytes(12).toString("hex")}`;
+    const created = await createAnonymousDevice({
+      deviceId: parsed.data.deviceId,
+      userId,
+      tokenHash: hashToken(guestToken),
+      createdAt: new Date().toISOString()
+    });
+    if (!created) {
+      // A device that proves it holds the current token is retrying, so it gets the same identity back.
+      const currentToken = req.header("x-guest-token");
+      const device = currentToken ? await getAnonymousDeviceByTokenHash(hashToken(currentToken)) : null;
+      if (device?.deviceId === parsed.data.deviceId) {
+        res.json({
+          guestToken: currentToken,
+          userId: device.userId
+        });
+        return;
+      }
+      res.status(409).json({
+        message: "Device is already registered"
+      });
+      return;
+    }
+
+    res.status(201).json({
+      guestToken,
+      userId
+    });
+  });
+
   app.post("/api/v1/auth/register", async (req, res) => {
     const parsed = authRegisterSchema.safeParse(req.body);
 
@@ -291,7 +1142,7 @@ export function createServer() {
     const authUser: AuthUser = {
       id: userId,
       email,
-      passwordHash: hashPassword(parsed.data.password),
+      passwordHash: await hashPassword(parsed.data.password),
       createdAt
     };
 
@@ -305,11 +1156,10 @@ export function createServer() {
 
     await resetAppData(userId);
 
-    const token = createAuthToken();
-    await createAuthSession(token, userId);
+    const session = await startAuthSession(req, userId, parsed.data.deviceName);
 
     res.status(201).json({
-      token,
+      ...toAuthTokens(session),
       user: {
         id: userId,
         email,
@@ -330,20 +1180,38 @@ export function createServer() {
     }
 
     const email = parsed.data.email.toLowerCase();
+    const ip = req.ip ?? req.socket.remoteAddress ?? "unknown";
+    const blockedForMs = loginRetryAfterMs(ip, email, Date.now());
+    if (blockedForMs > 0) {
+      sendTooManyLoginAttempts(res, blockedForMs);
+      return;
+    }
+
     const authUser = await getAuthUserByEmail(email);
 
-    if (!authUser || !verifyPassword(parsed.data.password, authUser.passwordHash)) {
+    if (!authUser || !(await verifyPassword(parsed.data.password, authUser.passwordHash))) {
+      const failedAtMs = Date.now();
+      ipThrottle.recordFailure(ip, failedAtMs);
+      emailThrottle.recordFailure(email, failedAtMs);
+
+      const retryAfterMs = loginRetryAfterMs(ip, email, failedAtMs);
+      if (retryAfterMs > 0) {
+        sendTooManyLoginAttempts(res, retryAfterMs);
+        return;
+      }
+
       res.status(401).json({
         message: "Invalid email or password"
       });
       return;
     }
 
-    const token = createAuthToken();
-    await createAuthSession(token, authUser.id);
+    emailThrottle.reset(email);
+
+    const session = await startAuthSession(req, authUser.id, parsed.data.deviceName);
 
     res.json({
-      token,
+      ...toAuthTokens(session),
       user: {
         id: authUser.id,
         email: authUser.email,
@@ -352,13 +1220,46 @@ export function createServer() {
     });
   });
 
-  app.get("/api/v1/auth/me", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "require-token");
-    if (!userId) {
-      return;
-    }
+  app.post("/api/v1/auth/refresh", async (req, res) => {
+    const parsed = authRefreshSchema.safeParse(req.body);
 
-    const user = await getAuthUserById(userId);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid refresh payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const session = await getAuthSessionByRefreshToken(parsed.data.refreshToken);
+    if (!session || !isSessionActive(session)) {
+      if (session) {
+        await deleteAuthSession(session.id);
+      }
+      res.status(401).json({
+        message: "Refresh token is invalid or expired"
+      });
+      return;
+    }
+
+    const renewed = renewAuthSession(session);
+    if (!(await rotateAuthSession(renewed, session.refreshToken))) {
+      res.status(401).json({
+        message: "Refresh token is invalid or expired"
+      });
+      return;
+    }
+
+    res.json(toAuthTokens(renewed));
+  });
+
+  app.get("/api/v1/auth/me", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "require-token");
+    if (!userId) {
+      return;
+    }
+
+    const user = await getAuthUserById(userId);
     if (!user) {
       res.status(401).json({
         message: "Session is invalid"
@@ -379,15 +1280,278 @@ export function createServer() {
     }
 
     const token = authHeader.slice("Bearer ".length).trim();
-    if (token) {
-      await deleteAuthSession(token);
+    const session = token ? await getAuthSessionByAccessToken(token) : null;
+    if (session) {
+      await deleteAuthSession(session.id);
     }
 
     res.status(204).send();
   });
 
+  app.get("/api/v1/auth/sessions", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const sessions = (await listAuthSessions(current.userId))
+      .filter(isSessionActive)
+      .sort((a, b) => b.lastActiveAt.localeCompare(a.lastActiveAt));
+
+    res.json({
+      sessions: sessions.map((session) => toSessionSummary(session, current.id))
+    });
+  });
+
+  app.delete("/api/v1/auth/sessions", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const revokedCount = await deleteAuthSessions(current.userId, current.id);
+    res.json({
+      message: "Signed out of all other devices",
+      revokedCount
+    });
+  });
+
+  app.post("/api/v1/auth/password", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const parsed = passwordChangeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid password change payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const authUser = await getAuthCredentialsById(current.userId);
+    if (!authUser) {
+      res.status(401).json({
+        message: "Session is invalid"
+      });
+      return;
+    }
+
+    const wrongMessage = "Current password is incorrect";
+    if (!(await verifyAccountPassword(req, res, authUser, parsed.data.currentPassword, wrongMessage))) {
+      return;
+    }
+
+    await updateAuthUserPassword(authUser.id, await hashPassword(parsed.data.newPassword));
+    const revokedCount = await deleteAuthSessions(authUser.id, current.id);
+
+    res.json({
+      message: "Password updated",
+      revokedCount
+    });
+  });
+
+  app.post("/api/v1/auth/password-reset/request", async (req, res) => {
+    const parsed = passwordResetRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid password reset payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    // Same answer whether or not the email exists, so this cannot be used to probe accounts.
+    const authUser = await getAuthUserByEmail(parsed.data.email.toLowerCase());
+    if (authUser) {
+      const token = randomBytes(16).toString("hex");
+      const nowMs = Date.now();
+      await createPasswordReset({
+        tokenHash: hashToken(token),
+        userId: authUser.id,
+        createdAt: new Date(nowMs).toISOString(),
+        expiresAt: new Date(nowMs + config.PASSWORD_RESET_TTL_MINUTES * MINUTE_MS).toISOString()
+      });
+      // Not awaited: a slow or broken transport must neither fail the request nor time it.
+      void sendMail({
+        to: authUser.email,
+        subject: "Reset your PulseFit password",
+        text: [
+          "Someone asked to reset the password for your PulseFit account.",
+          "",
+          `Reset code: ${token}`,
+          "",
+          `Enter it in the app within ${config.PASSWORD_RESET_TTL_MINUTES} minutes. If this wasn't you, ignore this email.`
+        ].join("\n")
+      }).catch((error: unknown) => {
+        console.error(`[mail] Password reset mail failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+
+    res.status(202).json({
+      message: "If that email is registered, a reset code is on its way"
+    });
+  });
+
+  app.post("/api/v1/auth/password-reset/confirm", async (req, res) => {
+    const parsed = passwordResetConfirmSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid password reset payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const reset = await consumePasswordReset(hashToken(parsed.data.token));
+    const updated =
+      !!reset &&
+      Date.parse(reset.expiresAt) > Date.now() &&
+      (await updateAuthUserPassword(reset.userId, await hashPassword(parsed.data.newPassword)));
+    if (!reset || !updated) {
+      res.status(400).json({
+        message: "Reset code is invalid or expired"
+      });
+      return;
+    }
+
+    await deleteAuthSessions(reset.userId);
+
+    res.json({
+      message: "Password reset. Sign in with your new password."
+    });
+  });
+
+  app.get("/api/v1/account/export", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const [account, data, sessions, programEnrollment, customFoods, recipes, savedMeals] = await Promise.all([
+      getAuthUserById(current.userId),
+      readAppData(current.userId),
+      listAuthSessions(current.userId),
+      getProgramEnrollment(current.userId),
+      listCustomFoods(current.userId),
+      listRecipes(current.userId),
+      listSavedMeals(current.userId)
+    ]);
+    if (!account) {
+      res.status(401).json({
+        message: "Session is invalid"
+      });
+      return;
+    }
+
+    const exportedAt = new Date().toISOString();
+    res.attachment(`pulsefit-export-${exportedAt.slice(0, 10)}.json`);
+    res.json({
+      exportedAt,
+      account,
+      sessions: sessions.filter(isSessionActive).map((session) => toSessionSummary(session, current.id)),
+      profile: data.profile,
+      workouts: data.workouts,
+      nutritionByDate: data.nutritionByDate,
+      progressEntries: data.progressEntries,
+      programEnrollment: programEnrollment ? toPublicEnrollment(programEnrollment) : null,
+      customFoods: customFoods.map(toPublicCustomFood),
+      recipes: recipes.map(toPublicRecipe),
+      savedMeals: savedMeals.map(toPublicSavedMeal)
+    });
+  });
+
+  app.post("/api/v1/account/guest-data", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const parsed = guestDataImportSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid guest data payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const [data, accountFoods, accountRecipes, accountMeals, accountEnrollment] = await Promise.all([
+      readAppData(current.userId),
+      listCustomFoods(current.userId),
+      listRecipes(current.userId),
+      listSavedMeals(current.userId),
+      getProgramEnrollment(current.userId)
+    ]);
+    const { mutations, customFoods, recipes, savedMeals, programEnrollment, imported, skipped } = planGuestDataImport(
+      current.userId,
+      {
+        data,
+        customFoods: accountFoods,
+        recipes: accountRecipes,
+        savedMeals: accountMeals,
+        programEnrollment: accountEnrollment
+      },
+      parsed.data,
+      new Date().toISOString()
+    );
+    await applyStoreMutations(current.userId, mutations);
+    for (const food of customFoods) {
+      await saveCustomFood(food);
+    }
+    for (const recipe of recipes) {
+      await saveRecipe(recipe);
+    }
+    for (const meal of savedMeals) {
+      await saveSavedMeal(meal);
+    }
+    if (programEnrollment) {
+      await saveProgramEnrollment(programEnrollment);
+    }
+
+    res.json({
+      message: "Guest data merged",
+      imported,
+      skipped
+    });
+  });
+
+  app.delete("/api/v1/account", async (req, res) => {
+    const current = await resolveRequestSession(req, res);
+    if (!current) {
+      return;
+    }
+
+    const parsed = accountDeleteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid account deletion payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const authUser = await getAuthCredentialsById(current.userId);
+    if (!authUser) {
+      res.status(403).json({
+        message: "Password is incorrect"
+      });
+      return;
+    }
+    if (!(await verifyAccountPassword(req, res, authUser, parsed.data.password, "Password is incorrect"))) {
+      return;
+    }
+
+    await deleteAuthUser(authUser.id);
+    res.json({
+      message: "Account deleted"
+    });
+  });
+
   app.get("/api/v1/sync/snapshot", async (_req, res) => {
-    const userId = await resolveRequestUserId(_req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(_req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -396,8 +1560,71 @@ export function createServer() {
     res.json(sortData(data));
   });
 
+  app.get("/api/v1/sync/changes", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const since = req.query.since;
+    if (since !== undefined && (typeof since !== "string" || !/^\d+$/.test(since))) {
+      res.status(400).json({
+        message: "Invalid sync cursor"
+      });
+      return;
+    }
+
+    const sinceRevision = since === undefined ? 0 : Number(since);
+    const snapshot = await readSyncSnapshot(userId, sinceRevision);
+    const data = sortData(snapshot.data);
+
+    // A cursor ahead of the journal means the server lost history; send everything again.
+    const isIncremental = sinceRevision > 0 && sinceRevision <= snapshot.revision;
+
+    res.json({
+      cursor: String(snapshot.revision),
+      changes: buildSyncChangeSet(data, isIncremental ? snapshot.entries : null)
+    });
+  });
+
+  app.post("/api/v1/sync/batch", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = syncBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid sync batch payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const nowIso = new Date().toISOString();
+    const planned = parsed.data.operations.map((operation, index) =>
+      planSyncBatchOperation(userId, operation, index, nowIso)
+    );
+    const outcomes = await applyStoreMutations(
+      userId,
+      planned.flatMap((item) => ("mutation" in item ? [item.mutation] : []))
+    );
+    let outcomeIndex = 0;
+    const results = planned.map((item) =>
+      "mutation" in item ? toSyncBatchResult(item, outcomes[outcomeIndex++]) : item
+    );
+
+    res.json({
+      message: "Sync batch processed",
+      appliedCount: results.filter((result) => result.status === "applied").length,
+      rejectedCount: results.filter((result) => result.status === "rejected").length,
+      results
+    });
+  });
+
   app.delete("/api/v1/sync/data", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -410,7 +1637,7 @@ export function createServer() {
   });
 
   app.put("/api/v1/profile", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -424,17 +1651,15 @@ export function createServer() {
       return;
     }
 
-    const data = await readAppData(userId);
-    data.profile = {
+    const profile = await upsertProfile(userId, {
       ...parsed.data,
       id: userId
-    };
-    await writeAppData(data, userId);
-    res.json({ data: data.profile });
+    });
+    res.json({ data: profile });
   });
 
   app.get("/api/v1/profile", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -444,7 +1669,7 @@ export function createServer() {
   });
 
   app.get("/api/v1/plans/sample", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -463,21 +1688,152 @@ export function createServer() {
     });
   });
 
+  app.get("/api/v1/programs", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const data = await readAppData(userId);
+    const programs = listProgramsForGoal(data.profile?.goal ?? "maintain");
+    res.json({
+      count: programs.length,
+      data: programs
+    });
+  });
+
+  app.get("/api/v1/programs/enrollment", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const enrollment = await getProgramEnrollment(userId);
+    res.json({ data: enrollment ? toPublicEnrollment(enrollment) : null });
+  });
+
+  app.post("/api/v1/programs/enrollment", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = programEnrollmentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid program enrollment payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const program = findTrainingProgram(parsed.data.programId);
+    if (!program) {
+      res.status(404).json({ message: "Program not found" });
+      return;
+    }
+
+    const enrollment: ProgramEnrollment = {
+      userId,
+      programId: program.id,
+      startDate: parsed.data.startDate ?? toDateKey(new Date()),
+      enrolledAt: new Date().toISOString()
+    };
+    await saveProgramEnrollment(enrollment);
+    res.status(201).json({ data: toPublicEnrollment(enrollment) });
+  });
+
+  app.delete("/api/v1/programs/enrollment", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    if (!(await deleteProgramEnrollment(userId))) {
+      res.status(404).json({ message: "Not enrolled in a program" });
+      return;
+    }
+    res.json({ message: "Left program" });
+  });
+
+  app.get("/api/v1/programs/today", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = programDayQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid program query",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const enrollment = await getProgramEnrollment(userId);
+    if (!enrollment) {
+      res.status(404).json({ message: "Not enrolled in a program" });
+      return;
+    }
+
+    // Null before the start date, and for enrollments in a program that has since been retired.
+    res.json({ data: getProgramDay(enrollment, parsed.data.date ?? toDateKey(new Date())) });
+  });
+
   app.get("/api/v1/workouts/logs", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
 
-    const data = sortData(await readAppData(userId));
+    const parsed = workoutHistoryQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid workout history query",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const { cursor, ...query } = parsed.data;
+    const after = cursor === undefined ? undefined : decodeWorkoutCursor(cursor);
+    if (after === null) {
+      res.status(400).json({
+        message: "Invalid workout history cursor"
+      });
+      return;
+    }
+
+    const page = await queryWorkoutHistory(userId, { ...query, after });
     res.json({
-      count: data.workouts.length,
-      data: data.workouts
+      count: page.total,
+      data: page.items,
+      nextCursor: page.hasMore ? encodeWorkoutCursor(page.items[page.items.length - 1]) : null
+    });
+  });
+
+  app.get("/api/v1/workouts/logs/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const workout = await getWorkout(userId, req.params.id);
+    if (!workout) {
+      res.status(404).json({
+        message: "Workout not found"
+      });
+      return;
+    }
+
+    res.json({
+      data: workout
     });
   });
 
   app.post("/api/v1/workouts/logs", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -492,45 +1848,42 @@ export function createServer() {
       return;
     }
 
-    const nowIso = new Date().toISOString();
-    const payload = parsed.data;
-    const data = await readAppData(userId);
-
-    const normalizedWorkout: StoredWorkoutLog = {
-      ...payload,
-      createdAt: payload.createdAt ?? nowIso,
-      syncedAt: nowIso
-    };
-
-    replaceOrPushWorkout(data, normalizedWorkout);
-    await writeAppData(sortData(data), userId);
+    const write = await upsertWorkout(
+      userId,
+      toWorkoutInput(parsed.data, new Date().toISOString()),
+      parsed.data.version
+    );
+    if (write.status === "conflict") {
+      res.status(409).json({
+        message: write.current ? "Workout was changed on another device" : "Workout was deleted on another device",
+        data: write.current
+      });
+      return;
+    }
 
     res.status(201).json({
       message: "Workout logged",
-      data: normalizedWorkout
+      data: write.record
     });
   });
 
   app.delete("/api/v1/workouts/logs/:id", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
 
     const id = req.params.id;
-    const data = await readAppData(userId);
-    const initialCount = data.workouts.length;
-    data.workouts = data.workouts.filter((entry) => entry.id !== id);
-    await writeAppData(sortData(data), userId);
+    const removed = await deleteWorkout(userId, id);
 
     res.json({
-      message: initialCount === data.workouts.length ? "Workout not found" : "Workout deleted",
+      message: removed ? "Workout deleted" : "Workout not found",
       id
     });
   });
 
   app.get("/api/v1/nutrition/logs", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -543,7 +1896,7 @@ export function createServer() {
   });
 
   app.put("/api/v1/nutrition/logs/:date", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -562,18 +1915,23 @@ export function createServer() {
       return;
     }
 
-    const data = await readAppData(userId);
-    data.nutritionByDate[date] = parsed.data;
-    await writeAppData(data, userId);
+    const write = await upsertNutrition(userId, toNutritionInput(parsed.data), parsed.data.version);
+    if (write.status === "conflict") {
+      res.status(409).json({
+        message: write.current ? "Nutrition was changed on another device" : "Nutrition was deleted on another device",
+        data: write.current
+      });
+      return;
+    }
 
     res.json({
       message: "Nutrition updated",
-      data: parsed.data
+      data: write.record
     });
   });
 
   app.delete("/api/v1/nutrition/logs/:date", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -588,12 +1946,7 @@ export function createServer() {
       return;
     }
 
-    const data = await readAppData(userId);
-    const hadValue = Object.hasOwn(data.nutritionByDate, date);
-    if (hadValue) {
-      delete data.nutritionByDate[date];
-      await writeAppData(data, userId);
-    }
+    const hadValue = await deleteNutrition(userId, date);
 
     res.json({
       message: hadValue ? "Nutrition deleted" : "Nutrition not found",
@@ -601,8 +1954,235 @@ export function createServer() {
     });
   });
 
+  app.get("/api/v1/nutrition/foods", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = foodSearchQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid food search",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const [customFoods, recipes] = await Promise.all([listCustomFoods(userId), listRecipes(userId)]);
+    const userFoods = [...customFoods.map(toPublicCustomFood), ...recipes.map(recipeAsFood)];
+    const foods = parsed.data.q
+      ? searchFoods(parsed.data.q, userFoods, parsed.data.limit)
+      : [...userFoods, ...FOOD_DATABASE].slice(0, parsed.data.limit);
+    res.json({
+      count: foods.length,
+      data: foods
+    });
+  });
+
+  app.get("/api/v1/nutrition/foods/custom", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const foods = await listCustomFoods(userId);
+    res.json({
+      count: foods.length,
+      data: foods.map(toPublicCustomFood)
+    });
+  });
+
+  app.put("/api/v1/nutrition/foods/custom/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid custom food id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    const parsed = customFoodSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid custom food payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const food: CustomFood = { ...parsed.data, id: id.data, userId, updatedAt: new Date().toISOString() };
+    await saveCustomFood(food);
+    res.json({
+      message: "Custom food saved",
+      data: toPublicCustomFood(food)
+    });
+  });
+
+  app.delete("/api/v1/nutrition/foods/custom/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid custom food id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    if (!(await deleteCustomFood(userId, id.data))) {
+      res.status(404).json({ message: "Custom food not found" });
+      return;
+    }
+    res.json({ message: "Custom food deleted", id: id.data });
+  });
+
+  app.get("/api/v1/nutrition/recipes", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const recipes = await listRecipes(userId);
+    res.json({
+      count: recipes.length,
+      data: recipes.map((recipe) => ({ ...toPublicRecipe(recipe), perServing: getRecipeServingMacros(recipe) }))
+    });
+  });
+
+  app.put("/api/v1/nutrition/recipes/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid recipe id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    const parsed = recipeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid recipe payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const recipe: UserRecipe = { ...parsed.data, id: id.data, userId, updatedAt: new Date().toISOString() };
+    await saveRecipe(recipe);
+    res.json({
+      message: "Recipe saved",
+      data: { ...toPublicRecipe(recipe), perServing: getRecipeServingMacros(recipe) }
+    });
+  });
+
+  app.delete("/api/v1/nutrition/recipes/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid recipe id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    if (!(await deleteRecipe(userId, id.data))) {
+      res.status(404).json({ message: "Recipe not found" });
+      return;
+    }
+    res.json({ message: "Recipe deleted", id: id.data });
+  });
+
+  app.get("/api/v1/nutrition/saved-meals", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const meals = await listSavedMeals(userId);
+    res.json({
+      count: meals.length,
+      data: meals.map(toPublicSavedMeal)
+    });
+  });
+
+  app.put("/api/v1/nutrition/saved-meals/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid saved meal id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    const parsed = savedMealSchema.safeParse(req.body);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid saved meal payload",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const meal: UserSavedMeal = { ...parsed.data, id: id.data, userId, updatedAt: new Date().toISOString() };
+    await saveSavedMeal(meal);
+    res.json({
+      message: "Saved meal saved",
+      data: toPublicSavedMeal(meal)
+    });
+  });
+
+  app.delete("/api/v1/nutrition/saved-meals/:id", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const id = userFoodIdSchema.safeParse(req.params.id);
+    if (!id.success) {
+      res.status(400).json({
+        message: "Invalid saved meal id",
+        errors: id.error.flatten()
+      });
+      return;
+    }
+
+    if (!(await deleteSavedMeal(userId, id.data))) {
+      res.status(404).json({ message: "Saved meal not found" });
+      return;
+    }
+    res.json({ message: "Saved meal deleted", id: id.data });
+  });
+
   app.get("/api/v1/progress/entries", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -615,7 +2195,7 @@ export function createServer() {
   });
 
   app.post("/api/v1/progress/entries", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
@@ -630,34 +2210,94 @@ export function createServer() {
       return;
     }
 
-    const data = await readAppData(userId);
-    replaceOrPushProgress(data, parsed.data);
-    await writeAppData(sortData(data), userId);
+    const write = await upsertProgress(userId, toProgressInput(parsed.data), parsed.data.version);
+    if (write.status === "conflict") {
+      res.status(409).json({
+        message: write.current
+          ? "Progress entry was changed on another device"
+          : "Progress entry was deleted on another device",
+        data: write.current
+      });
+      return;
+    }
 
     res.status(201).json({
       message: "Progress logged",
-      data: parsed.data
+      data: write.record
     });
   });
 
   app.delete("/api/v1/progress/entries/:id", async (req, res) => {
-    const userId = await resolveRequestUserId(req, res, "allow-local-fallback");
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
     if (!userId) {
       return;
     }
 
     const id = req.params.id;
-    const data = await readAppData(userId);
-    const initialCount = data.progressEntries.length;
-    data.progressEntries = data.progressEntries.filter((entry) => entry.id !== id);
-    await writeAppData(sortData(data), userId);
+    const removed = await deleteProgress(userId, id);
 
     res.json({
-      message: initialCount === data.progressEntries.length ? "Progress not found" : "Progress deleted",
+      message: removed ? "Progress deleted" : "Progress not found",
       id
     });
   });
 
+  app.get("/api/v1/analytics/volume", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = volumeAnalyticsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid analytics query",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const data = await readAppData(userId);
+    const goal = data.profile?.goal ?? null;
+    res.json({
+      goal,
+      data: buildWeeklyVolume(data.workouts, goal, parsed.data.weeks, parsed.data.date ?? toDateKey(new Date()))
+    });
+  });
+
+  app.get("/api/v1/analytics/exercises/:name/history", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const data = await readAppData(userId);
+    res.json({
+      data: buildExerciseHistory(data.workouts, req.params.name)
+    });
+  });
+
+  app.get("/api/v1/analytics/streaks", async (req, res) => {
+    const userId = await resolveRequestUserId(req, res, "allow-anonymous");
+    if (!userId) {
+      return;
+    }
+
+    const parsed = streakAnalyticsQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      res.status(400).json({
+        message: "Invalid analytics query",
+        errors: parsed.error.flatten()
+      });
+      return;
+    }
+
+    const data = await readAppData(userId);
+    res.json({
+      data: buildWorkoutStreaks(data.workouts, parsed.data.date ?? toDateKey(new Date()))
+    });
+  });
+
   return app;
 }
 
@@ -0,0 +1,473 @@
+import { MEAL_TYPES } from "@fitness/shared";
+
+import type {
+  AppData,
+  AuthPublicUser,
+  AuthUser,
+  FoodLogItem,
+  MealComponent,
+  MealType,
+  NutritionLog,
+  ProgressEntry,
+  StoreMutation,
+  StoreMutationResult,
+  SyncChange,
+  SyncEntity,
+  WorkoutExerciseEntry,
+  WorkoutHistoryFilter,
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutLog,
+  WorkoutSetEntry,
+  WorkoutSortKey
+} from "./types.js";
+
+export const DEFAULT_USER_ID = "local-user";
+
+export function toErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+export function createDefaultAppData(): AppData {
+  return {
+    profile: null,
+    workouts: [],
+    nutritionByDate: {},
+    progressEntries: []
+  };
+}
+
+export function toNumber(value: number | string | null | undefined): number {
+  if (typeof value === "number") {
+    return value;
+  }
+  return Number(value ?? 0);
+}
+
+export function toIso(value: string | Date | null | undefined): string | null {
+  if (value == null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return new Date(value).toISOString();
+}
+
+function sanitizeVersion(value: unknown): number {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+/**
+ * Returns the version a write should be stored under, or null when it conflicts: the client
+ * edited an older copy, sent no version for a record the server already has, or edited a record
+ * that was deleted since. A write without a version for a deleted key creates it afresh.
+ */
+export function resolveNextVersion(
+  existing: { version: number } | undefined,
+  baseVersion: number | undefined,
+  deleted: boolean
+): number | null {
+  if (existing) {
+    return baseVersion === existing.version ? existing.version + 1 : null;
+  }
+  return deleted && baseVersion ? null : 1;
+}
+
+function sanitizeSetEntry(input: unknown): WorkoutSetEntry | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const row = input as Partial<WorkoutSetEntry>;
+  const reps = Number(row.reps);
+  if (!Number.isFinite(reps) || reps < 1) {
+    return null;
+  }
+
+  const weight = Number(row.weightKg);
+  const rpe = Number(row.rpe);
+  const rir = Number(row.rir);
+
+  return {
+    reps: Math.round(reps),
+    weightKg: Number.isFinite(weight) && weight >= 0 ? weight : undefined,
+    rpe: Number.isFinite(rpe) && rpe >= 1 && rpe <= 10 ? Number(rpe.toFixed(1)) : undefined,
+    rir: Number.isFinite(rir) && rir >= 0 && rir <= 10 ? Math.round(rir) : undefined,
+    isWarmup: row.isWarmup === true ? true : undefined
+  };
+}
+
+function sanitizeSetEntries(row: Record<string, unknown>): WorkoutSetEntry[] {
+  if (Array.isArray(row.sets)) {
+    return row.sets.flatMap((item) => {
+      const set = sanitizeSetEntry(item);
+      return set ? [set] : [];
+    });
+  }
+
+  // Legacy entries stored a single sets x reps x weight triple; expand it into identical sets.
+  const count = Number(row.sets);
+  const set = sanitizeSetEntry({ reps: row.reps, weightKg: row.weightKg });
+  if (!Number.isFinite(count) || count < 1 || !set) {
+    return [];
+  }
+
+  return Array.from({ length: Math.min(Math.round(count), 30) }, () => ({ ...set }));
+}
+
+export function sanitizeExerciseEntries(input: unknown): WorkoutExerciseEntry[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input.flatMap((item, index) => {
+    if (!item || typeof item !== "object") {
+      return [];
+    }
+
+    const row = item as Record<string, unknown>;
+    if (typeof row.name !== "string" || !row.name.trim()) {
+      return [];
+    }
+
+    const sets = sanitizeSetEntries(row);
+    if (!sets.length) {
+      return [];
+    }
+
+    return [
+      {
+        id: typeof row.id === "string" && row.id.trim() ? row.id : `ex_${index}`,
+        name: row.name.trim(),
+        sets
+      }
+    ];
+  });
+}
+
+function sanitizeMealComponent(input: unknown, index: number): MealComponent | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const row = input as Partial<MealComponent>;
+  const servings = Number(row.servings);
+  if (typeof row.name !== "string" || !row.name.trim() || !Number.isFinite(servings) || servings <= 0) {
+    return null;
+  }
+
+  return {
+    id: typeof row.id === "string" && row.id.trim() ? row.id : `food_${index}`,
+    foodId: typeof row.foodId === "string" && row.foodId ? row.foodId : null,
+    name: row.name.trim(),
+    servings,
+    calories: Math.max(0, toNumber(row.calories)),
+    protein: Math.max(0, toNumber(row.protein)),
+    carbs: Math.max(0, toNumber(row.carbs)),
+    fat: Math.max(0, toNumber(row.fat)),
+    ...(row.fiber !== undefined ? { fiber: Math.max(0, toNumber(row.fiber)) } : {})
+  };
+}
+
+export function sanitizeMealComponents(input: unknown): MealComponent[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+  return input.flatMap((item, index) => {
+    const component = sanitizeMealComponent(item, index);
+    return component ? [component] : [];
+  });
+}
+
+export function sanitizeFoodLogItems(input: unknown): FoodLogItem[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input.flatMap((item, index) => {
+    const component = sanitizeMealComponent(item, index);
+    if (!component) {
+      return [];
+    }
+    const meal = (item as Partial<FoodLogItem>).meal;
+    return [{ ...component, meal: MEAL_TYPES.includes(meal as MealType) ? (meal as MealType) : "snacks" }];
+  });
+}
+
+function sanitizeWorkoutLog(input: unknown, index: number): WorkoutLog | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const row = input as Partial<WorkoutLog>;
+  const duration = Number(row.durationMinutes);
+  const intensity = Number(row.intensityRpe);
+  const calories = Number(row.caloriesBurned);
+  const createdAt = typeof row.createdAt === "string" ? row.createdAt : new Date().toISOString();
+
+  return {
+    id: typeof row.id === "string" && row.id.trim() ? row.id : `wk_${index}`,
+    date: typeof row.date === "string" ? row.date : new Date().toISOString().slice(0, 10),
+    workoutType:
+      row.workoutType === "strength" || row.workoutType === "cardio" || row.workoutType === "mobility"
+        ? row.workoutType
+        : "strength",
+    durationMinutes: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : 30,
+    exerciseEntries: sanitizeExerciseEntries(row.exerciseEntries),
+    intensityRpe: Number.isFinite(intensity) && intensity >= 1 && intensity <= 10
+      ? Number(intensity.toFixed(1))
+      : undefined,
+    caloriesBurned: Number.isFinite(calories) && calories >= 0 ? Math.round(calories) : undefined,
+    templateName: typeof row.templateName === "string" && row.templateName.trim()
+      ? row.templateName.trim()
+      : undefined,
+    notes: typeof row.notes === "string" && row.notes.trim() ? row.notes.trim() : undefined,
+    createdAt,
+    updatedAt: typeof row.updatedAt === "string" ? row.updatedAt : createdAt,
+    syncedAt: typeof row.syncedAt === "string" ? row.syncedAt : null,
+    version: sanitizeVersion(row.version)
+  };
+}
+
+function sanitizeNutritionByDate(input: unknown): Record<string, NutritionLog> {
+  if (!input || typeof input !== "object") {
+    return {};
+  }
+
+  const nowIso = new Date().toISOString();
+  return Object.fromEntries(
+    Object.entries(input as Record<string, Partial<NutritionLog>>).flatMap(([date, row]) => {
+      if (!row || typeof row !== "object") {
+        return [];
+      }
+      return [[
+        date,
+        {
+          date,
+          calories: toNumber(row.calories),
+          protein: toNumber(row.protein),
+          carbs: toNumber(row.carbs),
+          fat: toNumber(row.fat),
+          waterLiters: toNumber(row.waterLiters),
+          items: sanitizeFoodLogItems(row.items),
+          updatedAt: typeof row.updatedAt === "string" ? row.updatedAt : nowIso,
+          version: sanitizeVersion(row.version)
+        }
+      ]];
+    })
+  );
+}
+
+function sanitizeProgressEntry(input: unknown): ProgressEntry | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const row = input as Partial<ProgressEntry>;
+  if (typeof row.id !== "string" || typeof row.date !== "string") {
+    return null;
+  }
+
+  return {
+    ...row,
+    id: row.id,
+    date: row.date,
+    weightKg: toNumber(row.weightKg),
+    updatedAt: typeof row.updatedAt === "string" ? row.updatedAt : new Date().toISOString(),
+    version: sanitizeVersion(row.version)
+  };
+}
+
+export function sanitizeAppData(input: Partial<AppData>): AppData {
+  const workouts = Array.isArray(input.workouts)
+    ? input.workouts.flatMap((entry, index) => {
+        const sanitized = sanitizeWorkoutLog(entry, index);
+        return sanitized ? [sanitized] : [];
+      })
+    : [];
+
+  return {
+    profile: input.profile ?? null,
+    workouts,
+    nutritionByDate: sanitizeNutritionByDate(input.nutritionByDate),
+    progressEntries: Array.isArray(input.progressEntries)
+      ? input.progressEntries.flatMap((entry) => {
+          const sanitized = sanitizeProgressEntry(entry);
+          return sanitized ? [sanitized] : [];
+        })
+      : []
+  };
+}
+
+export function toPublicUser(user: AuthUser): AuthPublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    createdAt: user.createdAt
+  };
+}
+
+export function listSyncTombstones(appData: AppData): SyncChange[] {
+  return [
+    ...(appData.profile ? [{ entity: "profile" as const, key: "profile", deleted: true }] : []),
+    ...appData.workouts.map((entry) => ({ entity: "workout" as const, key: entry.id, deleted: true })),
+    ...Object.keys(appData.nutritionByDate).map((date) => ({ entity: "nutrition" as const, key: date, deleted: true })),
+    ...appData.progressEntries.map((entry) => ({ entity: "progress" as const, key: entry.id, deleted: true }))
+  ];
+}
+
+export function toWorkoutSortKey(workout: WorkoutLog): WorkoutSortKey {
+  return [workout.date, workout.createdAt, workout.id];
+}
+
+// Plain code-unit order, which is what SQLite and Postgres' "C" collation use for the keys.
+function compareText(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Negative when `a` comes first in history, i.e. is newer. */
+export function compareWorkoutSortKeys(a: WorkoutSortKey, b: WorkoutSortKey): number {
+  for (let index = 0; index < a.length; index += 1) {
+    const order = compareText(b[index], a[index]);
+    if (order !== 0) {
+      return order;
+    }
+  }
+  return 0;
+}
+
+export function compareWorkoutsNewestFirst(a: WorkoutLog, b: WorkoutLog): number {
+  return compareWorkoutSortKeys(toWorkoutSortKey(a), toWorkoutSortKey(b));
+}
+
+function matchesWorkoutFilter(workout: WorkoutLog, filter: WorkoutHistoryFilter): boolean {
+  if ((filter.from && workout.date < filter.from) || (filter.to && workout.date > filter.to)) {
+    return false;
+  }
+  if (filter.workoutType && workout.workoutType !== filter.workoutType) {
+    return false;
+  }
+  if (filter.templateName && workout.templateName?.toLowerCase() !== filter.templateName.toLowerCase()) {
+    return false;
+  }
+  const hasExercise = (needle: string) =>
+    workout.exerciseEntries.some((entry) => entry.name.toLowerCase().includes(needle.toLowerCase()));
+  if (filter.exercise && !hasExercise(filter.exercise)) {
+    return false;
+  }
+  if (filter.q && !workout.templateName?.toLowerCase().includes(filter.q.toLowerCase()) && !hasExercise(filter.q)) {
+    return false;
+  }
+  return true;
+}
+
+/** The in-memory counterpart of the drivers' history queries. */
+export function queryWorkoutList(workouts: WorkoutLog[], query: WorkoutHistoryQuery): WorkoutHistoryPage {
+  const matches = workouts.filter((workout) => matchesWorkoutFilter(workout, query)).sort(compareWorkoutsNewestFirst);
+  const after = query.after;
+  const remaining = after
+    ? matches.filter((workout) => compareWorkoutSortKeys(toWorkoutSortKey(workout), after) > 0)
+    : matches;
+  const items = query.limit === undefined ? remaining : remaining.slice(0, query.limit);
+
+  return {
+    total: matches.length,
+    items,
+    hasMore: items.length < remaining.length
+  };
+}
+
+function replaceOrPush<T>(items: T[], item: T, matches: (entry: T) => boolean) {
+  const index = items.findIndex(matches);
+  if (index === -1) {
+    items.unshift(item);
+    return;
+  }
+  items[index] = item;
+}
+
+export function applyStoreMutationToAppData(
+  appData: AppData,
+  mutation: StoreMutation,
+  nowIso: string,
+  changes: SyncChange[],
+  isDeleted: (entity: SyncEntity, key: string) => boolean
+): StoreMutationResult {
+  switch (mutation.kind) {
+    case "upsertProfile": {
+      appData.profile = mutation.profile;
+      changes.push({ entity: "profile", key: "profile", deleted: false });
+      return { status: "applied", record: mutation.profile };
+    }
+
+    case "upsertWorkout": {
+      const existing = appData.workouts.find((entry) => entry.id === mutation.workout.id);
+      const version = resolveNextVersion(existing, mutation.baseVersion, isDeleted("workout", mutation.workout.id));
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+      const workout: WorkoutLog = { ...mutation.workout, updatedAt: nowIso, version };
+      replaceOrPush(appData.workouts, workout, (entry) => entry.id === workout.id);
+      changes.push({ entity: "workout", key: workout.id, deleted: false });
+      return { status: "applied", record: workout };
+    }
+
+    case "upsertNutrition": {
+      const existing = appData.nutritionByDate[mutation.log.date];
+      const version = resolveNextVersion(existing, mutation.baseVersion, isDeleted("nutrition", mutation.log.date));
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+      const log: NutritionLog = { ...mutation.log, updatedAt: nowIso, version };
+      appData.nutritionByDate[log.date] = log;
+      changes.push({ entity: "nutrition", key: log.date, deleted: false });
+      return { status: "applied", record: log };
+    }
+
+    case "upsertProgress": {
+      const existing = appData.progressEntries.find((entry) => entry.id === mutation.entry.id);
+      const version = resolveNextVersion(existing, mutation.baseVersion, isDeleted("progress", mutation.entry.id));
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+      const entry: ProgressEntry = { ...mutation.entry, updatedAt: nowIso, version };
+      replaceOrPush(appData.progressEntries, entry, (item) => item.id === entry.id);
+      changes.push({ entity: "progress", key: entry.id, deleted: false });
+      return { status: "applied", record: entry };
+    }
+
+    case "deleteWorkout": {
+      const initialCount = appData.workouts.length;
+      appData.workouts = appData.workouts.filter((entry) => entry.id !== mutation.id);
+      if (initialCount === appData.workouts.length) {
+        return { status: "not_found" };
+      }
+      changes.push({ entity: "workout", key: mutation.id, deleted: true });
+      return { status: "deleted" };
+    }
+
+    case "deleteNutrition": {
+      if (!Object.hasOwn(appData.nutritionByDate, mutation.date)) {
+        return { status: "not_found" };
+      }
+      delete appData.nutritionByDate[mutation.date];
+      changes.push({ entity: "nutrition", key: mutation.date, deleted: true });
+      return { status: "deleted" };
+    }
+
+    case "deleteProgress": {
+      const initialCount = appData.progressEntries.length;
+      appData.progressEntries = appData.progressEntries.filter((entry) => entry.id !== mutation.id);
+      if (initialCount === appData.progressEntries.length) {
+        return { status: "not_found" };
+      }
+      changes.push({ entity: "progress", key: mutation.id, deleted: true });
+      return { status: "deleted" };
+    }
+  }
+}
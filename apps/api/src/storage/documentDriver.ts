@@ -0,0 +1,656 @@
+import {
+  DEFAULT_USER_ID,
+  applyStoreMutationToAppData,
+  createDefaultAppData,
+  listSyncTombstones,
+  queryWorkoutList,
+  sanitizeAppData,
+  sanitizeMealComponents,
+  toPublicUser
+} from "./common.js";
+import type {
+  AnonymousDevice,
+  AppData,
+  AuthPublicUser,
+  AuthSession,
+  AuthUser,
+  CreateAuthUserResult,
+  CustomFood,
+  PasswordReset,
+  ProgramEnrollment,
+  StorageBackend,
+  StorageDriver,
+  StoreMutation,
+  StoreMutationResult,
+  SyncChange,
+  SyncEntity,
+  SyncJournal,
+  SyncSnapshot,
+  SyncJournalEntry,
+  UserRecipe,
+  UserSavedMeal,
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutLog
+} from "./types.js";
+
+export interface StoreDocument {
+  users: AuthUser[];
+  sessions: AuthSession[];
+  passwordResets: PasswordReset[];
+  anonymousDevices: AnonymousDevice[];
+  programEnrollments: ProgramEnrollment[];
+  customFoods: CustomFood[];
+  recipes: UserRecipe[];
+  savedMeals: UserSavedMeal[];
+  userData: Record<string, AppData>;
+  syncRevision: number;
+  syncJournal: Record<string, SyncJournalEntry[]>;
+}
+
+export function createDefaultStoreDocument(): StoreDocument {
+  return {
+    users: [],
+    sessions: [],
+    passwordResets: [],
+    anonymousDevices: [],
+    programEnrollments: [],
+    customFoods: [],
+    recipes: [],
+    savedMeals: [],
+    userData: {
+      [DEFAULT_USER_ID]: createDefaultAppData()
+    },
+    syncRevision: 0,
+    syncJournal: {}
+  };
+}
+
+function isSyncEntity(value: unknown): value is SyncEntity {
+  return value === "profile" || value === "workout" || value === "nutrition" || value === "progress";
+}
+
+function sanitizeSyncJournal(input: unknown): Record<string, SyncJournalEntry[]> {
+  const journal: Record<string, SyncJournalEntry[]> = {};
+  if (!input || typeof input !== "object") {
+    return journal;
+  }
+
+  for (const [userId, value] of Object.entries(input as Record<string, unknown>)) {
+    if (!Array.isArray(value)) {
+      continue;
+    }
+    journal[userId] = value.filter((item): item is SyncJournalEntry => {
+      if (!item || typeof item !== "object") {
+        return false;
+      }
+      const row = item as Partial<SyncJournalEntry>;
+      return isSyncEntity(row.entity)
+        && typeof row.key === "string"
+        && typeof row.deleted === "boolean"
+        && typeof row.revision === "number"
+        && typeof row.changedAt === "string";
+    });
+  }
+
+  return journal;
+}
+
+export function sanitizeStoreDocument(input: unknown): StoreDocument {
+  if (!input || typeof input !== "object") {
+    return createDefaultStoreDocument();
+  }
+
+  const record = input as Record<string, unknown>;
+
+  // Backward compatibility with old single AppData file format.
+  if (
+    "profile" in record ||
+    "workouts" in record ||
+    "nutritionByDate" in record ||
+    "progressEntries" in record
+  ) {
+    return {
+      users: [],
+      sessions: [],
+      passwordResets: [],
+      anonymousDevices: [],
+      programEnrollments: [],
+      customFoods: [],
+      recipes: [],
+      savedMeals: [],
+      userData: {
+        [DEFAULT_USER_ID]: sanitizeAppData(record as Partial<AppData>)
+      },
+      syncRevision: 0,
+      syncJournal: {}
+    };
+  }
+
+  const users = Array.isArray(record.users)
+    ? record.users.filter((item): item is AuthUser => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<AuthUser>;
+        return typeof row.id === "string"
+          && typeof row.email === "string"
+          && typeof row.passwordHash === "string"
+          && typeof row.createdAt === "string";
+      })
+    : [];
+
+  // Sessions saved before expiry existed have no refresh token and are dropped.
+  const sessions = Array.isArray(record.sessions)
+    ? record.sessions.filter((item): item is AuthSession => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<AuthSession>;
+        return typeof row.id === "string"
+          && typeof row.userId === "string"
+          && typeof row.accessToken === "string"
+          && typeof row.refreshToken === "string"
+          && typeof row.createdAt === "string"
+          && typeof row.lastActiveAt === "string"
+          && typeof row.accessExpiresAt === "string"
+          && typeof row.refreshExpiresAt === "string"
+          && typeof row.expiresAt === "string";
+      }).map((row) => ({ ...row, deviceName: typeof row.deviceName === "string" ? row.deviceName : null }))
+    : [];
+
+  const passwordResets = Array.isArray(record.passwordResets)
+    ? record.passwordResets.filter((item): item is PasswordReset => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<PasswordReset>;
+        return typeof row.tokenHash === "string"
+          && typeof row.userId === "string"
+          && typeof row.createdAt === "string"
+          && typeof row.expiresAt === "string";
+      })
+    : [];
+
+  const anonymousDevices = Array.isArray(record.anonymousDevices)
+    ? record.anonymousDevices.filter((item): item is AnonymousDevice => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<AnonymousDevice>;
+        return typeof row.deviceId === "string"
+          && typeof row.userId === "string"
+          && typeof row.tokenHash === "string"
+          && typeof row.createdAt === "string";
+      })
+    : [];
+
+  const programEnrollments = Array.isArray(record.programEnrollments)
+    ? record.programEnrollments.filter((item): item is ProgramEnrollment => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<ProgramEnrollment>;
+        return typeof row.userId === "string"
+          && typeof row.programId === "string"
+          && typeof row.startDate === "string"
+          && typeof row.enrolledAt === "string";
+      })
+    : [];
+
+  const customFoods = Array.isArray(record.customFoods)
+    ? record.customFoods.filter((item): item is CustomFood => {
+        if (!item || typeof item !== "object") {
+          return false;
+        }
+        const row = item as Partial<CustomFood>;
+        return typeof row.userId === "string"
+          && typeof row.id === "string"
+          && typeof row.name === "string"
+          && typeof row.servingSize === "number"
+          && typeof row.servingUnit === "string"
+          && typeof row.calories === "number"
+          && typeof row.protein === "number"
+          && typeof row.carbs === "number"
+          && typeof row.fat === "number"
+          && typeof row.updatedAt === "string";
+      })
+    : [];
+
+  const recipes = Array.isArray(record.recipes)
+    ? record.recipes.flatMap((item): UserRecipe[] => {
+        const row = (item ?? {}) as Partial<UserRecipe>;
+        return typeof row.userId === "string"
+          && typeof row.id === "string"
+          && typeof row.name === "string"
+          && typeof row.yieldServings === "number"
+          && typeof row.updatedAt === "string"
+          ? [{ ...(row as UserRecipe), ingredients: sanitizeMealComponents(row.ingredients) }]
+          : [];
+      })
+    : [];
+
+  const savedMeals = Array.isArray(record.savedMeals)
+    ? record.savedMeals.flatMap((item): UserSavedMeal[] => {
+        const row = (item ?? {}) as Partial<UserSavedMeal>;
+        return typeof row.userId === "string"
+          && typeof row.id === "string"
+          && typeof row.name === "string"
+          && typeof row.updatedAt === "string"
+          ? [{ ...(row as UserSavedMeal), items: sanitizeMealComponents(row.items) }]
+          : [];
+      })
+    : [];
+
+  const userDataRaw = record.userData;
+  const userData: Record<string, AppData> = {};
+  if (userDataRaw && typeof userDataRaw === "object") {
+    for (const [userId, value] of Object.entries(userDataRaw as Record<string, unknown>)) {
+      userData[userId] = sanitizeAppData(value as Partial<AppData>);
+    }
+  }
+
+  if (!userData[DEFAULT_USER_ID]) {
+    userData[DEFAULT_USER_ID] = createDefaultAppData();
+  }
+
+  const syncJournal = sanitizeSyncJournal(record.syncJournal);
+  const journalRevision = Object.values(syncJournal)
+    .flat()
+    .reduce((max, entry) => Math.max(max, entry.revision), 0);
+  const storedRevision = Number(record.syncRevision);
+
+  return {
+    users,
+    sessions,
+    passwordResets,
+    anonymousDevices,
+    programEnrollments,
+    customFoods,
+    recipes,
+    savedMeals,
+    userData,
+    syncRevision: Number.isFinite(storedRevision) ? Math.max(storedRevision, journalRevision) : journalRevision,
+    syncJournal
+  };
+}
+
+function appendSyncChanges(data: StoreDocument, userId: string, changes: SyncChange[]) {
+  if (!changes.length) {
+    return;
+  }
+
+  let journal = data.syncJournal[userId] ?? [];
+  const changedAt = new Date().toISOString();
+  for (const change of changes) {
+    data.syncRevision += 1;
+    journal = journal.filter((entry) => entry.entity !== change.entity || entry.key !== change.key);
+    journal.push({
+      ...change,
+      revision: data.syncRevision,
+      changedAt
+    });
+  }
+  data.syncJournal[userId] = journal;
+}
+
+async function readAppData(io: DocumentIO, userId: string): Promise<AppData> {
+  const data = await io.load();
+  if (!data.userData[userId]) {
+    data.userData[userId] = createDefaultAppData();
+    await io.save(data);
+  }
+  return sanitizeAppData(data.userData[userId]);
+}
+
+async function queryWorkoutHistory(io: DocumentIO, userId: string, query: WorkoutHistoryQuery): Promise<WorkoutHistoryPage> {
+  return queryWorkoutList((await readAppData(io, userId)).workouts, query);
+}
+
+async function getWorkout(io: DocumentIO, userId: string, id: string): Promise<WorkoutLog | null> {
+  return (await readAppData(io, userId)).workouts.find((workout) => workout.id === id) ?? null;
+}
+
+async function applyStoreMutations(io: DocumentIO, userId: string, mutations: StoreMutation[]): Promise<StoreMutationResult[]> {
+  const data = await io.load();
+  const appData = sanitizeAppData(data.userData[userId] ?? createDefaultAppData());
+  const nowIso = new Date().toISOString();
+  const changes: SyncChange[] = [];
+
+  const journal = data.syncJournal[userId] ?? [];
+  const isDeleted = (entity: SyncEntity, key: string) =>
+    journal.some((entry) => entry.entity === entity && entry.key === key && entry.deleted);
+  const results = mutations.map((mutation) => applyStoreMutationToAppData(appData, mutation, nowIso, changes, isDeleted));
+
+  if (changes.length) {
+    data.userData[userId] = appData;
+    appendSyncChanges(data, userId, changes);
+    await io.save(data);
+  }
+
+  return results;
+}
+
+async function resetAppData(io: DocumentIO, userId: string): Promise<AppData> {
+  const data = await io.load();
+  if (data.userData[userId]) {
+    appendSyncChanges(data, userId, listSyncTombstones(data.userData[userId]));
+  }
+  data.userData[userId] = createDefaultAppData();
+  await io.save(data);
+  return data.userData[userId];
+}
+
+async function readSyncSnapshot(io: DocumentIO, userId: string, sinceRevision: number): Promise<SyncSnapshot> {
+  const data = await io.load();
+  const journal = data.syncJournal[userId] ?? [];
+  return {
+    revision: journal.reduce((max, entry) => Math.max(max, entry.revision), 0),
+    entries: journal
+      .filter((entry) => entry.revision > sinceRevision)
+      .sort((a, b) => a.revision - b.revision),
+    data: sanitizeAppData(data.userData[userId] ?? createDefaultAppData())
+  };
+}
+
+async function getAuthUserByEmail(io: DocumentIO, email: string): Promise<AuthUser | null> {
+  const data = await io.load();
+  return data.users.find((item) => item.email === email) ?? null;
+}
+
+async function getAuthCredentialsById(io: DocumentIO, userId: string): Promise<AuthUser | null> {
+  const data = await io.load();
+  return data.users.find((item) => item.id === userId) ?? null;
+}
+
+async function getAuthUserById(io: DocumentIO, userId: string): Promise<AuthPublicUser | null> {
+  const data = await io.load();
+  const row = data.users.find((item) => item.id === userId);
+  return row ? toPublicUser(row) : null;
+}
+
+async function createAuthUser(io: DocumentIO, user: AuthUser): Promise<CreateAuthUserResult> {
+  const data = await io.load();
+  if (data.users.some((item) => item.email === user.email)) {
+    return {
+      ok: false,
+      reason: "Email is already registered"
+    };
+  }
+
+  data.users.push(user);
+  if (!data.userData[user.id]) {
+    data.userData[user.id] = createDefaultAppData();
+  }
+
+  await io.save(data);
+  return { ok: true };
+}
+
+async function updateAuthUserPassword(io: DocumentIO, userId: string, passwordHash: string): Promise<boolean> {
+  const data = await io.load();
+  const user = data.users.find((item) => item.id === userId);
+  if (!user) {
+    return false;
+  }
+  user.passwordHash = passwordHash;
+  await io.save(data);
+  return true;
+}
+
+async function deleteAuthUser(io: DocumentIO, userId: string): Promise<boolean> {
+  const data = await io.load();
+  const remainingUsers = data.users.filter((item) => item.id !== userId);
+  if (remainingUsers.length === data.users.length) {
+    return false;
+  }
+  data.users = remainingUsers;
+  data.sessions = data.sessions.filter((item) => item.userId !== userId);
+  data.passwordResets = data.passwordResets.filter((item) => item.userId !== userId);
+  data.programEnrollments = data.programEnrollments.filter((item) => item.userId !== userId);
+  data.customFoods = data.customFoods.filter((item) => item.userId !== userId);
+  data.recipes = data.recipes.filter((item) => item.userId !== userId);
+  data.savedMeals = data.savedMeals.filter((item) => item.userId !== userId);
+  delete data.userData[userId];
+  delete data.syncJournal[userId];
+  await io.save(data);
+  return true;
+}
+
+async function createPasswordReset(io: DocumentIO, reset: PasswordReset): Promise<void> {
+  const data = await io.load();
+  data.passwordResets = data.passwordResets.filter((item) => item.userId !== reset.userId);
+  data.passwordResets.push(reset);
+  await io.save(data);
+}
+
+async function consumePasswordReset(io: DocumentIO, tokenHash: string): Promise<PasswordReset | null> {
+  const data = await io.load();
+  const reset = data.passwordResets.find((item) => item.tokenHash === tokenHash);
+  if (!reset) {
+    return null;
+  }
+  data.passwordResets = data.passwordResets.filter((item) => item !== reset);
+  await io.save(data);
+  return reset;
+}
+
+async function createAnonymousDevice(io: DocumentIO, device: AnonymousDevice): Promise<boolean> {
+  const data = await io.load();
+  if (data.anonymousDevices.some((item) => item.deviceId === device.deviceId)) {
+    return false;
+  }
+  data.anonymousDevices.push(device);
+  await io.save(data);
+  return true;
+}
+
+async function getAnonymousDeviceByTokenHash(io: DocumentIO, tokenHash: string): Promise<AnonymousDevice | null> {
+  const data = await io.load();
+  return data.anonymousDevices.find((item) => item.tokenHash === tokenHash) ?? null;
+}
+
+async function getProgramEnrollment(io: DocumentIO, userId: string): Promise<ProgramEnrollment | null> {
+  const data = await io.load();
+  return data.programEnrollments.find((item) => item.userId === userId) ?? null;
+}
+
+async function saveProgramEnrollment(io: DocumentIO, enrollment: ProgramEnrollment): Promise<void> {
+  const data = await io.load();
+  data.programEnrollments = [
+    ...data.programEnrollments.filter((item) => item.userId !== enrollment.userId),
+    enrollment
+  ];
+  await io.save(data);
+}
+
+async function deleteProgramEnrollment(io: DocumentIO, userId: string): Promise<boolean> {
+  const data = await io.load();
+  const remaining = data.programEnrollments.filter((item) => item.userId !== userId);
+  if (remaining.length === data.programEnrollments.length) {
+    return false;
+  }
+  data.programEnrollments = remaining;
+  await io.save(data);
+  return true;
+}
+
+async function listCustomFoods(io: DocumentIO, userId: string): Promise<CustomFood[]> {
+  const data = await io.load();
+  return data.customFoods
+    .filter((item) => item.userId === userId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function saveCustomFood(io: DocumentIO, food: CustomFood): Promise<void> {
+  const data = await io.load();
+  data.customFoods = [
+    ...data.customFoods.filter((item) => item.userId !== food.userId || item.id !== food.id),
+    food
+  ];
+  await io.save(data);
+}
+
+async function deleteCustomFood(io: DocumentIO, userId: string, foodId: string): Promise<boolean> {
+  const data = await io.load();
+  const remaining = data.customFoods.filter((item) => item.userId !== userId || item.id !== foodId);
+  if (remaining.length === data.customFoods.length) {
+    return false;
+  }
+  data.customFoods = remaining;
+  await io.save(data);
+  return true;
+}
+
+async function listRecipes(io: DocumentIO, userId: string): Promise<UserRecipe[]> {
+  const data = await io.load();
+  return data.recipes.filter((item) => item.userId === userId).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function saveRecipe(io: DocumentIO, recipe: UserRecipe): Promise<void> {
+  const data = await io.load();
+  data.recipes = [...data.recipes.filter((item) => item.userId !== recipe.userId || item.id !== recipe.id), recipe];
+  await io.save(data);
+}
+
+async function deleteRecipe(io: DocumentIO, userId: string, recipeId: string): Promise<boolean> {
+  const data = await io.load();
+  const remaining = data.recipes.filter((item) => item.userId !== userId || item.id !== recipeId);
+  if (remaining.length === data.recipes.length) {
+    return false;
+  }
+  data.recipes = remaining;
+  await io.save(data);
+  return true;
+}
+
+async function listSavedMeals(io: DocumentIO, userId: string): Promise<UserSavedMeal[]> {
+  const data = await io.load();
+  return data.savedMeals.filter((item) => item.userId === userId).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function saveSavedMeal(io: DocumentIO, meal: UserSavedMeal): Promise<void> {
+  const data = await io.load();
+  data.savedMeals = [...data.savedMeals.filter((item) => item.userId !== meal.userId || item.id !== meal.id), meal];
+  await io.save(data);
+}
+
+async function deleteSavedMeal(io: DocumentIO, userId: string, mealId: string): Promise<boolean> {
+  const data = await io.load();
+  const remaining = data.savedMeals.filter((item) => item.userId !== userId || item.id !== mealId);
+  if (remaining.length === data.savedMeals.length) {
+    return false;
+  }
+  data.savedMeals = remaining;
+  await io.save(data);
+  return true;
+}
+
+async function createAuthSession(io: DocumentIO, session: AuthSession): Promise<void> {
+  const data = await io.load();
+  data.sessions = data.sessions.filter(
+    (item) => item.userId !== session.userId || item.refreshExpiresAt > session.createdAt
+  );
+  data.sessions.push(session);
+  await io.save(data);
+}
+
+async function getAuthSessionByAccessToken(io: DocumentIO, accessToken: string): Promise<AuthSession | null> {
+  const data = await io.load();
+  return data.sessions.find((item) => item.accessToken === accessToken) ?? null;
+}
+
+async function getAuthSessionByRefreshToken(io: DocumentIO, refreshToken: string): Promise<AuthSession | null> {
+  const data = await io.load();
+  return data.sessions.find((item) => item.refreshToken === refreshToken) ?? null;
+}
+
+async function rotateAuthSession(io: DocumentIO, session: AuthSession, previousRefreshToken: string): Promise<boolean> {
+  const data = await io.load();
+  const index = data.sessions.findIndex(
+    (item) => item.id === session.id && item.refreshToken === previousRefreshToken
+  );
+  if (index === -1) {
+    return false;
+  }
+  data.sessions[index] = session;
+  await io.save(data);
+  return true;
+}
+
+async function listAuthSessions(io: DocumentIO, userId: string): Promise<AuthSession[]> {
+  const data = await io.load();
+  return data.sessions.filter((item) => item.userId === userId);
+}
+
+async function deleteAuthSession(io: DocumentIO, sessionId: string): Promise<void> {
+  const data = await io.load();
+  data.sessions = data.sessions.filter((item) => item.id !== sessionId);
+  await io.save(data);
+}
+
+async function deleteAuthSessions(io: DocumentIO, userId: string, exceptSessionId?: string): Promise<number> {
+  const data = await io.load();
+  const remaining = data.sessions.filter((item) => item.userId !== userId || item.id === exceptSessionId);
+  const removed = data.sessions.length - remaining.length;
+  if (removed) {
+    data.sessions = remaining;
+    await io.save(data);
+  }
+  return removed;
+}
+
+/**
+ * Where a document-backed driver keeps its single JSON document. `load` may return a shared
+ * instance; every write hands the mutated document back through `save`.
+ */
+export interface DocumentIO {
+  load(): Promise<StoreDocument>;
+  save(document: StoreDocument): Promise<void>;
+}
+
+export function createDocumentDriver(backend: StorageBackend, label: string, io: DocumentIO): StorageDriver {
+  return {
+    backend,
+    label,
+    prepare: async () => {
+      await io.load();
+    },
+    readAppData: (userId) => readAppData(io, userId),
+    queryWorkoutHistory: (userId, query) => queryWorkoutHistory(io, userId, query),
+    getWorkout: (userId, id) => getWorkout(io, userId, id),
+    applyMutations: (userId, mutations) => applyStoreMutations(io, userId, mutations),
+    resetAppData: (userId) => resetAppData(io, userId),
+    readSyncSnapshot: (userId, sinceRevision) => readSyncSnapshot(io, userId, sinceRevision),
+    createAuthUser: (user) => createAuthUser(io, user),
+    getAuthUserByEmail: (email) => getAuthUserByEmail(io, email),
+    getAuthUserById: (userId) => getAuthUserById(io, userId),
+    getAuthCredentialsById: (userId) => getAuthCredentialsById(io, userId),
+    updateAuthUserPassword: (userId, passwordHash) => updateAuthUserPassword(io, userId, passwordHash),
+    deleteAuthUser: (userId) => deleteAuthUser(io, userId),
+    createPasswordReset: (reset) => createPasswordReset(io, reset),
+    consumePasswordReset: (tokenHash) => consumePasswordReset(io, tokenHash),
+    createAnonymousDevice: (device) => createAnonymousDevice(io, device),
+    getAnonymousDeviceByTokenHash: (tokenHash) => getAnonymousDeviceByTokenHash(io, tokenHash),
+    getProgramEnrollment: (userId) => getProgramEnrollment(io, userId),
+    saveProgramEnrollment: (enrollment) => saveProgramEnrollment(io, enrollment),
+    deleteProgramEnrollment: (userId) => deleteProgramEnrollment(io, userId),
+    listCustomFoods: (userId) => listCustomFoods(io, userId),
+    saveCustomFood: (food) => saveCustomFood(io, food),
+    deleteCustomFood: (userId, foodId) => deleteCustomFood(io, userId, foodId),
+    listRecipes: (userId) => listRecipes(io, userId),
+    saveRecipe: (recipe) => saveRecipe(io, recipe),
+    deleteRecipe: (userId, recipeId) => deleteRecipe(io, userId, recipeId),
+    listSavedMeals: (userId) => listSavedMeals(io, userId),
+    saveSavedMeal: (meal) => saveSavedMeal(io, meal),
+    deleteSavedMeal: (userId, mealId) => deleteSavedMeal(io, userId, mealId),
+    createAuthSession: (session) => createAuthSession(io, session),
+    getAuthSessionByAccessToken: (accessToken) => getAuthSessionByAccessToken(io, accessToken),
+    getAuthSessionByRefreshToken: (refreshToken) => getAuthSessionByRefreshToken(io, refreshToken),
+    rotateAuthSession: (session, previousRefreshToken) => rotateAuthSession(io, session, previousRefreshToken),
+    listAuthSessions: (userId) => listAuthSessions(io, userId),
+    deleteAuthSession: (sessionId) => deleteAuthSession(io, sessionId),
+    deleteAuthSessions: (userId, exceptSessionId) => deleteAuthSessions(io, userId, exceptSessionId),
+    close: async () => {}
+  };
+}
@@ -0,0 +1,50 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+import {
+  createDefaultStoreDocument,
+  createDocumentDriver,
+  sanitizeStoreDocument,
+  type StoreDocument
+} from "./documentDriver.js";
+import type { StorageDriver } from "./types.js";
+
+/**
+ * JSON file on disk. The parsed document is cached for the process lifetime and writes are
+ * serialized through a queue so concurrent requests never interleave partial files.
+ */
+export function createFileDriver(filePath: string): StorageDriver {
+  let cache: StoreDocument | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  async function ensureDataDir() {
+    await mkdir(dirname(filePath), { recursive: true });
+  }
+
+  async function save(document: StoreDocument): Promise<void> {
+    cache = document;
+    await ensureDataDir();
+    writeQueue = writeQueue.then(() => writeFile(filePath, JSON.stringify(document, null, 2), "utf-8"));
+    await writeQueue;
+  }
+
+  async function load(): Promise<StoreDocument> {
+    if (cache) {
+      return cache;
+    }
+
+    await ensureDataDir();
+
+    try {
+      const raw = await readFile(filePath, "utf-8");
+      cache = sanitizeStoreDocument(JSON.parse(raw));
+    } catch (_error) {
+      cache = createDefaultStoreDocument();
+      await save(cache);
+    }
+
+    return cache;
+  }
+
+  return createDocumentDriver("file", `File storage (${filePath})`, { load, save });
+}
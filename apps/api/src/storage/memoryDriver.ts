@@ -0,0 +1,17 @@
+import { createDefaultStoreDocument, createDocumentDriver, type StoreDocument } from "./documentDriver.js";
+import type { StorageDriver } from "./types.js";
+
+/**
+ * Process-local storage that starts empty and is lost on exit. Meant for tests and throwaway
+ * demo servers.
+ */
+export function createMemoryDriver(): StorageDriver {
+  let document: StoreDocument = createDefaultStoreDocument();
+
+  return createDocumentDriver("memory", "In-memory storage", {
+    load: async () => document,
+    save: async (next) => {
+      document = next;
+    }
+  });
+}
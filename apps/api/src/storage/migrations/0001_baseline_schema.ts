@@ -0,0 +1,108 @@
+import type { Migration } from "../postgresMigrations.js";
+
+/**
+ * The `_v2` schema as it stood before versioned migrations. Every statement is idempotent so
+ * databases that were created on the fly at startup adopt this version without changes.
+ */
+export const migration: Migration = {
+  version: 1,
+  name: "baseline_schema",
+  sql: `
+  create table if not exists auth_users (
+    id text primary key,
+    email text not null unique,
+    password_hash text not null,
+    created_at timestamptz not null default now()
+  );
+
+  create table if not exists auth_sessions (
+    token text primary key,
+    user_id text not null references auth_users(id) on delete cascade,
+    created_at timestamptz not null default now()
+  );
+
+  create table if not exists app_profiles_v2 (
+    user_id text primary key,
+    profile_id text not null,
+    name text not null,
+    age int not null,
+    height_cm int not null,
+    current_weight_kg numeric(6,2) not null,
+    goal text not null check (goal in ('lose_weight', 'gain_muscle', 'maintain')),
+    daily_calorie_target int not null,
+    protein_target_grams int not null,
+    updated_at timestamptz not null default now()
+  );
+
+  create table if not exists app_workout_logs_v2 (
+    user_id text not null,
+    id text not null,
+    workout_date date not null,
+    workout_type text not null check (workout_type in ('strength', 'cardio', 'mobility')),
+    duration_minutes int not null,
+    exercise_entries jsonb not null default '[]'::jsonb,
+    intensity_rpe numeric(4,1),
+    calories_burned int,
+    template_name text,
+    notes text,
+    created_at timestamptz not null,
+    synced_at timestamptz,
+    primary key (user_id, id)
+  );
+
+  create table if not exists app_nutrition_logs_v2 (
+    user_id text not null,
+    nutrition_date date not null,
+    calories numeric(8,2) not null,
+    protein numeric(8,2) not null,
+    carbs numeric(8,2) not null,
+    fat numeric(8,2) not null,
+    water_liters numeric(5,2) not null,
+    updated_at timestamptz not null default now(),
+    primary key (user_id, nutrition_date)
+  );
+
+  create sequence if not exists app_sync_revision_seq;
+
+  create table if not exists app_sync_changes_v2 (
+    user_id text not null,
+    entity text not null check (entity in ('profile', 'workout', 'nutrition', 'progress')),
+    entity_key text not null,
+    revision bigint not null,
+    deleted boolean not null default false,
+    changed_at timestamptz not null default now(),
+    primary key (user_id, entity, entity_key)
+  );
+
+  create index if not exists app_sync_changes_v2_revision_idx
+    on app_sync_changes_v2 (user_id, revision);
+
+  create table if not exists app_progress_entries_v2 (
+    user_id text not null,
+    id text not null,
+    progress_date date not null,
+    weight_kg numeric(6,2) not null,
+    body_fat_pct numeric(5,2),
+    waist_cm numeric(6,2),
+    updated_at timestamptz not null default now(),
+    primary key (user_id, id)
+  );
+
+  alter table if exists app_workout_logs_v2
+    add column if not exists exercise_entries jsonb not null default '[]'::jsonb;
+  alter table if exists app_workout_logs_v2
+    add column if not exists intensity_rpe numeric(4,1);
+  alter table if exists app_workout_logs_v2
+    add column if not exists calories_burned int;
+  alter table if exists app_workout_logs_v2
+    add column if not exists template_name text;
+  alter table if exists app_workout_logs_v2
+    add column if not exists updated_at timestamptz not null default now();
+  alter table if exists app_workout_logs_v2
+    add column if not exists version int not null default 1;
+  alter table if exists app_nutrition_logs_v2
+    add column if not exists version int not null default 1;
+  alter table if exists app_progress_entries_v2
+    add column if not exists version int not null default 1;
+  `
+};
@@ -0,0 +1,32 @@
+import type { Migration } from "../postgresMigrations.js";
+
+/** Rewrites `{ sets, reps, weightKg }` exercise entries into one entry per set. */
+export const migration: Migration = {
+  version: 2,
+  name: "expand_legacy_exercise_sets",
+  sql: `
+  update app_workout_logs_v2 as logs
+  set exercise_entries = (
+    select coalesce(jsonb_agg(
+      case
+        when jsonb_typeof(entry->'sets') = 'number' then jsonb_build_object(
+          'id', entry->'id',
+          'name', entry->'name',
+          'sets', (
+            select jsonb_agg(jsonb_strip_nulls(jsonb_build_object('reps', entry->'reps', 'weightKg', entry->'weightKg')))
+            from generate_series(1, greatest(least((entry->>'sets')::int, 30), 1))
+          )
+        )
+        else entry
+      end
+      order by position
+    ), '[]'::jsonb)
+    from jsonb_array_elements(logs.exercise_entries) with ordinality as item(entry, position)
+  )
+  where exists (
+    select 1
+    from jsonb_array_elements(logs.exercise_entries) as item(entry)
+    where jsonb_typeof(entry->'sets') = 'number'
+  );
+  `
+};
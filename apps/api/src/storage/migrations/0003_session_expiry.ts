@@ -0,0 +1,28 @@
+import type { Migration } from "../postgresMigrations.js";
+
+/**
+ * Sessions gain refresh tokens and expiry. Existing sessions never expired, so they are dropped
+ * and every device signs in again.
+ */
+export const migration: Migration = {
+  version: 3,
+  name: "session_expiry",
+  sql: `
+  drop table if exists auth_sessions;
+
+  create table auth_sessions (
+    id text primary key,
+    user_id text not null references auth_users(id) on delete cascade,
+    access_token text not null unique,
+    refresh_token text not null unique,
+    device_name text,
+    created_at timestamptz not null,
+    last_active_at timestamptz not null,
+    access_expires_at timestamptz not null,
+    refresh_expires_at timestamptz not null,
+    expires_at timestamptz not null
+  );
+
+  create index auth_sessions_user_idx on auth_sessions (user_id);
+  `
+};
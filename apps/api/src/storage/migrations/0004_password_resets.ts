@@ -0,0 +1,16 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 4,
+  name: "password_resets",
+  sql: `
+  create table password_resets (
+    token_hash text primary key,
+    user_id text not null references auth_users(id) on delete cascade,
+    created_at timestamptz not null,
+    expires_at timestamptz not null
+  );
+
+  create index password_resets_user_idx on password_resets (user_id);
+  `
+};
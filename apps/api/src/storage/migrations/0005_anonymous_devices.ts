@@ -0,0 +1,14 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 5,
+  name: "anonymous_devices",
+  sql: `
+  create table anonymous_devices (
+    device_id text primary key,
+    user_id text not null unique,
+    token_hash text not null unique,
+    created_at timestamptz not null
+  );
+  `
+};
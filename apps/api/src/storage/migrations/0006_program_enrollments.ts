@@ -0,0 +1,14 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 6,
+  name: "program_enrollments",
+  sql: `
+  create table program_enrollments (
+    user_id text primary key,
+    program_id text not null,
+    start_date text not null,
+    enrolled_at timestamptz not null
+  );
+  `
+};
@@ -0,0 +1,24 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 7,
+  name: "food_logging",
+  sql: `
+  alter table app_nutrition_logs_v2 add column items jsonb not null default '[]'::jsonb;
+
+  create table custom_foods (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    brand text,
+    serving_size numeric(8,2) not null,
+    serving_unit text not null,
+    calories numeric(8,2) not null,
+    protein numeric(8,2) not null,
+    carbs numeric(8,2) not null,
+    fat numeric(8,2) not null,
+    updated_at timestamptz not null,
+    primary key (user_id, id)
+  );
+  `
+};
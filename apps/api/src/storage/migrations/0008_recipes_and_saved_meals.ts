@@ -0,0 +1,26 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 8,
+  name: "recipes_and_saved_meals",
+  sql: `
+  create table recipes (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    yield_servings numeric(6,2) not null,
+    ingredients jsonb not null default '[]'::jsonb,
+    updated_at timestamptz not null,
+    primary key (user_id, id)
+  );
+
+  create table saved_meals (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    items jsonb not null default '[]'::jsonb,
+    updated_at timestamptz not null,
+    primary key (user_id, id)
+  );
+  `
+};
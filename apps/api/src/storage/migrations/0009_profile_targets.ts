@@ -0,0 +1,18 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 9,
+  name: "profile_targets",
+  sql: `
+  alter table app_profiles_v2
+    add column sex text check (sex in ('male', 'female')),
+    add column activity_level text check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active')),
+    add column weekly_rate_kg numeric(4,2),
+    add column carbs_target_grams int,
+    add column fat_target_grams int,
+    add column fiber_target_grams int,
+    add column water_target_liters numeric(4,2);
+
+  alter table custom_foods add column fiber numeric(8,2);
+  `
+};
@@ -0,0 +1,9 @@
+import type { Migration } from "../postgresMigrations.js";
+
+export const migration: Migration = {
+  version: 10,
+  name: "goal_weight",
+  sql: `
+  alter table app_profiles_v2 add column goal_weight_kg numeric(5,2);
+  `
+};
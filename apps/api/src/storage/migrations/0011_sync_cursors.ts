@@ -0,0 +1,19 @@
+import type { Migration } from "../postgresMigrations.js";
+
+// Revisions from the shared sequence could commit out of order, so a client cursor might skip a
+// change. A per-user counter row is locked by each writing transaction, which keeps one user's
+// revisions in commit order. Existing users continue from their highest journal revision.
+export const migration: Migration = {
+  version: 11,
+  name: "sync_cursors",
+  sql: `
+  create table if not exists app_sync_cursors (
+    user_id text primary key,
+    revision bigint not null
+  );
+
+  insert into app_sync_cursors (user_id, revision)
+    select user_id, max(revision) from app_sync_changes_v2 group by user_id
+  on conflict (user_id) do nothing;
+  `
+};
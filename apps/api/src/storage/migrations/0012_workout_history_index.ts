@@ -0,0 +1,11 @@
+import type { Migration } from "../postgresMigrations.js";
+
+// Workout history pages are read newest first per user; the index matches that order.
+export const migration: Migration = {
+  version: 12,
+  name: "workout_history_index",
+  sql: `
+  create index if not exists app_workout_logs_v2_history_idx
+    on app_workout_logs_v2 (user_id, workout_date desc, created_at desc, id collate "C" desc);
+  `
+};
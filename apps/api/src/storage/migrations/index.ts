@@ -0,0 +1,29 @@
+import type { Migration } from "../postgresMigrations.js";
+import { migration as baselineSchema } from "./0001_baseline_schema.js";
+import { migration as expandLegacyExerciseSets } from "./0002_expand_legacy_exercise_sets.js";
+import { migration as sessionExpiry } from "./0003_session_expiry.js";
+import { migration as passwordResets } from "./0004_password_resets.js";
+import { migration as anonymousDevices } from "./0005_anonymous_devices.js";
+import { migration as programEnrollments } from "./0006_program_enrollments.js";
+import { migration as foodLogging } from "./0007_food_logging.js";
+import { migration as recipesAndSavedMeals } from "./0008_recipes_and_saved_meals.js";
+import { migration as profileTargets } from "./0009_profile_targets.js";
+import { migration as goalWeight } from "./0010_goal_weight.js";
+import { migration as syncCursors } from "./0011_sync_cursors.js";
+import { migration as workoutHistoryIndex } from "./0012_workout_history_index.js";
+
+// Append new migrations here; never edit or reorder one that has shipped.
+export const migrations: Migration[] = [
+  baselineSchema,
+  expandLegacyExerciseSets,
+  sessionExpiry,
+  passwordResets,
+  anonymousDevices,
+  programEnrollments,
+  foodLogging,
+  recipesAndSavedMeals,
+  profileTargets,
+  goalWeight,
+  syncCursors,
+  workoutHistoryIndex
+];
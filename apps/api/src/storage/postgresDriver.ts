@@ -0,0 +1,1128 @@
+import { Pool, type PoolClient } from "pg";
+
+import {
+  createDefaultAppData,
+  resolveNextVersion,
+  sanitizeExerciseEntries,
+  sanitizeFoodLogItems,
+  sanitizeMealComponents,
+  toErrorMessage,
+  toIso,
+  toNumber
+} from "./common.js";
+import { assertSchemaCurrent } from "./postgresMigrations.js";
+import type {
+  ActivityLevel,
+  AnonymousDevice,
+  AppData,
+  AuthPublicUser,
+  AuthSession,
+  AuthUser,
+  CreateAuthUserResult,
+  CustomFood,
+  FitnessGoal,
+  PasswordReset,
+  ProgramEnrollment,
+  NutritionLog,
+  ProgressEntry,
+  Sex,
+  StorageDriver,
+  StoreMutation,
+  StoreMutationResult,
+  SyncEntity,
+  SyncJournal,
+  SyncSnapshot,
+  UserProfile,
+  UserRecipe,
+  UserSavedMeal,
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutLog,
+  WorkoutType
+} from "./types.js";
+
+interface ProfileRow {
+  profile_id: string;
+  name: string;
+  age: number;
+  height_cm: number;
+  current_weight_kg: string | number;
+  goal: FitnessGoal;
+  daily_calorie_target: number;
+  protein_target_grams: number;
+  sex: Sex | null;
+  activity_level: ActivityLevel | null;
+  weekly_rate_kg: string | number | null;
+  carbs_target_grams: number | null;
+  fat_target_grams: number | null;
+  fiber_target_grams: number | null;
+  water_target_liters: string | number | null;
+  goal_weight_kg: string | number | null;
+}
+
+interface WorkoutRow {
+  id: string;
+  workout_date: string;
+  workout_type: WorkoutType;
+  duration_minutes: number;
+  exercise_entries: unknown;
+  intensity_rpe: string | number | null;
+  calories_burned: number | null;
+  template_name: string | null;
+  notes: string | null;
+  created_at: Date | string;
+  updated_at: Date | string;
+  synced_at: Date | string | null;
+  version: number;
+}
+
+interface NutritionRow {
+  nutrition_date: string;
+  calories: string | number;
+  protein: string | number;
+  carbs: string | number;
+  fat: string | number;
+  water_liters: string | number;
+  items: unknown;
+  updated_at: Date | string;
+  version: number;
+}
+
+interface CustomFoodRow {
+  user_id: string;
+  id: string;
+  name: string;
+  brand: string | null;
+  serving_size: string | number;
+  serving_unit: string;
+  calories: string | number;
+  protein: string | number;
+  carbs: string | number;
+  fat: string | number;
+  fiber: string | number | null;
+  updated_at: Date | string;
+}
+
+interface ProgressRow {
+  id: string;
+  progress_date: string;
+  weight_kg: string | number;
+  body_fat_pct: string | number | null;
+  waist_cm: string | number | null;
+  updated_at: Date | string;
+  version: number;
+}
+
+const profileColumns =
+  "profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams, sex, activity_level, weekly_rate_kg, carbs_target_grams, fat_target_grams, fiber_target_grams, water_target_liters, goal_weight_kg";
+
+const workoutColumns =
+  "id, workout_date::text, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, updated_at, synced_at, version";
+
+const nutritionColumns = "nutrition_date::text, calories, protein, carbs, fat, water_liters, items, updated_at, version";
+
+const progressColumns = "id, progress_date::text, weight_kg, body_fat_pct, waist_cm, updated_at, version";
+
+function mapProfileRow(row: ProfileRow): UserProfile {
+  return {
+    id: row.profile_id,
+    name: row.name,
+    age: row.age,
+    heightCm: row.height_cm,
+    currentWeightKg: toNumber(row.current_weight_kg),
+    goal: row.goal,
+    dailyCalorieTarget: row.daily_calorie_target,
+    proteinTargetGrams: row.protein_target_grams,
+    sex: row.sex ?? undefined,
+    activityLevel: row.activity_level ?? undefined,
+    weeklyRateKg: row.weekly_rate_kg === null ? undefined : toNumber(row.weekly_rate_kg),
+    carbsTargetGrams: row.carbs_target_grams ?? undefined,
+    fatTargetGrams: row.fat_target_grams ?? undefined,
+    fiberTargetGrams: row.fiber_target_grams ?? undefined,
+    waterTargetLiters: row.water_target_liters === null ? undefined : toNumber(row.water_target_liters),
+    goalWeightKg: row.goal_weight_kg === null ? undefined : toNumber(row.goal_weight_kg)
+  };
+}
+
+function mapWorkoutRow(row: WorkoutRow): WorkoutLog {
+  return {
+    id: row.id,
+    date: row.workout_date,
+    workoutType: row.workout_type,
+    durationMinutes: row.duration_minutes,
+    exerciseEntries: sanitizeExerciseEntries(row.exercise_entries),
+    intensityRpe: row.intensity_rpe == null ? undefined : Number(row.intensity_rpe),
+    caloriesBurned: row.calories_burned == null ? undefined : row.calories_burned,
+    templateName: row.template_name ?? undefined,
+    notes: row.notes ?? undefined,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString(),
+    syncedAt: toIso(row.synced_at),
+    version: row.version
+  };
+}
+
+function mapNutritionRow(row: NutritionRow): NutritionLog {
+  return {
+    date: row.nutrition_date,
+    calories: toNumber(row.calories),
+    protein: toNumber(row.protein),
+    carbs: toNumber(row.carbs),
+    fat: toNumber(row.fat),
+    waterLiters: toNumber(row.water_liters),
+    items: sanitizeFoodLogItems(row.items),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString(),
+    version: row.version
+  };
+}
+
+function mapCustomFoodRow(row: CustomFoodRow): CustomFood {
+  return {
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    servingSize: toNumber(row.serving_size),
+    servingUnit: row.serving_unit,
+    calories: toNumber(row.calories),
+    protein: toNumber(row.protein),
+    carbs: toNumber(row.carbs),
+    fat: toNumber(row.fat),
+    fiber: row.fiber === null ? undefined : toNumber(row.fiber),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString()
+  };
+}
+
+function mapProgressRow(row: ProgressRow): ProgressEntry {
+  return {
+    id: row.id,
+    date: row.progress_date,
+    weightKg: toNumber(row.weight_kg),
+    bodyFatPct: row.body_fat_pct == null ? undefined : toNumber(row.body_fat_pct),
+    waistCm: row.waist_cm == null ? undefined : toNumber(row.waist_cm),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString(),
+    version: row.version
+  };
+}
+
+async function readAppData(pg: Pool | PoolClient, userId: string): Promise<AppData> {
+  const [profileRes, workoutsRes, nutritionRes, progressRes] = await Promise.all([
+    pg.query<ProfileRow>(`select ${profileColumns} from app_profiles_v2 where user_id = $1 limit 1`, [userId]),
+    pg.query<WorkoutRow>(
+      `select ${workoutColumns} from app_workout_logs_v2 where user_id = $1 order by workout_date desc, created_at desc`,
+      [userId]
+    ),
+    pg.query<NutritionRow>(
+      `select ${nutritionColumns} from app_nutrition_logs_v2 where user_id = $1 order by nutrition_date desc`,
+      [userId]
+    ),
+    pg.query<ProgressRow>(
+      `select ${progressColumns} from app_progress_entries_v2 where user_id = $1 order by progress_date desc`,
+      [userId]
+    )
+  ]);
+
+  const profileRow = profileRes.rows[0];
+  const nutritionByDate: Record<string, NutritionLog> = {};
+  for (const row of nutritionRes.rows) {
+    nutritionByDate[row.nutrition_date] = mapNutritionRow(row);
+  }
+
+  return {
+    profile: profileRow ? mapProfileRow(profileRow) : null,
+    workouts: workoutsRes.rows.map(mapWorkoutRow),
+    nutritionByDate,
+    progressEntries: progressRes.rows.map(mapProgressRow)
+  };
+}
+
+async function queryWorkoutHistory(pg: Pool, userId: string, query: WorkoutHistoryQuery): Promise<WorkoutHistoryPage> {
+  const params: Array<string | number> = [userId];
+  const param = (value: string | number) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+  const exerciseMatch = (placeholder: string) =>
+    `exists (select 1 from jsonb_array_elements(exercise_entries) as entry where strpos(lower(entry->>'name'), lower(${placeholder})) > 0)`;
+
+  const conditions = ["user_id = $1"];
+  if (query.from) {
+    conditions.push(`workout_date >= ${param(query.from)}::date`);
+  }
+  if (query.to) {
+    conditions.push(`workout_date <= ${param(query.to)}::date`);
+  }
+  if (query.workoutType) {
+    conditions.push(`workout_type = ${param(query.workoutType)}`);
+  }
+  if (query.templateName) {
+    conditions.push(`lower(template_name) = lower(${param(query.templateName)})`);
+  }
+  if (query.exercise) {
+    conditions.push(exerciseMatch(param(query.exercise)));
+  }
+  if (query.q) {
+    const needle = param(query.q);
+    conditions.push(`(strpos(lower(template_name), lower(${needle})) > 0 or ${exerciseMatch(needle)})`);
+  }
+
+  const where = conditions.join(" and ");
+  const filterParams = [...params];
+  if (query.after) {
+    const [date, createdAt, id] = query.after;
+    conditions.push(
+      `(workout_date, created_at, id collate "C") < (${param(date)}::date, ${param(createdAt)}::timestamptz, ${param(id)}::text collate "C")`
+    );
+  }
+  // One extra row tells whether another page follows.
+  const limit = query.limit === undefined ? "" : ` limit ${param(query.limit + 1)}`;
+
+  const [countRes, rowsRes] = await Promise.all([
+    pg.query<{ total: string }>(`select count(*) as total from app_workout_logs_v2 where ${where}`, filterParams),
+    pg.query<WorkoutRow>(
+      `select ${workoutColumns} from app_workout_logs_v2 where ${conditions.join(" and ")}
+       order by workout_date desc, created_at desc, id collate "C" desc${limit}`,
+      params
+    )
+  ]);
+  const hasMore = query.limit !== undefined && rowsRes.rows.length > query.limit;
+
+  return {
+    total: Number(countRes.rows[0]?.total ?? 0),
+    items: (hasMore ? rowsRes.rows.slice(0, query.limit) : rowsRes.rows).map(mapWorkoutRow),
+    hasMore
+  };
+}
+
+async function getWorkout(pg: Pool, userId: string, id: string): Promise<WorkoutLog | null> {
+  const result = await pg.query<WorkoutRow>(
+    `select ${workoutColumns} from app_workout_logs_v2 where user_id = $1 and id = $2`,
+    [userId, id]
+  );
+  const row = result.rows[0];
+  return row ? mapWorkoutRow(row) : null;
+}
+
+// Bumping the user's counter row locks it until commit, so revisions commit in order per user.
+const nextSyncRevisionSql = `insert into app_sync_cursors (user_id, revision) values ($1, 1)
+  on conflict (user_id) do update set revision = app_sync_cursors.revision + 1
+  returning revision`;
+
+const upsertSyncChangeSql = `with next as (${nextSyncRevisionSql})
+  insert into app_sync_changes_v2 (user_id, entity, entity_key, revision, deleted, changed_at)
+  select $1::text, $2::text, $3::text, next.revision, $4::boolean, now() from next
+  on conflict (user_id, entity, entity_key)
+  do update set revision = excluded.revision, deleted = excluded.deleted, changed_at = excluded.changed_at`;
+
+async function isSyncTombstone(client: PoolClient, userId: string, entity: SyncEntity, key: string): Promise<boolean> {
+  const result = await client.query<{ deleted: boolean }>(
+    "select deleted from app_sync_changes_v2 where user_id = $1 and entity = $2 and entity_key = $3",
+    [userId, entity, key]
+  );
+  return result.rows[0]?.deleted === true;
+}
+
+async function applyStoreMutation(
+  client: PoolClient,
+  userId: string,
+  mutation: StoreMutation,
+  nowIso: string
+): Promise<StoreMutationResult> {
+  switch (mutation.kind) {
+    case "upsertProfile": {
+      const { profile } = mutation;
+      await client.query(
+        `insert into app_profiles_v2 (user_id, profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams,
+           sex, activity_level, weekly_rate_kg, carbs_target_grams, fat_target_grams, fiber_target_grams, water_target_liters, goal_weight_kg, updated_at)
+         values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18)
+         on conflict (user_id) do update set
+           profile_id = excluded.profile_id,
+           name = excluded.name,
+           age = excluded.age,
+           height_cm = excluded.height_cm,
+           current_weight_kg = excluded.current_weight_kg,
+           goal = excluded.goal,
+           daily_calorie_target = excluded.daily_calorie_target,
+           protein_target_grams = excluded.protein_target_grams,
+           sex = excluded.sex,
+           activity_level = excluded.activity_level,
+           weekly_rate_kg = excluded.weekly_rate_kg,
+           carbs_target_grams = excluded.carbs_target_grams,
+           fat_target_grams = excluded.fat_target_grams,
+           fiber_target_grams = excluded.fiber_target_grams,
+           water_target_liters = excluded.water_target_liters,
+           goal_weight_kg = excluded.goal_weight_kg,
+           updated_at = excluded.updated_at`,
+        [
+          userId,
+          profile.id,
+          profile.name,
+          profile.age,
+          profile.heightCm,
+          profile.currentWeightKg,
+          profile.goal,
+          profile.dailyCalorieTarget,
+          profile.proteinTargetGrams,
+          profile.sex ?? null,
+          profile.activityLevel ?? null,
+          profile.weeklyRateKg ?? null,
+          profile.carbsTargetGrams ?? null,
+          profile.fatTargetGrams ?? null,
+          profile.fiberTargetGrams ?? null,
+          profile.waterTargetLiters ?? null,
+          profile.goalWeightKg ?? null,
+          nowIso
+        ]
+      );
+      await client.query(upsertSyncChangeSql, [userId, "profile", "profile", false]);
+      return { status: "applied", record: profile };
+    }
+
+    case "upsertWorkout": {
+      const existingRes = await client.query<WorkoutRow>(
+        `select ${workoutColumns} from app_workout_logs_v2 where user_id = $1 and id = $2 for update`,
+        [userId, mutation.workout.id]
+      );
+      const existing = existingRes.rows[0] ? mapWorkoutRow(existingRes.rows[0]) : undefined;
+      const deleted = !existing && (await isSyncTombstone(client, userId, "workout", mutation.workout.id));
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const workout: WorkoutLog = { ...mutation.workout, updatedAt: nowIso, version };
+      await client.query(
+        `insert into app_workout_logs_v2 (user_id, id, workout_date, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, updated_at, synced_at, version)
+         values ($1,$2,$3,$4,$5,$6::jsonb,$7,$8,$9,$10,$11,$12,$13,$14)
+         on conflict (user_id, id) do update set
+           workout_date = excluded.workout_date,
+           workout_type = excluded.workout_type,
+           duration_minutes = excluded.duration_minutes,
+           exercise_entries = excluded.exercise_entries,
+           intensity_rpe = excluded.intensity_rpe,
+           calories_burned = excluded.calories_burned,
+           template_name = excluded.template_name,
+           notes = excluded.notes,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at,
+           synced_at = excluded.synced_at,
+           version = excluded.version`,
+        [
+          userId,
+          workout.id,
+          workout.date,
+          workout.workoutType,
+          workout.durationMinutes,
+          JSON.stringify(workout.exerciseEntries ?? []),
+          workout.intensityRpe ?? null,
+          workout.caloriesBurned ?? null,
+          workout.templateName ?? null,
+          workout.notes ?? null,
+          workout.createdAt,
+          workout.updatedAt,
+          workout.syncedAt,
+          workout.version
+        ]
+      );
+      await client.query(upsertSyncChangeSql, [userId, "workout", workout.id, false]);
+      return { status: "applied", record: workout };
+    }
+
+    case "upsertNutrition": {
+      const existingRes = await client.query<NutritionRow>(
+        `select ${nutritionColumns} from app_nutrition_logs_v2 where user_id = $1 and nutrition_date = $2 for update`,
+        [userId, mutation.log.date]
+      );
+      const existing = existingRes.rows[0] ? mapNutritionRow(existingRes.rows[0]) : undefined;
+      const deleted = !existing && (await isSyncTombstone(client, userId, "nutrition", mutation.log.date));
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const log: NutritionLog = { ...mutation.log, updatedAt: nowIso, version };
+      await client.query(
+        `insert into app_nutrition_logs_v2 (user_id, nutrition_date, calories, protein, carbs, fat, water_liters, items, updated_at, version)
+         values ($1,$2,$3,$4,$5,$6,$7,$8::jsonb,$9,$10)
+         on conflict (user_id, nutrition_date) do update set
+           calories = excluded.calories,
+           protein = excluded.protein,
+           carbs = excluded.carbs,
+           fat = excluded.fat,
+           water_liters = excluded.water_liters,
+           items = excluded.items,
+           updated_at = excluded.updated_at,
+           version = excluded.version`,
+        [
+          userId,
+          log.date,
+          log.calories,
+          log.protein,
+          log.carbs,
+          log.fat,
+          log.waterLiters,
+          JSON.stringify(log.items),
+          log.updatedAt,
+          log.version
+        ]
+      );
+      await client.query(upsertSyncChangeSql, [userId, "nutrition", log.date, false]);
+      return { status: "applied", record: log };
+    }
+
+    case "upsertProgress": {
+      const existingRes = await client.query<ProgressRow>(
+        `select ${progressColumns} from app_progress_entries_v2 where user_id = $1 and id = $2 for update`,
+        [userId, mutation.entry.id]
+      );
+      const existing = existingRes.rows[0] ? mapProgressRow(existingRes.rows[0]) : undefined;
+      const deleted = !existing && (await isSyncTombstone(client, userId, "progress", mutation.entry.id));
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const entry: ProgressEntry = { ...mutation.entry, updatedAt: nowIso, version };
+      await client.query(
+        `insert into app_progress_entries_v2 (user_id, id, progress_date, weight_kg, body_fat_pct, waist_cm, updated_at, version)
+         values ($1,$2,$3,$4,$5,$6,$7,$8)
+         on conflict (user_id, id) do update set
+           progress_date = excluded.progress_date,
+           weight_kg = excluded.weight_kg,
+           body_fat_pct = excluded.body_fat_pct,
+           waist_cm = excluded.waist_cm,
+           updated_at = excluded.updated_at,
+           version = excluded.version`,
+        [
+          userId,
+          entry.id,
+          entry.date,
+          entry.weightKg,
+          entry.bodyFatPct ?? null,
+          entry.waistCm ?? null,
+          entry.updatedAt,
+          entry.version
+        ]
+      );
+      await client.query(upsertSyncChangeSql, [userId, "progress", entry.id, false]);
+      return { status: "applied", record: entry };
+    }
+
+    case "deleteWorkout":
+    case "deleteNutrition":
+    case "deleteProgress": {
+      const [sql, entity, key] =
+        mutation.kind === "deleteWorkout"
+          ? ["delete from app_workout_logs_v2 where user_id = $1 and id = $2", "workout", mutation.id]
+          : mutation.kind === "deleteNutrition"
+            ? ["delete from app_nutrition_logs_v2 where user_id = $1 and nutrition_date = $2", "nutrition", mutation.date]
+            : ["delete from app_progress_entries_v2 where user_id = $1 and id = $2", "progress", mutation.id];
+      const deleted = await client.query(sql, [userId, key]);
+      if (!deleted.rowCount) {
+        return { status: "not_found" };
+      }
+      await client.query(upsertSyncChangeSql, [userId, entity, key, true]);
+      return { status: "deleted" };
+    }
+  }
+}
+
+async function applyStoreMutations(pg: Pool, userId: string, mutations: StoreMutation[]): Promise<StoreMutationResult[]> {
+  const client = await pg.connect();
+  const nowIso = new Date().toISOString();
+
+  try {
+    await client.query("begin");
+
+    const results: StoreMutationResult[] = [];
+    for (const mutation of mutations) {
+      results.push(await applyStoreMutation(client, userId, mutation, nowIso));
+    }
+
+    await client.query("commit");
+    return results;
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function resetAppData(pg: Pool, userId: string): Promise<AppData> {
+  const client = await pg.connect();
+
+  try {
+    await client.query("begin");
+
+    await client.query(
+      `with next as (${nextSyncRevisionSql})
+       insert into app_sync_changes_v2 (user_id, entity, entity_key, revision, deleted, changed_at)
+       select user_id, 'profile', 'profile', next.revision, true, now() from app_profiles_v2, next where user_id = $1
+       union all
+       select user_id, 'workout', id, next.revision, true, now() from app_workout_logs_v2, next where user_id = $1
+       union all
+       select user_id, 'nutrition', nutrition_date::text, next.revision, true, now() from app_nutrition_logs_v2, next where user_id = $1
+       union all
+       select user_id, 'progress', id, next.revision, true, now() from app_progress_entries_v2, next where user_id = $1
+       on conflict (user_id, entity, entity_key)
+       do update set revision = excluded.revision, deleted = excluded.deleted, changed_at = excluded.changed_at`,
+      [userId]
+    );
+
+    await client.query("delete from app_profiles_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_workout_logs_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_nutrition_logs_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_progress_entries_v2 where user_id = $1", [userId]);
+
+    await client.query("commit");
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return createDefaultAppData();
+}
+
+async function readSyncJournal(pg: PoolClient, userId: string, sinceRevision: number): Promise<SyncJournal> {
+  const [revisionRes, entriesRes] = await Promise.all([
+    pg.query<{ revision: string | number }>(
+      "select coalesce(max(revision), 0) as revision from app_sync_changes_v2 where user_id = $1",
+      [userId]
+    ),
+    pg.query<{
+      entity: SyncEntity;
+      entity_key: string;
+      revision: string | number;
+      deleted: boolean;
+      changed_at: Date | string;
+    }>(
+      "select entity, entity_key, revision, deleted, changed_at from app_sync_changes_v2 where user_id = $1 and revision > $2 order by revision asc",
+      [userId, sinceRevision]
+    )
+  ]);
+
+  return {
+    revision: toNumber(revisionRes.rows[0]?.revision),
+    entries: entriesRes.rows.map((row) => ({
+      entity: row.entity,
+      key: row.entity_key,
+      deleted: row.deleted,
+      revision: toNumber(row.revision),
+      changedAt: toIso(row.changed_at) ?? new Date().toISOString()
+    }))
+  };
+}
+
+async function readSyncSnapshot(pg: Pool, userId: string, sinceRevision: number): Promise<SyncSnapshot> {
+  const client = await pg.connect();
+
+  try {
+    // Journal and records from one snapshot, so the cursor never runs ahead of the data sent.
+    await client.query("begin isolation level repeatable read read only");
+    const journal = await readSyncJournal(client, userId, sinceRevision);
+    const data = await readAppData(client, userId);
+    await client.query("commit");
+    return { ...journal, data };
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function selectAuthUser(pg: Pool, column: "email" | "id", value: string): Promise<AuthUser | null> {
+  const result = await pg.query<{
+    id: string;
+    email: string;
+    password_hash: string;
+    created_at: Date | string;
+  }>(
+    `select id, email, password_hash, created_at from auth_users where ${column} = $1 limit 1`,
+    [value]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString()
+  };
+}
+
+async function getAuthUserByEmail(pg: Pool, email: string): Promise<AuthUser | null> {
+  return selectAuthUser(pg, "email", email);
+}
+
+async function getAuthCredentialsById(pg: Pool, userId: string): Promise<AuthUser | null> {
+  return selectAuthUser(pg, "id", userId);
+}
+
+async function getAuthUserById(pg: Pool, userId: string): Promise<AuthPublicUser | null> {
+  const result = await pg.query<{
+    id: string;
+    email: string;
+    created_at: Date | string;
+  }>(
+    "select id, email, created_at from auth_users where id = $1 limit 1",
+    [userId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    id: row.id,
+    email: row.email,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString()
+  };
+}
+
+async function createAuthUser(pg: Pool, user: AuthUser): Promise<CreateAuthUserResult> {
+  try {
+    await pg.query(
+      "insert into auth_users (id, email, password_hash, created_at) values ($1,$2,$3,$4)",
+      [user.id, user.email, user.passwordHash, user.createdAt]
+    );
+    return { ok: true };
+  } catch (error) {
+    const message = toErrorMessage(error).toLowerCase();
+    if (message.includes("unique") || message.includes("duplicate")) {
+      return {
+        ok: false,
+        reason: "Email is already registered"
+      };
+    }
+    throw error;
+  }
+}
+
+async function updateAuthUserPassword(pg: Pool, userId: string, passwordHash: string): Promise<boolean> {
+  const result = await pg.query("update auth_users set password_hash = $2 where id = $1", [userId, passwordHash]);
+  return !!result.rowCount;
+}
+
+async function deleteAuthUser(pg: Pool, userId: string): Promise<boolean> {
+  const client = await pg.connect();
+
+  try {
+    await client.query("begin");
+    await client.query("delete from app_profiles_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_workout_logs_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_nutrition_logs_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_progress_entries_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_sync_changes_v2 where user_id = $1", [userId]);
+    await client.query("delete from app_sync_cursors where user_id = $1", [userId]);
+    await client.query("delete from program_enrollments where user_id = $1", [userId]);
+    await client.query("delete from custom_foods where user_id = $1", [userId]);
+    await client.query("delete from recipes where user_id = $1", [userId]);
+    await client.query("delete from saved_meals where user_id = $1", [userId]);
+    // Sessions and password resets cascade with the user row.
+    const result = await client.query("delete from auth_users where id = $1", [userId]);
+    await client.query("commit");
+    return !!result.rowCount;
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function createPasswordReset(pg: Pool, reset: PasswordReset): Promise<void> {
+  const client = await pg.connect();
+
+  try {
+    await client.query("begin");
+    await client.query("delete from password_resets where user_id = $1", [reset.userId]);
+    await client.query(
+      "insert into password_resets (token_hash, user_id, created_at, expires_at) values ($1,$2,$3,$4)",
+      [reset.tokenHash, reset.userId, reset.createdAt, reset.expiresAt]
+    );
+    await client.query("commit");
+  } catch (error) {
+    await client.query("rollback");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+async function consumePasswordReset(pg: Pool, tokenHash: string): Promise<PasswordReset | null> {
+  const result = await pg.query<{
+    token_hash: string;
+    user_id: string;
+    created_at: Date | string;
+    expires_at: Date | string;
+  }>(
+    "delete from password_resets where token_hash = $1 returning token_hash, user_id, created_at, expires_at",
+    [tokenHash]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    tokenHash: row.token_hash,
+    userId: row.user_id,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
+    expiresAt: toIso(row.expires_at) ?? new Date().toISOString()
+  };
+}
+
+interface AuthSessionRow {
+  id: string;
+  user_id: string;
+  access_token: string;
+  refresh_token: string;
+  device_name: string | null;
+  created_at: Date | string;
+  last_active_at: Date | string;
+  access_expires_at: Date | string;
+  refresh_expires_at: Date | string;
+  expires_at: Date | string;
+}
+
+const sessionColumns =
+  "id, user_id, access_token, refresh_token, device_name, created_at, last_active_at, access_expires_at, refresh_expires_at, expires_at";
+
+function mapAuthSessionRow(row: AuthSessionRow): AuthSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    accessToken: row.access_token,
+    refreshToken: row.refresh_token,
+    deviceName: row.device_name,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
+    lastActiveAt: toIso(row.last_active_at) ?? new Date().toISOString(),
+    accessExpiresAt: toIso(row.access_expires_at) ?? new Date().toISOString(),
+    refreshExpiresAt: toIso(row.refresh_expires_at) ?? new Date().toISOString(),
+    expiresAt: toIso(row.expires_at) ?? new Date().toISOString()
+  };
+}
+
+async function createAnonymousDevice(pg: Pool, device: AnonymousDevice): Promise<boolean> {
+  const result = await pg.query(
+    `insert into anonymous_devices (device_id, user_id, token_hash, created_at) values ($1,$2,$3,$4)
+     on conflict (device_id) do nothing`,
+    [device.deviceId, device.userId, device.tokenHash, device.createdAt]
+  );
+  return !!result.rowCount;
+}
+
+async function getAnonymousDeviceByTokenHash(pg: Pool, tokenHash: string): Promise<AnonymousDevice | null> {
+  const result = await pg.query<{ device_id: string; user_id: string; token_hash: string; created_at: Date | string }>(
+    "select device_id, user_id, token_hash, created_at from anonymous_devices where token_hash = $1 limit 1",
+    [tokenHash]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    deviceId: row.device_id,
+    userId: row.user_id,
+    tokenHash: row.token_hash,
+    createdAt: toIso(row.created_at) ?? new Date().toISOString()
+  };
+}
+
+async function getProgramEnrollment(pg: Pool, userId: string): Promise<ProgramEnrollment | null> {
+  const result = await pg.query<{ user_id: string; program_id: string; start_date: string; enrolled_at: Date | string }>(
+    "select user_id, program_id, start_date, enrolled_at from program_enrollments where user_id = $1 limit 1",
+    [userId]
+  );
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+  return {
+    userId: row.user_id,
+    programId: row.program_id,
+    startDate: row.start_date,
+    enrolledAt: toIso(row.enrolled_at) ?? new Date().toISOString()
+  };
+}
+
+async function saveProgramEnrollment(pg: Pool, enrollment: ProgramEnrollment): Promise<void> {
+  await pg.query(
+    `insert into program_enrollments (user_id, program_id, start_date, enrolled_at) values ($1,$2,$3,$4)
+     on conflict (user_id) do update set
+       program_id = excluded.program_id,
+       start_date = excluded.start_date,
+       enrolled_at = excluded.enrolled_at`,
+    [enrollment.userId, enrollment.programId, enrollment.startDate, enrollment.enrolledAt]
+  );
+}
+
+async function deleteProgramEnrollment(pg: Pool, userId: string): Promise<boolean> {
+  const result = await pg.query("delete from program_enrollments where user_id = $1", [userId]);
+  return !!result.rowCount;
+}
+
+async function listCustomFoods(pg: Pool, userId: string): Promise<CustomFood[]> {
+  const result = await pg.query<CustomFoodRow>(
+    `select user_id, id, name, brand, serving_size, serving_unit, calories, protein, carbs, fat, fiber, updated_at
+     from custom_foods where user_id = $1 order by name`,
+    [userId]
+  );
+  return result.rows.map(mapCustomFoodRow);
+}
+
+async function saveCustomFood(pg: Pool, food: CustomFood): Promise<void> {
+  await pg.query(
+    `insert into custom_foods (user_id, id, name, brand, serving_size, serving_unit, calories, protein, carbs, fat, fiber, updated_at)
+     values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       brand = excluded.brand,
+       serving_size = excluded.serving_size,
+       serving_unit = excluded.serving_unit,
+       calories = excluded.calories,
+       protein = excluded.protein,
+       carbs = excluded.carbs,
+       fat = excluded.fat,
+       fiber = excluded.fiber,
+       updated_at = excluded.updated_at`,
+    [
+      food.userId,
+      food.id,
+      food.name,
+      food.brand ?? null,
+      food.servingSize,
+      food.servingUnit,
+      food.calories,
+      food.protein,
+      food.carbs,
+      food.fat,
+      food.fiber ?? null,
+      food.updatedAt
+    ]
+  );
+}
+
+async function deleteCustomFood(pg: Pool, userId: string, foodId: string): Promise<boolean> {
+  const result = await pg.query("delete from custom_foods where user_id = $1 and id = $2", [userId, foodId]);
+  return !!result.rowCount;
+}
+
+async function listRecipes(pg: Pool, userId: string): Promise<UserRecipe[]> {
+  const result = await pg.query<{
+    user_id: string;
+    id: string;
+    name: string;
+    yield_servings: string | number;
+    ingredients: unknown;
+    updated_at: Date | string;
+  }>("select user_id, id, name, yield_servings, ingredients, updated_at from recipes where user_id = $1 order by name", [
+    userId
+  ]);
+  return result.rows.map((row) => ({
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    yieldServings: toNumber(row.yield_servings),
+    ingredients: sanitizeMealComponents(row.ingredients),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString()
+  }));
+}
+
+async function saveRecipe(pg: Pool, recipe: UserRecipe): Promise<void> {
+  await pg.query(
+    `insert into recipes (user_id, id, name, yield_servings, ingredients, updated_at) values ($1,$2,$3,$4,$5::jsonb,$6)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       yield_servings = excluded.yield_servings,
+       ingredients = excluded.ingredients,
+       updated_at = excluded.updated_at`,
+    [recipe.userId, recipe.id, recipe.name, recipe.yieldServings, JSON.stringify(recipe.ingredients), recipe.updatedAt]
+  );
+}
+
+async function deleteRecipe(pg: Pool, userId: string, recipeId: string): Promise<boolean> {
+  const result = await pg.query("delete from recipes where user_id = $1 and id = $2", [userId, recipeId]);
+  return !!result.rowCount;
+}
+
+async function listSavedMeals(pg: Pool, userId: string): Promise<UserSavedMeal[]> {
+  const result = await pg.query<{ user_id: string; id: string; name: string; items: unknown; updated_at: Date | string }>(
+    "select user_id, id, name, items, updated_at from saved_meals where user_id = $1 order by name",
+    [userId]
+  );
+  return result.rows.map((row) => ({
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    items: sanitizeMealComponents(row.items),
+    updatedAt: toIso(row.updated_at) ?? new Date().toISOString()
+  }));
+}
+
+async function saveSavedMeal(pg: Pool, meal: UserSavedMeal): Promise<void> {
+  await pg.query(
+    `insert into saved_meals (user_id, id, name, items, updated_at) values ($1,$2,$3,$4::jsonb,$5)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       items = excluded.items,
+       updated_at = excluded.updated_at`,
+    [meal.userId, meal.id, meal.name, JSON.stringify(meal.items), meal.updatedAt]
+  );
+}
+
+async function deleteSavedMeal(pg: Pool, userId: string, mealId: string): Promise<boolean> {
+  const result = await pg.query("delete from saved_meals where user_id = $1 and id = $2", [userId, mealId]);
+  return !!result.rowCount;
+}
+
+async function createAuthSession(pg: Pool, session: AuthSession): Promise<void> {
+  await pg.query("delete from auth_sessions where user_id = $1 and refresh_expires_at <= $2", [
+    session.userId,
+    session.createdAt
+  ]);
+  await pg.query(
+    `insert into auth_sessions (${sessionColumns}) values ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)`,
+    [
+      session.id,
+      session.userId,
+      session.accessToken,
+      session.refreshToken,
+      session.deviceName,
+      session.createdAt,
+      session.lastActiveAt,
+      session.accessExpiresAt,
+      session.refreshExpiresAt,
+      session.expiresAt
+    ]
+  );
+}
+
+async function getAuthSessionByAccessToken(pg: Pool, accessToken: string): Promise<AuthSession | null> {
+  const result = await pg.query<AuthSessionRow>(
+    `select ${sessionColumns} from auth_sessions where access_token = $1 limit 1`,
+    [accessToken]
+  );
+  return result.rows[0] ? mapAuthSessionRow(result.rows[0]) : null;
+}
+
+async function getAuthSessionByRefreshToken(pg: Pool, refreshToken: string): Promise<AuthSession | null> {
+  const result = await pg.query<AuthSessionRow>(
+    `select ${sessionColumns} from auth_sessions where refresh_token = $1 limit 1`,
+    [refreshToken]
+  );
+  return result.rows[0] ? mapAuthSessionRow(result.rows[0]) : null;
+}
+
+async function rotateAuthSession(pg: Pool, session: AuthSession, previousRefreshToken: string): Promise<boolean> {
+  const result = await pg.query(
+    `update auth_sessions set
+       access_token = $3,
+       refresh_token = $4,
+       last_active_at = $5,
+       access_expires_at = $6,
+       refresh_expires_at = $7
+     where id = $1 and refresh_token = $2`,
+    [
+      session.id,
+      previousRefreshToken,
+      session.accessToken,
+      session.refreshToken,
+      session.lastActiveAt,
+      session.accessExpiresAt,
+      session.refreshExpiresAt
+    ]
+  );
+  return !!result.rowCount;
+}
+
+async function listAuthSessions(pg: Pool, userId: string): Promise<AuthSession[]> {
+  const result = await pg.query<AuthSessionRow>(
+    `select ${sessionColumns} from auth_sessions where user_id = $1`,
+    [userId]
+  );
+  return result.rows.map(mapAuthSessionRow);
+}
+
+async function deleteAuthSession(pg: Pool, sessionId: string): Promise<void> {
+  await pg.query("delete from auth_sessions where id = $1", [sessionId]);
+}
+
+async function deleteAuthSessions(pg: Pool, userId: string, exceptSessionId?: string): Promise<number> {
+  const result = await pg.query("delete from auth_sessions where user_id = $1 and id is distinct from $2", [
+    userId,
+    exceptSessionId ?? null
+  ]);
+  return result.rowCount ?? 0;
+}
+
+/**
+ * Relational storage on Postgres. The schema is owned by `postgresMigrations.ts`; the first call
+ * verifies it is current and throws otherwise, and the next call retries.
+ */
+export function createPostgresDriver(connectionString: string): StorageDriver {
+  const pool = new Pool({ connectionString });
+  let schemaReady: Promise<void> | null = null;
+
+  async function connect(): Promise<Pool> {
+    if (!schemaReady) {
+      schemaReady = assertSchemaCurrent(pool).catch((error: unknown) => {
+        schemaReady = null;
+        throw error;
+      });
+    }
+    await schemaReady;
+    return pool;
+  }
+
+  return {
+    backend: "postgres",
+    label: "Postgres",
+    prepare: async () => {
+      await connect();
+    },
+    readAppData: async (userId) => readAppData(await connect(), userId),
+    queryWorkoutHistory: async (userId, query) => queryWorkoutHistory(await connect(), userId, query),
+    getWorkout: async (userId, id) => getWorkout(await connect(), userId, id),
+    applyMutations: async (userId, mutations) => applyStoreMutations(await connect(), userId, mutations),
+    resetAppData: async (userId) => resetAppData(await connect(), userId),
+    readSyncSnapshot: async (userId, sinceRevision) => readSyncSnapshot(await connect(), userId, sinceRevision),
+    createAuthUser: async (user) => createAuthUser(await connect(), user),
+    getAuthUserByEmail: async (email) => getAuthUserByEmail(await connect(), email),
+    getAuthUserById: async (userId) => getAuthUserById(await connect(), userId),
+    getAuthCredentialsById: async (userId) => getAuthCredentialsById(await connect(), userId),
+    updateAuthUserPassword: async (userId, passwordHash) => updateAuthUserPassword(await connect(), userId, passwordHash),
+    deleteAuthUser: async (userId) => deleteAuthUser(await connect(), userId),
+    createPasswordReset: async (reset) => createPasswordReset(await connect(), reset),
+    consumePasswordReset: async (tokenHash) => consumePasswordReset(await connect(), tokenHash),
+    createAnonymousDevice: async (device) => createAnonymousDevice(await connect(), device),
+    getAnonymousDeviceByTokenHash: async (tokenHash) => getAnonymousDeviceByTokenHash(await connect(), tokenHash),
+    getProgramEnrollment: async (userId) => getProgramEnrollment(await connect(), userId),
+    saveProgramEnrollment: async (enrollment) => saveProgramEnrollment(await connect(), enrollment),
+    deleteProgramEnrollment: async (userId) => deleteProgramEnrollment(await connect(), userId),
+    listCustomFoods: async (userId) => listCustomFoods(await connect(), userId),
+    saveCustomFood: async (food) => saveCustomFood(await connect(), food),
+    deleteCustomFood: async (userId, foodId) => deleteCustomFood(await connect(), userId, foodId),
+    listRecipes: async (userId) => listRecipes(await connect(), userId),
+    saveRecipe: async (recipe) => saveRecipe(await connect(), recipe),
+    deleteRecipe: async (userId, recipeId) => deleteRecipe(await connect(), userId, recipeId),
+    listSavedMeals: async (userId) => listSavedMeals(await connect(), userId),
+    saveSavedMeal: async (meal) => saveSavedMeal(await connect(), meal),
+    deleteSavedMeal: async (userId, mealId) => deleteSavedMeal(await connect(), userId, mealId),
+    createAuthSession: async (session) => createAuthSession(await connect(), session),
+    getAuthSessionByAccessToken: async (accessToken) => getAuthSessionByAccessToken(await connect(), accessToken),
+    getAuthSessionByRefreshToken: async (refreshToken) => getAuthSessionByRefreshToken(await connect(), refreshToken),
+    rotateAuthSession: async (session, previousRefreshToken) =>
+      rotateAuthSession(await connect(), session, previousRefreshToken),
+    listAuthSessions: async (userId) => listAuthSessions(await connect(), userId),
+    deleteAuthSession: async (sessionId) => deleteAuthSession(await connect(), sessionId),
+    deleteAuthSessions: async (userId, exceptSessionId) => deleteAuthSessions(await connect(), userId, exceptSessionId),
+    close: () => pool.end()
+  };
+}
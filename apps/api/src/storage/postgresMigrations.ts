@@ -0,0 +1,87 @@
+import { Pool, type PoolClient } from "pg";
+
+import { migrations } from "./migrations/index.js";
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Arbitrary constant shared by every API process so only one of them migrates at a time.
+const MIGRATION_LOCK_ID = 740_221;
+
+/** Thrown when the database has not been migrated to the schema this build expects. */
+export class PendingMigrationsError extends Error {
+  readonly pending: Migration[];
+
+  constructor(pending: Migration[]) {
+    const names = pending.map((item) => `${item.version}_${item.name}`).join(", ");
+    super(`Postgres schema is behind (${pending.length} pending: ${names}). Run \`npm run migrate\` in apps/api.`);
+    this.name = "PendingMigrationsError";
+    this.pending = pending;
+  }
+}
+
+async function ensureMigrationsTable(pg: Pool | PoolClient) {
+  await pg.query(`
+    create table if not exists schema_migrations (
+      version int primary key,
+      name text not null,
+      applied_at timestamptz not null default now()
+    )
+  `);
+}
+
+export async function listPendingMigrations(pg: Pool | PoolClient): Promise<Migration[]> {
+  await ensureMigrationsTable(pg);
+  const result = await pg.query<{ version: number }>("select version from schema_migrations");
+  const applied = new Set(result.rows.map((row) => row.version));
+  return migrations.filter((item) => !applied.has(item.version));
+}
+
+export async function assertSchemaCurrent(pg: Pool) {
+  const pending = await listPendingMigrations(pg);
+  if (pending.length) {
+    throw new PendingMigrationsError(pending);
+  }
+}
+
+/**
+ * Applies pending migrations in version order, each in its own transaction, under an advisory
+ * lock. Returns the migrations that were applied.
+ */
+export async function runMigrations(pg: Pool): Promise<Migration[]> {
+  const client = await pg.connect();
+
+  try {
+    await client.query("select pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+    const pending = await listPendingMigrations(client);
+
+    for (const item of pending) {
+      try {
+        await client.query("begin");
+        await client.query(item.sql);
+        await client.query("insert into schema_migrations (version, name) values ($1, $2)", [item.version, item.name]);
+        await client.query("commit");
+      } catch (error) {
+        await client.query("rollback");
+        throw error;
+      }
+    }
+
+    return pending;
+  } finally {
+    await client.query("select pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+    client.release();
+  }
+}
+
+export async function migratePostgres(connectionString: string): Promise<Migration[]> {
+  const pool = new Pool({ connectionString });
+  try {
+    return await runMigrations(pool);
+  } finally {
+    await pool.end();
+  }
+}
@@ -0,0 +1,1269 @@
+import { mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { DatabaseSync } from "node:sqlite";
+
+import {
+  createDefaultAppData,
+  resolveNextVersion,
+  sanitizeExerciseEntries,
+  sanitizeFoodLogItems,
+  sanitizeMealComponents,
+  toPublicUser
+} from "./common.js";
+import type {
+  ActivityLevel,
+  AnonymousDevice,
+  AppData,
+  AuthPublicUser,
+  AuthSession,
+  AuthUser,
+  CreateAuthUserResult,
+  CustomFood,
+  FitnessGoal,
+  PasswordReset,
+  ProgramEnrollment,
+  NutritionLog,
+  ProgressEntry,
+  Sex,
+  StorageDriver,
+  StoreMutation,
+  StoreMutationResult,
+  SyncEntity,
+  SyncJournal,
+  SyncSnapshot,
+  UserProfile,
+  UserRecipe,
+  UserSavedMeal,
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutLog,
+  WorkoutType
+} from "./types.js";
+
+const schemaSql = `
+  pragma foreign_keys = on;
+  pragma journal_mode = wal;
+
+  create table if not exists auth_users (
+    id text primary key,
+    email text not null unique,
+    password_hash text not null,
+    created_at text not null
+  );
+
+  create table if not exists auth_sessions (
+    id text primary key,
+    user_id text not null references auth_users(id) on delete cascade,
+    access_token text not null unique,
+    refresh_token text not null unique,
+    device_name text,
+    created_at text not null,
+    last_active_at text not null,
+    access_expires_at text not null,
+    refresh_expires_at text not null,
+    expires_at text not null
+  );
+
+  create index if not exists auth_sessions_user_idx on auth_sessions (user_id);
+
+  create table if not exists password_resets (
+    token_hash text primary key,
+    user_id text not null references auth_users(id) on delete cascade,
+    created_at text not null,
+    expires_at text not null
+  );
+
+  create index if not exists password_resets_user_idx on password_resets (user_id);
+
+  create table if not exists anonymous_devices (
+    device_id text primary key,
+    user_id text not null unique,
+    token_hash text not null unique,
+    created_at text not null
+  );
+
+  create table if not exists program_enrollments (
+    user_id text primary key,
+    program_id text not null,
+    start_date text not null,
+    enrolled_at text not null
+  );
+
+  create table if not exists custom_foods (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    brand text,
+    serving_size real not null,
+    serving_unit text not null,
+    calories real not null,
+    protein real not null,
+    carbs real not null,
+    fat real not null,
+    fiber real,
+    updated_at text not null,
+    primary key (user_id, id)
+  );
+
+  create table if not exists recipes (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    yield_servings real not null,
+    ingredients text not null default '[]',
+    updated_at text not null,
+    primary key (user_id, id)
+  );
+
+  create table if not exists saved_meals (
+    user_id text not null,
+    id text not null,
+    name text not null,
+    items text not null default '[]',
+    updated_at text not null,
+    primary key (user_id, id)
+  );
+
+  create table if not exists app_profiles (
+    user_id text primary key,
+    profile_id text not null,
+    name text not null,
+    age integer not null,
+    height_cm integer not null,
+    current_weight_kg real not null,
+    goal text not null check (goal in ('lose_weight', 'gain_muscle', 'maintain')),
+    daily_calorie_target integer not null,
+    protein_target_grams integer not null,
+    sex text check (sex in ('male', 'female')),
+    activity_level text check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active')),
+    weekly_rate_kg real,
+    carbs_target_grams integer,
+    fat_target_grams integer,
+    fiber_target_grams integer,
+    water_target_liters real,
+    goal_weight_kg real,
+    updated_at text not null
+  );
+
+  create table if not exists app_workout_logs (
+    user_id text not null,
+    id text not null,
+    workout_date text not null,
+    workout_type text not null check (workout_type in ('strength', 'cardio', 'mobility')),
+    duration_minutes integer not null,
+    exercise_entries text not null default '[]',
+    intensity_rpe real,
+    calories_burned integer,
+    template_name text,
+    notes text,
+    created_at text not null,
+    updated_at text not null,
+    synced_at text,
+    version integer not null default 1,
+    primary key (user_id, id)
+  );
+
+  create index if not exists app_workout_logs_history_idx
+    on app_workout_logs (user_id, workout_date desc, created_at desc, id desc);
+
+  create table if not exists app_nutrition_logs (
+    user_id text not null,
+    nutrition_date text not null,
+    calories real not null,
+    protein real not null,
+    carbs real not null,
+    fat real not null,
+    water_liters real not null,
+    items text not null default '[]',
+    updated_at text not null,
+    version integer not null default 1,
+    primary key (user_id, nutrition_date)
+  );
+
+  create table if not exists app_progress_entries (
+    user_id text not null,
+    id text not null,
+    progress_date text not null,
+    weight_kg real not null,
+    body_fat_pct real,
+    waist_cm real,
+    updated_at text not null,
+    version integer not null default 1,
+    primary key (user_id, id)
+  );
+
+  create table if not exists app_sync_changes (
+    user_id text not null,
+    entity text not null check (entity in ('profile', 'workout', 'nutrition', 'progress')),
+    entity_key text not null,
+    revision integer not null,
+    deleted integer not null default 0,
+    changed_at text not null,
+    primary key (user_id, entity, entity_key)
+  );
+
+  create index if not exists app_sync_changes_revision_idx
+    on app_sync_changes (user_id, revision);
+`;
+
+interface ProfileRow {
+  profile_id: string;
+  name: string;
+  age: number;
+  height_cm: number;
+  current_weight_kg: number;
+  goal: FitnessGoal;
+  daily_calorie_target: number;
+  protein_target_grams: number;
+  sex: Sex | null;
+  activity_level: ActivityLevel | null;
+  weekly_rate_kg: number | null;
+  carbs_target_grams: number | null;
+  fat_target_grams: number | null;
+  fiber_target_grams: number | null;
+  water_target_liters: number | null;
+  goal_weight_kg: number | null;
+}
+
+interface WorkoutRow {
+  id: string;
+  workout_date: string;
+  workout_type: WorkoutType;
+  duration_minutes: number;
+  exercise_entries: string;
+  intensity_rpe: number | null;
+  calories_burned: number | null;
+  template_name: string | null;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+  synced_at: string | null;
+  version: number;
+}
+
+interface NutritionRow {
+  nutrition_date: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  water_liters: number;
+  items: string;
+  updated_at: string;
+  version: number;
+}
+
+interface CustomFoodRow {
+  user_id: string;
+  id: string;
+  name: string;
+  brand: string | null;
+  serving_size: number;
+  serving_unit: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number | null;
+  updated_at: string;
+}
+
+interface ProgressRow {
+  id: string;
+  progress_date: string;
+  weight_kg: number;
+  body_fat_pct: number | null;
+  waist_cm: number | null;
+  updated_at: string;
+  version: number;
+}
+
+interface SyncChangeRow {
+  entity: SyncEntity;
+  entity_key: string;
+  revision: number;
+  deleted: number;
+  changed_at: string;
+}
+
+interface AuthSessionRow {
+  id: string;
+  user_id: string;
+  access_token: string;
+  refresh_token: string;
+  device_name: string | null;
+  created_at: string;
+  last_active_at: string;
+  access_expires_at: string;
+  refresh_expires_at: string;
+  expires_at: string;
+}
+
+interface AuthUserRow {
+  id: string;
+  email: string;
+  password_hash: string;
+  created_at: string;
+}
+
+const profileColumns =
+  "profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams, sex, activity_level, weekly_rate_kg, carbs_target_grams, fat_target_grams, fiber_target_grams, water_target_liters, goal_weight_kg";
+
+const workoutColumns =
+  "id, workout_date, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, updated_at, synced_at, version";
+
+const nutritionColumns = "nutrition_date, calories, protein, carbs, fat, water_liters, items, updated_at, version";
+
+const customFoodColumns =
+  "user_id, id, name, brand, serving_size, serving_unit, calories, protein, carbs, fat, fiber, updated_at";
+
+// `create table if not exists` leaves tables in older files untouched, so columns added since
+// the table first shipped are listed here and added on open.
+const addedColumns: Array<{ table: string; column: string; definition: string }> = [
+  { table: "app_nutrition_logs", column: "items", definition: "text not null default '[]'" },
+  { table: "app_profiles", column: "sex", definition: "text check (sex in ('male', 'female'))" },
+  {
+    table: "app_profiles",
+    column: "activity_level",
+    definition: "text check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active'))"
+  },
+  { table: "app_profiles", column: "weekly_rate_kg", definition: "real" },
+  { table: "app_profiles", column: "carbs_target_grams", definition: "integer" },
+  { table: "app_profiles", column: "fat_target_grams", definition: "integer" },
+  { table: "app_profiles", column: "fiber_target_grams", definition: "integer" },
+  { table: "app_profiles", column: "water_target_liters", definition: "real" },
+  { table: "app_profiles", column: "goal_weight_kg", definition: "real" },
+  { table: "custom_foods", column: "fiber", definition: "real" }
+];
+
+const progressColumns = "id, progress_date, weight_kg, body_fat_pct, waist_cm, updated_at, version";
+
+const sessionColumns =
+  "id, user_id, access_token, refresh_token, device_name, created_at, last_active_at, access_expires_at, refresh_expires_at, expires_at";
+
+function parseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (_error) {
+    return [];
+  }
+}
+
+function mapProfileRow(row: ProfileRow): UserProfile {
+  return {
+    id: row.profile_id,
+    name: row.name,
+    age: row.age,
+    heightCm: row.height_cm,
+    currentWeightKg: row.current_weight_kg,
+    goal: row.goal,
+    dailyCalorieTarget: row.daily_calorie_target,
+    proteinTargetGrams: row.protein_target_grams,
+    sex: row.sex ?? undefined,
+    activityLevel: row.activity_level ?? undefined,
+    weeklyRateKg: row.weekly_rate_kg ?? undefined,
+    carbsTargetGrams: row.carbs_target_grams ?? undefined,
+    fatTargetGrams: row.fat_target_grams ?? undefined,
+    fiberTargetGrams: row.fiber_target_grams ?? undefined,
+    waterTargetLiters: row.water_target_liters ?? undefined,
+    goalWeightKg: row.goal_weight_kg ?? undefined
+  };
+}
+
+function mapWorkoutRow(row: WorkoutRow): WorkoutLog {
+  return {
+    id: row.id,
+    date: row.workout_date,
+    workoutType: row.workout_type,
+    durationMinutes: row.duration_minutes,
+    exerciseEntries: sanitizeExerciseEntries(parseJson(row.exercise_entries)),
+    intensityRpe: row.intensity_rpe ?? undefined,
+    caloriesBurned: row.calories_burned ?? undefined,
+    templateName: row.template_name ?? undefined,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    syncedAt: row.synced_at,
+    version: row.version
+  };
+}
+
+function mapNutritionRow(row: NutritionRow): NutritionLog {
+  return {
+    date: row.nutrition_date,
+    calories: row.calories,
+    protein: row.protein,
+    carbs: row.carbs,
+    fat: row.fat,
+    waterLiters: row.water_liters,
+    items: sanitizeFoodLogItems(parseJson(row.items)),
+    updatedAt: row.updated_at,
+    version: row.version
+  };
+}
+
+function mapCustomFoodRow(row: CustomFoodRow): CustomFood {
+  return {
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    brand: row.brand ?? undefined,
+    servingSize: row.serving_size,
+    servingUnit: row.serving_unit,
+    calories: row.calories,
+    protein: row.protein,
+    carbs: row.carbs,
+    fat: row.fat,
+    fiber: row.fiber === null ? undefined : row.fiber,
+    updatedAt: row.updated_at
+  };
+}
+
+function mapProgressRow(row: ProgressRow): ProgressEntry {
+  return {
+    id: row.id,
+    date: row.progress_date,
+    weightKg: row.weight_kg,
+    bodyFatPct: row.body_fat_pct ?? undefined,
+    waistCm: row.waist_cm ?? undefined,
+    updatedAt: row.updated_at,
+    version: row.version
+  };
+}
+
+function selectOne<T>(db: DatabaseSync, sql: string, ...params: Array<string | number | null>): T | undefined {
+  return db.prepare(sql).get(...params) as T | undefined;
+}
+
+function selectAll<T>(db: DatabaseSync, sql: string, ...params: Array<string | number | null>): T[] {
+  return db.prepare(sql).all(...params) as unknown as T[];
+}
+
+function addMissingColumns(db: DatabaseSync) {
+  for (const { table, column, definition } of addedColumns) {
+    const columns = selectAll<{ name: string }>(db, `pragma table_info(${table})`);
+    if (!columns.some((item) => item.name === column)) {
+      db.exec(`alter table ${table} add column ${column} ${definition}`);
+    }
+  }
+}
+
+// Databases from before the per-user counters continue from each user's highest journal revision.
+function addSyncCursors(db: DatabaseSync) {
+  if (selectOne(db, "select name from sqlite_master where type = 'table' and name = 'app_sync_cursors'")) {
+    return;
+  }
+  inTransaction(db, () =>
+    db.exec(`
+      create table app_sync_cursors (
+        user_id text primary key,
+        revision integer not null
+      );
+      insert into app_sync_cursors (user_id, revision)
+        select user_id, max(revision) from app_sync_changes group by user_id;
+    `)
+  );
+}
+
+function inTransaction<T>(db: DatabaseSync, work: () => T): T {
+  db.exec("begin immediate");
+  try {
+    const result = work();
+    db.exec("commit");
+    return result;
+  } catch (error) {
+    db.exec("rollback");
+    throw error;
+  }
+}
+
+// Each user's revisions come from their own counter row, as in Postgres, so a write never scans the journal.
+function recordSyncChange(db: DatabaseSync, userId: string, entity: SyncEntity, key: string, deleted: boolean, nowIso: string) {
+  const { revision } = db
+    .prepare(
+      `insert into app_sync_cursors (user_id, revision) values (?, 1)
+       on conflict (user_id) do update set revision = app_sync_cursors.revision + 1
+       returning revision`
+    )
+    .get(userId) as { revision: number };
+  db.prepare(
+    `insert into app_sync_changes (user_id, entity, entity_key, revision, deleted, changed_at)
+     values (?, ?, ?, ?, ?, ?)
+     on conflict (user_id, entity, entity_key)
+     do update set revision = excluded.revision, deleted = excluded.deleted, changed_at = excluded.changed_at`
+  ).run(userId, entity, key, revision, deleted ? 1 : 0, nowIso);
+}
+
+function readAppData(db: DatabaseSync, userId: string): AppData {
+  const profileRow = selectOne<ProfileRow>(db, `select ${profileColumns} from app_profiles where user_id = ?`, userId);
+  const workoutRows = selectAll<WorkoutRow>(
+    db,
+    `select ${workoutColumns} from app_workout_logs where user_id = ? order by workout_date desc, created_at desc`,
+    userId
+  );
+  const nutritionRows = selectAll<NutritionRow>(
+    db,
+    `select ${nutritionColumns} from app_nutrition_logs where user_id = ? order by nutrition_date desc`,
+    userId
+  );
+  const progressRows = selectAll<ProgressRow>(
+    db,
+    `select ${progressColumns} from app_progress_entries where user_id = ? order by progress_date desc`,
+    userId
+  );
+
+  const nutritionByDate: Record<string, NutritionLog> = {};
+  for (const row of nutritionRows) {
+    nutritionByDate[row.nutrition_date] = mapNutritionRow(row);
+  }
+
+  return {
+    profile: profileRow ? mapProfileRow(profileRow) : null,
+    workouts: workoutRows.map(mapWorkoutRow),
+    nutritionByDate,
+    progressEntries: progressRows.map(mapProgressRow)
+  };
+}
+
+function getWorkout(db: DatabaseSync, userId: string, id: string): WorkoutLog | null {
+  const row = selectOne<WorkoutRow>(db, `select ${workoutColumns} from app_workout_logs where user_id = ? and id = ?`, userId, id);
+  return row ? mapWorkoutRow(row) : null;
+}
+
+function queryWorkoutHistory(db: DatabaseSync, userId: string, query: WorkoutHistoryQuery): WorkoutHistoryPage {
+  const conditions = ["user_id = ?"];
+  const params: string[] = [userId];
+  const exerciseMatch =
+    "exists (select 1 from json_each(exercise_entries) where instr(lower(json_extract(value, '$.name')), lower(?)) > 0)";
+  if (query.from) {
+    conditions.push("workout_date >= ?");
+    params.push(query.from);
+  }
+  if (query.to) {
+    conditions.push("workout_date <= ?");
+    params.push(query.to);
+  }
+  if (query.workoutType) {
+    conditions.push("workout_type = ?");
+    params.push(query.workoutType);
+  }
+  if (query.templateName) {
+    conditions.push("lower(template_name) = lower(?)");
+    params.push(query.templateName);
+  }
+  if (query.exercise) {
+    conditions.push(exerciseMatch);
+    params.push(query.exercise);
+  }
+  if (query.q) {
+    conditions.push(`(instr(lower(template_name), lower(?)) > 0 or ${exerciseMatch})`);
+    params.push(query.q, query.q);
+  }
+
+  const where = conditions.join(" and ");
+  const total = selectOne<{ total: number }>(db, `select count(*) as total from app_workout_logs where ${where}`, ...params);
+  const pageWhere = query.after ? `${where} and (workout_date, created_at, id) < (?, ?, ?)` : where;
+  const pageParams: Array<string | number> = query.after ? [...params, ...query.after] : [...params];
+  // One extra row tells whether another page follows.
+  const limit = query.limit === undefined ? "" : " limit ?";
+  if (query.limit !== undefined) {
+    pageParams.push(query.limit + 1);
+  }
+  const rows = selectAll<WorkoutRow>(
+    db,
+    `select ${workoutColumns} from app_workout_logs where ${pageWhere}
+     order by workout_date desc, created_at desc, id desc${limit}`,
+    ...pageParams
+  );
+  const hasMore = query.limit !== undefined && rows.length > query.limit;
+
+  return {
+    total: total?.total ?? 0,
+    items: (hasMore ? rows.slice(0, query.limit) : rows).map(mapWorkoutRow),
+    hasMore
+  };
+}
+
+function isSyncTombstone(db: DatabaseSync, userId: string, entity: SyncEntity, key: string): boolean {
+  const row = selectOne<{ deleted: number }>(
+    db,
+    "select deleted from app_sync_changes where user_id = ? and entity = ? and entity_key = ?",
+    userId,
+    entity,
+    key
+  );
+  return row?.deleted === 1;
+}
+
+function applyStoreMutation(db: DatabaseSync, userId: string, mutation: StoreMutation, nowIso: string): StoreMutationResult {
+  switch (mutation.kind) {
+    case "upsertProfile": {
+      const { profile } = mutation;
+      db.prepare(
+        `insert into app_profiles (user_id, profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams,
+           sex, activity_level, weekly_rate_kg, carbs_target_grams, fat_target_grams, fiber_target_grams, water_target_liters, goal_weight_kg, updated_at)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (user_id) do update set
+           profile_id = excluded.profile_id,
+           name = excluded.name,
+           age = excluded.age,
+           height_cm = excluded.height_cm,
+           current_weight_kg = excluded.current_weight_kg,
+           goal = excluded.goal,
+           daily_calorie_target = excluded.daily_calorie_target,
+           protein_target_grams = excluded.protein_target_grams,
+           sex = excluded.sex,
+           activity_level = excluded.activity_level,
+           weekly_rate_kg = excluded.weekly_rate_kg,
+           carbs_target_grams = excluded.carbs_target_grams,
+           fat_target_grams = excluded.fat_target_grams,
+           fiber_target_grams = excluded.fiber_target_grams,
+           water_target_liters = excluded.water_target_liters,
+           goal_weight_kg = excluded.goal_weight_kg,
+           updated_at = excluded.updated_at`
+      ).run(
+        userId,
+        profile.id,
+        profile.name,
+        profile.age,
+        profile.heightCm,
+        profile.currentWeightKg,
+        profile.goal,
+        profile.dailyCalorieTarget,
+        profile.proteinTargetGrams,
+        profile.sex ?? null,
+        profile.activityLevel ?? null,
+        profile.weeklyRateKg ?? null,
+        profile.carbsTargetGrams ?? null,
+        profile.fatTargetGrams ?? null,
+        profile.fiberTargetGrams ?? null,
+        profile.waterTargetLiters ?? null,
+        profile.goalWeightKg ?? null,
+        nowIso
+      );
+      recordSyncChange(db, userId, "profile", "profile", false, nowIso);
+      return { status: "applied", record: profile };
+    }
+
+    case "upsertWorkout": {
+      const existingRow = selectOne<WorkoutRow>(
+        db,
+        `select ${workoutColumns} from app_workout_logs where user_id = ? and id = ?`,
+        userId,
+        mutation.workout.id
+      );
+      const existing = existingRow ? mapWorkoutRow(existingRow) : undefined;
+      const deleted = !existing && isSyncTombstone(db, userId, "workout", mutation.workout.id);
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const workout: WorkoutLog = { ...mutation.workout, updatedAt: nowIso, version };
+      db.prepare(
+        `insert into app_workout_logs (user_id, id, workout_date, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, updated_at, synced_at, version)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (user_id, id) do update set
+           workout_date = excluded.workout_date,
+           workout_type = excluded.workout_type,
+           duration_minutes = excluded.duration_minutes,
+           exercise_entries = excluded.exercise_entries,
+           intensity_rpe = excluded.intensity_rpe,
+           calories_burned = excluded.calories_burned,
+           template_name = excluded.template_name,
+           notes = excluded.notes,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at,
+           synced_at = excluded.synced_at,
+           version = excluded.version`
+      ).run(
+        userId,
+        workout.id,
+        workout.date,
+        workout.workoutType,
+        workout.durationMinutes,
+        JSON.stringify(workout.exerciseEntries ?? []),
+        workout.intensityRpe ?? null,
+        workout.caloriesBurned ?? null,
+        workout.templateName ?? null,
+        workout.notes ?? null,
+        workout.createdAt,
+        workout.updatedAt,
+        workout.syncedAt,
+        workout.version
+      );
+      recordSyncChange(db, userId, "workout", workout.id, false, nowIso);
+      return { status: "applied", record: workout };
+    }
+
+    case "upsertNutrition": {
+      const existingRow = selectOne<NutritionRow>(
+        db,
+        `select ${nutritionColumns} from app_nutrition_logs where user_id = ? and nutrition_date = ?`,
+        userId,
+        mutation.log.date
+      );
+      const existing = existingRow ? mapNutritionRow(existingRow) : undefined;
+      const deleted = !existing && isSyncTombstone(db, userId, "nutrition", mutation.log.date);
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const log: NutritionLog = { ...mutation.log, updatedAt: nowIso, version };
+      db.prepare(
+        `insert into app_nutrition_logs (user_id, nutrition_date, calories, protein, carbs, fat, water_liters, items, updated_at, version)
+         values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (user_id, nutrition_date) do update set
+           calories = excluded.calories,
+           protein = excluded.protein,
+           carbs = excluded.carbs,
+           fat = excluded.fat,
+           water_liters = excluded.water_liters,
+           items = excluded.items,
+           updated_at = excluded.updated_at,
+           version = excluded.version`
+      ).run(
+        userId,
+        log.date,
+        log.calories,
+        log.protein,
+        log.carbs,
+        log.fat,
+        log.waterLiters,
+        JSON.stringify(log.items),
+        log.updatedAt,
+        log.version
+      );
+      recordSyncChange(db, userId, "nutrition", log.date, false, nowIso);
+      return { status: "applied", record: log };
+    }
+
+    case "upsertProgress": {
+      const existingRow = selectOne<ProgressRow>(
+        db,
+        `select ${progressColumns} from app_progress_entries where user_id = ? and id = ?`,
+        userId,
+        mutation.entry.id
+      );
+      const existing = existingRow ? mapProgressRow(existingRow) : undefined;
+      const deleted = !existing && isSyncTombstone(db, userId, "progress", mutation.entry.id);
+      const version = resolveNextVersion(existing, mutation.baseVersion, deleted);
+      if (version === null) {
+        return { status: "conflict", current: existing ?? null };
+      }
+
+      const entry: ProgressEntry = { ...mutation.entry, updatedAt: nowIso, version };
+      db.prepare(
+        `insert into app_progress_entries (user_id, id, progress_date, weight_kg, body_fat_pct, waist_cm, updated_at, version)
+         values (?, ?, ?, ?, ?, ?, ?, ?)
+         on conflict (user_id, id) do update set
+           progress_date = excluded.progress_date,
+           weight_kg = excluded.weight_kg,
+           body_fat_pct = excluded.body_fat_pct,
+           waist_cm = excluded.waist_cm,
+           updated_at = excluded.updated_at,
+           version = excluded.version`
+      ).run(
+        userId,
+        entry.id,
+        entry.date,
+        entry.weightKg,
+        entry.bodyFatPct ?? null,
+        entry.waistCm ?? null,
+        entry.updatedAt,
+        entry.version
+      );
+      recordSyncChange(db, userId, "progress", entry.id, false, nowIso);
+      return { status: "applied", record: entry };
+    }
+
+    case "deleteWorkout":
+    case "deleteNutrition":
+    case "deleteProgress": {
+      const [sql, entity, key]: [string, SyncEntity, string] =
+        mutation.kind === "deleteWorkout"
+          ? ["delete from app_workout_logs where user_id = ? and id = ?", "workout", mutation.id]
+          : mutation.kind === "deleteNutrition"
+            ? ["delete from app_nutrition_logs where user_id = ? and nutrition_date = ?", "nutrition", mutation.date]
+            : ["delete from app_progress_entries where user_id = ? and id = ?", "progress", mutation.id];
+      const deleted = db.prepare(sql).run(userId, key);
+      if (!deleted.changes) {
+        return { status: "not_found" };
+      }
+      recordSyncChange(db, userId, entity, key, true, nowIso);
+      return { status: "deleted" };
+    }
+  }
+}
+
+function applyStoreMutations(db: DatabaseSync, userId: string, mutations: StoreMutation[]): StoreMutationResult[] {
+  const nowIso = new Date().toISOString();
+  return inTransaction(db, () => mutations.map((mutation) => applyStoreMutation(db, userId, mutation, nowIso)));
+}
+
+function resetAppData(db: DatabaseSync, userId: string): AppData {
+  const nowIso = new Date().toISOString();
+
+  inTransaction(db, () => {
+    const current = readAppData(db, userId);
+    if (current.profile) {
+      recordSyncChange(db, userId, "profile", "profile", true, nowIso);
+    }
+    for (const workout of current.workouts) {
+      recordSyncChange(db, userId, "workout", workout.id, true, nowIso);
+    }
+    for (const date of Object.keys(current.nutritionByDate)) {
+      recordSyncChange(db, userId, "nutrition", date, true, nowIso);
+    }
+    for (const entry of current.progressEntries) {
+      recordSyncChange(db, userId, "progress", entry.id, true, nowIso);
+    }
+
+    db.prepare("delete from app_profiles where user_id = ?").run(userId);
+    db.prepare("delete from app_workout_logs where user_id = ?").run(userId);
+    db.prepare("delete from app_nutrition_logs where user_id = ?").run(userId);
+    db.prepare("delete from app_progress_entries where user_id = ?").run(userId);
+  });
+
+  return createDefaultAppData();
+}
+
+function readSyncJournal(db: DatabaseSync, userId: string, sinceRevision: number): SyncJournal {
+  const revisionRow = selectOne<{ revision: number }>(
+    db,
+    "select coalesce(max(revision), 0) as revision from app_sync_changes where user_id = ?",
+    userId
+  );
+  const rows = selectAll<SyncChangeRow>(
+    db,
+    "select entity, entity_key, revision, deleted, changed_at from app_sync_changes where user_id = ? and revision > ? order by revision asc",
+    userId,
+    sinceRevision
+  );
+
+  return {
+    revision: revisionRow?.revision ?? 0,
+    entries: rows.map((row) => ({
+      entity: row.entity,
+      key: row.entity_key,
+      deleted: row.deleted === 1,
+      revision: row.revision,
+      changedAt: row.changed_at
+    }))
+  };
+}
+
+// Both reads are synchronous, so no write can land between them.
+function readSyncSnapshot(db: DatabaseSync, userId: string, sinceRevision: number): SyncSnapshot {
+  return { ...readSyncJournal(db, userId, sinceRevision), data: readAppData(db, userId) };
+}
+
+function mapAuthUserRow(row: AuthUserRow): AuthUser {
+  return {
+    id: row.id,
+    email: row.email,
+    passwordHash: row.password_hash,
+    createdAt: row.created_at
+  };
+}
+
+function getAuthUserByEmail(db: DatabaseSync, email: string): AuthUser | null {
+  const row = selectOne<AuthUserRow>(db, "select id, email, password_hash, created_at from auth_users where email = ?", email);
+  return row ? mapAuthUserRow(row) : null;
+}
+
+function getAuthCredentialsById(db: DatabaseSync, userId: string): AuthUser | null {
+  const row = selectOne<AuthUserRow>(db, "select id, email, password_hash, created_at from auth_users where id = ?", userId);
+  return row ? mapAuthUserRow(row) : null;
+}
+
+function getAuthUserById(db: DatabaseSync, userId: string): AuthPublicUser | null {
+  const user = getAuthCredentialsById(db, userId);
+  return user ? toPublicUser(user) : null;
+}
+
+function createAuthUser(db: DatabaseSync, user: AuthUser): CreateAuthUserResult {
+  const result = db
+    .prepare("insert into auth_users (id, email, password_hash, created_at) values (?, ?, ?, ?) on conflict (email) do nothing")
+    .run(user.id, user.email, user.passwordHash, user.createdAt);
+  if (!result.changes) {
+    return {
+      ok: false,
+      reason: "Email is already registered"
+    };
+  }
+  return { ok: true };
+}
+
+function updateAuthUserPassword(db: DatabaseSync, userId: string, passwordHash: string): boolean {
+  const result = db.prepare("update auth_users set password_hash = ? where id = ?").run(passwordHash, userId);
+  return result.changes > 0;
+}
+
+function deleteAuthUser(db: DatabaseSync, userId: string): boolean {
+  return inTransaction(db, () => {
+    db.prepare("delete from app_profiles where user_id = ?").run(userId);
+    db.prepare("delete from app_workout_logs where user_id = ?").run(userId);
+    db.prepare("delete from app_nutrition_logs where user_id = ?").run(userId);
+    db.prepare("delete from app_progress_entries where user_id = ?").run(userId);
+    db.prepare("delete from app_sync_changes where user_id = ?").run(userId);
+    db.prepare("delete from app_sync_cursors where user_id = ?").run(userId);
+    db.prepare("delete from program_enrollments where user_id = ?").run(userId);
+    db.prepare("delete from custom_foods where user_id = ?").run(userId);
+    db.prepare("delete from recipes where user_id = ?").run(userId);
+    db.prepare("delete from saved_meals where user_id = ?").run(userId);
+    return db.prepare("delete from auth_users where id = ?").run(userId).changes > 0;
+  });
+}
+
+function createPasswordReset(db: DatabaseSync, reset: PasswordReset) {
+  inTransaction(db, () => {
+    db.prepare("delete from password_resets where user_id = ?").run(reset.userId);
+    db.prepare("insert into password_resets (token_hash, user_id, created_at, expires_at) values (?, ?, ?, ?)").run(
+      reset.tokenHash,
+      reset.userId,
+      reset.createdAt,
+      reset.expiresAt
+    );
+  });
+}
+
+function consumePasswordReset(db: DatabaseSync, tokenHash: string): PasswordReset | null {
+  const row = selectOne<{ token_hash: string; user_id: string; created_at: string; expires_at: string }>(
+    db,
+    "delete from password_resets where token_hash = ? returning token_hash, user_id, created_at, expires_at",
+    tokenHash
+  );
+  if (!row) {
+    return null;
+  }
+  return {
+    tokenHash: row.token_hash,
+    userId: row.user_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at
+  };
+}
+
+function mapAuthSessionRow(row: AuthSessionRow): AuthSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    accessToken: row.access_token,
+    refreshToken: row.refresh_token,
+    deviceName: row.device_name,
+    createdAt: row.created_at,
+    lastActiveAt: row.last_active_at,
+    accessExpiresAt: row.access_expires_at,
+    refreshExpiresAt: row.refresh_expires_at,
+    expiresAt: row.expires_at
+  };
+}
+
+function createAnonymousDevice(db: DatabaseSync, device: AnonymousDevice): boolean {
+  const result = db
+    .prepare(
+      "insert into anonymous_devices (device_id, user_id, token_hash, created_at) values (?, ?, ?, ?) on conflict (device_id) do nothing"
+    )
+    .run(device.deviceId, device.userId, device.tokenHash, device.createdAt);
+  return result.changes > 0;
+}
+
+function getAnonymousDeviceByTokenHash(db: DatabaseSync, tokenHash: string): AnonymousDevice | null {
+  const row = selectOne<{ device_id: string; user_id: string; token_hash: string; created_at: string }>(
+    db,
+    "select device_id, user_id, token_hash, created_at from anonymous_devices where token_hash = ?",
+    tokenHash
+  );
+  return row
+    ? { deviceId: row.device_id, userId: row.user_id, tokenHash: row.token_hash, createdAt: row.created_at }
+    : null;
+}
+
+function getProgramEnrollment(db: DatabaseSync, userId: string): ProgramEnrollment | null {
+  const row = selectOne<{ user_id: string; program_id: string; start_date: string; enrolled_at: string }>(
+    db,
+    "select user_id, program_id, start_date, enrolled_at from program_enrollments where user_id = ?",
+    userId
+  );
+  return row
+    ? { userId: row.user_id, programId: row.program_id, startDate: row.start_date, enrolledAt: row.enrolled_at }
+    : null;
+}
+
+function saveProgramEnrollment(db: DatabaseSync, enrollment: ProgramEnrollment) {
+  db.prepare(
+    `insert into program_enrollments (user_id, program_id, start_date, enrolled_at) values (?, ?, ?, ?)
+     on conflict (user_id) do update set
+       program_id = excluded.program_id,
+       start_date = excluded.start_date,
+       enrolled_at = excluded.enrolled_at`
+  ).run(enrollment.userId, enrollment.programId, enrollment.startDate, enrollment.enrolledAt);
+}
+
+function deleteProgramEnrollment(db: DatabaseSync, userId: string): boolean {
+  return db.prepare("delete from program_enrollments where user_id = ?").run(userId).changes > 0;
+}
+
+function listCustomFoods(db: DatabaseSync, userId: string): CustomFood[] {
+  return selectAll<CustomFoodRow>(
+    db,
+    `select ${customFoodColumns} from custom_foods where user_id = ? order by name`,
+    userId
+  ).map(mapCustomFoodRow);
+}
+
+function saveCustomFood(db: DatabaseSync, food: CustomFood) {
+  db.prepare(
+    `insert into custom_foods (${customFoodColumns}) values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       brand = excluded.brand,
+       serving_size = excluded.serving_size,
+       serving_unit = excluded.serving_unit,
+       calories = excluded.calories,
+       protein = excluded.protein,
+       carbs = excluded.carbs,
+       fat = excluded.fat,
+       fiber = excluded.fiber,
+       updated_at = excluded.updated_at`
+  ).run(
+    food.userId,
+    food.id,
+    food.name,
+    food.brand ?? null,
+    food.servingSize,
+    food.servingUnit,
+    food.calories,
+    food.protein,
+    food.carbs,
+    food.fat,
+    food.fiber ?? null,
+    food.updatedAt
+  );
+}
+
+function deleteCustomFood(db: DatabaseSync, userId: string, foodId: string): boolean {
+  return db.prepare("delete from custom_foods where user_id = ? and id = ?").run(userId, foodId).changes > 0;
+}
+
+function listRecipes(db: DatabaseSync, userId: string): UserRecipe[] {
+  return selectAll<{ user_id: string; id: string; name: string; yield_servings: number; ingredients: string; updated_at: string }>(
+    db,
+    "select user_id, id, name, yield_servings, ingredients, updated_at from recipes where user_id = ? order by name",
+    userId
+  ).map((row) => ({
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    yieldServings: row.yield_servings,
+    ingredients: sanitizeMealComponents(parseJson(row.ingredients)),
+    updatedAt: row.updated_at
+  }));
+}
+
+function saveRecipe(db: DatabaseSync, recipe: UserRecipe) {
+  db.prepare(
+    `insert into recipes (user_id, id, name, yield_servings, ingredients, updated_at) values (?, ?, ?, ?, ?, ?)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       yield_servings = excluded.yield_servings,
+       ingredients = excluded.ingredients,
+       updated_at = excluded.updated_at`
+  ).run(recipe.userId, recipe.id, recipe.name, recipe.yieldServings, JSON.stringify(recipe.ingredients), recipe.updatedAt);
+}
+
+function deleteRecipe(db: DatabaseSync, userId: string, recipeId: string): boolean {
+  return db.prepare("delete from recipes where user_id = ? and id = ?").run(userId, recipeId).changes > 0;
+}
+
+function listSavedMeals(db: DatabaseSync, userId: string): UserSavedMeal[] {
+  return selectAll<{ user_id: string; id: string; name: string; items: string; updated_at: string }>(
+    db,
+    "select user_id, id, name, items, updated_at from saved_meals where user_id = ? order by name",
+    userId
+  ).map((row) => ({
+    userId: row.user_id,
+    id: row.id,
+    name: row.name,
+    items: sanitizeMealComponents(parseJson(row.items)),
+    updatedAt: row.updated_at
+  }));
+}
+
+function saveSavedMeal(db: DatabaseSync, meal: UserSavedMeal) {
+  db.prepare(
+    `insert into saved_meals (user_id, id, name, items, updated_at) values (?, ?, ?, ?, ?)
+     on conflict (user_id, id) do update set
+       name = excluded.name,
+       items = excluded.items,
+       updated_at = excluded.updated_at`
+  ).run(meal.userId, meal.id, meal.name, JSON.stringify(meal.items), meal.updatedAt);
+}
+
+function deleteSavedMeal(db: DatabaseSync, userId: string, mealId: string): boolean {
+  return db.prepare("delete from saved_meals where user_id = ? and id = ?").run(userId, mealId).changes > 0;
+}
+
+function createAuthSession(db: DatabaseSync, session: AuthSession) {
+  inTransaction(db, () => {
+    db.prepare("delete from auth_sessions where user_id = ? and refresh_expires_at <= ?").run(
+      session.userId,
+      session.createdAt
+    );
+    db.prepare(`insert into auth_sessions (${sessionColumns}) values (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`).run(
+      session.id,
+      session.userId,
+      session.accessToken,
+      session.refreshToken,
+      session.deviceName,
+      session.createdAt,
+      session.lastActiveAt,
+      session.accessExpiresAt,
+      session.refreshExpiresAt,
+      session.expiresAt
+    );
+  });
+}
+
+function getAuthSessionByAccessToken(db: DatabaseSync, accessToken: string): AuthSession | null {
+  const row = selectOne<AuthSessionRow>(db, `select ${sessionColumns} from auth_sessions where access_token = ?`, accessToken);
+  return row ? mapAuthSessionRow(row) : null;
+}
+
+function getAuthSessionByRefreshToken(db: DatabaseSync, refreshToken: string): AuthSession | null {
+  const row = selectOne<AuthSessionRow>(db, `select ${sessionColumns} from auth_sessions where refresh_token = ?`, refreshToken);
+  return row ? mapAuthSessionRow(row) : null;
+}
+
+function rotateAuthSession(db: DatabaseSync, session: AuthSession, previousRefreshToken: string): boolean {
+  const result = db
+    .prepare(
+      `update auth_sessions set
+         access_token = ?,
+         refresh_token = ?,
+         last_active_at = ?,
+         access_expires_at = ?,
+         refresh_expires_at = ?
+       where id = ? and refresh_token = ?`
+    )
+    .run(
+      session.accessToken,
+      session.refreshToken,
+      session.lastActiveAt,
+      session.accessExpiresAt,
+      session.refreshExpiresAt,
+      session.id,
+      previousRefreshToken
+    );
+  return result.changes > 0;
+}
+
+function listAuthSessions(db: DatabaseSync, userId: string): AuthSession[] {
+  return selectAll<AuthSessionRow>(db, `select ${sessionColumns} from auth_sessions where user_id = ?`, userId).map(
+    mapAuthSessionRow
+  );
+}
+
+function deleteAuthSession(db: DatabaseSync, sessionId: string) {
+  db.prepare("delete from auth_sessions where id = ?").run(sessionId);
+}
+
+function deleteAuthSessions(db: DatabaseSync, userId: string, exceptSessionId?: string): number {
+  const result = db
+    .prepare("delete from auth_sessions where user_id = ? and id is not ?")
+    .run(userId, exceptSessionId ?? null);
+  return Number(result.changes);
+}
+
+/** `node:sqlite` ships unflagged from Node 22.5 (22.13 without `--experimental-sqlite`). */
+export async function isSqliteAvailable(): Promise<boolean> {
+  try {
+    await import("node:sqlite");
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Single-file relational storage on Node's built-in `node:sqlite`, for self-hosting without a
+ * database server. The module is loaded on first use so older Node versions can still run the
+ * other backends. Pass `":memory:"` for a throwaway database.
+ */
+export function createSqliteDriver(filePath: string): StorageDriver {
+  let database: Promise<DatabaseSync> | null = null;
+
+  async function open(): Promise<DatabaseSync> {
+    if (filePath !== ":memory:") {
+      await mkdir(dirname(filePath), { recursive: true });
+    }
+    const { DatabaseSync } = await import("node:sqlite");
+    const db = new DatabaseSync(filePath);
+    db.exec(schemaSql);
+    addMissingColumns(db);
+    addSyncCursors(db);
+    return db;
+  }
+
+  async function connect(): Promise<DatabaseSync> {
+    if (!database) {
+      database = open().catch((error: unknown) => {
+        database = null;
+        throw error;
+      });
+    }
+    return database;
+  }
+
+  return {
+    backend: "sqlite",
+    label: `SQLite (${filePath})`,
+    prepare: async () => {
+      await connect();
+    },
+    readAppData: async (userId) => readAppData(await connect(), userId),
+    queryWorkoutHistory: async (userId, query) => queryWorkoutHistory(await connect(), userId, query),
+    getWorkout: async (userId, id) => getWorkout(await connect(), userId, id),
+    applyMutations: async (userId, mutations) => applyStoreMutations(await connect(), userId, mutations),
+    resetAppData: async (userId) => resetAppData(await connect(), userId),
+    readSyncSnapshot: async (userId, sinceRevision) => readSyncSnapshot(await connect(), userId, sinceRevision),
+    createAuthUser: async (user) => createAuthUser(await connect(), user),
+    getAuthUserByEmail: async (email) => getAuthUserByEmail(await connect(), email),
+    getAuthUserById: async (userId) => getAuthUserById(await connect(), userId),
+    getAuthCredentialsById: async (userId) => getAuthCredentialsById(await connect(), userId),
+    updateAuthUserPassword: async (userId, passwordHash) => updateAuthUserPassword(await connect(), userId, passwordHash),
+    deleteAuthUser: async (userId) => deleteAuthUser(await connect(), userId),
+    createPasswordReset: async (reset) => createPasswordReset(await connect(), reset),
+    consumePasswordReset: async (tokenHash) => consumePasswordReset(await connect(), tokenHash),
+    createAnonymousDevice: async (device) => createAnonymousDevice(await connect(), device),
+    getAnonymousDeviceByTokenHash: async (tokenHash) => getAnonymousDeviceByTokenHash(await connect(), tokenHash),
+    getProgramEnrollment: async (userId) => getProgramEnrollment(await connect(), userId),
+    saveProgramEnrollment: async (enrollment) => saveProgramEnrollment(await connect(), enrollment),
+    deleteProgramEnrollment: async (userId) => deleteProgramEnrollment(await connect(), userId),
+    listCustomFoods: async (userId) => listCustomFoods(await connect(), userId),
+    saveCustomFood: async (food) => saveCustomFood(await connect(), food),
+    deleteCustomFood: async (userId, foodId) => deleteCustomFood(await connect(), userId, foodId),
+    listRecipes: async (userId) => listRecipes(await connect(), userId),
+    saveRecipe: async (recipe) => saveRecipe(await connect(), recipe),
+    deleteRecipe: async (userId, recipeId) => deleteRecipe(await connect(), userId, recipeId),
+    listSavedMeals: async (userId) => listSavedMeals(await connect(), userId),
+    saveSavedMeal: async (meal) => saveSavedMeal(await connect(), meal),
+    deleteSavedMeal: async (userId, mealId) => deleteSavedMeal(await connect(), userId, mealId),
+    createAuthSession: async (session) => createAuthSession(await connect(), session),
+    getAuthSessionByAccessToken: async (accessToken) => getAuthSessionByAccessToken(await connect(), accessToken),
+    getAuthSessionByRefreshToken: async (refreshToken) => getAuthSessionByRefreshToken(await connect(), refreshToken),
+    rotateAuthSession: async (session, previousRefreshToken) =>
+      rotateAuthSession(await connect(), session, previousRefreshToken),
+    listAuthSessions: async (userId) => listAuthSessions(await connect(), userId),
+    deleteAuthSession: async (sessionId) => deleteAuthSession(await connect(), sessionId),
+    deleteAuthSessions: async (userId, exceptSessionId) => deleteAuthSessions(await connect(), userId, exceptSessionId),
+    close: async () => {
+      if (database) {
+        (await database).close();
+        database = null;
+      }
+    }
+  };
+}
@@ -0,0 +1,304 @@
+import type { FoodItem, FoodLogItem, MealComponent, MealType, Recipe, SavedMeal } from "@fitness/shared";
+
+export type { FoodItem, FoodLogItem, MealComponent, MealType, Recipe, SavedMeal };
+
+export type FitnessGoal = "lose_weight" | "gain_muscle" | "maintain";
+export type WorkoutType = "strength" | "cardio" | "mobility";
+export type Sex = "male" | "female";
+export type ActivityLevel = "sedentary" | "light" | "moderate" | "active" | "very_active";
+
+export interface WorkoutSetEntry {
+  reps: number;
+  weightKg?: number;
+  rpe?: number;
+  rir?: number;
+  isWarmup?: boolean;
+}
+
+export interface WorkoutExerciseEntry {
+  id: string;
+  name: string;
+  sets: WorkoutSetEntry[];
+}
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  age: number;
+  heightCm: number;
+  currentWeightKg: number;
+  goal: FitnessGoal;
+  dailyCalorieTarget: number;
+  proteinTargetGrams: number;
+  // The rest arrived with full macro targets; profiles saved by older clients leave them out.
+  sex?: Sex;
+  activityLevel?: ActivityLevel;
+  /** Planned weight change in kg per week; negative while cutting. */
+  weeklyRateKg?: number;
+  carbsTargetGrams?: number;
+  fatTargetGrams?: number;
+  fiberTargetGrams?: number;
+  waterTargetLiters?: number;
+  goalWeightKg?: number;
+}
+
+export interface WorkoutLog {
+  id: string;
+  date: string;
+  workoutType: WorkoutType;
+  durationMinutes: number;
+  exerciseEntries: WorkoutExerciseEntry[];
+  intensityRpe?: number;
+  caloriesBurned?: number;
+  templateName?: string;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+  syncedAt: string | null;
+  version: number;
+}
+
+export interface NutritionLog {
+  date: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  waterLiters: number;
+  /** Meal-level food entries. When present, the macro totals above are derived from them. */
+  items: FoodLogItem[];
+  updatedAt: string;
+  version: number;
+}
+
+export interface ProgressEntry {
+  id: string;
+  date: string;
+  weightKg: number;
+  bodyFatPct?: number;
+  waistCm?: number;
+  updatedAt: string;
+  version: number;
+}
+
+export interface AppData {
+  profile: UserProfile | null;
+  workouts: WorkoutLog[];
+  nutritionByDate: Record<string, NutritionLog>;
+  progressEntries: ProgressEntry[];
+}
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  passwordHash: string;
+  createdAt: string;
+}
+
+export interface AuthPublicUser {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+/**
+ * A signed-in device. The access token is short-lived; the refresh token rotates on every
+ * refresh and stops working at `refreshExpiresAt`, which is the idle timeout capped by the
+ * absolute `expiresAt`.
+ */
+export interface AuthSession {
+  id: string;
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  deviceName: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  accessExpiresAt: string;
+  refreshExpiresAt: string;
+  expiresAt: string;
+}
+
+/** A pending password reset. Only a SHA-256 hash of the emailed token is stored. */
+export interface PasswordReset {
+  tokenHash: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/** A guest device's identity. The device picks `deviceId`; the server issues the token. */
+export interface AnonymousDevice {
+  deviceId: string;
+  userId: string;
+  tokenHash: string;
+  createdAt: string;
+}
+
+/** Where a user is in a training program. A user follows at most one program at a time. */
+export interface ProgramEnrollment {
+  userId: string;
+  programId: string;
+  startDate: string;
+  enrolledAt: string;
+}
+
+/** A food the user created; it joins the bundled database in their searches. */
+export interface CustomFood extends FoodItem {
+  userId: string;
+  updatedAt: string;
+}
+
+export interface UserRecipe extends Recipe {
+  userId: string;
+  updatedAt: string;
+}
+
+export interface UserSavedMeal extends SavedMeal {
+  userId: string;
+  updatedAt: string;
+}
+
+export type SyncEntity = "profile" | "workout" | "nutrition" | "progress";
+
+export interface SyncChange {
+  entity: SyncEntity;
+  key: string;
+  deleted: boolean;
+}
+
+export interface SyncJournalEntry extends SyncChange {
+  revision: number;
+  changedAt: string;
+}
+
+export interface SyncJournal {
+  revision: number;
+  entries: SyncJournalEntry[];
+}
+
+/** The journal and the user's records as of the same moment. */
+export interface SyncSnapshot extends SyncJournal {
+  data: AppData;
+}
+
+export interface WorkoutHistoryFilter {
+  from?: string;
+  to?: string;
+  workoutType?: WorkoutType;
+  /** Matched case-insensitively against the whole template name. */
+  templateName?: string;
+  /** Case-insensitive substring of any exercise name in the session. */
+  exercise?: string;
+  /** Case-insensitive substring of the template name or any exercise name. */
+  q?: string;
+}
+
+/** Where a workout sorts in history: newest first by date, creation time, then id. */
+export type WorkoutSortKey = [date: string, createdAt: string, id: string];
+
+export interface WorkoutHistoryQuery extends WorkoutHistoryFilter {
+  /** Omit to return every match. */
+  limit?: number;
+  /** Starts after the workout with this sort key. */
+  after?: WorkoutSortKey;
+}
+
+export interface WorkoutHistoryPage {
+  /** Every match, ignoring `limit` and `after`. */
+  total: number;
+  items: WorkoutLog[];
+  hasMore: boolean;
+}
+
+export type WorkoutInput = Omit<WorkoutLog, "updatedAt" | "version">;
+export type NutritionInput = Omit<NutritionLog, "updatedAt" | "version">;
+export type ProgressInput = Omit<ProgressEntry, "updatedAt" | "version">;
+
+/**
+ * A single-record write. `baseVersion` is the version the client edited; omit it only when
+ * creating a record, since updating one without it is reported as a conflict.
+ */
+export type StoreMutation =
+  | { kind: "upsertProfile"; profile: UserProfile }
+  | { kind: "upsertWorkout"; workout: WorkoutInput; baseVersion?: number }
+  | { kind: "deleteWorkout"; id: string }
+  | { kind: "upsertNutrition"; log: NutritionInput; baseVersion?: number }
+  | { kind: "deleteNutrition"; date: string }
+  | { kind: "upsertProgress"; entry: ProgressInput; baseVersion?: number }
+  | { kind: "deleteProgress"; id: string };
+
+/** `current` is null when the record was deleted after the client last saw it. */
+export type VersionedWrite<T> = { status: "applied"; record: T } | { status: "conflict"; current: T | null };
+
+export type StoreMutationResult =
+  | VersionedWrite<UserProfile | WorkoutLog | NutritionLog | ProgressEntry>
+  | { status: "deleted" }
+  | { status: "not_found" };
+
+export type StorageBackend = "file" | "postgres" | "sqlite" | "memory";
+
+export interface CreateAuthUserResult {
+  ok: boolean;
+  reason?: string;
+}
+
+/**
+ * Everything the API needs from persistent storage. Each backend implements the whole
+ * contract, so `server.test.ts` can run the same suite against every driver.
+ */
+export interface StorageDriver {
+  backend: StorageBackend;
+  label: string;
+  /** Opens connections and verifies the schema. Called once before the API starts serving. */
+  prepare(): Promise<void>;
+  readAppData(userId: string): Promise<AppData>;
+  queryWorkoutHistory(userId: string, query: WorkoutHistoryQuery): Promise<WorkoutHistoryPage>;
+  getWorkout(userId: string, id: string): Promise<WorkoutLog | null>;
+  applyMutations(userId: string, mutations: StoreMutation[]): Promise<StoreMutationResult[]>;
+  resetAppData(userId: string): Promise<AppData>;
+  readSyncSnapshot(userId: string, sinceRevision: number): Promise<SyncSnapshot>;
+  createAuthUser(user: AuthUser): Promise<CreateAuthUserResult>;
+  getAuthUserByEmail(email: string): Promise<AuthUser | null>;
+  getAuthUserById(userId: string): Promise<AuthPublicUser | null>;
+  /** The full user row with its password hash, for re-checking a signed-in user's password. */
+  getAuthCredentialsById(userId: string): Promise<AuthUser | null>;
+  updateAuthUserPassword(userId: string, passwordHash: string): Promise<boolean>;
+  /** Erases the account with its sessions, resets, app data, enrollment, foods, recipes, meals and sync history. */
+  deleteAuthUser(userId: string): Promise<boolean>;
+  /** Stores a reset and drops any earlier reset for the same user. */
+  createPasswordReset(reset: PasswordReset): Promise<void>;
+  /** Removes and returns the reset, so each token works once. */
+  consumePasswordReset(tokenHash: string): Promise<PasswordReset | null>;
+  /** Returns false when the device id is already registered. */
+  createAnonymousDevice(device: AnonymousDevice): Promise<boolean>;
+  getAnonymousDeviceByTokenHash(tokenHash: string): Promise<AnonymousDevice | null>;
+  getProgramEnrollment(userId: string): Promise<ProgramEnrollment | null>;
+  /** Replaces any enrollment the user already has. */
+  saveProgramEnrollment(enrollment: ProgramEnrollment): Promise<void>;
+  /** Returns false when the user was not enrolled. */
+  deleteProgramEnrollment(userId: string): Promise<boolean>;
+  listCustomFoods(userId: string): Promise<CustomFood[]>;
+  /** Inserts the food or replaces the user's food with the same id. */
+  saveCustomFood(food: CustomFood): Promise<void>;
+  /** Returns false when the user has no food with that id. */
+  deleteCustomFood(userId: string, foodId: string): Promise<boolean>;
+  listRecipes(userId: string): Promise<UserRecipe[]>;
+  /** Inserts or replaces by id; days already logged from the recipe keep their copied macros. */
+  saveRecipe(recipe: UserRecipe): Promise<void>;
+  deleteRecipe(userId: string, recipeId: string): Promise<boolean>;
+  listSavedMeals(userId: string): Promise<UserSavedMeal[]>;
+  saveSavedMeal(meal: UserSavedMeal): Promise<void>;
+  deleteSavedMeal(userId: string, mealId: string): Promise<boolean>;
+  /** Stores a new session and drops the user's sessions whose refresh window has passed. */
+  createAuthSession(session: AuthSession): Promise<void>;
+  getAuthSessionByAccessToken(accessToken: string): Promise<AuthSession | null>;
+  getAuthSessionByRefreshToken(refreshToken: string): Promise<AuthSession | null>;
+  /** Replaces the session only if it still holds `previousRefreshToken`, so a refresh token works once. */
+  rotateAuthSession(session: AuthSession, previousRefreshToken: string): Promise<boolean>;
+  listAuthSessions(userId: string): Promise<AuthSession[]>;
+  deleteAuthSession(sessionId: string): Promise<void>;
+  /** Returns how many sessions were removed. */
+  deleteAuthSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  close(): Promise<void>;
+}
@@ -1,946 +1,333 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { isAbsolute, resolve } from "node:path";
-import { dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 
-import { Pool } from "pg";
-
 import { config } from "./config.js";
+import { DEFAULT_USER_ID, toErrorMessage } from "./storage/common.js";
+import { createFileDriver } from "./storage/fileDriver.js";
+import { createMemoryDriver } from "./storage/memoryDriver.js";
+import { PendingMigrationsError } from "./storage/postgresMigrations.js";
+import { createPostgresDriver } from "./storage/postgresDriver.js";
+import { createSqliteDriver } from "./storage/sqliteDriver.js";
+import type {
+  AnonymousDevice,
+  AppData,
+  AuthPublicUser,
+  AuthSession,
+  AuthUser,
+  CreateAuthUserResult,
+  CustomFood,
+  NutritionInput,
+  NutritionLog,
+  PasswordReset,
+  ProgramEnrollment,
+  ProgressEntry,
+  ProgressInput,
+  StorageDriver,
+  StoreMutation,
+  StoreMutationResult,
+  SyncSnapshot,
+  UserProfile,
+  UserRecipe,
+  UserSavedMeal,
+  VersionedWrite,
+  WorkoutHistoryPage,
+  WorkoutHistoryQuery,
+  WorkoutInput,
+  WorkoutLog
+} from "./storage/types.js";
+
+export type * from "./storage/types.js";
+
+function resolveStoragePath(configured: string | undefined, fallback: URL): string {
+  if (!configured) {
+    return fileURLToPath(fallback);
+  }
+  return isAbsolute(configured) ? configured : resolve(process.cwd(), configured);
+}
+
+const dataFilePath = resolveStoragePath(config.FILE_STORAGE_PATH, new URL("../data/app-data.json", import.meta.url));
+const sqliteFilePath = resolveStoragePath(config.SQLITE_PATH, new URL("../data/app-data.sqlite", import.meta.url));
+
+function createConfiguredDriver(): StorageDriver {
+  switch (config.STORAGE_BACKEND) {
+    case "postgres":
+      return createPostgresDriver(config.DATABASE_URL ?? "");
+    case "sqlite":
+      return createSqliteDriver(sqliteFilePath);
+    case "memory":
+      return createMemoryDriver();
+    case "file":
+      return createFileDriver(dataFilePath);
+  }
+}
+
+let activeDriver: StorageDriver = createConfiguredDriver();
+let fileDriver: StorageDriver | null = activeDriver.backend === "file" ? activeDriver : null;
+let fallbackReason: string | null = null;
 
-export type FitnessGoal = "lose_weight" | "gain_muscle" | "maintain";
-export type WorkoutType = "strength" | "cardio" | "mobility";
-
-export interface WorkoutExerciseEntry {
-  id: string;
-  name: string;
-  sets: number;
-  reps: number;
-  weightKg?: number;
-}
-
-export interface UserProfile {
-  id: string;
-  name: string;
-  age: number;
-  heightCm: number;
-  currentWeightKg: number;
-  goal: FitnessGoal;
-  dailyCalorieTarget: number;
-  proteinTargetGrams: number;
-}
-
-export interface WorkoutLog {
-  id: string;
-  date: string;
-  workoutType: WorkoutType;
-  durationMinutes: number;
-  exerciseEntries: WorkoutExerciseEntry[];
-  intensityRpe?: number;
-  caloriesBurned?: number;
-  templateName?: string;
-  notes?: string;
-  createdAt: string;
-  syncedAt: string | null;
-}
-
-export interface NutritionLog {
-  date: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  waterLiters: number;
-}
-
-export interface ProgressEntry {
-  id: string;
-  date: string;
-  weightKg: number;
-  bodyFatPct?: number;
-  waistCm?: number;
-}
-
-export interface AppData {
-  profile: UserProfile | null;
-  workouts: WorkoutLog[];
-  nutritionByDate: Record<string, NutritionLog>;
-  progressEntries: ProgressEntry[];
+/**
+ * Swaps the active backend, e.g. so tests can run the same suite against every driver. The
+ * previous driver is not closed.
+ */
+export function useStorageDriver(driver: StorageDriver) {
+  activeDriver = driver;
+  fileDriver = driver.backend === "file" ? driver : null;
+  fallbackReason = null;
 }
 
-export interface AuthUser {
-  id: string;
-  email: string;
-  passwordHash: string;
-  createdAt: string;
+function activateFileFallback(error: unknown): StorageDriver {
+  if (activeDriver.backend !== "file") {
+    fallbackReason = `${activeDriver.label} unavailable: ${toErrorMessage(error)}`;
+    console.warn(`[store] ${fallbackReason}. Falling back to file storage.`);
+  }
+  fileDriver ??= createFileDriver(dataFilePath);
+  activeDriver = fileDriver;
+  return activeDriver;
 }
 
-export interface AuthPublicUser {
-  id: string;
-  email: string;
-  createdAt: string;
-}
+/**
+ * Runs an operation on the active driver. Only a failing Postgres connection falls back to file
+ * storage; errors from the embedded drivers are bugs and surface to the caller.
+ */
+async function withDriver<T>(operation: (driver: StorageDriver) => Promise<T>): Promise<T> {
+  if (activeDriver.backend === "postgres") {
+    try {
+      return await operation(activeDriver);
+    } catch (error) {
+      activateFileFallback(error);
+    }
+  }
 
-interface AuthSession {
-  token: string;
-  userId: string;
-  createdAt: string;
+  return operation(activeDriver);
 }
 
-interface FileStoreData {
-  users: AuthUser[];
-  sessions: AuthSession[];
-  userData: Record<string, AppData>;
+/**
+ * Connects the configured backend before the API starts serving. An unreachable database falls
+ * back to file storage as usual, but a Postgres schema that is behind its migrations is fatal.
+ */
+export async function prepareStorage() {
+  try {
+    await activeDriver.prepare();
+  } catch (error) {
+    if (error instanceof PendingMigrationsError || activeDriver.backend !== "postgres") {
+      throw error;
+    }
+    await activateFileFallback(error).prepare();
+  }
 }
 
-export function createDefaultAppData(): AppData {
+export function getStorageInfo() {
   return {
-    profile: null,
-    workouts: [],
-    nutritionByDate: {},
-    progressEntries: []
+    backend: activeDriver.backend,
+    fallbackReason
   };
 }
 
-const DEFAULT_USER_ID = "local-user";
-type StorageBackend = "file" | "postgres";
-
-const defaultDataFilePath = fileURLToPath(new URL("../data/app-data.json", import.meta.url));
-const dataFilePath = config.FILE_STORAGE_PATH
-  ? (isAbsolute(config.FILE_STORAGE_PATH) ? config.FILE_STORAGE_PATH : resolve(process.cwd(), config.FILE_STORAGE_PATH))
-  : defaultDataFilePath;
-
-let activeBackend: StorageBackend = config.STORAGE_BACKEND;
-let fallbackReason: string | null = null;
-
-let fileCache: FileStoreData | null = null;
-let fileWriteQueue: Promise<void> = Promise.resolve();
-
-let pool: Pool | null = null;
-let postgresSchemaReady = false;
+function resolveUserId(userId?: string): string {
+  return userId && userId.trim() ? userId : DEFAULT_USER_ID;
+}
 
-function toErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
-  }
-  return String(error);
+export async function readAppData(userId?: string): Promise<AppData> {
+  const resolvedUserId = resolveUserId(userId);
+  return withDriver((driver) => driver.readAppData(resolvedUserId));
 }
 
-function activateFileFallback(error: unknown) {
-  if (activeBackend !== "file") {
-    fallbackReason = `Postgres unavailable: ${toErrorMessage(error)}`;
-    console.warn(`[store] ${fallbackReason}. Falling back to file storage.`);
-  }
-  activeBackend = "file";
+export async function queryWorkoutHistory(userId: string | undefined, query: WorkoutHistoryQuery): Promise<WorkoutHistoryPage> {
+  const resolvedUserId = resolveUserId(userId);
+  return withDriver((driver) => driver.queryWorkoutHistory(resolvedUserId, query));
 }
 
-function toNumber(value: number | string | null | undefined): number {
-  if (typeof value === "number") {
-    return value;
-  }
-  return Number(value ?? 0);
+export async function getWorkout(userId: string | undefined, id: string): Promise<WorkoutLog | null> {
+  const resolvedUserId = resolveUserId(userId);
+  return withDriver((driver) => driver.getWorkout(resolvedUserId, id));
 }
 
-function sanitizeExerciseEntries(input: unknown): WorkoutExerciseEntry[] {
-  if (!Array.isArray(input)) {
+export async function applyStoreMutations(
+  userId: string | undefined,
+  mutations: StoreMutation[]
+): Promise<StoreMutationResult[]> {
+  const resolvedUserId = resolveUserId(userId);
+  if (!mutations.length) {
     return [];
   }
 
-  return input.flatMap((item, index) => {
-    if (!item || typeof item !== "object") {
-      return [];
-    }
-
-    const row = item as Partial<WorkoutExerciseEntry>;
-    if (typeof row.name !== "string" || !row.name.trim()) {
-      return [];
-    }
-
-    const sets = Number(row.sets);
-    const reps = Number(row.reps);
-
-    if (!Number.isFinite(sets) || !Number.isFinite(reps) || sets < 1 || reps < 1) {
-      return [];
-    }
-
-    const weight = Number(row.weightKg);
-
-    return [
-      {
-        id: typeof row.id === "string" && row.id.trim() ? row.id : `ex_${index}`,
-        name: row.name.trim(),
-        sets: Math.round(sets),
-        reps: Math.round(reps),
-        weightKg: Number.isFinite(weight) && weight >= 0 ? weight : undefined
-      }
-    ];
-  });
+  return withDriver((driver) => driver.applyMutations(resolvedUserId, mutations));
 }
 
-function sanitizeWorkoutLog(input: unknown, index: number): WorkoutLog | null {
-  if (!input || typeof input !== "object") {
-    return null;
-  }
-
-  const row = input as Partial<WorkoutLog>;
-  const duration = Number(row.durationMinutes);
-  const intensity = Number(row.intensityRpe);
-  const calories = Number(row.caloriesBurned);
-
-  return {
-    id: typeof row.id === "string" && row.id.trim() ? row.id : `wk_${index}`,
-    date: typeof row.date === "string" ? row.date : new Date().toISOString().slice(0, 10),
-    workoutType:
-      row.workoutType === "strength" || row.workoutType === "cardio" || row.workoutType === "mobility"
-        ? row.workoutType
-        : "strength",
-    durationMinutes: Number.isFinite(duration) && duration > 0 ? Math.round(duration) : 30,
-    exerciseEntries: sanitizeExerciseEntries(row.exerciseEntries),
-    intensityRpe: Number.isFinite(intensity) && intensity >= 1 && intensity <= 10
-      ? Number(intensity.toFixed(1))
-      : undefined,
-    caloriesBurned: Number.isFinite(calories) && calories >= 0 ? Math.round(calories) : undefined,
-    templateName: typeof row.templateName === "string" && row.templateName.trim()
-      ? row.templateName.trim()
-      : undefined,
-    notes: typeof row.notes === "string" && row.notes.trim() ? row.notes.trim() : undefined,
-    createdAt: typeof row.createdAt === "string" ? row.createdAt : new Date().toISOString(),
-    syncedAt: typeof row.syncedAt === "string" ? row.syncedAt : null
-  };
+async function applyStoreMutation(userId: string | undefined, mutation: StoreMutation): Promise<StoreMutationResult> {
+  const [result] = await applyStoreMutations(userId, [mutation]);
+  return result;
 }
 
-function toIso(value: string | Date | null | undefined): string | null {
-  if (value == null) {
-    return null;
-  }
-  if (value instanceof Date) {
-    return value.toISOString();
-  }
-  return new Date(value).toISOString();
+export async function upsertProfile(userId: string | undefined, profile: UserProfile): Promise<UserProfile> {
+  const result = await applyStoreMutation(userId, { kind: "upsertProfile", profile });
+  return result.status === "applied" ? (result.record as UserProfile) : profile;
 }
 
-function toPublicUser(user: AuthUser): AuthPublicUser {
-  return {
-    id: user.id,
-    email: user.email,
-    createdAt: user.createdAt
-  };
+export async function upsertWorkout(
+  userId: string | undefined,
+  workout: WorkoutInput,
+  baseVersion?: number
+): Promise<VersionedWrite<WorkoutLog>> {
+  return (await applyStoreMutation(userId, { kind: "upsertWorkout", workout, baseVersion })) as VersionedWrite<WorkoutLog>;
 }
 
-function sanitizeAppData(input: Partial<AppData>): AppData {
-  const workouts = Array.isArray(input.workouts)
-    ? input.workouts.flatMap((entry, index) => {
-        const sanitized = sanitizeWorkoutLog(entry, index);
-        return sanitized ? [sanitized] : [];
-      })
-    : [];
-
-  return {
-    profile: input.profile ?? null,
-    workouts,
-    nutritionByDate: input.nutritionByDate ?? {},
-    progressEntries: Array.isArray(input.progressEntries) ? input.progressEntries : []
-  };
+export async function deleteWorkout(userId: string | undefined, id: string): Promise<boolean> {
+  return (await applyStoreMutation(userId, { kind: "deleteWorkout", id })).status === "deleted";
 }
 
-function createDefaultFileStoreData(): FileStoreData {
-  return {
-    users: [],
-    sessions: [],
-    userData: {
-      [DEFAULT_USER_ID]: createDefaultAppData()
-    }
-  };
+export async function upsertNutrition(
+  userId: string | undefined,
+  log: NutritionInput,
+  baseVersion?: number
+): Promise<VersionedWrite<NutritionLog>> {
+  return (await applyStoreMutation(userId, { kind: "upsertNutrition", log, baseVersion })) as VersionedWrite<NutritionLog>;
 }
 
-function sanitizeFileStoreData(input: unknown): FileStoreData {
-  if (!input || typeof input !== "object") {
-    return createDefaultFileStoreData();
-  }
-
-  const record = input as Record<string, unknown>;
-
-  // Backward compatibility with old single AppData file format.
-  if (
-    "profile" in record ||
-    "workouts" in record ||
-    "nutritionByDate" in record ||
-    "progressEntries" in record
-  ) {
-    return {
-      users: [],
-      sessions: [],
-      userData: {
-        [DEFAULT_USER_ID]: sanitizeAppData(record as Partial<AppData>)
-      }
-    };
-  }
-
-  const users = Array.isArray(record.users)
-    ? record.users.filter((item): item is AuthUser => {
-        if (!item || typeof item !== "object") {
-          return false;
-        }
-        const row = item as Partial<AuthUser>;
-        return typeof row.id === "string"
-          && typeof row.email === "string"
-          && typeof row.passwordHash === "string"
-          && typeof row.createdAt === "string";
-      })
-    : [];
-
-  const sessions = Array.isArray(record.sessions)
-    ? record.sessions.filter((item): item is AuthSession => {
-        if (!item || typeof item !== "object") {
-          return false;
-        }
-        const row = item as Partial<AuthSession>;
-        return typeof row.token === "string"
-          && typeof row.userId === "string"
-          && typeof row.createdAt === "string";
-      })
-    : [];
-
-  const userDataRaw = record.userData;
-  const userData: Record<string, AppData> = {};
-  if (userDataRaw && typeof userDataRaw === "object") {
-    for (const [userId, value] of Object.entries(userDataRaw as Record<string, unknown>)) {
-      userData[userId] = sanitizeAppData(value as Partial<AppData>);
-    }
-  }
-
-  if (!userData[DEFAULT_USER_ID]) {
-    userData[DEFAULT_USER_ID] = createDefaultAppData();
-  }
-
-  return {
-    users,
-    sessions,
-    userData
-  };
+export async function deleteNutrition(userId: string | undefined, date: string): Promise<boolean> {
+  return (await applyStoreMutation(userId, { kind: "deleteNutrition", date })).status === "deleted";
 }
 
-function getPool(): Pool {
-  if (!config.DATABASE_URL) {
-    throw new Error("DATABASE_URL is not configured");
-  }
-
-  if (!pool) {
-    pool = new Pool({
-      connectionString: config.DATABASE_URL
-    });
-  }
-
-  return pool;
+export async function upsertProgress(
+  userId: string | undefined,
+  entry: ProgressInput,
+  baseVersion?: number
+): Promise<VersionedWrite<ProgressEntry>> {
+  return (await applyStoreMutation(userId, { kind: "upsertProgress", entry, baseVersion })) as VersionedWrite<ProgressEntry>;
 }
 
-async function ensurePostgresSchema() {
-  if (postgresSchemaReady) {
-    return;
-  }
+export async function deleteProgress(userId: string | undefined, id: string): Promise<boolean> {
+  return (await applyStoreMutation(userId, { kind: "deleteProgress", id })).status === "deleted";
+}
 
-  const pg = getPool();
-  await pg.query(`
-    create table if not exists auth_users (
-      id text primary key,
-      email text not null unique,
-      password_hash text not null,
-      created_at timestamptz not null default now()
-    );
-
-    create table if not exists auth_sessions (
-      token text primary key,
-      user_id text not null references auth_users(id) on delete cascade,
-      created_at timestamptz not null default now()
-    );
-
-    create table if not exists app_profiles_v2 (
-      user_id text primary key,
-      profile_id text not null,
-      name text not null,
-      age int not null,
-      height_cm int not null,
-      current_weight_kg numeric(6,2) not null,
-      goal text not null check (goal in ('lose_weight', 'gain_muscle', 'maintain')),
-      daily_calorie_target int not null,
-      protein_target_grams int not null,
-      updated_at timestamptz not null default now()
-    );
-
-    create table if not exists app_workout_logs_v2 (
-      user_id text not null,
-      id text not null,
-      workout_date date not null,
-      workout_type text not null check (workout_type in ('strength', 'cardio', 'mobility')),
-      duration_minutes int not null,
-      exercise_entries jsonb not null default '[]'::jsonb,
-      intensity_rpe numeric(4,1),
-      calories_burned int,
-      template_name text,
-      notes text,
-      created_at timestamptz not null,
-      synced_at timestamptz,
-      primary key (user_id, id)
-    );
-
-    create table if not exists app_nutrition_logs_v2 (
-      user_id text not null,
-      nutrition_date date not null,
-      calories numeric(8,2) not null,
-      protein numeric(8,2) not null,
-      carbs numeric(8,2) not null,
-      fat numeric(8,2) not null,
-      water_liters numeric(5,2) not null,
-      updated_at timestamptz not null default now(),
-      primary key (user_id, nutrition_date)
-    );
-
-    create table if not exists app_progress_entries_v2 (
-      user_id text not null,
-      id text not null,
-      progress_date date not null,
-      weight_kg numeric(6,2) not null,
-      body_fat_pct numeric(5,2),
-      waist_cm numeric(6,2),
-      updated_at timestamptz not null default now(),
-      primary key (user_id, id)
-    );
-
-    alter table if exists app_workout_logs_v2
-      add column if not exists exercise_entries jsonb not null default '[]'::jsonb;
-    alter table if exists app_workout_logs_v2
-      add column if not exists intensity_rpe numeric(4,1);
-    alter table if exists app_workout_logs_v2
-      add column if not exists calories_burned int;
-    alter table if exists app_workout_logs_v2
-      add column if not exists template_name text;
-  `);
-
-  postgresSchemaReady = true;
-}
-
-async function ensureDataDir() {
-  await mkdir(dirname(dataFilePath), { recursive: true });
-}
-
-async function readFileStoreData(): Promise<FileStoreData> {
-  if (fileCache) {
-    return fileCache;
-  }
+export async function readSyncSnapshot(userId: string | undefined, sinceRevision: number): Promise<SyncSnapshot> {
+  const resolvedUserId = resolveUserId(userId);
+  return withDriver((driver) => driver.readSyncSnapshot(resolvedUserId, sinceRevision));
+}
 
-  await ensureDataDir();
+export async function resetAppData(userId?: string): Promise<AppData> {
+  const resolvedUserId = resolveUserId(userId);
+  return withDriver((driver) => driver.resetAppData(resolvedUserId));
+}
 
-  try {
-    const raw = await readFile(dataFilePath, "utf-8");
-    fileCache = sanitizeFileStoreData(JSON.parse(raw));
-  } catch (_error) {
-    fileCache = createDefaultFileStoreData();
-    await writeFileStoreData(fileCache);
-  }
+export async function createAuthUser(user: AuthUser): Promise<CreateAuthUserResult> {
+  const normalizedUser: AuthUser = {
+    ...user,
+    email: user.email.toLowerCase()
+  };
 
-  return fileCache;
+  return withDriver((driver) => driver.createAuthUser(normalizedUser));
 }
 
-async function writeFileStoreData(data: FileStoreData): Promise<void> {
-  fileCache = data;
-  await ensureDataDir();
-  fileWriteQueue = fileWriteQueue.then(() =>
-    writeFile(dataFilePath, JSON.stringify(data, null, 2), "utf-8")
-  );
-  await fileWriteQueue;
+export async function getAuthUserByEmail(email: string): Promise<AuthUser | null> {
+  const normalizedEmail = email.toLowerCase();
+  return withDriver((driver) => driver.getAuthUserByEmail(normalizedEmail));
 }
 
-async function readAppDataFromFile(userId: string): Promise<AppData> {
-  const data = await readFileStoreData();
-  if (!data.userData[userId]) {
-    data.userData[userId] = createDefaultAppData();
-    await writeFileStoreData(data);
-  }
-  return sanitizeAppData(data.userData[userId]);
+export async function getAuthUserById(userId: string): Promise<AuthPublicUser | null> {
+  return withDriver((driver) => driver.getAuthUserById(userId));
 }
 
-async function writeAppDataToFile(userId: string, appData: AppData): Promise<void> {
-  const data = await readFileStoreData();
-  data.userData[userId] = sanitizeAppData(appData);
-  await writeFileStoreData(data);
+export async function getAuthCredentialsById(userId: string): Promise<AuthUser | null> {
+  return withDriver((driver) => driver.getAuthCredentialsById(userId));
 }
 
-async function resetAppDataInFile(userId: string): Promise<AppData> {
-  const data = await readFileStoreData();
-  data.userData[userId] = createDefaultAppData();
-  await writeFileStoreData(data);
-  return data.userData[userId];
+export async function updateAuthUserPassword(userId: string, passwordHash: string): Promise<boolean> {
+  return withDriver((driver) => driver.updateAuthUserPassword(userId, passwordHash));
 }
 
-async function getAuthUserByEmailFromFile(email: string): Promise<AuthUser | null> {
-  const data = await readFileStoreData();
-  return data.users.find((item) => item.email === email) ?? null;
+export async function deleteAuthUser(userId: string): Promise<boolean> {
+  return withDriver((driver) => driver.deleteAuthUser(userId));
 }
 
-async function getAuthUserByIdFromFile(userId: string): Promise<AuthPublicUser | null> {
-  const data = await readFileStoreData();
-  const row = data.users.find((item) => item.id === userId);
-  return row ? toPublicUser(row) : null;
+export async function createPasswordReset(reset: PasswordReset): Promise<void> {
+  await withDriver((driver) => driver.createPasswordReset(reset));
 }
 
-async function createAuthUserInFile(user: AuthUser): Promise<{ ok: boolean; reason?: string }> {
-  const data = await readFileStoreData();
-  if (data.users.some((item) => item.email === user.email)) {
-    return {
-      ok: false,
-      reason: "Email is already registered"
-    };
-  }
-
-  data.users.push(user);
-  if (!data.userData[user.id]) {
-    data.userData[user.id] = createDefaultAppData();
-  }
-
-  await writeFileStoreData(data);
-  return { ok: true };
-}
-
-async function createAuthSessionInFile(token: string, userId: string): Promise<void> {
-  const data = await readFileStoreData();
-  data.sessions.push({
-    token,
-    userId,
-    createdAt: new Date().toISOString()
-  });
-  await writeFileStoreData(data);
-}
-
-async function getAuthSessionUserIdFromFile(token: string): Promise<string | null> {
-  const data = await readFileStoreData();
-  const row = data.sessions.find((item) => item.token === token);
-  return row?.userId ?? null;
-}
-
-async function deleteAuthSessionInFile(token: string): Promise<void> {
-  const data = await readFileStoreData();
-  data.sessions = data.sessions.filter((item) => item.token !== token);
-  await writeFileStoreData(data);
-}
-
-async function readAppDataFromPostgres(userId: string): Promise<AppData> {
-  await ensurePostgresSchema();
-  const pg = getPool();
-
-  const [profileRes, workoutsRes, nutritionRes, progressRes] = await Promise.all([
-    pg.query<{
-      profile_id: string;
-      name: string;
-      age: number;
-      height_cm: number;
-      current_weight_kg: string | number;
-      goal: FitnessGoal;
-      daily_calorie_target: number;
-      protein_target_grams: number;
-    }>(
-      "select profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams from app_profiles_v2 where user_id = $1 limit 1",
-      [userId]
-    ),
-    pg.query<{
-      id: string;
-      workout_date: string;
-      workout_type: WorkoutType;
-      duration_minutes: number;
-      exercise_entries: unknown;
-      intensity_rpe: string | number | null;
-      calories_burned: number | null;
-      template_name: string | null;
-      notes: string | null;
-      created_at: Date | string;
-      synced_at: Date | string | null;
-    }>(
-      "select id, workout_date::text, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, synced_at from app_workout_logs_v2 where user_id = $1 order by workout_date desc, created_at desc",
-      [userId]
-    ),
-    pg.query<{
-      nutrition_date: string;
-      calories: string | number;
-      protein: string | number;
-      carbs: string | number;
-      fat: string | number;
-      water_liters: string | number;
-    }>(
-      "select nutrition_date::text, calories, protein, carbs, fat, water_liters from app_nutrition_logs_v2 where user_id = $1 order by nutrition_date desc",
-      [userId]
-    ),
-    pg.query<{
-      id: string;
-      progress_date: string;
-      weight_kg: string | number;
-      body_fat_pct: string | number | null;
-      waist_cm: string | number | null;
-    }>(
-      "select id, progress_date::text, weight_kg, body_fat_pct, waist_cm from app_progress_entries_v2 where user_id = $1 order by progress_date desc",
-      [userId]
-    )
-  ]);
-
-  const profileRow = profileRes.rows[0];
-  const profile = profileRow
-    ? {
-        id: profileRow.profile_id,
-        name: profileRow.name,
-        age: profileRow.age,
-        heightCm: profileRow.height_cm,
-        currentWeightKg: toNumber(profileRow.current_weight_kg),
-        goal: profileRow.goal,
-        dailyCalorieTarget: profileRow.daily_calorie_target,
-        proteinTargetGrams: profileRow.protein_target_grams
-      }
-    : null;
-
-  const workouts: WorkoutLog[] = workoutsRes.rows.map((row) => ({
-    id: row.id,
-    date: row.workout_date,
-    workoutType: row.workout_type,
-    durationMinutes: row.duration_minutes,
-    exerciseEntries: sanitizeExerciseEntries(row.exercise_entries),
-    intensityRpe: row.intensity_rpe == null ? undefined : Number(row.intensity_rpe),
-    caloriesBurned: row.calories_burned == null ? undefined : row.calories_burned,
-    templateName: row.template_name ?? undefined,
-    notes: row.notes ?? undefined,
-    createdAt: toIso(row.created_at) ?? new Date().toISOString(),
-    syncedAt: toIso(row.synced_at)
-  }));
-
-  const nutritionByDate: Record<string, NutritionLog> = {};
-  for (const row of nutritionRes.rows) {
-    nutritionByDate[row.nutrition_date] = {
-      date: row.nutrition_date,
-      calories: toNumber(row.calories),
-      protein: toNumber(row.protein),
-      carbs: toNumber(row.carbs),
-      fat: toNumber(row.fat),
-      waterLiters: toNumber(row.water_liters)
-    };
-  }
-
-  const progressEntries: ProgressEntry[] = progressRes.rows.map((row) => ({
-    id: row.id,
-    date: row.progress_date,
-    weightKg: toNumber(row.weight_kg),
-    bodyFatPct: row.body_fat_pct == null ? undefined : toNumber(row.body_fat_pct),
-    waistCm: row.waist_cm == null ? undefined : toNumber(row.waist_cm)
-  }));
-
-  return {
-    profile,
-    workouts,
-    nutritionByDate,
-    progressEntries
-  };
+export async function consumePasswordReset(tokenHash: string): Promise<PasswordReset | null> {
+  return withDriver((driver) => driver.consumePasswordReset(tokenHash));
 }
 
-async function writeAppDataToPostgres(userId: string, data: AppData): Promise<void> {
-  await ensurePostgresSchema();
-  const client = await getPool().connect();
-
-  try {
-    await client.query("begin");
-
-    await client.query("delete from app_profiles_v2 where user_id = $1", [userId]);
-    if (data.profile) {
-      await client.query(
-        `insert into app_profiles_v2 (user_id, profile_id, name, age, height_cm, current_weight_kg, goal, daily_calorie_target, protein_target_grams, updated_at)
-         values ($1,$2,$3,$4,$5,$6,$7,$8,$9, now())`,
-        [
-          userId,
-          data.profile.id,
-          data.profile.name,
-          data.profile.age,
-          data.profile.heightCm,
-          data.profile.currentWeightKg,
-          data.profile.goal,
-          data.profile.dailyCalorieTarget,
-          data.profile.proteinTargetGrams
-        ]
-      );
-    }
-
-    await client.query("delete from app_workout_logs_v2 where user_id = $1", [userId]);
-    for (const workout of data.workouts) {
-      await client.query(
-        `insert into app_workout_logs_v2 (user_id, id, workout_date, workout_type, duration_minutes, exercise_entries, intensity_rpe, calories_burned, template_name, notes, created_at, synced_at)
-         values ($1,$2,$3,$4,$5,$6::jsonb,$7,$8,$9,$10,$11,$12)`,
-        [
-          userId,
-          workout.id,
-          workout.date,
-          workout.workoutType,
-          workout.durationMinutes,
-          JSON.stringify(workout.exerciseEntries ?? []),
-          workout.intensityRpe ?? null,
-          workout.caloriesBurned ?? null,
-          workout.templateName ?? null,
-          workout.notes ?? null,
-          workout.createdAt,
-          workout.syncedAt
-        ]
-      );
-    }
-
-    await client.query("delete from app_nutrition_logs_v2 where user_id = $1", [userId]);
-    for (const entry of Object.values(data.nutritionByDate)) {
-      await client.query(
-        `insert into app_nutrition_logs_v2 (user_id, nutrition_date, calories, protein, carbs, fat, water_liters, updated_at)
-         values ($1,$2,$3,$4,$5,$6,$7, now())`,
-        [userId, entry.date, entry.calories, entry.protein, entry.carbs, entry.fat, entry.waterLiters]
-      );
-    }
-
-    await client.query("delete from app_progress_entries_v2 where user_id = $1", [userId]);
-    for (const entry of data.progressEntries) {
-      await client.query(
-        `insert into app_progress_entries_v2 (user_id, id, progress_date, weight_kg, body_fat_pct, waist_cm, updated_at)
-         values ($1,$2,$3,$4,$5,$6, now())`,
-        [userId, entry.id, entry.date, entry.weightKg, entry.bodyFatPct ?? null, entry.waistCm ?? null]
-      );
-    }
-
-    await client.query("commit");
-  } catch (error) {
-    await client.query("rollback");
-    throw error;
-  } finally {
-    client.release();
-  }
+export async function createAnonymousDevice(device: AnonymousDevice): Promise<boolean> {
+  return withDriver((driver) => driver.createAnonymousDevice(device));
 }
 
-async function resetAppDataInPostgres(userId: string): Promise<AppData> {
-  await ensurePostgresSchema();
-  const pg = getPool();
-  await pg.query("delete from app_profiles_v2 where user_id = $1", [userId]);
-  await pg.query("delete from app_workout_logs_v2 where user_id = $1", [userId]);
-  await pg.query("delete from app_nutrition_logs_v2 where user_id = $1", [userId]);
-  await pg.query("delete from app_progress_entries_v2 where user_id = $1", [userId]);
-  return createDefaultAppData();
-}
-
-async function getAuthUserByEmailFromPostgres(email: string): Promise<AuthUser | null> {
-  await ensurePostgresSchema();
-  const result = await getPool().query<{
-    id: string;
-    email: string;
-    password_hash: string;
-    created_at: Date | string;
-  }>(
-    "select id, email, password_hash, created_at from auth_users where email = $1 limit 1",
-    [email]
-  );
-
-  const row = result.rows[0];
-  if (!row) {
-    return null;
-  }
-
-  return {
-    id: row.id,
-    email: row.email,
-    passwordHash: row.password_hash,
-    createdAt: toIso(row.created_at) ?? new Date().toISOString()
-  };
+export async function getAnonymousDeviceByTokenHash(tokenHash: string): Promise<AnonymousDevice | null> {
+  return withDriver((driver) => driver.getAnonymousDeviceByTokenHash(tokenHash));
 }
 
-async function getAuthUserByIdFromPostgres(userId: string): Promise<AuthPublicUser | null> {
-  await ensurePostgresSchema();
-  const result = await getPool().query<{
-    id: string;
-    email: string;
-    created_at: Date | string;
-  }>(
-    "select id, email, created_at from auth_users where id = $1 limit 1",
-    [userId]
-  );
-  const row = result.rows[0];
-  if (!row) {
-    return null;
-  }
-  return {
-    id: row.id,
-    email: row.email,
-    createdAt: toIso(row.created_at) ?? new Date().toISOString()
-  };
+export async function getProgramEnrollment(userId: string): Promise<ProgramEnrollment | null> {
+  return withDriver((driver) => driver.getProgramEnrollment(userId));
 }
 
-async function createAuthUserInPostgres(user: AuthUser): Promise<{ ok: boolean; reason?: string }> {
-  await ensurePostgresSchema();
-  try {
-    await getPool().query(
-      "insert into auth_users (id, email, password_hash, created_at) values ($1,$2,$3,$4)",
-      [user.id, user.email, user.passwordHash, user.createdAt]
-    );
-    return { ok: true };
-  } catch (error) {
-    const message = toErrorMessage(error).toLowerCase();
-    if (message.includes("unique") || message.includes("duplicate")) {
-      return {
-        ok: false,
-        reason: "Email is already registered"
-      };
-    }
-    throw error;
-  }
+export async function saveProgramEnrollment(enrollment: ProgramEnrollment): Promise<void> {
+  await withDriver((driver) => driver.saveProgramEnrollment(enrollment));
 }
 
-async function createAuthSessionInPostgres(token: string, userId: string): Promise<void> {
-  await ensurePostgresSchema();
-  await getPool().query(
-    "insert into auth_sessions (token, user_id, created_at) values ($1,$2, now())",
-    [token, userId]
-  );
+export async function deleteProgramEnrollment(userId: string): Promise<boolean> {
+  return withDriver((driver) => driver.deleteProgramEnrollment(userId));
 }
 
-async function getAuthSessionUserIdFromPostgres(token: string): Promise<string | null> {
-  await ensurePostgresSchema();
-  const result = await getPool().query<{
-    user_id: string;
-  }>(
-    "select user_id from auth_sessions where token = $1 limit 1",
-    [token]
-  );
-  return result.rows[0]?.user_id ?? null;
+export async function listCustomFoods(userId: string): Promise<CustomFood[]> {
+  return withDriver((driver) => driver.listCustomFoods(userId));
 }
 
-async function deleteAuthSessionInPostgres(token: string): Promise<void> {
-  await ensurePostgresSchema();
-  await getPool().query("delete from auth_sessions where token = $1", [token]);
+export async function saveCustomFood(food: CustomFood): Promise<void> {
+  await withDriver((driver) => driver.saveCustomFood(food));
 }
 
-export function getStorageInfo() {
-  return {
-    backend: activeBackend,
-    fallbackReason
-  };
+export async function deleteCustomFood(userId: string, foodId: string): Promise<boolean> {
+  return withDriver((driver) => driver.deleteCustomFood(userId, foodId));
 }
 
-function resolveUserId(userId?: string): string {
-  return userId && userId.trim() ? userId : DEFAULT_USER_ID;
+export async function listRecipes(userId: string): Promise<UserRecipe[]> {
+  return withDriver((driver) => driver.listRecipes(userId));
 }
 
-export async function readAppData(userId?: string): Promise<AppData> {
-  const resolvedUserId = resolveUserId(userId);
-
-  if (activeBackend === "postgres") {
-    try {
-      return await readAppDataFromPostgres(resolvedUserId);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  return readAppDataFromFile(resolvedUserId);
+export async function saveRecipe(recipe: UserRecipe): Promise<void> {
+  await withDriver((driver) => driver.saveRecipe(recipe));
 }
 
-export async function writeAppData(data: AppData, userId?: string): Promise<void> {
-  const resolvedUserId = resolveUserId(userId);
-
-  if (activeBackend === "postgres") {
-    try {
-      await writeAppDataToPostgres(resolvedUserId, data);
-      return;
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  await writeAppDataToFile(resolvedUserId, data);
+export async function deleteRecipe(userId: string, recipeId: string): Promise<boolean> {
+  return withDriver((driver) => driver.deleteRecipe(userId, recipeId));
 }
 
-export async function resetAppData(userId?: string): Promise<AppData> {
-  const resolvedUserId = resolveUserId(userId);
-
-  if (activeBackend === "postgres") {
-    try {
-      return await resetAppDataInPostgres(resolvedUserId);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  return resetAppDataInFile(resolvedUserId);
+export async function listSavedMeals(userId: string): Promise<UserSavedMeal[]> {
+  return withDriver((driver) => driver.listSavedMeals(userId));
 }
 
-export async function createAuthUser(user: AuthUser): Promise<{ ok: boolean; reason?: string }> {
-  const normalizedUser: AuthUser = {
-    ...user,
-    email: user.email.toLowerCase()
-  };
-
-  if (activeBackend === "postgres") {
-    try {
-      return await createAuthUserInPostgres(normalizedUser);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  return createAuthUserInFile(normalizedUser);
+export async function saveSavedMeal(meal: UserSavedMeal): Promise<void> {
+  await withDriver((driver) => driver.saveSavedMeal(meal));
 }
 
-export async function getAuthUserByEmail(email: string): Promise<AuthUser | null> {
-  const normalizedEmail = email.toLowerCase();
-
-  if (activeBackend === "postgres") {
-    try {
-      return await getAuthUserByEmailFromPostgres(normalizedEmail);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  return getAuthUserByEmailFromFile(normalizedEmail);
+export async function deleteSavedMeal(userId: string, mealId: string): Promise<boolean> {
+  return withDriver((driver) => driver.deleteSavedMeal(userId, mealId));
 }
 
-export async function getAuthUserById(userId: string): Promise<AuthPublicUser | null> {
-  if (activeBackend === "postgres") {
-    try {
-      return await getAuthUserByIdFromPostgres(userId);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
-
-  return getAuthUserByIdFromFile(userId);
+export async function createAuthSession(session: AuthSession): Promise<void> {
+  await withDriver((driver) => driver.createAuthSession(session));
 }
 
-export async function createAuthSession(token: string, userId: string): Promise<void> {
-  if (activeBackend === "postgres") {
-    try {
-      await createAuthSessionInPostgres(token, userId);
-      return;
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
+export async function getAuthSessionByAccessToken(accessToken: string): Promise<AuthSession | null> {
+  return withDriver((driver) => driver.getAuthSessionByAccessToken(accessToken));
+}
 
-  await createAuthSessionInFile(token, userId);
+export async function getAuthSessionByRefreshToken(refreshToken: string): Promise<AuthSession | null> {
+  return withDriver((driver) => driver.getAuthSessionByRefreshToken(refreshToken));
 }
 
-export async function getAuthSessionUserId(token: string): Promise<string | null> {
-  if (activeBackend === "postgres") {
-    try {
-      return await getAuthSessionUserIdFromPostgres(token);
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
+export async function rotateAuthSession(session: AuthSession, previousRefreshToken: string): Promise<boolean> {
+  return withDriver((driver) => driver.rotateAuthSession(session, previousRefreshToken));
+}
 
-  return getAuthSessionUserIdFromFile(token);
+export async function listAuthSessions(userId: string): Promise<AuthSession[]> {
+  return withDriver((driver) => driver.listAuthSessions(userId));
 }
 
-export async function deleteAuthSession(token: string): Promise<void> {
-  if (activeBackend === "postgres") {
-    try {
-      await deleteAuthSessionInPostgres(token);
-      return;
-    } catch (error) {
-      activateFileFallback(error);
-    }
-  }
+export async function deleteAuthSession(sessionId: string): Promise<void> {
+  await withDriver((driver) => driver.deleteAuthSession(sessionId));
+}
 
-  await deleteAuthSessionInFile(token);
+export async function deleteAuthSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  return withDriver((driver) => driver.deleteAuthSessions(userId, exceptSessionId));
 }
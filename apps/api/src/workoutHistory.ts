@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+import { toWorkoutSortKey } from "./storage/common.js";
+import type { WorkoutLog, WorkoutSortKey } from "./store.js";
+
+export { compareWorkoutsNewestFirst } from "./storage/common.js";
+
+// The key is cast to date and timestamp columns in SQL, so each part is validated up front.
+const sortKeySchema = z.tuple([z.string().date(), z.string().datetime({ offset: true }), z.string().min(1)]);
+
+/** History cursors encode the sort key of the last item returned, so pages stay stable while new workouts are logged. */
+export function encodeWorkoutCursor(workout: WorkoutLog): string {
+  return Buffer.from(JSON.stringify(toWorkoutSortKey(workout))).toString("base64url");
+}
+
+/** Returns `null` for a cursor that cannot be decoded. */
+export function decodeWorkoutCursor(cursor: string): WorkoutSortKey | null {
+  try {
+    const parsed = sortKeySchema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+    return parsed.success ? parsed.data : null;
+  } catch (_error) {
+    return null;
+  }
+}
@@ -1,9 +1,12 @@
+import { FoodItem, ProgramEnrollment, Recipe, SavedMeal } from "@fitness/shared";
 import { StatusBar } from "expo-status-bar";
 import { useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Platform,
   SafeAreaView,
+  Share,
   StatusBar as RNStatusBar,
   StyleSheet,
   Text,
@@ -11,21 +14,46 @@ import {
 } from "react-native";
 
 import {
+  AuthTokens,
+  changePassword,
   clearRemoteData,
+  confirmPasswordReset,
+  deleteAccount,
+  exportAccountData,
+  importGuestData,
+  fetchAuthSessions,
   fetchMe,
   deleteNutritionLog,
   deleteProgressEntry,
   deleteWorkoutLog,
   fetchSamplePlan,
-  fetchSnapshot,
+  fetchCustomFoods,
+  fetchProgramEnrollment,
+  fetchRecipes,
+  fetchSavedMeals,
+  fetchSyncChanges,
+  fetchWorkoutHistory,
+  pushSyncBatch,
   loginWithEmail,
   logoutAuth,
+  registerGuestDevice,
   registerWithEmail,
-  setAuthToken,
+  requestPasswordReset,
+  getAuthTokens,
+  onAuthTokensChange,
+  revokeOtherSessions,
+  setAuthTokens,
+  setGuestToken,
+  syncCustomFood,
   syncNutritionLog,
   syncProfile,
+  syncProgramEnrollment,
   syncProgressEntry,
-  syncWorkoutLog
+  syncRecipe,
+  syncSavedMeal,
+  syncWorkoutLog,
+  SyncChangesResponse,
+  SyncWriteResult
 } from "./src/api/fitnessApi";
 import { TabBar } from "./src/components/TabBar";
 import { KnowledgeScreen } from "./src/screens/KnowledgeScreen";
@@ -36,20 +64,46 @@ import { ProgressScreen } from "./src/screens/ProgressScreen";
 import { AccountScreen } from "./src/screens/AccountScreen";
 import { AuthScreen } from "./src/screens/AuthScreen";
 import { WorkoutScreen } from "./src/screens/WorkoutScreen";
-import { mergeSnapshot, updateWorkoutInList } from "./src/state/appState";
+import {
+  buildSyncBatch,
+  mergeExerciseAliases,
+  mergeRemoteList,
+  mergeSnapshot,
+  recordSyncConflict,
+  resolveSyncConflict,
+  summarizeGuestData,
+  updateWorkoutInList
+} from "./src/state/appState";
 import { colors, spacing } from "./src/theme";
-import { createEmptyAppData, emptyAppData, loadAppData, saveAppData } from "./src/storage/appStore";
+import {
+  createEmptyAppData,
+  emptyAppData,
+  loadAppData,
+  saveAppData,
+  saveGuestAppData,
+  takeGuestAppData
+} from "./src/storage/appStore";
+import { loadDeviceIdentity, saveDeviceIdentity } from "./src/storage/deviceIdentity";
+import { loadKnowledgeProgress } from "./src/storage/knowledgeStore";
 import {
   AppData,
   AppSettings,
   AppTab,
+  E1rmFormula,
+  GuestDataChoice,
   NutritionLog,
   ProgressDraft,
+  ProgressEntry,
   SamplePlan,
+  SyncConflict,
+  SyncConflictChoice,
   UserProfile,
-  WorkoutDraft
+  WorkoutDraft,
+  WorkoutLog
 } from "./src/types";
 import { formatDateLabel, toDateKey } from "./src/utils/date";
+import { describePersonalRecord, detectPersonalRecords } from "./src/utils/personalRecords";
+import { getAdaptiveTargetState } from "./src/utils/tdee";
 import {
   cancelReminderById,
   configureReminderNotifications,
@@ -72,11 +126,34 @@ function createId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+// Guests sync under a server-issued token tied to this device rather than a shared bucket.
+async function ensureGuestIdentity() {
+  const stored = await loadDeviceIdentity();
+  if (stored) {
+    setGuestToken(stored.guestToken);
+    return;
+  }
+
+  // A taken id cannot be reclaimed without its token, so the device starts over under a new one.
+  for (let attempt = 0; attempt < 2; attempt += 1) {
+    const deviceId = createId("dev");
+    const result = await registerGuestDevice(deviceId);
+    if (result.status === "ok") {
+      setGuestToken(result.guestToken);
+      await saveDeviceIdentity({ deviceId, guestToken: result.guestToken });
+      return;
+    }
+    if (result.status === "failed") {
+      return;
+    }
+  }
+}
+
 function withUnique<T>(items: T[], value: T): T[] {
   return items.includes(value) ? items : [...items, value];
 }
 
-function withReminderSettings(prev: AppData, settingsPatch: Partial<AppSettings>): AppData {
+function withSettings(prev: AppData, settingsPatch: Partial<AppSettings>): AppData {
   return {
     ...prev,
     settings: {
@@ -91,6 +168,7 @@ export default function App() {
   const [isReady, setIsReady] = useState(false);
   const [activeTab, setActiveTab] = useState<AppTab>("dashboard");
   const [samplePlan, setSamplePlan] = useState<SamplePlan | null>(null);
+  const [prefillDraft, setPrefillDraft] = useState<WorkoutDraft | null>(null);
   const [syncing, setSyncing] = useState(false);
   const appDataRef = useRef(appData);
   const androidTopInset = Platform.OS === "android" ? (RNStatusBar.currentHeight ?? 0) : 0;
@@ -103,27 +181,55 @@ export default function App() {
     appDataRef.current = appData;
   }, [appData]);
 
+  useEffect(() => {
+    onAuthTokensChange((tokens) => {
+      if (tokens) {
+        setAppData((prev) => ({
+          ...prev,
+          auth: {
+            ...prev.auth,
+            ...tokens
+          }
+        }));
+        return;
+      }
+      void resetToSignedOut();
+    });
+
+    return () => {
+      onAuthTokensChange(null);
+    };
+  }, []);
+
   useEffect(() => {
     let mounted = true;
 
     void (async () => {
       const loaded = await loadAppData();
-      setAuthToken(loaded.auth.token);
+      setAuthTokens(
+        loaded.auth.token && loaded.auth.refreshToken
+          ? { token: loaded.auth.token, refreshToken: loaded.auth.refreshToken }
+          : null
+      );
 
       let nextData = loaded;
+      if (loaded.auth.userId === "local-user" && !loaded.auth.token) {
+        await ensureGuestIdentity();
+      }
       if (loaded.auth.token) {
         const me = await fetchMe();
-        if (me) {
+        const tokens = getAuthTokens();
+        if (me && tokens) {
           nextData = {
             ...loaded,
             auth: {
               userId: me.id,
               email: me.email,
-              token: loaded.auth.token
+              ...tokens
             }
           };
         } else {
-          setAuthToken(null);
+          setAuthTokens(null);
           nextData = createEmptyAppData();
         }
       }
@@ -182,7 +288,7 @@ export default function App() {
       }
 
       setAppData((prev) =>
-        withReminderSettings(prev, {
+        withSettings(prev, {
           reminderNotificationId: scheduled.notificationId
         })
       );
@@ -220,6 +326,13 @@ export default function App() {
     () => appData.nutritionByDate[today] ?? makeNutritionLog(today),
     [appData.nutritionByDate, today]
   );
+  const adaptiveTargets = useMemo(
+    () =>
+      appData.profile
+        ? getAdaptiveTargetState(appData.profile, appData.progressEntries, appData.nutritionByDate, appData.settings, today)
+        : null,
+    [appData.profile, appData.progressEntries, appData.nutritionByDate, appData.settings, today]
+  );
   const pendingSummary = useMemo(() => {
     const workouts =
       appData.workouts.filter((entry) => !entry.syncedAt).length +
@@ -231,12 +344,22 @@ export default function App() {
       appData.sync.progressPendingIds.length +
       appData.sync.deletedProgressIds.length;
     const profile = appData.sync.profilePending;
+    const program = appData.sync.programEnrollmentPending;
+    const foods =
+      appData.sync.customFoodPendingIds.length +
+      appData.sync.recipePendingIds.length +
+      appData.sync.savedMealPendingIds.length;
+    const conflicts = appData.sync.conflicts.length;
     return {
       workouts,
       nutrition,
       progress,
       profile,
-      total: workouts + nutrition + progress + (profile ? 1 : 0),
+      program,
+      foods,
+      conflicts,
+      // Conflicted records stay pending but are held back until the user resolves them.
+      total: workouts + nutrition + progress + foods + (profile ? 1 : 0) + (program ? 1 : 0) - conflicts,
       lastSuccessfulSyncAt: appData.sync.lastSuccessfulSyncAt
     };
   }, [appData.sync, appData.workouts]);
@@ -264,10 +387,17 @@ export default function App() {
     }));
   }
 
-  function resolveNutritionPending(date: string) {
+  function resolveNutritionPending(date: string, synced?: NutritionLog) {
     const nowIso = new Date().toISOString();
     setAppData((prev) => ({
       ...prev,
+      nutritionByDate:
+        synced && prev.nutritionByDate[date]
+          ? {
+              ...prev.nutritionByDate,
+              [date]: { ...prev.nutritionByDate[date], version: synced.version, updatedAt: synced.updatedAt }
+            }
+          : prev.nutritionByDate,
       sync: {
         ...prev.sync,
         nutritionPendingDates: prev.sync.nutritionPendingDates.filter((item) => item !== date),
@@ -287,10 +417,15 @@ export default function App() {
     }));
   }
 
-  function resolveProgressPending(id: string) {
+  function resolveProgressPending(id: string, synced?: ProgressEntry) {
     const nowIso = new Date().toISOString();
     setAppData((prev) => ({
       ...prev,
+      progressEntries: synced
+        ? prev.progressEntries.map((entry) =>
+            entry.id === id ? { ...entry, version: synced.version, updatedAt: synced.updatedAt } : entry
+          )
+        : prev.progressEntries,
       sync: {
         ...prev.sync,
         progressPendingIds: prev.sync.progressPendingIds.filter((item) => item !== id),
@@ -367,38 +502,87 @@ export default function App() {
     }));
   }
 
-  async function applyAuthSession(user: { id: string; email: string }, token: string | null) {
+  async function applyAuthSession(
+    user: { id: string; email: string },
+    tokens: AuthTokens,
+    guestData: AppData | null = null
+  ) {
     const auth = {
       userId: user.id,
       email: user.email,
-      token
+      ...tokens
     };
 
     setSamplePlan(null);
     setActiveTab("dashboard");
-    setAuthToken(token);
+    setAuthTokens(tokens);
     setAppData({
       ...createEmptyAppData(),
       auth
     });
 
-    const snapshot = await fetchSnapshot();
-    if (!snapshot) {
-      return;
+    if (guestData && !(await importGuestData(guestData))) {
+      await saveGuestAppData(guestData);
+      Alert.alert(
+        "Offline data not merged",
+        "This device's offline data could not be uploaded, so it was kept separately. Sign out and continue in offline mode to get it back."
+      );
     }
 
+    const result = await fetchSyncChanges(null);
+    if (result) {
+      applyRemoteChanges(result);
+    }
+    await pullProgramEnrollment();
+    await pullCustomFoods();
+    await pullRecipes();
+    await pullSavedMeals();
+  }
+
+  function applyRemoteChanges(result: SyncChangesResponse) {
     setAppData((prev) => ({
-      ...mergeSnapshot(prev, snapshot),
+      ...mergeSnapshot(prev, result.changes),
       sync: {
         ...prev.sync,
+        changeCursor: result.cursor,
         lastSuccessfulSyncAt: new Date().toISOString()
       }
     }));
   }
 
-  async function handleLogin(email: string, password: string): Promise<{ ok: boolean; message?: string }> {
+  /**
+   * Acts on the user's choice for offline data once sign-in has succeeded. It runs before the new
+   * tokens are applied, so clearing remote data here clears the guest copy, not the account.
+   * Returns the data to merge into the account, if any.
+   */
+  async function settleGuestData(choice: GuestDataChoice): Promise<AppData | null> {
+    const guestData = appDataRef.current;
+    if (guestData.auth.userId || !summarizeGuestData(guestData)) {
+      return null;
+    }
+
+    if (choice === "keep") {
+      await saveGuestAppData(guestData);
+      return null;
+    }
+
+    await clearRemoteData();
+    return choice === "merge" ? guestData : null;
+  }
+
+  async function handleLogin(
+    email: string,
+    password: string,
+    guestChoice: GuestDataChoice
+  ): Promise<{ ok: boolean; message?: string; retryAfterSeconds?: number }> {
     const result = await loginWithEmail(email, password);
-    if (!result) {
+    if (result.status === "throttled") {
+      return {
+        ok: false,
+        retryAfterSeconds: result.retryAfterSeconds
+      };
+    }
+    if (result.status === "failed") {
       return {
         ok: false,
         message: "Invalid email or password."
@@ -407,16 +591,24 @@ export default function App() {
 
     await applyAuthSession(
       {
-        id: result.user.id,
-        email: result.user.email
+        id: result.auth.user.id,
+        email: result.auth.user.email
+      },
+      {
+        token: result.auth.token,
+        refreshToken: result.auth.refreshToken
       },
-      result.token
+      await settleGuestData(guestChoice)
     );
 
     return { ok: true };
   }
 
-  async function handleRegister(email: string, password: string): Promise<{ ok: boolean; message?: string }> {
+  async function handleRegister(
+    email: string,
+    password: string,
+    guestChoice: GuestDataChoice
+  ): Promise<{ ok: boolean; message?: string }> {
     const result = await registerWithEmail(email, password);
     if (!result) {
       return {
@@ -430,35 +622,93 @@ export default function App() {
         id: result.user.id,
         email: result.user.email
       },
-      result.token
+      {
+        token: result.token,
+        refreshToken: result.refreshToken
+      },
+      await settleGuestData(guestChoice)
     );
 
     return { ok: true };
   }
 
-  function handleContinueGuest() {
+  async function handleContinueGuest() {
+    const parked = summarizeGuestData(appDataRef.current) ? null : await takeGuestAppData();
+
     setSamplePlan(null);
     setActiveTab("dashboard");
-    setAuthToken(null);
+    setAuthTokens(null);
+    await ensureGuestIdentity();
     setAppData((prev) => ({
-      ...prev,
+      ...(parked
+        ? {
+            ...parked,
+            // Reminder and formula preferences belong to the device; the user's own foods and
+            // program come back.
+            settings: {
+              ...prev.settings,
+              programEnrollment: parked.settings.programEnrollment,
+              customFoods: parked.settings.customFoods,
+              recipes: parked.settings.recipes,
+              savedMeals: parked.settings.savedMeals
+            }
+          }
+        : prev),
       auth: {
         userId: "local-user",
         email: null,
-        token: null
+        token: null,
+        refreshToken: null
       }
     }));
   }
 
-  async function handleLogout() {
+  // Leaves guest mode without clearing local data, so it can be claimed on sign-in.
+  function handleSignInFromGuest() {
+    setSamplePlan(null);
+    setActiveTab("dashboard");
+    setAppData((prev) => ({
+      ...prev,
+      auth: createEmptyAppData().auth
+    }));
+  }
+
+  async function resetToSignedOut() {
     await cancelReminderById(appDataRef.current.settings.reminderNotificationId);
-    await logoutAuth();
-    setAuthToken(null);
+    setAuthTokens(null);
     setSamplePlan(null);
     setActiveTab("dashboard");
     setAppData(createEmptyAppData());
   }
 
+  async function handleLogout() {
+    await logoutAuth();
+    await resetToSignedOut();
+  }
+
+  async function handleExportAccountData(): Promise<boolean> {
+    const archive = await exportAccountData();
+    if (!archive) {
+      return false;
+    }
+
+    // Lesson progress never leaves the device, so the archive picks it up here.
+    const knowledgeProgress = await loadKnowledgeProgress();
+    await Share.share({
+      title: "PulseFit data export",
+      message: JSON.stringify({ ...archive, knowledgeProgress }, null, 2)
+    });
+    return true;
+  }
+
+  async function handleDeleteAccount(password: string): Promise<{ ok: boolean; message?: string }> {
+    const result = await deleteAccount(password);
+    if (result.ok) {
+      await resetToSignedOut();
+    }
+    return result;
+  }
+
   useEffect(() => {
     if (!isReady || !appData.auth.userId) {
       return;
@@ -466,17 +716,11 @@ export default function App() {
 
     let mounted = true;
 
-    fetchSnapshot().then((snapshot) => {
-      if (!mounted || !snapshot) {
+    fetchSyncChanges(appDataRef.current.sync.changeCursor).then((result) => {
+      if (!mounted || !result) {
         return;
       }
-      setAppData((prev) => ({
-        ...mergeSnapshot(prev, snapshot),
-        sync: {
-          ...prev.sync,
-          lastSuccessfulSyncAt: new Date().toISOString()
-        }
-      }));
+      applyRemoteChanges(result);
     });
 
     return () => {
@@ -521,13 +765,18 @@ export default function App() {
     }
   }
 
-  function markWorkoutSynced(workoutId: string) {
+  function markWorkoutSynced(workoutId: string, synced?: WorkoutLog) {
     const nowIso = new Date().toISOString();
     setAppData((prev) => ({
       ...prev,
       workouts: prev.workouts.map((entry) =>
         entry.id === workoutId
-          ? { ...entry, syncedAt: nowIso }
+          ? {
+              ...entry,
+              syncedAt: synced?.syncedAt ?? nowIso,
+              version: synced?.version ?? entry.version,
+              updatedAt: synced?.updatedAt ?? entry.updatedAt
+            }
           : entry
       ),
       sync: {
@@ -537,6 +786,28 @@ export default function App() {
     }));
   }
 
+  function recordConflict(conflict: SyncConflict) {
+    setAppData((prev) => recordSyncConflict(prev, conflict));
+  }
+
+  function handleResolveConflict(conflict: SyncConflict, choice: SyncConflictChoice) {
+    setAppData((prev) => resolveSyncConflict(prev, conflict.entity, conflict.key, choice));
+  }
+
+  function applyWorkoutSyncResult(workout: WorkoutLog, result: SyncWriteResult<WorkoutLog>) {
+    if (result.status === "synced") {
+      markWorkoutSynced(workout.id, result.record);
+    } else if (result.status === "conflict") {
+      recordConflict({
+        entity: "workout",
+        key: workout.id,
+        local: workout,
+        remote: result.record,
+        detectedAt: new Date().toISOString()
+      });
+    }
+  }
+
   async function handleCreateWorkout(draft: WorkoutDraft) {
     const workout = {
       id: createId("wk"),
@@ -551,16 +822,210 @@ export default function App() {
       createdAt: new Date().toISOString(),
       syncedAt: null
     };
+    const records = detectPersonalRecords(
+      appDataRef.current.workouts,
+      workout,
+      appDataRef.current.settings.e1rmFormula
+    );
 
     setAppData((prev) => ({
       ...prev,
       workouts: [workout, ...prev.workouts]
     }));
 
-    const synced = await syncWorkoutLog(workout);
-    if (synced) {
-      markWorkoutSynced(workout.id);
+    if (records.length) {
+      Alert.alert(
+        records.length === 1 ? "New personal record" : "New personal records",
+        records.map(describePersonalRecord).join("\n")
+      );
+    }
+
+    applyWorkoutSyncResult(workout, await syncWorkoutLog(workout));
+  }
+
+  function handleMergeExerciseAliases() {
+    setAppData((prev) => ({
+      ...prev,
+      workouts: mergeExerciseAliases(prev.workouts).workouts
+    }));
+  }
+
+  function handleChangeE1rmFormula(formula: E1rmFormula) {
+    setAppData((prev) => withSettings(prev, { e1rmFormula: formula }));
+  }
+
+  // The device copy is what the Dashboard reads; a failed mirror stays pending until the next sync.
+  function setProgramEnrollment(enrollment: ProgramEnrollment | null) {
+    setAppData((prev) => ({
+      ...withSettings(prev, { programEnrollment: enrollment }),
+      sync: { ...prev.sync, programEnrollmentPending: true }
+    }));
+    void pushProgramEnrollment(enrollment);
+  }
+
+  async function pushProgramEnrollment(enrollment: ProgramEnrollment | null) {
+    if (!(await syncProgramEnrollment(enrollment))) {
+      return;
+    }
+    // A newer enrollment made while this one was in flight still needs its own push.
+    setAppData((prev) =>
+      prev.settings.programEnrollment === enrollment
+        ? { ...prev, sync: { ...prev.sync, programEnrollmentPending: false } }
+        : prev
+    );
+  }
+
+  async function pullProgramEnrollment() {
+    const enrollment = await fetchProgramEnrollment();
+    if (enrollment === undefined) {
+      return;
     }
+    setAppData((prev) =>
+      prev.sync.programEnrollmentPending ? prev : withSettings(prev, { programEnrollment: enrollment })
+    );
+  }
+
+  function handleEnrollProgram(programId: string) {
+    setProgramEnrollment({ programId, startDate: today, enrolledAt: new Date().toISOString() });
+  }
+
+  function handleLeaveProgram() {
+    setProgramEnrollment(null);
+  }
+
+  function setCustomFood(foodId: string, food: FoodItem | null) {
+    setAppData((prev) => ({
+      ...withSettings(prev, {
+        customFoods: [...prev.settings.customFoods.filter((item) => item.id !== foodId), ...(food ? [food] : [])]
+      }),
+      sync: { ...prev.sync, customFoodPendingIds: withUnique(prev.sync.customFoodPendingIds, foodId) }
+    }));
+    void pushCustomFood(foodId, food);
+  }
+
+  async function pushCustomFood(foodId: string, food: FoodItem | null) {
+    if (!(await syncCustomFood(foodId, food))) {
+      return;
+    }
+    setAppData((prev) =>
+      (prev.settings.customFoods.find((item) => item.id === foodId) ?? null) === food
+        ? {
+            ...prev,
+            sync: { ...prev.sync, customFoodPendingIds: prev.sync.customFoodPendingIds.filter((id) => id !== foodId) }
+          }
+        : prev
+    );
+  }
+
+  async function pullCustomFoods() {
+    const foods = await fetchCustomFoods();
+    if (!foods) {
+      return;
+    }
+    setAppData((prev) =>
+      withSettings(prev, {
+        customFoods: mergeRemoteList(prev.settings.customFoods, foods, prev.sync.customFoodPendingIds)
+      })
+    );
+  }
+
+  function handleSaveCustomFood(food: FoodItem) {
+    setCustomFood(food.id, food);
+  }
+
+  function handleDeleteCustomFood(foodId: string) {
+    setCustomFood(foodId, null);
+  }
+
+  function setRecipe(recipeId: string, recipe: Recipe | null) {
+    setAppData((prev) => ({
+      ...withSettings(prev, {
+        recipes: [...prev.settings.recipes.filter((item) => item.id !== recipeId), ...(recipe ? [recipe] : [])]
+      }),
+      sync: { ...prev.sync, recipePendingIds: withUnique(prev.sync.recipePendingIds, recipeId) }
+    }));
+    void pushRecipe(recipeId, recipe);
+  }
+
+  async function pushRecipe(recipeId: string, recipe: Recipe | null) {
+    if (!(await syncRecipe(recipeId, recipe))) {
+      return;
+    }
+    setAppData((prev) =>
+      (prev.settings.recipes.find((item) => item.id === recipeId) ?? null) === recipe
+        ? {
+            ...prev,
+            sync: { ...prev.sync, recipePendingIds: prev.sync.recipePendingIds.filter((id) => id !== recipeId) }
+          }
+        : prev
+    );
+  }
+
+  async function pullRecipes() {
+    const recipes = await fetchRecipes();
+    if (!recipes) {
+      return;
+    }
+    setAppData((prev) =>
+      withSettings(prev, { recipes: mergeRemoteList(prev.settings.recipes, recipes, prev.sync.recipePendingIds) })
+    );
+  }
+
+  function setSavedMeal(mealId: string, meal: SavedMeal | null) {
+    setAppData((prev) => ({
+      ...withSettings(prev, {
+        savedMeals: [...prev.settings.savedMeals.filter((item) => item.id !== mealId), ...(meal ? [meal] : [])]
+      }),
+      sync: { ...prev.sync, savedMealPendingIds: withUnique(prev.sync.savedMealPendingIds, mealId) }
+    }));
+    void pushSavedMeal(mealId, meal);
+  }
+
+  async function pushSavedMeal(mealId: string, meal: SavedMeal | null) {
+    if (!(await syncSavedMeal(mealId, meal))) {
+      return;
+    }
+    setAppData((prev) =>
+      (prev.settings.savedMeals.find((item) => item.id === mealId) ?? null) === meal
+        ? {
+            ...prev,
+            sync: { ...prev.sync, savedMealPendingIds: prev.sync.savedMealPendingIds.filter((id) => id !== mealId) }
+          }
+        : prev
+    );
+  }
+
+  async function pullSavedMeals() {
+    const meals = await fetchSavedMeals();
+    if (!meals) {
+      return;
+    }
+    setAppData((prev) =>
+      withSettings(prev, {
+        savedMeals: mergeRemoteList(prev.settings.savedMeals, meals, prev.sync.savedMealPendingIds)
+      })
+    );
+  }
+
+  function handleSaveRecipe(recipe: Recipe) {
+    setRecipe(recipe.id, recipe);
+  }
+
+  function handleDeleteRecipe(recipeId: string) {
+    setRecipe(recipeId, null);
+  }
+
+  function handleSaveSavedMeal(meal: SavedMeal) {
+    setSavedMeal(meal.id, meal);
+  }
+
+  function handleDeleteSavedMeal(mealId: string) {
+    setSavedMeal(mealId, null);
+  }
+
+  function handleStartProgramSession(draft: WorkoutDraft) {
+    setPrefillDraft(draft);
+    setActiveTab("workout");
   }
 
   async function handleUpdateWorkout(workoutId: string, draft: WorkoutDraft) {
@@ -574,13 +1039,10 @@ export default function App() {
       workouts: next.workouts
     }));
 
-    const synced = await syncWorkoutLog(next.updatedWorkout);
-    if (synced) {
-      markWorkoutSynced(workoutId);
-    }
+    applyWorkoutSyncResult(next.updatedWorkout, await syncWorkoutLog(next.updatedWorkout));
   }
 
-  async function syncPendingChanges(options: { pullSnapshot?: boolean } = {}) {
+  async function syncPendingChanges(options: { pullChanges?: boolean } = {}) {
     if (syncing) {
       return;
     }
@@ -589,85 +1051,90 @@ export default function App() {
     try {
       const current = appDataRef.current;
 
-      for (const workoutId of current.sync.deletedWorkoutIds) {
-        const deleted = await deleteWorkoutLog(workoutId);
-        if (deleted) {
-          resolveWorkoutDeletePending(workoutId);
+      for (const date of current.sync.nutritionPendingDates) {
+        if (!current.nutritionByDate[date] && !current.sync.deletedNutritionDates.includes(date)) {
+          resolveNutritionPending(date);
         }
       }
 
-      for (const date of current.sync.deletedNutritionDates) {
-        const deleted = await deleteNutritionLog(date);
-        if (deleted) {
-          resolveNutritionDeletePending(date);
+      for (const entryId of current.sync.progressPendingIds) {
+        const exists = current.progressEntries.some((item) => item.id === entryId);
+        if (!exists && !current.sync.deletedProgressIds.includes(entryId)) {
+          resolveProgressPending(entryId);
         }
       }
 
-      for (const progressId of current.sync.deletedProgressIds) {
-        const deleted = await deleteProgressEntry(progressId);
-        if (deleted) {
-          resolveProgressDeletePending(progressId);
-        }
+      if (current.sync.programEnrollmentPending) {
+        await pushProgramEnrollment(current.settings.programEnrollment);
       }
-
-      if (current.profile && current.sync.profilePending) {
-        const syncedProfile = await syncProfile(current.profile);
-        if (syncedProfile) {
-          setProfilePending(false);
-        }
+      for (const foodId of current.sync.customFoodPendingIds) {
+        await pushCustomFood(foodId, current.settings.customFoods.find((item) => item.id === foodId) ?? null);
       }
-
-      for (const date of current.sync.nutritionPendingDates) {
-        if (current.sync.deletedNutritionDates.includes(date)) {
-          continue;
-        }
-        const log = current.nutritionByDate[date];
-        if (!log) {
-          resolveNutritionPending(date);
-          continue;
-        }
-        const synced = await syncNutritionLog(log);
-        if (synced) {
-          resolveNutritionPending(date);
-        }
+      for (const recipeId of current.sync.recipePendingIds) {
+        await pushRecipe(recipeId, current.settings.recipes.find((item) => item.id === recipeId) ?? null);
+      }
+      for (const mealId of current.sync.savedMealPendingIds) {
+        await pushSavedMeal(mealId, current.settings.savedMeals.find((item) => item.id === mealId) ?? null);
       }
 
-      for (const entryId of current.sync.progressPendingIds) {
-        if (current.sync.deletedProgressIds.includes(entryId)) {
+      const operations = buildSyncBatch(current);
+      const results = operations.length > 0 ? await pushSyncBatch(operations) : [];
+
+      for (const result of results ?? []) {
+        if (result.status === "conflict" && result.key) {
+          const detectedAt = new Date().toISOString();
+          const key = result.key;
+          if (result.entity === "workout") {
+            const local = current.workouts.find((entry) => entry.id === key);
+            if (local) {
+              recordConflict({ entity: "workout", key, local, remote: (result.data ?? null) as WorkoutLog | null, detectedAt });
+            }
+          } else if (result.entity === "nutrition") {
+            const local = current.nutritionByDate[key];
+            if (local) {
+              recordConflict({ entity: "nutrition", key, local, remote: (result.data ?? null) as NutritionLog | null, detectedAt });
+            }
+          } else if (result.entity === "progress") {
+            const local = current.progressEntries.find((entry) => entry.id === key);
+            if (local) {
+              recordConflict({ entity: "progress", key, local, remote: (result.data ?? null) as ProgressEntry | null, detectedAt });
+            }
+          }
           continue;
         }
-        const entry = current.progressEntries.find((item) => item.id === entryId);
-        if (!entry) {
-          resolveProgressPending(entryId);
+        if (result.status !== "applied" || !result.key) {
           continue;
         }
-        const synced = await syncProgressEntry(entry);
-        if (synced) {
-          resolveProgressPending(entryId);
+        if (result.op === "delete") {
+          if (result.entity === "workout") {
+            resolveWorkoutDeletePending(result.key);
+          } else if (result.entity === "nutrition") {
+            resolveNutritionDeletePending(result.key);
+          } else if (result.entity === "progress") {
+            resolveProgressDeletePending(result.key);
+          }
+          continue;
         }
-      }
-
-      const pendingWorkouts = current.workouts.filter(
-        (entry) => !entry.syncedAt && !current.sync.deletedWorkoutIds.includes(entry.id)
-      );
-      for (const workout of pendingWorkouts) {
-        const synced = await syncWorkoutLog(workout);
-        if (synced) {
-          markWorkoutSynced(workout.id);
+        if (result.entity === "profile") {
+          setProfilePending(false);
+        } else if (result.entity === "nutrition") {
+          resolveNutritionPending(result.key, result.data as NutritionLog | undefined);
+        } else if (result.entity === "progress") {
+          resolveProgressPending(result.key, result.data as ProgressEntry | undefined);
+        } else if (result.entity === "workout") {
+          markWorkoutSynced(result.key, result.data as WorkoutLog | undefined);
         }
       }
 
-      if (options.pullSnapshot) {
-        const snapshot = await fetchSnapshot();
-        if (snapshot) {
-          setAppData((prev) => ({
-            ...mergeSnapshot(prev, snapshot),
-            sync: {
-              ...prev.sync,
-              lastSuccessfulSyncAt: new Date().toISOString()
-            }
-          }));
+      if (options.pullChanges) {
+        const result = await fetchSyncChanges(appDataRef.current.sync.changeCursor);
+        if (result) {
+          applyRemoteChanges(result);
         }
+        await pullProgramEnrollment();
+        await pullCustomFoods();
+        await pullRecipes();
+        await pullSavedMeals();
       }
     } finally {
       setSyncing(false);
@@ -684,11 +1151,20 @@ export default function App() {
     }));
 
     void (async () => {
-      const synced = await syncNutritionLog(nextLog);
-      if (synced) {
-        resolveNutritionPending(nextLog.date);
-      } else {
-        addNutritionPending(nextLog.date);
+      const result = await syncNutritionLog(nextLog);
+      if (result.status === "synced") {
+        resolveNutritionPending(nextLog.date, result.record);
+        return;
+      }
+      addNutritionPending(nextLog.date);
+      if (result.status === "conflict") {
+        recordConflict({
+          entity: "nutrition",
+          key: nextLog.date,
+          local: nextLog,
+          remote: result.record,
+          detectedAt: new Date().toISOString()
+        });
       }
     })();
   }
@@ -715,9 +1191,9 @@ export default function App() {
     }));
 
     void (async () => {
-      const progressSynced = await syncProgressEntry(entry);
-      if (progressSynced) {
-        resolveProgressPending(entry.id);
+      const progressResult = await syncProgressEntry(entry);
+      if (progressResult.status === "synced") {
+        resolveProgressPending(entry.id, progressResult.record);
       } else {
         addProgressPending(entry.id);
       }
@@ -811,6 +1287,39 @@ export default function App() {
     setProfilePending(!synced);
   }
 
+  async function handleApplyTargetProposal() {
+    const profile = appDataRef.current.profile;
+    const proposal = adaptiveTargets?.proposal;
+    if (!profile || !proposal) {
+      return;
+    }
+    setAppData((prev) => withSettings(prev, { lastTargetReviewDate: today }));
+    const { change: _change, reasons: _reasons, ...targets } = proposal;
+    await handleSaveProfile({ ...profile, ...targets });
+  }
+
+  function handleDismissTargetProposal() {
+    setAppData((prev) => withSettings(prev, { lastTargetReviewDate: today }));
+  }
+
+  async function handleChangeWeeklyRate(weeklyRateKg: number) {
+    const profile = appDataRef.current.profile;
+    if (!profile) {
+      return;
+    }
+    // A new goal rate deserves a fresh proposal rather than waiting out the week.
+    setAppData((prev) => withSettings(prev, { lastTargetReviewDate: null }));
+    await handleSaveProfile({ ...profile, weeklyRateKg });
+  }
+
+  async function handleSaveGoalWeight(goalWeightKg: number | undefined) {
+    const profile = appDataRef.current.profile;
+    if (!profile) {
+      return;
+    }
+    await handleSaveProfile({ ...profile, goalWeightKg });
+  }
+
   async function handleSaveReminderSettings(settings: { enabled: boolean; time: string }) {
     const nextTime = settings.time.trim();
     if (!isValidReminderTime(nextTime)) {
@@ -822,7 +1331,7 @@ export default function App() {
 
     if (!settings.enabled) {
       setAppData((prev) =>
-        withReminderSettings(prev, {
+        withSettings(prev, {
           dailyReminderEnabled: false,
           dailyReminderTime: nextTime,
           reminderNotificationId: null
@@ -842,7 +1351,7 @@ export default function App() {
     }
 
     setAppData((prev) =>
-      withReminderSettings(prev, {
+      withSettings(prev, {
         dailyReminderEnabled: true,
         dailyReminderTime: nextTime,
         reminderNotificationId: scheduled.notificationId
@@ -870,7 +1379,7 @@ export default function App() {
   }
 
   function handleSyncNow() {
-    void syncPendingChanges({ pullSnapshot: true });
+    void syncPendingChanges({ pullChanges: true });
   }
 
   if (!isReady) {
@@ -894,6 +1403,9 @@ export default function App() {
         <AuthScreen
           onLogin={handleLogin}
           onRegister={handleRegister}
+          guestData={summarizeGuestData(appData)}
+          onRequestPasswordReset={requestPasswordReset}
+          onConfirmPasswordReset={confirmPasswordReset}
           onContinueGuest={handleContinueGuest}
         />
       ) : !appData.profile ? (
@@ -916,6 +1428,13 @@ export default function App() {
                 pendingSummary={pendingSummary}
                 syncing={syncing}
                 onRetrySync={handleSyncNow}
+                programEnrollment={appData.settings.programEnrollment}
+                onEnrollProgram={handleEnrollProgram}
+                onLeaveProgram={handleLeaveProgram}
+                onStartProgramSession={handleStartProgramSession}
+                adaptiveTargets={adaptiveTargets}
+                onApplyTargetProposal={handleApplyTargetProposal}
+                onDismissTargetProposal={handleDismissTargetProposal}
               />
             ) : null}
 
@@ -923,9 +1442,15 @@ export default function App() {
               <WorkoutScreen
                 goal={appData.profile.goal}
                 workouts={appData.workouts}
+                e1rmFormula={appData.settings.e1rmFormula}
+                onChangeE1rmFormula={handleChangeE1rmFormula}
                 onCreateWorkout={handleCreateWorkout}
                 onUpdateWorkout={handleUpdateWorkout}
                 onDeleteWorkout={handleDeleteWorkout}
+                onMergeExerciseAliases={handleMergeExerciseAliases}
+                onLoadHistoryPage={fetchWorkoutHistory}
+                prefillDraft={prefillDraft}
+                onPrefillApplied={() => setPrefillDraft(null)}
               />
             ) : null}
 
@@ -937,8 +1462,21 @@ export default function App() {
               <NutritionScreen
                 profile={appData.profile}
                 nutritionLog={nutritionLog}
+                customFoods={appData.settings.customFoods}
+                recipes={appData.settings.recipes}
+                savedMeals={appData.settings.savedMeals}
                 onSaveNutrition={handleSaveNutrition}
                 onClearNutrition={handleClearNutrition}
+                onSaveCustomFood={handleSaveCustomFood}
+                onDeleteCustomFood={handleDeleteCustomFood}
+                onSaveRecipe={handleSaveRecipe}
+                onDeleteRecipe={handleDeleteRecipe}
+                onSaveSavedMeal={handleSaveSavedMeal}
+                onDeleteSavedMeal={handleDeleteSavedMeal}
+                adaptiveTargets={adaptiveTargets}
+                onApplyTargetProposal={handleApplyTargetProposal}
+                onDismissTargetProposal={handleDismissTargetProposal}
+                onChangeWeeklyRate={handleChangeWeeklyRate}
               />
             ) : null}
 
@@ -948,6 +1486,7 @@ export default function App() {
                 entries={appData.progressEntries}
                 onAddProgress={handleAddProgress}
                 onDeleteProgressEntry={handleDeleteProgressEntry}
+                onSaveGoalWeight={handleSaveGoalWeight}
               />
             ) : null}
 
@@ -957,12 +1496,20 @@ export default function App() {
                 authEmail={appData.auth.email}
                 isGuestMode={appData.auth.userId === "local-user" && !appData.auth.token}
                 pendingSummary={pendingSummary}
+                conflicts={appData.sync.conflicts}
                 syncing={syncing}
                 reminderSettings={appData.settings}
                 onSaveProfile={handleSaveProfile}
                 onSaveReminderSettings={handleSaveReminderSettings}
                 onLogout={handleLogout}
+                onSignIn={handleSignInFromGuest}
+                onLoadSessions={fetchAuthSessions}
+                onSignOutOtherDevices={revokeOtherSessions}
+                onChangePassword={changePassword}
+                onExportData={handleExportAccountData}
+                onDeleteAccount={handleDeleteAccount}
                 onSyncNow={handleSyncNow}
+                onResolveConflict={handleResolveConflict}
                 onResetAllData={handleResetAllData}
               />
             ) : null}
@@ -1,6 +1,19 @@
+import { FoodItem, ProgramEnrollment, Recipe, SavedMeal } from "@fitness/shared";
 import { Platform } from "react-native";
 
-import { AppData, NutritionLog, ProgressEntry, SamplePlan, UserProfile, WorkoutLog } from "../types";
+import {
+  AppData,
+  AuthDeviceSession,
+  NutritionLog,
+  ProgressEntry,
+  SamplePlan,
+  SyncBatchOperation,
+  SyncBatchResult,
+  SyncChangeSet,
+  UserProfile,
+  WorkoutLog,
+  WorkoutType
+} from "../types";
 
 interface AuthUser {
   id: string;
@@ -8,13 +21,33 @@ interface AuthUser {
   createdAt: string;
 }
 
-interface AuthResponse {
+export interface AuthTokens {
   token: string;
+  refreshToken: string;
+}
+
+interface AuthResponse extends AuthTokens {
   user: AuthUser;
 }
 
 export type ServerSnapshot = Omit<AppData, "auth" | "sync" | "settings">;
 
+export interface SyncChangesResponse {
+  cursor: string;
+  changes: SyncChangeSet;
+}
+
+export type LoginResult =
+  | { status: "ok"; auth: AuthResponse }
+  | { status: "throttled"; retryAfterSeconds: number }
+  | { status: "failed" };
+
+export type SyncWriteResult<T> =
+  | { status: "synced"; record: T }
+  /** `record` is null when the server copy was deleted. */
+  | { status: "conflict"; record: T | null }
+  | { status: "failed" };
+
 const apiBaseFromEnv = process.env.EXPO_PUBLIC_API_BASE_URL;
 const API_BASE_URL =
   apiBaseFromEnv && apiBaseFromEnv.trim().length > 0
@@ -24,10 +57,35 @@ const API_BASE_URL =
     ? "http://10.0.2.2:4000"
     : "http://localhost:4000";
 
-let authToken: string | null = null;
+const DEVICE_NAME = `FitTrack ${Platform.OS} ${Platform.Version}`;
+
+// Refreshing these endpoints would loop or hide a wrong password.
+const NO_REFRESH_PATHS = ["/api/v1/auth/login", "/api/v1/auth/register", "/api/v1/auth/refresh"];
+
+let authTokens: AuthTokens | null = null;
+let guestToken: string | null = null;
+let authTokensListener: ((tokens: AuthTokens | null) => void) | null = null;
+let refreshInFlight: Promise<boolean> | null = null;
+
+export function setAuthTokens(tokens: AuthTokens | null) {
+  authTokens = tokens;
+}
+
+export function getAuthTokens(): AuthTokens | null {
+  return authTokens;
+}
+
+/** Identifies this device's guest data while nobody is signed in. */
+export function setGuestToken(token: string | null) {
+  guestToken = token;
+}
 
-export function setAuthToken(token: string | null) {
-  authToken = token;
+/**
+ * Called when a transparent refresh rotates the tokens, or with `null` once the session can no
+ * longer be refreshed and the user must sign in again.
+ */
+export function onAuthTokensChange(listener: ((tokens: AuthTokens | null) => void) | null) {
+  authTokensListener = listener;
 }
 
 function withAuthHeaders(headers: HeadersInit | undefined, includeJson: boolean): Headers {
@@ -35,20 +93,21 @@ function withAuthHeaders(headers: HeadersInit | undefined, includeJson: boolean)
   if (includeJson && !next.has("Content-Type")) {
     next.set("Content-Type", "application/json");
   }
-  if (authToken) {
-    next.set("Authorization", `Bearer ${authToken}`);
+  if (authTokens) {
+    next.set("Authorization", `Bearer ${authTokens.token}`);
+  } else if (guestToken) {
+    next.set("X-Guest-Token", guestToken);
   }
   return next;
 }
 
-async function fetchWithTimeout(path: string, init: RequestInit = {}, timeoutMs = 4500): Promise<Response> {
+async function requestWithTimeout(path: string, init: RequestInit, timeoutMs: number): Promise<Response> {
   const controller = new AbortController();
   const timeout = setTimeout(() => controller.abort(), timeoutMs);
 
   try {
     return await fetch(`${API_BASE_URL}${path}`, {
       ...init,
-      headers: withAuthHeaders(init.headers, false),
       signal: controller.signal
     });
   } finally {
@@ -56,6 +115,75 @@ async function fetchWithTimeout(path: string, init: RequestInit = {}, timeoutMs
   }
 }
 
+async function refreshAuthTokens(): Promise<boolean> {
+  const refreshToken = authTokens?.refreshToken;
+  if (!refreshToken) {
+    return false;
+  }
+
+  try {
+    const response = await requestWithTimeout(
+      "/api/v1/auth/refresh",
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ refreshToken })
+      },
+      4500
+    );
+
+    if (response.status === 401) {
+      authTokens = null;
+      authTokensListener?.(null);
+      return false;
+    }
+    if (!response.ok) {
+      return false;
+    }
+
+    const body = (await response.json()) as AuthTokens;
+    authTokens = { token: body.token, refreshToken: body.refreshToken };
+    authTokensListener?.(authTokens);
+    return true;
+  } catch (_error) {
+    return false;
+  }
+}
+
+// Concurrent 401s share one refresh, since each refresh token only works once.
+function refreshAuthTokensOnce(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshAuthTokens().finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+async function fetchWithTimeout(path: string, init: RequestInit = {}, timeoutMs = 4500): Promise<Response> {
+  const send = () => requestWithTimeout(path, { ...init, headers: withAuthHeaders(init.headers, false) }, timeoutMs);
+
+  const response = await send();
+  if (response.status !== 401 || !authTokens || NO_REFRESH_PATHS.includes(path)) {
+    return response;
+  }
+
+  return (await refreshAuthTokensOnce()) ? send() : response;
+}
+
+async function sendVersionedWrite<T>(path: string, init: RequestInit): Promise<SyncWriteResult<T>> {
+  try {
+    const response = await fetchWithTimeout(path, init);
+    if (response.ok || response.status === 409) {
+      const body = (await response.json()) as { data: T | null };
+      return response.ok ? { status: "synced", record: body.data as T } : { status: "conflict", record: body.data };
+    }
+    return { status: "failed" };
+  } catch (_error) {
+    return { status: "failed" };
+  }
+}
+
 async function fetchJson<T>(path: string, init: RequestInit = {}): Promise<T | null> {
   try {
     const response = await fetchWithTimeout(path, init);
@@ -68,26 +196,70 @@ async function fetchJson<T>(path: string, init: RequestInit = {}): Promise<T | n
   }
 }
 
+export type GuestRegistrationResult =
+  | { status: "ok"; guestToken: string }
+  /** The id is registered already, e.g. by an attempt whose response never arrived. */
+  | { status: "taken" }
+  | { status: "failed" };
+
+export async function registerGuestDevice(deviceId: string): Promise<GuestRegistrationResult> {
+  try {
+    const response = await fetchWithTimeout("/api/v1/auth/anonymous", {
+      method: "POST",
+      headers: withAuthHeaders(undefined, true),
+      body: JSON.stringify({ deviceId })
+    });
+    if (response.status === 409) {
+      return { status: "taken" };
+    }
+    if (!response.ok) {
+      return { status: "failed" };
+    }
+    const body = (await response.json()) as { guestToken: string };
+    return { status: "ok", guestToken: body.guestToken };
+  } catch (_error) {
+    return { status: "failed" };
+  }
+}
+
 export async function registerWithEmail(email: string, password: string): Promise<AuthResponse | null> {
   return fetchJson<AuthResponse>("/api/v1/auth/register", {
     method: "POST",
     headers: withAuthHeaders(undefined, true),
     body: JSON.stringify({
       email,
-      password
+      password,
+      deviceName: DEVICE_NAME
     })
   });
 }
 
-export async function loginWithEmail(email: string, password: string): Promise<AuthResponse | null> {
-  return fetchJson<AuthResponse>("/api/v1/auth/login", {
-    method: "POST",
-    headers: withAuthHeaders(undefined, true),
-    body: JSON.stringify({
-      email,
-      password
-    })
-  });
+export async function loginWithEmail(email: string, password: string): Promise<LoginResult> {
+  try {
+    const response = await fetchWithTimeout("/api/v1/auth/login", {
+      method: "POST",
+      headers: withAuthHeaders(undefined, true),
+      body: JSON.stringify({
+        email,
+        password,
+        deviceName: DEVICE_NAME
+      })
+    });
+
+    if (response.status === 429) {
+      const retryAfterSeconds = Number(response.headers.get("Retry-After"));
+      return {
+        status: "throttled",
+        retryAfterSeconds: Number.isFinite(retryAfterSeconds) && retryAfterSeconds > 0 ? retryAfterSeconds : 60
+      };
+    }
+    if (!response.ok) {
+      return { status: "failed" };
+    }
+    return { status: "ok", auth: (await response.json()) as AuthResponse };
+  } catch (_error) {
+    return { status: "failed" };
+  }
 }
 
 export async function fetchMe(): Promise<AuthUser | null> {
@@ -108,32 +280,108 @@ export async function logoutAuth(): Promise<boolean> {
   }
 }
 
-export async function syncWorkoutLog(log: WorkoutLog): Promise<boolean> {
+export async function fetchAuthSessions(): Promise<AuthDeviceSession[] | null> {
+  const response = await fetchJson<{ sessions: AuthDeviceSession[] }>("/api/v1/auth/sessions", {
+    method: "GET"
+  });
+  return response?.sessions ?? null;
+}
+
+export async function revokeOtherSessions(): Promise<number | null> {
+  const response = await fetchJson<{ revokedCount: number }>("/api/v1/auth/sessions", {
+    method: "DELETE"
+  });
+  return response?.revokedCount ?? null;
+}
+
+export interface AuthActionResult {
+  ok: boolean;
+  message?: string;
+}
+
+async function sendAuthAction(path: string, payload: unknown, method = "POST"): Promise<AuthActionResult> {
   try {
-    const response = await fetchWithTimeout("/api/v1/workouts/logs", {
-      method: "POST",
+    const response = await fetchWithTimeout(path, {
+      method,
       headers: withAuthHeaders(undefined, true),
-      body: JSON.stringify({
-        id: log.id,
-        date: log.date,
-        workoutType: log.workoutType,
-        durationMinutes: log.durationMinutes,
-        exerciseEntries: log.exerciseEntries,
-        intensityRpe: log.intensityRpe,
-        caloriesBurned: log.caloriesBurned,
-        templateName: log.templateName,
-        notes: log.notes,
-        createdAt: log.createdAt,
-        syncedAt: log.syncedAt
-      })
+      body: JSON.stringify(payload)
     });
+    const body = (await response.json().catch(() => null)) as { message?: string } | null;
+    return { ok: response.ok, message: body?.message };
+  } catch (_error) {
+    return { ok: false, message: "Could not connect to the server." };
+  }
+}
+
+export async function changePassword(currentPassword: string, newPassword: string): Promise<AuthActionResult> {
+  return sendAuthAction("/api/v1/auth/password", { currentPassword, newPassword });
+}
+
+export async function requestPasswordReset(email: string): Promise<AuthActionResult> {
+  return sendAuthAction("/api/v1/auth/password-reset/request", { email });
+}
+
+export async function confirmPasswordReset(token: string, newPassword: string): Promise<AuthActionResult> {
+  return sendAuthAction("/api/v1/auth/password-reset/confirm", { token, newPassword });
+}
+
+export async function exportAccountData(): Promise<Record<string, unknown> | null> {
+  return fetchJson<Record<string, unknown>>("/api/v1/account/export", {
+    method: "GET"
+  });
+}
 
+export async function importGuestData(data: AppData): Promise<boolean> {
+  try {
+    const response = await fetchWithTimeout(
+      "/api/v1/account/guest-data",
+      {
+        method: "POST",
+        headers: withAuthHeaders(undefined, true),
+        body: JSON.stringify({
+          profile: data.profile,
+          workouts: data.workouts,
+          nutritionLogs: Object.values(data.nutritionByDate),
+          progressEntries: data.progressEntries,
+          customFoods: data.settings.customFoods,
+          recipes: data.settings.recipes,
+          savedMeals: data.settings.savedMeals,
+          programEnrollment: data.settings.programEnrollment
+        })
+      },
+      15000
+    );
     return response.ok;
   } catch (_error) {
     return false;
   }
 }
 
+export async function deleteAccount(password: string): Promise<AuthActionResult> {
+  return sendAuthAction("/api/v1/account", { password }, "DELETE");
+}
+
+export async function syncWorkoutLog(log: WorkoutLog): Promise<SyncWriteResult<WorkoutLog>> {
+  return sendVersionedWrite<WorkoutLog>("/api/v1/workouts/logs", {
+    method: "POST",
+    headers: withAuthHeaders(undefined, true),
+    body: JSON.stringify({
+      id: log.id,
+      date: log.date,
+      workoutType: log.workoutType,
+      durationMinutes: log.durationMinutes,
+      exerciseEntries: log.exerciseEntries,
+      intensityRpe: log.intensityRpe,
+      caloriesBurned: log.caloriesBurned,
+      templateName: log.templateName,
+      notes: log.notes,
+      createdAt: log.createdAt,
+      syncedAt: log.syncedAt,
+      version: log.version
+    })
+  });
+}
+
 export async function fetchSamplePlan(goal?: UserProfile["goal"]): Promise<SamplePlan | null> {
   try {
     const suffix = goal ? `?goal=${goal}` : "";
@@ -151,12 +399,58 @@ export async function fetchSamplePlan(goal?: UserProfile["goal"]): Promise<Sampl
   }
 }
 
+export interface WorkoutHistoryPage {
+  count: number;
+  data: WorkoutLog[];
+  nextCursor: string | null;
+}
+
+export interface WorkoutHistoryRequest {
+  limit: number;
+  cursor?: string | null;
+  workoutType?: WorkoutType | null;
+  /** Searches template and exercise names. */
+  q?: string;
+}
+
+export async function fetchWorkoutHistory(request: WorkoutHistoryRequest): Promise<WorkoutHistoryPage | null> {
+  const params = [`limit=${request.limit}`];
+  if (request.cursor) {
+    params.push(`cursor=${encodeURIComponent(request.cursor)}`);
+  }
+  if (request.workoutType) {
+    params.push(`workoutType=${request.workoutType}`);
+  }
+  if (request.q?.trim()) {
+    params.push(`q=${encodeURIComponent(request.q.trim())}`);
+  }
+  return fetchJson<WorkoutHistoryPage>(`/api/v1/workouts/logs?${params.join("&")}`, {
+    method: "GET"
+  });
+}
+
 export async function fetchSnapshot(): Promise<ServerSnapshot | null> {
   return fetchJson<ServerSnapshot>("/api/v1/sync/snapshot", {
     method: "GET"
   });
 }
 
+export async function fetchSyncChanges(cursor: string | null): Promise<SyncChangesResponse | null> {
+  const suffix = cursor ? `?since=${encodeURIComponent(cursor)}` : "";
+  return fetchJson<SyncChangesResponse>(`/api/v1/sync/changes${suffix}`, {
+    method: "GET"
+  });
+}
+
+export async function pushSyncBatch(operations: SyncBatchOperation[]): Promise<SyncBatchResult[] | null> {
+  const response = await fetchJson<{ results: SyncBatchResult[] }>("/api/v1/sync/batch", {
+    method: "POST",
+    headers: withAuthHeaders(undefined, true),
+    body: JSON.stringify({ operations })
+  });
+  return response?.results ?? null;
+}
+
 export async function syncProfile(profile: UserProfile): Promise<boolean> {
   try {
     const response = await fetchWithTimeout("/api/v1/profile", {
@@ -170,32 +464,86 @@ export async function syncProfile(profile: UserProfile): Promise<boolean> {
   }
 }
 
-export async function syncNutritionLog(log: NutritionLog): Promise<boolean> {
+/** Resolves to `undefined` when the API is unreachable, which is not the same as "not enrolled". */
+export async function fetchProgramEnrollment(): Promise<ProgramEnrollment | null | undefined> {
+  const response = await fetchJson<{ data: ProgramEnrollment | null }>("/api/v1/programs/enrollment", {
+    method: "GET"
+  });
+  return response ? response.data : undefined;
+}
+
+/** Mirrors the device's enrollment to the API; `null` leaves the current program. */
+export async function syncProgramEnrollment(enrollment: ProgramEnrollment | null): Promise<boolean> {
   try {
-    const response = await fetchWithTimeout(`/api/v1/nutrition/logs/${log.date}`, {
-      method: "PUT",
-      headers: withAuthHeaders(undefined, true),
-      body: JSON.stringify(log)
-    });
-    return response.ok;
+    const response = await fetchWithTimeout(
+      "/api/v1/programs/enrollment",
+      enrollment
+        ? {
+            method: "POST",
+            headers: withAuthHeaders(undefined, true),
+            body: JSON.stringify({ programId: enrollment.programId, startDate: enrollment.startDate })
+          }
+        : { method: "DELETE", headers: withAuthHeaders(undefined, false) }
+    );
+    // Leaving when the server never saw the enrollment is still a success.
+    return response.ok || (!enrollment && response.status === 404);
   } catch (_error) {
     return false;
   }
 }
 
-export async function syncProgressEntry(entry: ProgressEntry): Promise<boolean> {
+export async function fetchCustomFoods(): Promise<FoodItem[] | null> {
+  const response = await fetchJson<{ data: Array<FoodItem & { updatedAt?: string }> }>("/api/v1/nutrition/foods/custom", {
+    method: "GET"
+  });
+  return response ? response.data.map(({ updatedAt: _updatedAt, ...food }) => food) : null;
+}
+
+/** Mirrors a custom food to the API, or removes it when `food` is null. */
+export async function syncCustomFood(foodId: string, food: FoodItem | null): Promise<boolean> {
   try {
-    const response = await fetchWithTimeout("/api/v1/progress/entries", {
-      method: "POST",
-      headers: withAuthHeaders(undefined, true),
-      body: JSON.stringify(entry)
-    });
-    return response.ok;
+    const response = await fetchWithTimeout(
+      `/api/v1/nutrition/foods/custom/${encodeURIComponent(foodId)}`,
+      food
+        ? {
+            method: "PUT",
+            headers: withAuthHeaders(undefined, true),
+            body: JSON.stringify({
+              name: food.name,
+              brand: food.brand,
+              servingSize: food.servingSize,
+              servingUnit: food.servingUnit,
+              calories: food.calories,
+              protein: food.protein,
+              carbs: food.carbs,
+              fat: food.fat,
+              fiber: food.fiber
+            })
+          }
+        : { method: "DELETE", headers: withAuthHeaders(undefined, false) }
+    );
+    return response.ok || (!food && response.status === 404);
   } catch (_error) {
     return false;
   }
 }
 
+export async function syncNutritionLog(log: NutritionLog): Promise<SyncWriteResult<NutritionLog>> {
+  return sendVersionedWrite<NutritionLog>(`/api/v1/nutrition/logs/${log.date}`, {
+    method: "PUT",
+    headers: withAuthHeaders(undefined, true),
+    body: JSON.stringify(log)
+  });
+}
+
+export async function syncProgressEntry(entry: ProgressEntry): Promise<SyncWriteResult<ProgressEntry>> {
+  return sendVersionedWrite<ProgressEntry>("/api/v1/progress/entries", {
+    method: "POST",
+    headers: withAuthHeaders(undefined, true),
+    body: JSON.stringify(entry)
+  });
+}
+
 export async function deleteWorkoutLog(id: string): Promise<boolean> {
   try {
     const response = await fetchWithTimeout(`/api/v1/workouts/logs/${id}`, {
@@ -239,3 +587,56 @@ export async function clearRemoteData(): Promise<boolean> {
     return false;
   }
 }
+
+export async function fetchRecipes(): Promise<Recipe[] | null> {
+  const response = await fetchJson<{ data: Recipe[] }>("/api/v1/nutrition/recipes", {
+    method: "GET"
+  });
+  return response
+    ? response.data.map(({ id, name, yieldServings, ingredients }) => ({ id, name, yieldServings, ingredients }))
+    : null;
+}
+
+export async function fetchSavedMeals(): Promise<SavedMeal[] | null> {
+  const response = await fetchJson<{ data: SavedMeal[] }>("/api/v1/nutrition/saved-meals", {
+    method: "GET"
+  });
+  return response ? response.data.map(({ id, name, items }) => ({ id, name, items })) : null;
+}
+
+/** Mirrors a recipe to the API, or removes it when `recipe` is null. */
+export async function syncRecipe(recipeId: string, recipe: Recipe | null): Promise<boolean> {
+  try {
+    const response = await fetchWithTimeout(
+      `/api/v1/nutrition/recipes/${encodeURIComponent(recipeId)}`,
+      recipe
+        ? {
+            method: "PUT",
+            headers: withAuthHeaders(undefined, true),
+            body: JSON.stringify({ name: recipe.name, yieldServings: recipe.yieldServings, ingredients: recipe.ingredients })
+          }
+        : { method: "DELETE", headers: withAuthHeaders(undefined, false) }
+    );
+    return response.ok || (!recipe && response.status === 404);
+  } catch (_error) {
+    return false;
+  }
+}
+
+export async function syncSavedMeal(mealId: string, meal: SavedMeal | null): Promise<boolean> {
+  try {
+    const response = await fetchWithTimeout(
+      `/api/v1/nutrition/saved-meals/${encodeURIComponent(mealId)}`,
+      meal
+        ? {
+            method: "PUT",
+            headers: withAuthHeaders(undefined, true),
+            body: JSON.stringify({ name: meal.name, items: meal.items })
+          }
+        : { method: "DELETE", headers: withAuthHeaders(undefined, false) }
+    );
+    return response.ok || (!meal && response.status === 404);
+  } catch (_error) {
+    return false;
+  }
+}
@@ -0,0 +1,209 @@
+import { Pressable, StyleSheet, Text, View } from "react-native";
+
+import { colors, radii, spacing } from "../theme";
+import { AdaptiveTargetState, WEEKLY_RATE_OPTIONS } from "../utils/tdee";
+
+interface AdaptiveTargetCardProps {
+  state: AdaptiveTargetState;
+  currentCalorieTarget: number;
+  weeklyRateKg: number;
+  onApply: () => void;
+  onDismiss: () => void;
+  /** Shows the rate picker; the dashboard leaves it out. */
+  onChangeRate?: (weeklyRateKg: number) => void;
+}
+
+const CONFIDENCE_LABELS = {
+  low: "Low confidence",
+  medium: "Medium confidence",
+  high: "High confidence"
+};
+
+function formatRateOption(value: number): string {
+  return value === 0 ? "Maintain" : `${value > 0 ? "+" : ""}${value} kg`;
+}
+
+export function AdaptiveTargetCard({
+  state,
+  currentCalorieTarget,
+  weeklyRateKg,
+  onApply,
+  onDismiss,
+  onChangeRate
+}: AdaptiveTargetCardProps) {
+  const { estimate, proposal } = state;
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.headerRow}>
+        <Text style={styles.title}>Adaptive Calorie Target</Text>
+        {estimate.confidence ? (
+          <Text style={styles.badge}>{CONFIDENCE_LABELS[estimate.confidence]}</Text>
+        ) : null}
+      </View>
+
+      {estimate.tdee !== null ? (
+        <Text style={styles.headline}>
+          Maintenance ≈ {estimate.tdee} kcal · target {currentCalorieTarget} kcal
+        </Text>
+      ) : (
+        <Text style={styles.headline}>Not enough data for an estimate yet.</Text>
+      )}
+      {estimate.reasons.map((reason) => (
+        <Text key={reason} style={styles.reason}>
+          • {reason}
+        </Text>
+      ))}
+
+      {onChangeRate ? (
+        <>
+          <Text style={styles.label}>Weekly weight change goal</Text>
+          <View style={styles.chipRow}>
+            {WEEKLY_RATE_OPTIONS.map((option) => (
+              <Pressable
+                key={option}
+                style={[styles.chip, weeklyRateKg === option ? styles.chipActive : undefined]}
+                onPress={() => onChangeRate(option)}
+              >
+                <Text style={[styles.chipText, weeklyRateKg === option ? styles.chipTextActive : undefined]}>
+                  {formatRateOption(option)}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        </>
+      ) : null}
+
+      {proposal ? (
+        <View style={styles.proposal}>
+          <Text style={styles.proposalTitle}>
+            Suggested: {proposal.dailyCalorieTarget} kcal ({proposal.change >= 0 ? "+" : ""}
+            {proposal.change})
+          </Text>
+          <Text style={styles.reason}>
+            Protein {proposal.proteinTargetGrams} g · Carbs {proposal.carbsTargetGrams} g · Fat {proposal.fatTargetGrams} g ·
+            Fiber {proposal.fiberTargetGrams} g
+          </Text>
+          {proposal.reasons.map((reason) => (
+            <Text key={reason} style={styles.reason}>
+              • {reason}
+            </Text>
+          ))}
+          <View style={styles.buttonRow}>
+            <Pressable style={styles.secondaryButton} onPress={onDismiss}>
+              <Text style={styles.secondaryButtonText}>Keep Current</Text>
+            </Pressable>
+            <Pressable style={styles.primaryButton} onPress={onApply}>
+              <Text style={styles.primaryButtonText}>Apply</Text>
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: colors.card,
+    borderRadius: radii.lg,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    padding: spacing.md,
+    marginBottom: spacing.md
+  },
+  headerRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    gap: spacing.sm
+  },
+  title: {
+    fontWeight: "800",
+    color: colors.inkStrong
+  },
+  badge: {
+    color: colors.accent,
+    fontWeight: "700",
+    fontSize: 12
+  },
+  headline: {
+    marginTop: spacing.xs,
+    color: colors.inkSoft,
+    fontWeight: "700"
+  },
+  reason: {
+    marginTop: 2,
+    color: colors.inkMuted,
+    fontSize: 12
+  },
+  label: {
+    marginTop: spacing.sm,
+    color: colors.inkSoft,
+    fontWeight: "700"
+  },
+  chipRow: {
+    marginTop: spacing.xs,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4
+  },
+  chipActive: {
+    backgroundColor: colors.accentSoft,
+    borderColor: colors.accent
+  },
+  chipText: {
+    color: colors.inkSoft,
+    fontWeight: "700",
+    fontSize: 12
+  },
+  chipTextActive: {
+    color: colors.accent
+  },
+  proposal: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: radii.md,
+    backgroundColor: colors.accentSoft
+  },
+  proposalTitle: {
+    color: colors.inkStrong,
+    fontWeight: "800"
+  },
+  buttonRow: {
+    marginTop: spacing.sm,
+    flexDirection: "row",
+    gap: spacing.sm
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: colors.accent,
+    borderRadius: radii.md,
+    alignItems: "center",
+    paddingVertical: spacing.sm
+  },
+  primaryButtonText: {
+    color: "#ffffff",
+    fontWeight: "700"
+  },
+  secondaryButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.md,
+    alignItems: "center",
+    paddingVertical: spacing.sm,
+    backgroundColor: colors.card
+  },
+  secondaryButtonText: {
+    color: colors.inkSoft,
+    fontWeight: "700"
+  }
+});
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { LayoutChangeEvent, StyleSheet, Text, View } from "react-native";
+
+import { colors, spacing } from "../theme";
+import { dayIndex, formatDateLabel } from "../utils/date";
+
+export interface ChartSeries {
+  key: string;
+  label: string;
+  color: string;
+  points: Array<{ date: string; value: number }>;
+  /** Joins points with a line; dots alone suit noisy raw readings. */
+  line: boolean;
+  dots: boolean;
+}
+
+interface TrendChartProps {
+  series: ChartSeries[];
+  unit: string;
+  height?: number;
+}
+
+const DOT_SIZE = 6;
+const LINE_WIDTH = 2;
+const Y_LABEL_WIDTH = 44;
+
+function formatValue(value: number): string {
+  return value >= 100 ? value.toFixed(0) : value.toFixed(1);
+}
+
+/** Plain-View line chart: x follows the calendar, so gaps between readings stay visible. */
+export function TrendChart({ series, unit, height = 160 }: TrendChartProps) {
+  const [width, setWidth] = useState(0);
+  const all = series.flatMap((entry) => entry.points);
+
+  if (!all.length) {
+    return null;
+  }
+
+  const days = all.map((point) => dayIndex(point.date));
+  const values = all.map((point) => point.value);
+  const minDay = Math.min(...days);
+  const daySpan = Math.max(1, Math.max(...days) - minDay);
+  // Pad the value range so flat stretches do not sit on the chart edges.
+  const pad = Math.max((Math.max(...values) - Math.min(...values)) * 0.1, 0.5);
+  const minValue = Math.min(...values) - pad;
+  const valueSpan = Math.max(...values) + pad - minValue;
+  const plotWidth = Math.max(0, width - Y_LABEL_WIDTH);
+
+  const toX = (date: string) => ((dayIndex(date) - minDay) / daySpan) * plotWidth;
+  const toY = (value: number) => height - ((value - minValue) / valueSpan) * height;
+  const firstDate = all.reduce((min, point) => (point.date < min ? point.date : min), all[0].date);
+  const lastDate = all.reduce((max, point) => (point.date > max ? point.date : max), all[0].date);
+
+  function onLayout(event: LayoutChangeEvent) {
+    setWidth(event.nativeEvent.layout.width);
+  }
+
+  return (
+    <View>
+      <View style={[styles.frame, { height }]} onLayout={onLayout}>
+        <View style={[styles.yLabels, { height }]}>
+          <Text style={styles.axisText}>{formatValue(minValue + valueSpan)}</Text>
+          <Text style={styles.axisText}>{formatValue(minValue)}</Text>
+        </View>
+        <View style={[styles.plot, { height }]}>
+          {plotWidth > 0
+            ? series.map((entry) => {
+                const coords = entry.points.map((point) => ({ x: toX(point.date), y: toY(point.value) }));
+                return (
+                  <View key={entry.key} style={StyleSheet.absoluteFill} pointerEvents="none">
+                    {entry.line
+                      ? coords.slice(1).map((end, index) => {
+                          const start = coords[index];
+                          const length = Math.hypot(end.x - start.x, end.y - start.y);
+                          return (
+                            <View
+                              key={`l${index}`}
+                              style={[
+                                styles.segment,
+                                {
+                                  width: length,
+                                  left: (start.x + end.x) / 2 - length / 2,
+                                  top: (start.y + end.y) / 2 - LINE_WIDTH / 2,
+                                  backgroundColor: entry.color,
+                                  transform: [{ rotate: `${Math.atan2(end.y - start.y, end.x - start.x)}rad` }]
+                                }
+                              ]}
+                            />
+                          );
+                        })
+                      : null}
+                    {entry.dots
+                      ? coords.map((point, index) => (
+                          <View
+                            key={`d${index}`}
+                            style={[
+                              styles.dot,
+                              { left: point.x - DOT_SIZE / 2, top: point.y - DOT_SIZE / 2, backgroundColor: entry.color }
+                            ]}
+                          />
+                        ))
+                      : null}
+                  </View>
+                );
+              })
+            : null}
+        </View>
+      </View>
+      <View style={styles.xLabels}>
+        <Text style={styles.axisText}>{formatDateLabel(firstDate)}</Text>
+        <Text style={styles.axisText}>{unit}</Text>
+        <Text style={styles.axisText}>{formatDateLabel(lastDate)}</Text>
+      </View>
+      <View style={styles.legend}>
+        {series.map((entry) => (
+          <View key={entry.key} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: entry.color }]} />
+            <Text style={styles.axisText}>{entry.label}</Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  frame: {
+    marginTop: spacing.sm,
+    flexDirection: "row"
+  },
+  yLabels: {
+    width: Y_LABEL_WIDTH,
+    justifyContent: "space-between"
+  },
+  plot: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: colors.cardBorder
+  },
+  segment: {
+    position: "absolute",
+    height: LINE_WIDTH,
+    borderRadius: LINE_WIDTH / 2
+  },
+  dot: {
+    position: "absolute",
+    width: DOT_SIZE,
+    height: DOT_SIZE,
+    borderRadius: DOT_SIZE / 2
+  },
+  axisText: {
+    color: colors.inkMuted,
+    fontSize: 11
+  },
+  xLabels: {
+    marginTop: 4,
+    marginLeft: Y_LABEL_WIDTH,
+    flexDirection: "row",
+    justifyContent: "space-between"
+  },
+  legend: {
+    marginTop: spacing.xs,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5
+  }
+});
@@ -1,4 +1,4 @@
-import { FitnessGoal, WorkoutType } from "./types";
+import { ActivityLevel, FitnessGoal, Sex, WorkoutType } from "./types";
 
 export const GOAL_LABELS: Record<FitnessGoal, string> = {
   lose_weight: "Lose Weight",
@@ -6,6 +6,27 @@ export const GOAL_LABELS: Record<FitnessGoal, string> = {
   maintain: "Maintain"
 };
 
+export const SEX_LABELS: Record<Sex, string> = {
+  male: "Male",
+  female: "Female"
+};
+
+export const ACTIVITY_LABELS: Record<ActivityLevel, string> = {
+  sedentary: "Sedentary",
+  light: "Light",
+  moderate: "Moderate",
+  active: "Active",
+  very_active: "Very Active"
+};
+
+export const ACTIVITY_DESCRIPTIONS: Record<ActivityLevel, string> = {
+  sedentary: "Desk job, little exercise",
+  light: "Training 1-3 days a week",
+  moderate: "Training 3-5 days a week",
+  active: "Hard training 6-7 days a week",
+  very_active: "Physical job plus daily training"
+};
+
 export const WORKOUT_TYPE_LABELS: Record<WorkoutType, string> = {
   strength: "Strength",
   cardio: "Cardio",
@@ -1,11 +1,20 @@
 import { useEffect, useState } from "react";
 import { Alert, Pressable, ScrollView, StyleSheet, Switch, Text, TextInput, View } from "react-native";
 
-import { GOAL_LABELS } from "../constants";
+import { ACTIVITY_DESCRIPTIONS, ACTIVITY_LABELS, GOAL_LABELS, SEX_LABELS } from "../constants";
 import { colors, radii, spacing } from "../theme";
-import { AppSettings, FitnessGoal, UserProfile } from "../types";
+import {
+  ActivityLevel,
+  AppSettings,
+  AuthDeviceSession,
+  FitnessGoal,
+  Sex,
+  SyncConflict,
+  SyncConflictChoice,
+  UserProfile
+} from "../types";
 import { formatDateLabel } from "../utils/date";
-import { calculateTargets } from "../utils/targets";
+import { ACTIVITY_LEVELS, calculateNutritionTargets } from "../utils/targets";
 
 interface AccountScreenProps {
   profile: UserProfile;
@@ -17,17 +26,53 @@ interface AccountScreenProps {
     nutrition: number;
     progress: number;
     profile: boolean;
+    program: boolean;
+    foods: number;
+    conflicts: number;
     lastSuccessfulSyncAt: string | null;
   };
+  conflicts: SyncConflict[];
   syncing: boolean;
   reminderSettings: Pick<AppSettings, "dailyReminderEnabled" | "dailyReminderTime">;
   onSaveProfile: (profile: UserProfile) => Promise<void>;
   onSaveReminderSettings: (settings: { enabled: boolean; time: string }) => Promise<void>;
   onLogout: () => Promise<void>;
+  /** Guest mode only: go to sign-in while keeping this device's data. */
+  onSignIn: () => void;
+  onLoadSessions: () => Promise<AuthDeviceSession[] | null>;
+  onSignOutOtherDevices: () => Promise<number | null>;
+  onChangePassword: (currentPassword: string, newPassword: string) => Promise<{ ok: boolean; message?: string }>;
+  onExportData: () => Promise<boolean>;
+  onDeleteAccount: (password: string) => Promise<{ ok: boolean; message?: string }>;
   onSyncNow: () => void;
+  onResolveConflict: (conflict: SyncConflict, choice: SyncConflictChoice) => void;
   onResetAllData: () => void;
 }
 
+const CONFLICT_ENTITY_LABELS: Record<SyncConflict["entity"], string> = {
+  workout: "Workout",
+  nutrition: "Nutrition",
+  progress: "Progress"
+};
+
+function describeConflictVersion(conflict: SyncConflict, side: SyncConflictChoice): string {
+  if (!conflict[side]) {
+    return "Deleted on another device";
+  }
+  if (conflict.entity === "workout") {
+    const workout = conflict[side];
+    const notes = workout.notes ? ` - ${workout.notes}` : "";
+    return `${workout.durationMinutes} min, ${workout.exerciseEntries.length} exercises${notes}`;
+  }
+  if (conflict.entity === "nutrition") {
+    const log = conflict[side];
+    return `${Math.round(log.calories)} kcal, ${Math.round(log.protein)} g protein, ${log.waterLiters} L water`;
+  }
+  const entry = conflict[side];
+  const bodyFat = entry.bodyFatPct !== undefined ? `, ${entry.bodyFatPct}% body fat` : "";
+  return `${entry.weightKg} kg${bodyFat}`;
+}
+
 function toDateLabel(iso: string | null): string {
   if (!iso) {
     return "Never";
@@ -40,12 +85,20 @@ export function AccountScreen({
   authEmail,
   isGuestMode,
   pendingSummary,
+  conflicts,
   syncing,
   reminderSettings,
   onSaveProfile,
   onSaveReminderSettings,
   onLogout,
+  onSignIn,
+  onLoadSessions,
+  onSignOutOtherDevices,
+  onChangePassword,
+  onExportData,
+  onDeleteAccount,
   onSyncNow,
+  onResolveConflict,
   onResetAllData
 }: AccountScreenProps) {
   const [name, setName] = useState(profile.name);
@@ -54,7 +107,14 @@ export function AccountScreen({
   const [weightText, setWeightText] = useState(String(profile.currentWeightKg));
   const [dailyCaloriesText, setDailyCaloriesText] = useState(String(profile.dailyCalorieTarget));
   const [proteinText, setProteinText] = useState(String(profile.proteinTargetGrams));
+  const [carbsText, setCarbsText] = useState(String(profile.carbsTargetGrams));
+  const [fatText, setFatText] = useState(String(profile.fatTargetGrams));
+  const [fiberText, setFiberText] = useState(String(profile.fiberTargetGrams));
+  const [waterText, setWaterText] = useState(String(profile.waterTargetLiters));
+  const [weeklyRateText, setWeeklyRateText] = useState(String(profile.weeklyRateKg));
   const [goal, setGoal] = useState<FitnessGoal>(profile.goal);
+  const [sex, setSex] = useState<Sex | undefined>(profile.sex);
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>(profile.activityLevel);
   const [error, setError] = useState<string | null>(null);
   const [saving, setSaving] = useState(false);
   const [reminderEnabled, setReminderEnabled] = useState(reminderSettings.dailyReminderEnabled);
@@ -62,6 +122,20 @@ export function AccountScreen({
   const [reminderError, setReminderError] = useState<string | null>(null);
   const [savingReminder, setSavingReminder] = useState(false);
   const [loggingOut, setLoggingOut] = useState(false);
+  const [sessions, setSessions] = useState<AuthDeviceSession[] | null>(null);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [revokingSessions, setRevokingSessions] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmNewPassword, setConfirmNewPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [passwordNotice, setPasswordNotice] = useState<string | null>(null);
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [deletingAccount, setDeletingAccount] = useState(false);
 
   useEffect(() => {
     setName(profile.name);
@@ -70,23 +144,65 @@ export function AccountScreen({
     setWeightText(String(profile.currentWeightKg));
     setDailyCaloriesText(String(profile.dailyCalorieTarget));
     setProteinText(String(profile.proteinTargetGrams));
+    setCarbsText(String(profile.carbsTargetGrams));
+    setFatText(String(profile.fatTargetGrams));
+    setFiberText(String(profile.fiberTargetGrams));
+    setWaterText(String(profile.waterTargetLiters));
+    setWeeklyRateText(String(profile.weeklyRateKg));
     setGoal(profile.goal);
+    setSex(profile.sex);
+    setActivityLevel(profile.activityLevel);
   }, [profile]);
 
+  useEffect(() => {
+    if (isGuestMode) {
+      return;
+    }
+
+    let active = true;
+    void onLoadSessions().then((result) => {
+      if (active) {
+        setSessions(result);
+        setSessionsError(result ? null : "Could not load signed-in devices.");
+      }
+    });
+
+    return () => {
+      active = false;
+    };
+  }, [isGuestMode]);
+
   useEffect(() => {
     setReminderEnabled(reminderSettings.dailyReminderEnabled);
     setReminderTimeText(reminderSettings.dailyReminderTime);
   }, [reminderSettings]);
 
   function autoCalculateTargets() {
+    const age = Number(ageText);
+    const heightCm = Number(heightText);
     const weightKg = Number(weightText);
-    if (!Number.isFinite(weightKg) || weightKg < 35 || weightKg > 220) {
-      setError("Enter a valid weight first to auto-calculate targets.");
+    const weeklyRateKg = Number(weeklyRateText);
+    if (
+      !Number.isFinite(age) ||
+      !Number.isFinite(heightCm) ||
+      !Number.isFinite(weightKg) ||
+      weightKg < 35 ||
+      weightKg > 220
+    ) {
+      setError("Enter a valid age, height and weight first to auto-calculate targets.");
       return;
     }
-    const targets = calculateTargets(goal, weightKg);
+    if (!Number.isFinite(weeklyRateKg) || weeklyRateKg < -1.5 || weeklyRateKg > 1) {
+      setError("Weekly rate must be between -1.5 and 1 kg.");
+      return;
+    }
+    const targets = calculateNutritionTargets({ goal, sex, age, heightCm, weightKg, activityLevel, weeklyRateKg });
     setDailyCaloriesText(String(targets.dailyCalorieTarget));
     setProteinText(String(targets.proteinTargetGrams));
+    setCarbsText(String(targets.carbsTargetGrams));
+    setFatText(String(targets.fatTargetGrams));
+    setFiberText(String(targets.fiberTargetGrams));
+    setWaterText(String(targets.waterTargetLiters));
     setError(null);
   }
 
@@ -96,6 +212,11 @@ export function AccountScreen({
     const weightKg = Number(weightText);
     const dailyCalorieTarget = Number(dailyCaloriesText);
     const proteinTargetGrams = Number(proteinText);
+    const carbsTargetGrams = Number(carbsText);
+    const fatTargetGrams = Number(fatText);
+    const fiberTargetGrams = Number(fiberText);
+    const waterTargetLiters = Number(waterText);
+    const weeklyRateKg = Number(weeklyRateText);
 
     if (!name.trim()) {
       setError("Name is required.");
@@ -121,6 +242,26 @@ export function AccountScreen({
       setError("Protein target must be between 40g and 300g.");
       return;
     }
+    if (!Number.isInteger(carbsTargetGrams) || carbsTargetGrams < 0 || carbsTargetGrams > 1500) {
+      setError("Carb target must be a whole number up to 1500g.");
+      return;
+    }
+    if (!Number.isInteger(fatTargetGrams) || fatTargetGrams < 0 || fatTargetGrams > 500) {
+      setError("Fat target must be a whole number up to 500g.");
+      return;
+    }
+    if (!Number.isInteger(fiberTargetGrams) || fiberTargetGrams < 0 || fiberTargetGrams > 150) {
+      setError("Fiber target must be a whole number up to 150g.");
+      return;
+    }
+    if (!Number.isFinite(waterTargetLiters) || waterTargetLiters <= 0 || waterTargetLiters > 10) {
+      setError("Water target must be between 0 and 10 L.");
+      return;
+    }
+    if (!Number.isFinite(weeklyRateKg) || weeklyRateKg < -1.5 || weeklyRateKg > 1) {
+      setError("Weekly rate must be between -1.5 and 1 kg.");
+      return;
+    }
 
     setSaving(true);
     setError(null);
@@ -132,8 +273,15 @@ export function AccountScreen({
         heightCm,
         currentWeightKg: weightKg,
         goal,
+        sex,
+        activityLevel,
+        weeklyRateKg,
         dailyCalorieTarget,
-        proteinTargetGrams
+        proteinTargetGrams,
+        carbsTargetGrams,
+        fatTargetGrams,
+        fiberTargetGrams,
+        waterTargetLiters
       });
     } catch (_error) {
       setError("Could not save profile right now.");
@@ -159,6 +307,89 @@ export function AccountScreen({
     }
   }
 
+  async function submitPasswordChange() {
+    setPasswordNotice(null);
+    if (!currentPassword) {
+      setPasswordError("Enter your current password.");
+      return;
+    }
+    if (newPassword.length < 6) {
+      setPasswordError("New password must be at least 6 characters.");
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      setPasswordError("New passwords do not match.");
+      return;
+    }
+
+    setChangingPassword(true);
+    setPasswordError(null);
+    try {
+      const result = await onChangePassword(currentPassword, newPassword);
+      if (!result.ok) {
+        setPasswordError(result.message ?? "Could not change your password.");
+        return;
+      }
+
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmNewPassword("");
+      setPasswordNotice("Password updated. Other devices have been signed out.");
+      setSessions((prev) => prev?.filter((session) => session.current) ?? prev);
+    } finally {
+      setChangingPassword(false);
+    }
+  }
+
+  function exportData() {
+    setExporting(true);
+    setExportError(null);
+    void onExportData()
+      .then((exported) => {
+        if (!exported) {
+          setExportError("Could not export your data right now.");
+        }
+      })
+      .catch(() => {
+        setExportError("Could not share the export.");
+      })
+      .finally(() => {
+        setExporting(false);
+      });
+  }
+
+  function requestDeleteAccount() {
+    if (!deletePassword) {
+      setDeleteError("Enter your password to confirm.");
+      return;
+    }
+
+    Alert.alert(
+      "Delete account",
+      "This permanently deletes your account and all synced data. It cannot be undone.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: () => {
+            setDeletingAccount(true);
+            setDeleteError(null);
+            void onDeleteAccount(deletePassword)
+              .then((result) => {
+                if (!result.ok) {
+                  setDeleteError(result.message ?? "Could not delete your account.");
+                }
+              })
+              .finally(() => {
+                setDeletingAccount(false);
+              });
+          }
+        }
+      ]
+    );
+  }
+
   function requestReset() {
     Alert.alert(
       "Reset all data",
@@ -194,6 +425,37 @@ export function AccountScreen({
     );
   }
 
+  function requestSignOutOtherDevices() {
+    Alert.alert(
+      "Sign out other devices",
+      "Every other device signed in to this account will need to sign in again.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign out others",
+          style: "destructive",
+          onPress: () => {
+            setRevokingSessions(true);
+            void onSignOutOtherDevices()
+              .then((revokedCount) => {
+                if (revokedCount === null) {
+                  setSessionsError("Could not sign out other devices right now.");
+                  return;
+                }
+                setSessionsError(null);
+                setSessions((prev) => prev?.filter((session) => session.current) ?? prev);
+              })
+              .finally(() => {
+                setRevokingSessions(false);
+              });
+          }
+        }
+      ]
+    );
+  }
+
+  const hasOtherSessions = sessions?.some((session) => !session.current) ?? false;
+
   return (
     <ScrollView contentContainerStyle={styles.scrollContent}>
       <Text style={styles.title}>Account</Text>
@@ -202,6 +464,46 @@ export function AccountScreen({
       <View style={styles.authCard}>
         <Text style={styles.authLabel}>Signed in as</Text>
         <Text style={styles.authValue}>{isGuestMode ? "Offline mode" : authEmail ?? "Unknown user"}</Text>
+        {!isGuestMode ? (
+          <>
+            <Text style={[styles.authLabel, styles.devicesLabel]}>Signed-in devices</Text>
+            {sessions === null && !sessionsError ? <Text style={styles.deviceMeta}>Loading devices...</Text> : null}
+            {sessions?.map((session) => (
+              <View key={session.id} style={styles.deviceRow}>
+                <Text style={styles.deviceName}>
+                  {session.deviceName ?? "Unknown device"}
+                  {session.current ? " (this device)" : ""}
+                </Text>
+                <Text style={styles.deviceMeta}>Last active: {toDateLabel(session.lastActiveAt)}</Text>
+              </View>
+            ))}
+            {sessionsError ? <Text style={styles.errorText}>{sessionsError}</Text> : null}
+            {hasOtherSessions ? (
+              <Pressable
+                style={styles.secondaryButton}
+                onPress={requestSignOutOtherDevices}
+                disabled={revokingSessions}
+              >
+                <Text style={styles.secondaryButtonText}>
+                  {revokingSessions ? "Signing out..." : "Sign Out Other Devices"}
+                </Text>
+              </Pressable>
+            ) : null}
+          </>
+        ) : null}
+        {isGuestMode ? (
+          <Pressable style={styles.secondaryButton} onPress={onSignIn}>
+            <Text style={styles.secondaryButtonText}>Create Account or Sign In</Text>
+          </Pressable>
+        ) : null}
+        {!isGuestMode ? (
+          <>
+            <Pressable style={styles.secondaryButton} onPress={exportData} disabled={exporting}>
+              <Text style={styles.secondaryButtonText}>{exporting ? "Preparing export..." : "Export My Data"}</Text>
+            </Pressable>
+            {exportError ? <Text style={styles.errorText}>{exportError}</Text> : null}
+          </>
+        ) : null}
         <Pressable style={styles.logoutButton} onPress={requestLogout} disabled={loggingOut}>
           <Text style={styles.logoutText}>{loggingOut ? "Signing out..." : "Sign Out"}</Text>
         </Pressable>
@@ -213,8 +515,30 @@ export function AccountScreen({
         <Text style={styles.syncLine}>Workouts: {pendingSummary.workouts}</Text>
         <Text style={styles.syncLine}>Nutrition: {pendingSummary.nutrition}</Text>
         <Text style={styles.syncLine}>Progress: {pendingSummary.progress}</Text>
+        <Text style={styles.syncLine}>Foods, recipes and meals: {pendingSummary.foods}</Text>
         <Text style={styles.syncLine}>Profile: {pendingSummary.profile ? "Pending" : "Synced"}</Text>
+        <Text style={styles.syncLine}>Program: {pendingSummary.program ? "Pending" : "Synced"}</Text>
         <Text style={styles.syncLine}>Last success: {toDateLabel(pendingSummary.lastSuccessfulSyncAt)}</Text>
+        {conflicts.length > 0 ? (
+          <Text style={styles.syncLine}>Conflicts: {pendingSummary.conflicts} need a decision</Text>
+        ) : null}
+        {conflicts.map((conflict) => (
+          <View key={`${conflict.entity}:${conflict.key}`} style={styles.conflictRow}>
+            <Text style={styles.conflictTitle}>
+              {CONFLICT_ENTITY_LABELS[conflict.entity]} · {formatDateLabel(conflict.local.date)}
+            </Text>
+            <Text style={styles.conflictLine}>This device: {describeConflictVersion(conflict, "local")}</Text>
+            <Text style={styles.conflictLine}>Server: {describeConflictVersion(conflict, "remote")}</Text>
+            <View style={styles.conflictActions}>
+              <Pressable style={styles.conflictButton} onPress={() => onResolveConflict(conflict, "local")}>
+                <Text style={styles.conflictButtonText}>Keep This Device</Text>
+              </Pressable>
+              <Pressable style={styles.conflictButton} onPress={() => onResolveConflict(conflict, "remote")}>
+                <Text style={styles.conflictButtonText}>Keep Server</Text>
+              </Pressable>
+            </View>
+          </View>
+        ))}
         <Pressable style={styles.syncButton} onPress={onSyncNow} disabled={syncing}>
           <Text style={styles.syncButtonText}>{syncing ? "Syncing..." : "Sync Now"}</Text>
         </Pressable>
@@ -251,6 +575,51 @@ export function AccountScreen({
           })}
         </View>
 
+        <Text style={styles.fieldLabel}>Sex</Text>
+        <View style={styles.goalGroup}>
+          {(Object.keys(SEX_LABELS) as Sex[]).map((sexKey) => {
+            const active = sex === sexKey;
+            return (
+              <Pressable
+                key={sexKey}
+                style={[styles.goalButton, active ? styles.goalButtonActive : undefined]}
+                onPress={() => setSex(sexKey)}
+              >
+                <Text style={[styles.goalButtonText, active ? styles.goalButtonTextActive : undefined]}>
+                  {SEX_LABELS[sexKey]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.fieldLabel}>Activity Level</Text>
+        <View style={styles.goalGroup}>
+          {ACTIVITY_LEVELS.map((level) => {
+            const active = activityLevel === level;
+            return (
+              <Pressable
+                key={level}
+                style={[styles.goalButton, active ? styles.goalButtonActive : undefined]}
+                onPress={() => setActivityLevel(level)}
+              >
+                <Text style={[styles.goalButtonText, active ? styles.goalButtonTextActive : undefined]}>
+                  {ACTIVITY_LABELS[level]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={styles.fieldHint}>{ACTIVITY_DESCRIPTIONS[activityLevel]}</Text>
+
+        <Text style={styles.fieldLabel}>Weekly Weight Change (kg, negative to lose)</Text>
+        <TextInput
+          value={weeklyRateText}
+          onChangeText={setWeeklyRateText}
+          style={styles.input}
+          keyboardType="numbers-and-punctuation"
+        />
+
         <Text style={styles.fieldLabel}>Daily Calories</Text>
         <TextInput
           value={dailyCaloriesText}
@@ -262,6 +631,18 @@ export function AccountScreen({
         <Text style={styles.fieldLabel}>Protein Target (g)</Text>
         <TextInput value={proteinText} onChangeText={setProteinText} style={styles.input} keyboardType="numeric" />
 
+        <Text style={styles.fieldLabel}>Carb Target (g)</Text>
+        <TextInput value={carbsText} onChangeText={setCarbsText} style={styles.input} keyboardType="numeric" />
+
+        <Text style={styles.fieldLabel}>Fat Target (g)</Text>
+        <TextInput value={fatText} onChangeText={setFatText} style={styles.input} keyboardType="numeric" />
+
+        <Text style={styles.fieldLabel}>Fiber Target (g)</Text>
+        <TextInput value={fiberText} onChangeText={setFiberText} style={styles.input} keyboardType="numeric" />
+
+        <Text style={styles.fieldLabel}>Water Target (L)</Text>
+        <TextInput value={waterText} onChangeText={setWaterText} style={styles.input} keyboardType="decimal-pad" />
+
         <Pressable style={styles.secondaryButton} onPress={autoCalculateTargets}>
           <Text style={styles.secondaryButtonText}>Auto-calculate targets</Text>
         </Pressable>
@@ -304,6 +685,76 @@ export function AccountScreen({
         </Pressable>
       </View>
 
+      {!isGuestMode ? (
+        <View style={styles.reminderCard}>
+          <Text style={styles.reminderTitle}>Change Password</Text>
+          <Text style={styles.reminderSubtitle}>Every other signed-in device will be signed out.</Text>
+
+          <Text style={styles.fieldLabel}>Current Password</Text>
+          <TextInput
+            value={currentPassword}
+            onChangeText={setCurrentPassword}
+            style={styles.input}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          <Text style={styles.fieldLabel}>New Password</Text>
+          <TextInput
+            value={newPassword}
+            onChangeText={setNewPassword}
+            style={styles.input}
+            placeholder="At least 6 characters"
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          <Text style={styles.fieldLabel}>Confirm New Password</Text>
+          <TextInput
+            value={confirmNewPassword}
+            onChangeText={setConfirmNewPassword}
+            style={styles.input}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+          {passwordNotice ? <Text style={styles.noticeText}>{passwordNotice}</Text> : null}
+
+          <Pressable style={styles.secondaryButton} onPress={submitPasswordChange} disabled={changingPassword}>
+            <Text style={styles.secondaryButtonText}>{changingPassword ? "Updating..." : "Update Password"}</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
+      {!isGuestMode ? (
+        <View style={styles.reminderCard}>
+          <Text style={styles.reminderTitle}>Delete Account</Text>
+          <Text style={styles.reminderSubtitle}>
+            Removes your login, signed-in devices and every synced workout, meal and check-in.
+          </Text>
+
+          <Text style={styles.fieldLabel}>Password</Text>
+          <TextInput
+            value={deletePassword}
+            onChangeText={setDeletePassword}
+            style={styles.input}
+            autoCapitalize="none"
+            autoCorrect={false}
+            secureTextEntry
+          />
+
+          {deleteError ? <Text style={styles.errorText}>{deleteError}</Text> : null}
+
+          <Pressable style={styles.resetButton} onPress={requestDeleteAccount} disabled={deletingAccount}>
+            <Text style={styles.resetText}>{deletingAccount ? "Deleting..." : "Delete Account"}</Text>
+          </Pressable>
+        </View>
+      ) : null}
+
       <Pressable style={styles.resetButton} onPress={requestReset}>
         <Text style={styles.resetText}>Reset All Data</Text>
       </Pressable>
@@ -333,6 +784,24 @@ const styles = StyleSheet.create({
     fontWeight: "800",
     marginTop: spacing.xs
   },
+  devicesLabel: {
+    marginTop: spacing.md
+  },
+  deviceRow: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.cardBorder
+  },
+  deviceName: {
+    color: colors.inkStrong,
+    fontWeight: "700"
+  },
+  deviceMeta: {
+    color: colors.inkMuted,
+    marginTop: 2,
+    fontSize: 12
+  },
   logoutButton: {
     marginTop: spacing.sm,
     borderRadius: radii.md,
@@ -411,6 +880,39 @@ const styles = StyleSheet.create({
     color: "#ffffff",
     fontWeight: "700"
   },
+  conflictRow: {
+    marginTop: spacing.sm,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: "#f1d88f"
+  },
+  conflictTitle: {
+    color: colors.warning,
+    fontWeight: "700"
+  },
+  conflictLine: {
+    color: colors.warning,
+    marginTop: 2,
+    fontSize: 12
+  },
+  conflictActions: {
+    flexDirection: "row",
+    gap: spacing.xs,
+    marginTop: spacing.xs
+  },
+  conflictButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.warning,
+    borderRadius: radii.md,
+    alignItems: "center",
+    paddingVertical: spacing.xs
+  },
+  conflictButtonText: {
+    color: colors.warning,
+    fontWeight: "700",
+    fontSize: 12
+  },
   card: {
     backgroundColor: colors.card,
     borderWidth: 1,
@@ -433,6 +935,11 @@ const styles = StyleSheet.create({
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm
   },
+  fieldHint: {
+    marginTop: spacing.xs,
+    color: colors.inkMuted,
+    fontSize: 12
+  },
   goalGroup: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -474,6 +981,11 @@ const styles = StyleSheet.create({
     color: colors.danger,
     fontWeight: "600"
   },
+  noticeText: {
+    marginTop: spacing.sm,
+    color: colors.accent,
+    fontWeight: "600"
+  },
   primaryButton: {
     marginTop: spacing.md,
     backgroundColor: colors.accent,
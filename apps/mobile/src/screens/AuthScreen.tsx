@@ -1,28 +1,146 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
 
 import { colors, radii, spacing } from "../theme";
+import { GuestDataChoice, GuestDataSummary } from "../types";
 
 interface AuthResult {
   ok: boolean;
   message?: string;
+  /** Set when the server is throttling login attempts. */
+  retryAfterSeconds?: number;
 }
 
 interface AuthScreenProps {
-  onLogin: (email: string, password: string) => Promise<AuthResult>;
-  onRegister: (email: string, password: string) => Promise<AuthResult>;
+  /** Offline data already on this device, which the user decides what to do with. */
+  guestData: GuestDataSummary | null;
+  onLogin: (email: string, password: string, guestChoice: GuestDataChoice) => Promise<AuthResult>;
+  onRegister: (email: string, password: string, guestChoice: GuestDataChoice) => Promise<AuthResult>;
+  onRequestPasswordReset: (email: string) => Promise<AuthResult>;
+  onConfirmPasswordReset: (token: string, newPassword: string) => Promise<AuthResult>;
   onContinueGuest: () => void;
 }
 
-type AuthMode = "login" | "register";
+type AuthMode = "login" | "register" | "resetRequest" | "resetConfirm";
 
-export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenProps) {
+const GUEST_CHOICES: Array<{ value: GuestDataChoice; label: string; hint: string }> = [
+  { value: "merge", label: "Merge", hint: "Add it to your account. Anything the account already has stays as it is." },
+  { value: "discard", label: "Discard", hint: "Delete it and start from what the account has." },
+  { value: "keep", label: "Keep Separate", hint: "Set it aside. Continue in offline mode later to get it back." }
+];
+
+function describeGuestData(summary: GuestDataSummary): string {
+  const parts = [
+    summary.hasProfile ? "a profile" : null,
+    summary.workouts ? `${summary.workouts} workout${summary.workouts === 1 ? "" : "s"}` : null,
+    summary.nutritionDays ? `${summary.nutritionDays} nutrition day${summary.nutritionDays === 1 ? "" : "s"}` : null,
+    summary.progressEntries
+      ? `${summary.progressEntries} progress entr${summary.progressEntries === 1 ? "y" : "ies"}`
+      : null,
+    summary.customFoods ? `${summary.customFoods} custom food${summary.customFoods === 1 ? "" : "s"}` : null,
+    summary.recipes ? `${summary.recipes} recipe${summary.recipes === 1 ? "" : "s"}` : null,
+    summary.savedMeals ? `${summary.savedMeals} saved meal${summary.savedMeals === 1 ? "" : "s"}` : null,
+    summary.hasProgram ? "a training program" : null
+  ].filter((part): part is string => part !== null);
+  return parts.join(", ");
+}
+
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, "0");
+  return `${minutes}:${seconds}`;
+}
+
+export function AuthScreen({
+  guestData,
+  onLogin,
+  onRegister,
+  onRequestPasswordReset,
+  onConfirmPasswordReset,
+  onContinueGuest
+}: AuthScreenProps) {
   const [mode, setMode] = useState<AuthMode>("login");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
+  const [resetCode, setResetCode] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
+  const [guestChoice, setGuestChoice] = useState<GuestDataChoice>("merge");
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [nowMs, setNowMs] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (lockedUntil === null) {
+      return;
+    }
+
+    const interval = setInterval(() => {
+      const current = Date.now();
+      setNowMs(current);
+      if (current >= lockedUntil) {
+        setLockedUntil(null);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [lockedUntil]);
+
+  const resetting = mode === "resetRequest" || mode === "resetConfirm";
+  const lockedSeconds = lockedUntil === null ? 0 : Math.max(0, Math.ceil((lockedUntil - nowMs) / 1000));
+  const loginLocked = mode === "login" && lockedSeconds > 0;
+
+  function startLockout(retryAfterSeconds: number) {
+    const current = Date.now();
+    setNowMs(current);
+    setLockedUntil(current + retryAfterSeconds * 1000);
+  }
+
+  function switchMode(next: AuthMode) {
+    setMode(next);
+    setError(null);
+    setNotice(null);
+    if (next !== "login" && next !== "register") {
+      setPassword("");
+      setConfirmPassword("");
+    }
+  }
+
+  async function submitResetRequest(normalizedEmail: string) {
+    const result = await onRequestPasswordReset(normalizedEmail);
+    if (!result.ok) {
+      setError(result.message ?? "Could not send a reset code.");
+      return;
+    }
+
+    switchMode("resetConfirm");
+    setResetCode("");
+    setNotice(`If ${normalizedEmail} has an account, a reset code is on its way.`);
+  }
+
+  async function submitResetConfirm(normalizedEmail: string) {
+    const token = resetCode.trim();
+    if (!token) {
+      setError("Enter the code from the reset email.");
+      return;
+    }
+
+    const result = await onConfirmPasswordReset(token, password);
+    if (!result.ok) {
+      setError(result.message ?? "Could not reset your password.");
+      return;
+    }
+
+    const login = await onLogin(normalizedEmail, password, guestChoice);
+    if (!login.ok) {
+      switchMode("login");
+      setNotice("Password reset. Sign in with your new password.");
+      if (login.retryAfterSeconds) {
+        startLockout(login.retryAfterSeconds);
+      }
+    }
+  }
 
   async function submit() {
     const normalizedEmail = email.trim().toLowerCase();
@@ -31,12 +149,23 @@ export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenP
       return;
     }
 
+    if (mode === "resetRequest") {
+      setSubmitting(true);
+      setError(null);
+      try {
+        await submitResetRequest(normalizedEmail);
+      } finally {
+        setSubmitting(false);
+      }
+      return;
+    }
+
     if (password.length < 6) {
       setError("Password must be at least 6 characters.");
       return;
     }
 
-    if (mode === "register" && password !== confirmPassword) {
+    if ((mode === "register" || mode === "resetConfirm") && password !== confirmPassword) {
       setError("Passwords do not match.");
       return;
     }
@@ -44,12 +173,19 @@ export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenP
     setSubmitting(true);
     setError(null);
     try {
+      if (mode === "resetConfirm") {
+        await submitResetConfirm(normalizedEmail);
+        return;
+      }
+
       const result =
         mode === "register"
-          ? await onRegister(normalizedEmail, password)
-          : await onLogin(normalizedEmail, password);
+          ? await onRegister(normalizedEmail, password, guestChoice)
+          : await onLogin(normalizedEmail, password, guestChoice);
 
-      if (!result.ok) {
+      if (result.retryAfterSeconds) {
+        startLockout(result.retryAfterSeconds);
+      } else if (!result.ok) {
         setError(result.message ?? "Authentication failed.");
       }
     } catch (_error) {
@@ -70,24 +206,35 @@ export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenP
       </View>
 
       <View style={styles.card}>
-        <View style={styles.modeRow}>
-          <Pressable
-            style={[styles.modeButton, mode === "login" ? styles.modeButtonActive : undefined]}
-            onPress={() => setMode("login")}
-          >
-            <Text style={[styles.modeButtonText, mode === "login" ? styles.modeButtonTextActive : undefined]}>
-              Login
-            </Text>
-          </Pressable>
-          <Pressable
-            style={[styles.modeButton, mode === "register" ? styles.modeButtonActive : undefined]}
-            onPress={() => setMode("register")}
-          >
-            <Text style={[styles.modeButtonText, mode === "register" ? styles.modeButtonTextActive : undefined]}>
-              Register
+        {resetting ? (
+          <>
+            <Text style={styles.cardTitle}>Reset Password</Text>
+            <Text style={styles.cardHint}>
+              {mode === "resetRequest"
+                ? "We'll email you a one-time code to choose a new password."
+                : "Enter the code from the email and pick a new password."}
             </Text>
-          </Pressable>
-        </View>
+          </>
+        ) : (
+          <View style={styles.modeRow}>
+            <Pressable
+              style={[styles.modeButton, mode === "login" ? styles.modeButtonActive : undefined]}
+              onPress={() => switchMode("login")}
+            >
+              <Text style={[styles.modeButtonText, mode === "login" ? styles.modeButtonTextActive : undefined]}>
+                Login
+              </Text>
+            </Pressable>
+            <Pressable
+              style={[styles.modeButton, mode === "register" ? styles.modeButtonActive : undefined]}
+              onPress={() => switchMode("register")}
+            >
+              <Text style={[styles.modeButtonText, mode === "register" ? styles.modeButtonTextActive : undefined]}>
+                Register
+              </Text>
+            </Pressable>
+          </View>
+        )}
 
         <Text style={styles.fieldLabel}>Email</Text>
         <TextInput
@@ -98,20 +245,39 @@ export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenP
           autoCapitalize="none"
           keyboardType="email-address"
           autoCorrect={false}
+          editable={mode !== "resetConfirm"}
         />
 
-        <Text style={styles.fieldLabel}>Password</Text>
-        <TextInput
-          value={password}
-          onChangeText={setPassword}
-          style={styles.input}
-          placeholder="At least 6 characters"
-          autoCapitalize="none"
-          autoCorrect={false}
-          secureTextEntry
-        />
+        {mode === "resetConfirm" ? (
+          <>
+            <Text style={styles.fieldLabel}>Reset Code</Text>
+            <TextInput
+              value={resetCode}
+              onChangeText={setResetCode}
+              style={styles.input}
+              placeholder="Code from the email"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </>
+        ) : null}
+
+        {mode !== "resetRequest" ? (
+          <>
+            <Text style={styles.fieldLabel}>{mode === "resetConfirm" ? "New Password" : "Password"}</Text>
+            <TextInput
+              value={password}
+              onChangeText={setPassword}
+              style={styles.input}
+              placeholder="At least 6 characters"
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+          </>
+        ) : null}
 
-        {mode === "register" ? (
+        {mode === "register" || mode === "resetConfirm" ? (
           <>
             <Text style={styles.fieldLabel}>Confirm Password</Text>
             <TextInput
@@ -125,21 +291,75 @@ export function AuthScreen({ onLogin, onRegister, onContinueGuest }: AuthScreenP
           </>
         ) : null}
 
+        {guestData && mode !== "resetRequest" ? (
+          <View style={styles.guestBox}>
+            <Text style={styles.guestTitle}>Offline data on this device</Text>
+            <Text style={styles.guestSummary}>You have {describeGuestData(guestData)}. After signing in:</Text>
+            <View style={styles.modeRow}>
+              {GUEST_CHOICES.map((choice) => {
+                const active = guestChoice === choice.value;
+                return (
+                  <Pressable
+                    key={choice.value}
+                    style={[styles.modeButton, active ? styles.modeButtonActive : undefined]}
+                    onPress={() => setGuestChoice(choice.value)}
+                  >
+                    <Text style={[styles.modeButtonText, active ? styles.modeButtonTextActive : undefined]}>
+                      {choice.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.guestSummary}>
+              {GUEST_CHOICES.find((choice) => choice.value === guestChoice)?.hint}
+            </Text>
+          </View>
+        ) : null}
+
+        {notice ? <Text style={styles.noticeText}>{notice}</Text> : null}
         {error ? <Text style={styles.errorText}>{error}</Text> : null}
+        {loginLocked ? (
+          <Text style={styles.errorText}>
+            Too many login attempts. Try again in {formatCountdown(lockedSeconds)}.
+          </Text>
+        ) : null}
 
-        <Pressable style={styles.primaryButton} onPress={submit} disabled={submitting}>
+        <Pressable
+          style={[styles.primaryButton, loginLocked ? styles.primaryButtonDisabled : undefined]}
+          onPress={submit}
+          disabled={submitting || loginLocked}
+        >
           <Text style={styles.primaryButtonText}>
             {submitting
               ? "Please wait..."
+              : loginLocked
+                ? `Try again in ${formatCountdown(lockedSeconds)}`
               : mode === "register"
                 ? "Create Account"
-                : "Login"}
+                : mode === "resetRequest"
+                  ? "Send Reset Code"
+                  : mode === "resetConfirm"
+                    ? "Reset Password"
+                    : "Login"}
           </Text>
         </Pressable>
 
-        <Pressable style={styles.secondaryButton} onPress={onContinueGuest} disabled={submitting}>
-          <Text style={styles.secondaryButtonText}>Continue in Offline Mode</Text>
-        </Pressable>
+        {mode === "login" ? (
+          <Pressable style={styles.linkButton} onPress={() => switchMode("resetRequest")} disabled={submitting}>
+            <Text style={styles.linkButtonText}>Forgot password?</Text>
+          </Pressable>
+        ) : null}
+
+        {resetting ? (
+          <Pressable style={styles.secondaryButton} onPress={() => switchMode("login")} disabled={submitting}>
+            <Text style={styles.secondaryButtonText}>Back to Login</Text>
+          </Pressable>
+        ) : (
+          <Pressable style={styles.secondaryButton} onPress={onContinueGuest} disabled={submitting}>
+            <Text style={styles.secondaryButtonText}>Continue in Offline Mode</Text>
+          </Pressable>
+        )}
       </View>
     </ScrollView>
   );
@@ -177,6 +397,16 @@ const styles = StyleSheet.create({
     borderRadius: radii.xl,
     padding: spacing.lg
   },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: "800",
+    color: colors.inkStrong
+  },
+  cardHint: {
+    marginTop: spacing.xs,
+    color: colors.inkSoft,
+    lineHeight: 20
+  },
   modeRow: {
     flexDirection: "row",
     backgroundColor: "#f1f6ef",
@@ -217,6 +447,28 @@ const styles = StyleSheet.create({
     paddingVertical: spacing.sm,
     color: colors.inkStrong
   },
+  guestBox: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: radii.md,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    backgroundColor: "#f8fbf6"
+  },
+  guestTitle: {
+    fontWeight: "800",
+    color: colors.inkStrong
+  },
+  guestSummary: {
+    marginVertical: spacing.xs,
+    color: colors.inkSoft,
+    lineHeight: 20
+  },
+  noticeText: {
+    marginTop: spacing.sm,
+    color: colors.accent,
+    fontWeight: "600"
+  },
   errorText: {
     marginTop: spacing.sm,
     color: colors.danger,
@@ -229,11 +481,23 @@ const styles = StyleSheet.create({
     alignItems: "center",
     paddingVertical: spacing.md
   },
+  primaryButtonDisabled: {
+    opacity: 0.5
+  },
   primaryButtonText: {
     color: "#ffffff",
     fontWeight: "700",
     fontSize: 16
   },
+  linkButton: {
+    marginTop: spacing.sm,
+    alignItems: "center",
+    paddingVertical: spacing.xs
+  },
+  linkButtonText: {
+    color: colors.accent,
+    fontWeight: "700"
+  },
   secondaryButton: {
     marginTop: spacing.sm,
     borderWidth: 1,
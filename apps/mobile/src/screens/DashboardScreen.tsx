@@ -1,10 +1,14 @@
+import { getProgramDay, listProgramsForGoal, ProgramEnrollment } from "@fitness/shared";
 import { Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 
+import { AdaptiveTargetCard } from "../components/AdaptiveTargetCard";
 import { FALLBACK_PLANS, GOAL_LABELS } from "../constants";
 import { colors, radii, spacing } from "../theme";
-import { NutritionLog, ProgressEntry, SamplePlan, UserProfile, WorkoutLog } from "../types";
-import { getWeeklyWorkoutCount, getWorkoutStreak } from "../utils/date";
+import { NutritionLog, ProgressEntry, SamplePlan, UserProfile, WorkoutDraft, WorkoutLog } from "../types";
+import { formatDateLabel, getWeeklyWorkoutCount, getWorkoutStreak, toDateKey } from "../utils/date";
+import { buildProgramWorkoutDraft, describeProgramWeek, formatPrescription } from "../utils/programs";
 import { getScienceBasedInsight } from "../utils/scienceTraining";
+import { AdaptiveTargetState } from "../utils/tdee";
 
 interface DashboardScreenProps {
   profile: UserProfile;
@@ -18,10 +22,19 @@ interface DashboardScreenProps {
     nutrition: number;
     progress: number;
     profile: boolean;
+    program: boolean;
+    foods: number;
     lastSuccessfulSyncAt: string | null;
   };
   syncing: boolean;
   onRetrySync: () => void;
+  programEnrollment: ProgramEnrollment | null;
+  onEnrollProgram: (programId: string) => void;
+  onLeaveProgram: () => void;
+  onStartProgramSession: (draft: WorkoutDraft) => void;
+  adaptiveTargets: AdaptiveTargetState | null;
+  onApplyTargetProposal: () => void;
+  onDismissTargetProposal: () => void;
 }
 
 export function DashboardScreen({
@@ -32,7 +45,14 @@ export function DashboardScreen({
   samplePlan,
   pendingSummary,
   syncing,
-  onRetrySync
+  onRetrySync,
+  programEnrollment,
+  onEnrollProgram,
+  onLeaveProgram,
+  onStartProgramSession,
+  adaptiveTargets,
+  onApplyTargetProposal,
+  onDismissTargetProposal
 }: DashboardScreenProps) {
   const streak = getWorkoutStreak(workouts);
   const weekCount = getWeeklyWorkoutCount(workouts);
@@ -43,6 +63,8 @@ export function DashboardScreen({
     ? pendingSummary.lastSuccessfulSyncAt.slice(0, 10)
     : "Never";
   const scienceInsight = getScienceBasedInsight(profile.goal, workouts);
+  const programDay = programEnrollment ? getProgramDay(programEnrollment, toDateKey()) : null;
+  const programDraft = programDay ? buildProgramWorkoutDraft(programDay, workouts) : null;
 
   return (
     <ScrollView contentContainerStyle={styles.scrollContent}>
@@ -68,18 +90,95 @@ export function DashboardScreen({
         </View>
       </View>
 
-      <View style={styles.planCard}>
-        <Text style={styles.planTitle}>Weekly Plan</Text>
-        {planItems.map((item) => (
-          <View key={`${item.day}-${item.focus}`} style={styles.planRow}>
-            <View>
-              <Text style={styles.planDay}>{item.day}</Text>
-              <Text style={styles.planFocus}>{item.focus}</Text>
-            </View>
-            <Text style={styles.planDuration}>{item.durationMinutes} min</Text>
+      {adaptiveTargets ? (
+        <AdaptiveTargetCard
+          state={adaptiveTargets}
+          currentCalorieTarget={profile.dailyCalorieTarget}
+          weeklyRateKg={profile.weeklyRateKg}
+          onApply={onApplyTargetProposal}
+          onDismiss={onDismissTargetProposal}
+        />
+      ) : null}
+
+      {programEnrollment ? (
+        <View style={styles.planCard}>
+          <Text style={styles.planTitle}>{programDay?.programName ?? "Training Program"}</Text>
+          {programDay ? (
+            <>
+              <Text style={styles.programMeta}>
+                Block {programDay.mesocycle}, {describeProgramWeek(programDay)}
+              </Text>
+              {programDay.session ? (
+                <>
+                  <View style={styles.planRow}>
+                    <Text style={styles.planDay}>Today: {programDay.session.name}</Text>
+                    <Text style={styles.planDuration}>{programDay.session.durationMinutes} min</Text>
+                  </View>
+                  {programDay.session.exercises.map((exercise) => (
+                    <View key={exercise.name} style={styles.programExerciseRow}>
+                      <Text style={styles.planFocus}>{exercise.name}</Text>
+                      <Text style={styles.programPrescription}>{formatPrescription(exercise)}</Text>
+                    </View>
+                  ))}
+                </>
+              ) : (
+                <Text style={styles.planFocus}>
+                  Rest day.
+                  {programDay.nextSession
+                    ? ` Next: ${programDay.nextSession.name} on ${formatDateLabel(programDay.nextSession.date)}.`
+                    : ""}
+                </Text>
+              )}
+            </>
+          ) : (
+            <Text style={styles.planFocus}>Starts {formatDateLabel(programEnrollment.startDate)}.</Text>
+          )}
+          {programDraft ? (
+            <Pressable style={styles.programButton} onPress={() => onStartProgramSession(programDraft)}>
+              <Text style={styles.programButtonText}>Start Today&apos;s Session</Text>
+            </Pressable>
+          ) : null}
+          <Pressable style={styles.programSecondaryButton} onPress={onLeaveProgram}>
+            <Text style={styles.programSecondaryButtonText}>Leave Program</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <>
+          <View style={styles.planCard}>
+            <Text style={styles.planTitle}>Weekly Plan</Text>
+            {planItems.map((item) => (
+              <View key={`${item.day}-${item.focus}`} style={styles.planRow}>
+                <View>
+                  <Text style={styles.planDay}>{item.day}</Text>
+                  <Text style={styles.planFocus}>{item.focus}</Text>
+                </View>
+                <Text style={styles.planDuration}>{item.durationMinutes} min</Text>
+              </View>
+            ))}
           </View>
-        ))}
-      </View>
+
+          <View style={styles.planCard}>
+            <Text style={styles.planTitle}>Training Programs</Text>
+            <Text style={styles.planFocus}>
+              Follow a multi-week program to get a prescribed session each training day.
+            </Text>
+            {listProgramsForGoal(profile.goal).map((program) => (
+              <View key={program.id} style={styles.planRow}>
+                <View style={styles.programInfo}>
+                  <Text style={styles.planDay}>{program.name}</Text>
+                  <Text style={styles.programDescription}>{program.description}</Text>
+                  <Text style={styles.programMeta}>
+                    {program.sessions.length} days/week, {program.mesocycleWeeks}-week blocks
+                  </Text>
+                </View>
+                <Pressable style={styles.programStartButton} onPress={() => onEnrollProgram(program.id)}>
+                  <Text style={styles.programButtonText}>Start</Text>
+                </Pressable>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
 
       <View style={styles.scienceCard}>
         <Text style={styles.planTitle}>Science-Based Check</Text>
@@ -138,8 +237,9 @@ export function DashboardScreen({
             {pendingSummary.total} pending changes.
           </Text>
           <Text style={styles.syncSubText}>
-            W:{pendingSummary.workouts} N:{pendingSummary.nutrition} P:{pendingSummary.progress}{" "}
+            W:{pendingSummary.workouts} N:{pendingSummary.nutrition} P:{pendingSummary.progress} F:{pendingSummary.foods}{" "}
             {pendingSummary.profile ? "Profile pending" : "Profile synced"}
+            {pendingSummary.program ? " Program pending" : ""}
           </Text>
           <Pressable style={styles.syncButton} onPress={onRetrySync} disabled={syncing}>
             <Text style={styles.syncButtonText}>{syncing ? "Syncing..." : "Sync Now"}</Text>
@@ -225,6 +325,57 @@ const styles = StyleSheet.create({
     color: colors.accent,
     fontWeight: "700"
   },
+  programMeta: {
+    color: colors.inkMuted,
+    fontSize: 12,
+    marginTop: 2
+  },
+  programInfo: {
+    flex: 1,
+    marginRight: spacing.sm
+  },
+  programDescription: {
+    color: colors.inkMuted,
+    marginTop: 2
+  },
+  programExerciseRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingVertical: 4
+  },
+  programPrescription: {
+    color: colors.inkSoft,
+    fontWeight: "600"
+  },
+  programButton: {
+    marginTop: spacing.md,
+    backgroundColor: colors.accent,
+    borderRadius: radii.md,
+    alignItems: "center",
+    paddingVertical: spacing.sm
+  },
+  programStartButton: {
+    backgroundColor: colors.accent,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs
+  },
+  programButtonText: {
+    color: "#ffffff",
+    fontWeight: "700"
+  },
+  programSecondaryButton: {
+    marginTop: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.md,
+    alignItems: "center",
+    paddingVertical: spacing.sm
+  },
+  programSecondaryButtonText: {
+    color: colors.inkSoft,
+    fontWeight: "700"
+  },
   scienceCard: {
     marginTop: spacing.lg,
     backgroundColor: colors.card,
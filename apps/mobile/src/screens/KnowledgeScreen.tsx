@@ -1,4 +1,3 @@
-import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useEffect, useMemo, useState } from "react";
 import { Linking, Pressable, ScrollView, StyleSheet, Text, View } from "react-native";
 
@@ -19,6 +18,7 @@ import {
   recordQuizAttempt,
   type KnowledgeProgress
 } from "../state/knowledgeState";
+import { loadKnowledgeProgress, saveKnowledgeProgress } from "../storage/knowledgeStore";
 import { colors, radii, spacing } from "../theme";
 import { UserProfile } from "../types";
 import { toDateKey } from "../utils/date";
@@ -27,70 +27,6 @@ interface KnowledgeScreenProps {
   profile: UserProfile;
 }
 
-const KNOWLEDGE_PROGRESS_KEY = "@fittrack/knowledge-progress/v1";
-
-function parseKnowledgeProgress(input: unknown): KnowledgeProgress {
-  if (!input || typeof input !== "object") {
-    return createEmptyKnowledgeProgress();
-  }
-
-  const row = input as Partial<KnowledgeProgress>;
-  const completedLessonIds = Array.isArray(row.completedLessonIds)
-    ? row.completedLessonIds.filter((item): item is string => typeof item === "string")
-    : [];
-  const learningActivityDates = Array.isArray(row.learningActivityDates)
-    ? row.learningActivityDates.filter((item): item is string => typeof item === "string")
-    : [];
-
-  const lessonQuizProgress =
-    row.lessonQuizProgress && typeof row.lessonQuizProgress === "object"
-      ? Object.fromEntries(
-          Object.entries(row.lessonQuizProgress).flatMap(([lessonId, value]) => {
-            if (!value || typeof value !== "object") {
-              return [];
-            }
-            const entry = value as {
-              attempts?: number;
-              correct?: number;
-              lastAttemptAt?: string;
-              lastSelectedIndex?: number;
-            };
-            const attempts = entry.attempts;
-            const correct = entry.correct;
-            const lastSelectedIndex = entry.lastSelectedIndex;
-            if (
-              typeof attempts !== "number" ||
-              !Number.isFinite(attempts) ||
-              typeof correct !== "number" ||
-              !Number.isFinite(correct) ||
-              typeof entry.lastAttemptAt !== "string" ||
-              typeof lastSelectedIndex !== "number" ||
-              !Number.isFinite(lastSelectedIndex)
-            ) {
-              return [];
-            }
-            return [
-              [
-                lessonId,
-                {
-                  attempts: Math.max(0, Math.round(attempts)),
-                  correct: Math.max(0, Math.round(correct)),
-                  lastAttemptAt: entry.lastAttemptAt,
-                  lastSelectedIndex: Math.max(0, Math.round(lastSelectedIndex))
-                }
-              ]
-            ];
-          })
-        )
-      : {};
-
-  return {
-    completedLessonIds,
-    learningActivityDates,
-    lessonQuizProgress
-  };
-}
-
 function bulletLabel(index: number): string {
   return `${index + 1}.`;
 }
@@ -109,27 +45,17 @@ export function KnowledgeScreen({ profile }: KnowledgeScreenProps) {
   }, [goalCategoryOrder]);
 
   useEffect(() => {
-    void (async () => {
-      try {
-        const raw = await AsyncStorage.getItem(KNOWLEDGE_PROGRESS_KEY);
-        if (!raw) {
-          setProgress(createEmptyKnowledgeProgress());
-          return;
-        }
-        setProgress(parseKnowledgeProgress(JSON.parse(raw)));
-      } catch (_error) {
-        setProgress(createEmptyKnowledgeProgress());
-      } finally {
-        setProgressLoaded(true);
-      }
-    })();
+    void loadKnowledgeProgress().then((loaded) => {
+      setProgress(loaded);
+      setProgressLoaded(true);
+    });
   }, []);
 
   useEffect(() => {
     if (!progressLoaded) {
       return;
     }
-    AsyncStorage.setItem(KNOWLEDGE_PROGRESS_KEY, JSON.stringify(progress)).catch(() => {
+    saveKnowledgeProgress(progress).catch(() => {
       // Non-blocking save for learning analytics.
     });
   }, [progress, progressLoaded]);
@@ -1,76 +1,283 @@
-import { useEffect, useMemo, useState } from "react";
+import {
+  createFoodLogItem,
+  createMealComponent,
+  expandSavedMeal,
+  FoodItem,
+  getRecipeServingMacros,
+  MEAL_TYPES,
+  MealComponent,
+  MealType,
+  Recipe,
+  recipeAsFood,
+  SavedMeal,
+  searchFoods,
+  sumFoodLogItems
+} from "@fitness/shared";
+import { useMemo, useState } from "react";
 import { Alert, Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
 
+import { AdaptiveTargetCard } from "../components/AdaptiveTargetCard";
 import { colors, radii, spacing } from "../theme";
 import { NutritionLog, UserProfile } from "../types";
+import {
+  addFoodLogItem,
+  addFoodLogItems,
+  createQuickAddItem,
+  formatMacros,
+  formatServing,
+  getFoodLogItems,
+  groupItemsByMeal,
+  MEAL_LABELS,
+  removeFoodLogItem,
+  toMealComponents
+} from "../utils/nutrition";
+import { AdaptiveTargetState } from "../utils/tdee";
 
 interface NutritionScreenProps {
   profile: UserProfile;
   nutritionLog: NutritionLog;
+  customFoods: FoodItem[];
+  recipes: Recipe[];
+  savedMeals: SavedMeal[];
   onSaveNutrition: (log: NutritionLog) => void;
   onClearNutrition: (date: string) => void;
+  onSaveCustomFood: (food: FoodItem) => void;
+  onDeleteCustomFood: (foodId: string) => void;
+  onSaveRecipe: (recipe: Recipe) => void;
+  onDeleteRecipe: (recipeId: string) => void;
+  onSaveSavedMeal: (meal: SavedMeal) => void;
+  onDeleteSavedMeal: (mealId: string) => void;
+  adaptiveTargets: AdaptiveTargetState | null;
+  onApplyTargetProposal: () => void;
+  onDismissTargetProposal: () => void;
+  onChangeWeeklyRate: (weeklyRateKg: number) => void;
 }
 
-export function NutritionScreen({ profile, nutritionLog, onSaveNutrition, onClearNutrition }: NutritionScreenProps) {
-  const [caloriesText, setCaloriesText] = useState(String(nutritionLog.calories));
-  const [proteinText, setProteinText] = useState(String(nutritionLog.protein));
-  const [carbsText, setCarbsText] = useState(String(nutritionLog.carbs));
-  const [fatText, setFatText] = useState(String(nutritionLog.fat));
-  const [waterText, setWaterText] = useState(String(nutritionLog.waterLiters));
+function createId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+const EMPTY_CUSTOM_FOOD = {
+  name: "",
+  servingSize: "100",
+  servingUnit: "g",
+  calories: "",
+  protein: "",
+  carbs: "",
+  fat: ""
+};
+
+interface RecipeDraft {
+  id: string | null;
+  name: string;
+  yieldText: string;
+  ingredients: MealComponent[];
+}
+
+const EMPTY_RECIPE: RecipeDraft = { id: null, name: "", yieldText: "4", ingredients: [] };
+
+export function NutritionScreen({
+  profile,
+  nutritionLog,
+  customFoods,
+  recipes,
+  savedMeals,
+  onSaveNutrition,
+  onClearNutrition,
+  onSaveCustomFood,
+  onDeleteCustomFood,
+  onSaveRecipe,
+  onDeleteRecipe,
+  onSaveSavedMeal,
+  onDeleteSavedMeal,
+  adaptiveTargets,
+  onApplyTargetProposal,
+  onDismissTargetProposal,
+  onChangeWeeklyRate
+}: NutritionScreenProps) {
+  const [meal, setMeal] = useState<MealType>("breakfast");
+  const [query, setQuery] = useState("");
+  const [selectedFood, setSelectedFood] = useState<FoodItem | null>(null);
+  const [servingsText, setServingsText] = useState("1");
+  const [customFoodForm, setCustomFoodForm] = useState(EMPTY_CUSTOM_FOOD);
+  const [showCustomFoodForm, setShowCustomFoodForm] = useState(false);
+  const [recipeDraft, setRecipeDraft] = useState<RecipeDraft | null>(null);
+  const [ingredientQuery, setIngredientQuery] = useState("");
+  const [ingredientFood, setIngredientFood] = useState<FoodItem | null>(null);
+  const [ingredientServingsText, setIngredientServingsText] = useState("1");
+  const [savingMeal, setSavingMeal] = useState<MealType | null>(null);
+  const [savedMealName, setSavedMealName] = useState("");
   const [error, setError] = useState<string | null>(null);
 
-  useEffect(() => {
-    setCaloriesText(String(nutritionLog.calories));
-    setProteinText(String(nutritionLog.protein));
-    setCarbsText(String(nutritionLog.carbs));
-    setFatText(String(nutritionLog.fat));
-    setWaterText(String(nutritionLog.waterLiters));
-  }, [nutritionLog]);
-
-  const proteinProgress = useMemo(() => {
-    if (profile.proteinTargetGrams <= 0) {
-      return 0;
+  const items = useMemo(() => getFoodLogItems(nutritionLog), [nutritionLog]);
+  const itemsByMeal = useMemo(() => groupItemsByMeal(items), [items]);
+  const userFoods = useMemo(() => [...customFoods, ...recipes.map(recipeAsFood)], [customFoods, recipes]);
+  const searchResults = useMemo(() => searchFoods(query, userFoods, 6), [userFoods, query]);
+  // Recipes are left out of ingredient search so a recipe can never contain itself.
+  const ingredientResults = useMemo(
+    () => searchFoods(ingredientQuery, customFoods, 5),
+    [customFoods, ingredientQuery]
+  );
+  const recipeDraftYield = Number(recipeDraft?.yieldText);
+
+  const targetRows = useMemo(() => {
+    // Older day logs have no fiber total, so it is always summed from the entries.
+    const fiber = Math.round(sumFoodLogItems(items).fiber);
+    return [
+      { label: "Calories", value: nutritionLog.calories, target: profile.dailyCalorieTarget, unit: "kcal" },
+      { label: "Protein", value: nutritionLog.protein, target: profile.proteinTargetGrams, unit: "g" },
+      { label: "Carbs", value: nutritionLog.carbs, target: profile.carbsTargetGrams, unit: "g" },
+      { label: "Fat", value: nutritionLog.fat, target: profile.fatTargetGrams, unit: "g" },
+      { label: "Fiber", value: fiber, target: profile.fiberTargetGrams, unit: "g" },
+      { label: "Water", value: nutritionLog.waterLiters, target: profile.waterTargetLiters, unit: "L" }
+    ].map((row) => ({
+      ...row,
+      percent: row.target > 0 ? Math.min((row.value / row.target) * 100, 100) : 0
+    }));
+  }, [items, nutritionLog, profile]);
+
+  function addSelectedFood() {
+    const servings = Number(servingsText);
+    if (!selectedFood) {
+      setError("Pick a food first.");
+      return;
     }
-    return Math.min((nutritionLog.protein / profile.proteinTargetGrams) * 100, 100);
-  }, [nutritionLog.protein, profile.proteinTargetGrams]);
-
-  function submit() {
-    const calories = Number(caloriesText);
-    const protein = Number(proteinText);
-    const carbs = Number(carbsText);
-    const fat = Number(fatText);
-    const waterLiters = Number(waterText);
-
-    const values = [calories, protein, carbs, fat, waterLiters];
-    if (values.some((value) => !Number.isFinite(value) || value < 0)) {
-      setError("Values must be valid positive numbers.");
+    if (!Number.isFinite(servings) || servings <= 0 || servings > 100) {
+      setError("Servings must be a positive number.");
       return;
     }
 
     setError(null);
-    onSaveNutrition({
-      date: nutritionLog.date,
+    onSaveNutrition(addFoodLogItem(nutritionLog, createFoodLogItem(createId("food"), meal, selectedFood, servings)));
+    setSelectedFood(null);
+    setQuery("");
+    setServingsText("1");
+  }
+
+  function addQuickCalories(amount: number) {
+    onSaveNutrition(addFoodLogItem(nutritionLog, createQuickAddItem(createId("food"), meal, amount)));
+  }
+
+  function addQuickWater(amount: number) {
+    onSaveNutrition({ ...nutritionLog, waterLiters: Number((nutritionLog.waterLiters + amount).toFixed(2)) });
+  }
+
+  function saveCustomFood() {
+    const values = [
+      customFoodForm.servingSize,
+      customFoodForm.calories,
+      customFoodForm.protein,
+      customFoodForm.carbs,
+      customFoodForm.fat
+    ].map(Number);
+    if (!customFoodForm.name.trim() || !customFoodForm.servingUnit.trim()) {
+      setError("Custom foods need a name and a serving unit.");
+      return;
+    }
+    if (values.some((value) => !Number.isFinite(value) || value < 0) || values[0] <= 0) {
+      setError("Serving size and macros must be valid positive numbers.");
+      return;
+    }
+
+    const [servingSize, calories, protein, carbs, fat] = values;
+    const food: FoodItem = {
+      id: createId("custom"),
+      name: customFoodForm.name.trim(),
+      servingSize,
+      servingUnit: customFoodForm.servingUnit.trim(),
       calories,
       protein,
       carbs,
-      fat,
-      waterLiters
+      fat
+    };
+    setError(null);
+    onSaveCustomFood(food);
+    setCustomFoodForm(EMPTY_CUSTOM_FOOD);
+    setShowCustomFoodForm(false);
+    setSelectedFood(food);
+  }
+
+  function addIngredient() {
+    const servings = Number(ingredientServingsText);
+    if (!recipeDraft || !ingredientFood) {
+      return;
+    }
+    if (!Number.isFinite(servings) || servings <= 0 || servings > 100) {
+      setError("Ingredient servings must be a positive number.");
+      return;
+    }
+
+    setError(null);
+    setRecipeDraft({
+      ...recipeDraft,
+      ingredients: [...recipeDraft.ingredients, createMealComponent(createId("ingredient"), ingredientFood, servings)]
     });
+    setIngredientFood(null);
+    setIngredientQuery("");
+    setIngredientServingsText("1");
   }
 
-  function addQuickCalories(amount: number) {
-    setCaloriesText(String(Math.max(0, Number(caloriesText || "0") + amount)));
+  function saveRecipe() {
+    if (!recipeDraft) {
+      return;
+    }
+    if (!recipeDraft.name.trim() || recipeDraft.ingredients.length === 0) {
+      setError("Recipes need a name and at least one ingredient.");
+      return;
+    }
+    if (!Number.isFinite(recipeDraftYield) || recipeDraftYield <= 0 || recipeDraftYield > 100) {
+      setError("Servings per batch must be a positive number.");
+      return;
+    }
+
+    setError(null);
+    onSaveRecipe({
+      id: recipeDraft.id ?? createId("recipe"),
+      name: recipeDraft.name.trim(),
+      yieldServings: recipeDraftYield,
+      ingredients: recipeDraft.ingredients
+    });
+    setRecipeDraft(null);
   }
 
-  function addQuickWater(amount: number) {
-    const next = Math.max(0, Number(waterText || "0") + amount);
-    setWaterText(next.toFixed(1));
+  function confirmDeleteRecipe(recipe: Recipe) {
+    Alert.alert("Delete recipe?", `${recipe.name} will no longer show in search. Logged days keep it.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => onDeleteRecipe(recipe.id) }
+    ]);
+  }
+
+  function saveMealFrom(mealType: MealType) {
+    const name = savedMealName.trim() || `My ${MEAL_LABELS[mealType].toLowerCase()}`;
+    // Reusing a name replaces that saved meal instead of adding a second one.
+    const existing = savedMeals.find((item) => item.name.toLowerCase() === name.toLowerCase());
+    onSaveSavedMeal({ id: existing?.id ?? createId("meal"), name, items: toMealComponents(itemsByMeal[mealType]) });
+    setSavingMeal(null);
+    setSavedMealName("");
+  }
+
+  function logSavedMeal(savedMeal: SavedMeal) {
+    onSaveNutrition(addFoodLogItems(nutritionLog, expandSavedMeal(savedMeal, meal, () => createId("food"))));
+  }
+
+  function confirmDeleteSavedMeal(savedMeal: SavedMeal) {
+    Alert.alert("Delete saved meal?", `${savedMeal.name} will be removed. Logged days keep their foods.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => onDeleteSavedMeal(savedMeal.id) }
+    ]);
+  }
+
+  function confirmDeleteCustomFood(food: FoodItem) {
+    Alert.alert("Delete custom food?", `${food.name} will no longer show in search. Logged days keep it.`, [
+      { text: "Cancel", style: "cancel" },
+      { text: "Delete", style: "destructive", onPress: () => onDeleteCustomFood(food.id) }
+    ]);
   }
 
   function clearToday() {
     Alert.alert(
       "Clear today's nutrition?",
-      "This removes today's calories and macros.",
+      "This removes today's food entries, macros and water.",
       [
         { text: "Cancel", style: "cancel" },
         {
@@ -83,69 +290,359 @@ export function NutritionScreen({ profile, nutritionLog, onSaveNutrition, onClea
   }
 
   return (
-    <ScrollView contentContainerStyle={styles.scrollContent}>
+    <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
       <Text style={styles.title}>Nutrition</Text>
-      <Text style={styles.subtitle}>Track intake and keep targets in range.</Text>
+      <Text style={styles.subtitle}>Log what you eat by meal; totals add up for you.</Text>
 
       <View style={styles.summaryCard}>
-        <Text style={styles.summaryTitle}>Targets</Text>
-        <Text style={styles.summaryRow}>Calories: {profile.dailyCalorieTarget} kcal</Text>
-        <Text style={styles.summaryRow}>Protein: {profile.proteinTargetGrams} g</Text>
+        <Text style={styles.summaryTitle}>Today</Text>
+        {targetRows.map((row) => (
+          <View key={row.label}>
+            <View style={styles.progressRow}>
+              <Text style={styles.progressLabel}>{row.label}</Text>
+              <Text style={styles.progressValue}>
+                {row.unit === "L" ? row.value.toFixed(1) : Math.round(row.value)} / {row.target} {row.unit}
+              </Text>
+            </View>
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${row.percent}%` }]} />
+            </View>
+          </View>
+        ))}
       </View>
 
+      {adaptiveTargets ? (
+        <AdaptiveTargetCard
+          state={adaptiveTargets}
+          currentCalorieTarget={profile.dailyCalorieTarget}
+          weeklyRateKg={profile.weeklyRateKg}
+          onApply={onApplyTargetProposal}
+          onDismiss={onDismissTargetProposal}
+          onChangeRate={onChangeWeeklyRate}
+        />
+      ) : null}
+
       <View style={styles.formCard}>
-        <Text style={styles.fieldLabel}>Calories</Text>
+        <Text style={styles.cardTitle}>Add Food</Text>
+        <View style={styles.chipRow}>
+          {MEAL_TYPES.map((item) => (
+            <Pressable
+              key={item}
+              style={[styles.chip, meal === item ? styles.chipActive : undefined]}
+              onPress={() => setMeal(item)}
+            >
+              <Text style={[styles.chipText, meal === item ? styles.chipTextActive : undefined]}>{MEAL_LABELS[item]}</Text>
+            </Pressable>
+          ))}
+        </View>
+
         <TextInput
-          value={caloriesText}
-          onChangeText={setCaloriesText}
-          keyboardType="numeric"
+          value={query}
+          onChangeText={(value) => {
+            setQuery(value);
+            setSelectedFood(null);
+          }}
           style={styles.input}
-          placeholder="0"
+          placeholder="Search foods, e.g. oats"
         />
+        {searchResults.map((food) => (
+          <Pressable
+            key={food.id}
+            style={[styles.foodRow, selectedFood?.id === food.id ? styles.foodRowActive : undefined]}
+            onPress={() => setSelectedFood(food)}
+          >
+            <Text style={styles.foodName}>{food.name}</Text>
+            <Text style={styles.foodMeta}>
+              {formatServing(food)} · {formatMacros(food)}
+            </Text>
+          </Pressable>
+        ))}
+
+        {selectedFood ? (
+          <>
+            <Text style={styles.fieldLabel}>Servings of {formatServing(selectedFood)}</Text>
+            <TextInput
+              value={servingsText}
+              onChangeText={setServingsText}
+              keyboardType="decimal-pad"
+              style={styles.input}
+              placeholder="1"
+            />
+            <Pressable style={styles.primaryButton} onPress={addSelectedFood}>
+              <Text style={styles.primaryButtonText}>Add to {MEAL_LABELS[meal]}</Text>
+            </Pressable>
+          </>
+        ) : null}
+
         <View style={styles.quickRow}>
           <Pressable style={styles.quickBtn} onPress={() => addQuickCalories(250)}>
-            <Text style={styles.quickBtnText}>+250</Text>
+            <Text style={styles.quickBtnText}>+250 kcal</Text>
           </Pressable>
           <Pressable style={styles.quickBtn} onPress={() => addQuickCalories(500)}>
-            <Text style={styles.quickBtnText}>+500</Text>
+            <Text style={styles.quickBtnText}>+500 kcal</Text>
           </Pressable>
         </View>
 
-        <Text style={styles.fieldLabel}>Protein (g)</Text>
-        <TextInput
-          value={proteinText}
-          onChangeText={setProteinText}
-          keyboardType="numeric"
-          style={styles.input}
-          placeholder="0"
-        />
+        <Pressable style={styles.linkButton} onPress={() => setShowCustomFoodForm((prev) => !prev)}>
+          <Text style={styles.linkButtonText}>{showCustomFoodForm ? "Cancel custom food" : "Create a custom food"}</Text>
+        </Pressable>
+        {showCustomFoodForm ? (
+          <View>
+            <Text style={styles.fieldLabel}>Name</Text>
+            <TextInput
+              value={customFoodForm.name}
+              onChangeText={(value) => setCustomFoodForm((prev) => ({ ...prev, name: value }))}
+              style={styles.input}
+              placeholder="Chicken rice prep bowl"
+            />
+            <View style={styles.fieldGrid}>
+              {(
+                [
+                  ["servingSize", "Serving size"],
+                  ["servingUnit", "Unit"],
+                  ["calories", "Calories"],
+                  ["protein", "Protein (g)"],
+                  ["carbs", "Carbs (g)"],
+                  ["fat", "Fat (g)"]
+                ] as const
+              ).map(([key, label]) => (
+                <View key={key} style={styles.gridField}>
+                  <Text style={styles.fieldLabel}>{label}</Text>
+                  <TextInput
+                    value={customFoodForm[key]}
+                    onChangeText={(value) => setCustomFoodForm((prev) => ({ ...prev, [key]: value }))}
+                    keyboardType={key === "servingUnit" ? "default" : "decimal-pad"}
+                    style={styles.input}
+                    placeholder="0"
+                  />
+                </View>
+              ))}
+            </View>
+            <Pressable style={styles.primaryButton} onPress={saveCustomFood}>
+              <Text style={styles.primaryButtonText}>Save Custom Food</Text>
+            </Pressable>
+          </View>
+        ) : null}
 
-        <Text style={styles.fieldLabel}>Carbs (g)</Text>
-        <TextInput
-          value={carbsText}
-          onChangeText={setCarbsText}
-          keyboardType="numeric"
-          style={styles.input}
-          placeholder="0"
-        />
+        {error && !recipeDraft ? <Text style={styles.errorText}>{error}</Text> : null}
+      </View>
 
-        <Text style={styles.fieldLabel}>Fat (g)</Text>
-        <TextInput
-          value={fatText}
-          onChangeText={setFatText}
-          keyboardType="numeric"
-          style={styles.input}
-          placeholder="0"
-        />
+      {MEAL_TYPES.map((item) => {
+        const mealItems = itemsByMeal[item];
+        return (
+          <View key={item} style={styles.mealCard}>
+            <View style={styles.mealHeader}>
+              <Text style={styles.cardTitle}>{MEAL_LABELS[item]}</Text>
+              <Text style={styles.mealCalories}>{sumFoodLogItems(mealItems).calories} kcal</Text>
+            </View>
+            {mealItems.length === 0 ? <Text style={styles.emptyText}>Nothing logged yet.</Text> : null}
+            {mealItems.map((entry) => (
+              <View key={entry.id} style={styles.entryRow}>
+                <View style={styles.entryText}>
+                  <Text style={styles.foodName}>
+                    {entry.name}
+                    {entry.servings !== 1 ? ` x${entry.servings}` : ""}
+                  </Text>
+                  <Text style={styles.foodMeta}>{formatMacros(entry)}</Text>
+                </View>
+                <Pressable onPress={() => onSaveNutrition(removeFoodLogItem(nutritionLog, entry.id))}>
+                  <Text style={styles.removeText}>Remove</Text>
+                </Pressable>
+              </View>
+            ))}
+            {mealItems.length && savingMeal !== item ? (
+              <Pressable style={styles.inlineLink} onPress={() => setSavingMeal(item)}>
+                <Text style={styles.linkButtonText}>Save as meal</Text>
+              </Pressable>
+            ) : null}
+            {savingMeal === item ? (
+              <View>
+                <TextInput
+                  value={savedMealName}
+                  onChangeText={setSavedMealName}
+                  style={[styles.input, styles.inlineInput]}
+                  placeholder="Usual breakfast"
+                />
+                <View style={styles.quickRow}>
+                  <Pressable style={styles.quickBtn} onPress={() => setSavingMeal(null)}>
+                    <Text style={styles.quickBtnText}>Cancel</Text>
+                  </Pressable>
+                  <Pressable style={styles.quickBtn} onPress={() => saveMealFrom(item)}>
+                    <Text style={styles.quickBtnText}>Save Meal</Text>
+                  </Pressable>
+                </View>
+              </View>
+            ) : null}
+          </View>
+        );
+      })}
 
-        <Text style={styles.fieldLabel}>Water (L)</Text>
-        <TextInput
-          value={waterText}
-          onChangeText={setWaterText}
-          keyboardType="numeric"
-          style={styles.input}
-          placeholder="0"
-        />
+      {savedMeals.length ? (
+        <View style={styles.formCard}>
+          <Text style={styles.cardTitle}>Saved Meals</Text>
+          {savedMeals.map((savedMeal) => (
+            <View key={savedMeal.id} style={styles.entryRow}>
+              <View style={styles.entryText}>
+                <Text style={styles.foodName}>{savedMeal.name}</Text>
+                <Text style={styles.foodMeta}>
+                  {savedMeal.items.length} foods · {formatMacros(sumFoodLogItems(savedMeal.items))}
+                </Text>
+              </View>
+              <Pressable onPress={() => logSavedMeal(savedMeal)}>
+                <Text style={styles.linkButtonText}>Log to {MEAL_LABELS[meal]}</Text>
+              </Pressable>
+              <Pressable onPress={() => confirmDeleteSavedMeal(savedMeal)}>
+                <Text style={styles.removeText}>Delete</Text>
+              </Pressable>
+            </View>
+          ))}
+        </View>
+      ) : null}
+
+      <View style={styles.formCard}>
+        <Text style={styles.cardTitle}>Recipes</Text>
+        {recipes.map((recipe) => (
+          <View key={recipe.id} style={styles.entryRow}>
+            <View style={styles.entryText}>
+              <Text style={styles.foodName}>{recipe.name}</Text>
+              <Text style={styles.foodMeta}>
+                Per serving ({recipe.yieldServings} per batch) · {formatMacros(getRecipeServingMacros(recipe))}
+              </Text>
+            </View>
+            <Pressable
+              onPress={() =>
+                setRecipeDraft({
+                  id: recipe.id,
+                  name: recipe.name,
+                  yieldText: String(recipe.yieldServings),
+                  ingredients: recipe.ingredients
+                })
+              }
+            >
+              <Text style={styles.linkButtonText}>Edit</Text>
+            </Pressable>
+            <Pressable onPress={() => confirmDeleteRecipe(recipe)}>
+              <Text style={styles.removeText}>Delete</Text>
+            </Pressable>
+          </View>
+        ))}
+
+        {recipeDraft ? (
+          <View>
+            <Text style={styles.fieldLabel}>Recipe name</Text>
+            <TextInput
+              value={recipeDraft.name}
+              onChangeText={(value) => setRecipeDraft({ ...recipeDraft, name: value })}
+              style={styles.input}
+              placeholder="Turkey chili"
+            />
+            <Text style={styles.fieldLabel}>Servings per batch</Text>
+            <TextInput
+              value={recipeDraft.yieldText}
+              onChangeText={(value) => setRecipeDraft({ ...recipeDraft, yieldText: value })}
+              keyboardType="decimal-pad"
+              style={styles.input}
+              placeholder="4"
+            />
+
+            <Text style={styles.fieldLabel}>Ingredients</Text>
+            {recipeDraft.ingredients.map((ingredient) => (
+              <View key={ingredient.id} style={styles.entryRow}>
+                <View style={styles.entryText}>
+                  <Text style={styles.foodName}>
+                    {ingredient.name}
+                    {ingredient.servings !== 1 ? ` x${ingredient.servings}` : ""}
+                  </Text>
+                  <Text style={styles.foodMeta}>{formatMacros(ingredient)}</Text>
+                </View>
+                <Pressable
+                  onPress={() =>
+                    setRecipeDraft({
+                      ...recipeDraft,
+                      ingredients: recipeDraft.ingredients.filter((row) => row.id !== ingredient.id)
+                    })
+                  }
+                >
+                  <Text style={styles.removeText}>Remove</Text>
+                </Pressable>
+              </View>
+            ))}
+            <TextInput
+              value={ingredientQuery}
+              onChangeText={(value) => {
+                setIngredientQuery(value);
+                setIngredientFood(null);
+              }}
+              style={[styles.input, styles.inlineInput]}
+              placeholder="Search ingredients"
+            />
+            {ingredientResults.map((food) => (
+              <Pressable
+                key={food.id}
+                style={[styles.foodRow, ingredientFood?.id === food.id ? styles.foodRowActive : undefined]}
+                onPress={() => setIngredientFood(food)}
+              >
+                <Text style={styles.foodName}>{food.name}</Text>
+                <Text style={styles.foodMeta}>
+                  {formatServing(food)} · {formatMacros(food)}
+                </Text>
+              </Pressable>
+            ))}
+            {ingredientFood ? (
+              <>
+                <Text style={styles.fieldLabel}>Servings of {formatServing(ingredientFood)}</Text>
+                <TextInput
+                  value={ingredientServingsText}
+                  onChangeText={setIngredientServingsText}
+                  keyboardType="decimal-pad"
+                  style={styles.input}
+                  placeholder="1"
+                />
+                <Pressable style={styles.linkButton} onPress={addIngredient}>
+                  <Text style={styles.linkButtonText}>Add Ingredient</Text>
+                </Pressable>
+              </>
+            ) : null}
+
+            {recipeDraft.ingredients.length ? (
+              <View style={styles.recipeTotals}>
+                <Text style={styles.summaryRow}>Batch: {formatMacros(sumFoodLogItems(recipeDraft.ingredients))}</Text>
+                {recipeDraftYield > 0 ? (
+                  <Text style={styles.summaryRow}>
+                    Per serving:{" "}
+                    {formatMacros(
+                      getRecipeServingMacros({
+                        id: "draft",
+                        name: recipeDraft.name,
+                        yieldServings: recipeDraftYield,
+                        ingredients: recipeDraft.ingredients
+                      })
+                    )}
+                  </Text>
+                ) : null}
+              </View>
+            ) : null}
+
+            {error ? <Text style={styles.errorText}>{error}</Text> : null}
+            <View style={styles.quickRow}>
+              <Pressable style={styles.quickBtn} onPress={() => setRecipeDraft(null)}>
+                <Text style={styles.quickBtnText}>Cancel</Text>
+              </Pressable>
+              <Pressable style={styles.quickBtn} onPress={saveRecipe}>
+                <Text style={styles.quickBtnText}>{recipeDraft.id ? "Update Recipe" : "Save Recipe"}</Text>
+              </Pressable>
+            </View>
+          </View>
+        ) : (
+          <Pressable style={styles.linkButton} onPress={() => setRecipeDraft(EMPTY_RECIPE)}>
+            <Text style={styles.linkButtonText}>Build a recipe</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View style={styles.formCard}>
+        <Text style={styles.cardTitle}>Water</Text>
+        <Text style={styles.summaryRow}>{nutritionLog.waterLiters.toFixed(2)} L today</Text>
         <View style={styles.quickRow}>
           <Pressable style={styles.quickBtn} onPress={() => addQuickWater(0.25)}>
             <Text style={styles.quickBtnText}>+0.25L</Text>
@@ -154,25 +651,30 @@ export function NutritionScreen({ profile, nutritionLog, onSaveNutrition, onClea
             <Text style={styles.quickBtnText}>+0.5L</Text>
           </Pressable>
         </View>
+      </View>
 
-        <View style={styles.progressRow}>
-          <Text style={styles.progressLabel}>Protein progress</Text>
-          <Text style={styles.progressValue}>{Math.round(proteinProgress)}%</Text>
-        </View>
-        <View style={styles.progressTrack}>
-          <View style={[styles.progressFill, { width: `${proteinProgress}%` }]} />
+      {customFoods.length ? (
+        <View style={styles.formCard}>
+          <Text style={styles.cardTitle}>My Foods</Text>
+          {customFoods.map((food) => (
+            <View key={food.id} style={styles.entryRow}>
+              <View style={styles.entryText}>
+                <Text style={styles.foodName}>{food.name}</Text>
+                <Text style={styles.foodMeta}>
+                  {formatServing(food)} · {formatMacros(food)}
+                </Text>
+              </View>
+              <Pressable onPress={() => confirmDeleteCustomFood(food)}>
+                <Text style={styles.removeText}>Delete</Text>
+              </Pressable>
+            </View>
+          ))}
         </View>
+      ) : null}
 
-        {error ? <Text style={styles.errorText}>{error}</Text> : null}
-
-        <Pressable style={styles.primaryButton} onPress={submit}>
-          <Text style={styles.primaryButtonText}>Save Today&apos;s Nutrition</Text>
-        </Pressable>
-
-        <Pressable style={styles.clearButton} onPress={clearToday}>
-          <Text style={styles.clearButtonText}>Clear Today&apos;s Log</Text>
-        </Pressable>
-      </View>
+      <Pressable style={styles.clearButton} onPress={clearToday}>
+        <Text style={styles.clearButtonText}>Clear Today&apos;s Log</Text>
+      </Pressable>
     </ScrollView>
   );
 }
@@ -214,7 +716,122 @@ const styles = StyleSheet.create({
     borderRadius: radii.lg,
     borderWidth: 1,
     borderColor: colors.cardBorder,
-    padding: spacing.md
+    padding: spacing.md,
+    marginBottom: spacing.md
+  },
+  cardTitle: {
+    fontWeight: "800",
+    color: colors.inkStrong
+  },
+  chipRow: {
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4
+  },
+  chipActive: {
+    backgroundColor: colors.accentSoft,
+    borderColor: colors.accent
+  },
+  chipText: {
+    color: colors.inkSoft,
+    fontWeight: "700",
+    fontSize: 12
+  },
+  chipTextActive: {
+    color: colors.accent
+  },
+  foodRow: {
+    marginTop: spacing.xs,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    padding: spacing.sm
+  },
+  foodRowActive: {
+    borderColor: colors.accent,
+    backgroundColor: colors.accentSoft
+  },
+  foodName: {
+    color: colors.inkStrong,
+    fontWeight: "700"
+  },
+  foodMeta: {
+    marginTop: 2,
+    color: colors.inkMuted,
+    fontSize: 12
+  },
+  fieldGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.sm
+  },
+  gridField: {
+    width: "47%"
+  },
+  linkButton: {
+    marginTop: spacing.md,
+    alignItems: "center"
+  },
+  linkButtonText: {
+    color: colors.accent,
+    fontWeight: "700"
+  },
+  inlineLink: {
+    marginTop: spacing.sm,
+    alignSelf: "flex-start"
+  },
+  inlineInput: {
+    marginTop: spacing.sm
+  },
+  recipeTotals: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: radii.md,
+    backgroundColor: colors.accentSoft
+  },
+  mealCard: {
+    backgroundColor: colors.card,
+    borderRadius: radii.lg,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    padding: spacing.md,
+    marginBottom: spacing.sm
+  },
+  mealHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: spacing.xs
+  },
+  mealCalories: {
+    color: colors.accent,
+    fontWeight: "800"
+  },
+  emptyText: {
+    color: colors.inkMuted,
+    fontSize: 12
+  },
+  entryRow: {
+    marginTop: spacing.sm,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm
+  },
+  entryText: {
+    flex: 1
+  },
+  removeText: {
+    color: colors.danger,
+    fontWeight: "700",
+    fontSize: 12
   },
   fieldLabel: {
     marginTop: spacing.sm,
@@ -249,7 +866,7 @@ const styles = StyleSheet.create({
     fontWeight: "700"
   },
   progressRow: {
-    marginTop: spacing.md,
+    marginTop: spacing.sm,
     flexDirection: "row",
     justifyContent: "space-between"
   },
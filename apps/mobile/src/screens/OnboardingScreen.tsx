@@ -1,10 +1,10 @@
 import { useMemo, useState } from "react";
 import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
 
-import { GOAL_DESCRIPTIONS, GOAL_LABELS } from "../constants";
+import { ACTIVITY_DESCRIPTIONS, ACTIVITY_LABELS, GOAL_DESCRIPTIONS, GOAL_LABELS, SEX_LABELS } from "../constants";
 import { colors, radii, spacing } from "../theme";
-import { FitnessGoal, UserProfile } from "../types";
-import { calculateTargets } from "../utils/targets";
+import { ActivityLevel, FitnessGoal, Sex, UserProfile } from "../types";
+import { ACTIVITY_LEVELS, calculateNutritionTargets, getDefaultWeeklyRateKg } from "../utils/targets";
 
 interface OnboardingScreenProps {
   onComplete: (profile: UserProfile) => void;
@@ -16,6 +16,8 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
   const [heightText, setHeightText] = useState("");
   const [weightText, setWeightText] = useState("");
   const [goal, setGoal] = useState<FitnessGoal>("maintain");
+  const [sex, setSex] = useState<Sex | null>(null);
+  const [activityLevel, setActivityLevel] = useState<ActivityLevel>("moderate");
   const [error, setError] = useState<string | null>(null);
 
   const note = useMemo(() => GOAL_DESCRIPTIONS[goal], [goal]);
@@ -45,9 +47,15 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
       return;
     }
 
+    if (!sex) {
+      setError("Choose the sex used for the calorie formula.");
+      return;
+    }
+
     setError(null);
 
-    const { dailyCalorieTarget, proteinTargetGrams } = calculateTargets(goal, weightKg);
+    const weeklyRateKg = getDefaultWeeklyRateKg(goal, weightKg);
+    const targets = calculateNutritionTargets({ goal, sex, age, heightCm, weightKg, activityLevel, weeklyRateKg });
 
     onComplete({
       id: "local-user",
@@ -56,8 +64,10 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
       heightCm,
       currentWeightKg: weightKg,
       goal,
-      dailyCalorieTarget,
-      proteinTargetGrams
+      sex,
+      activityLevel,
+      weeklyRateKg,
+      ...targets
     });
   }
 
@@ -108,6 +118,43 @@ export function OnboardingScreen({ onComplete }: OnboardingScreenProps) {
           keyboardType="numeric"
         />
 
+        <Text style={styles.fieldLabel}>Sex</Text>
+        <View style={styles.goalGroup}>
+          {(Object.keys(SEX_LABELS) as Sex[]).map((sexKey) => {
+            const active = sex === sexKey;
+            return (
+              <Pressable
+                key={sexKey}
+                style={[styles.goalButton, active ? styles.goalButtonActive : undefined]}
+                onPress={() => setSex(sexKey)}
+              >
+                <Text style={[styles.goalButtonText, active ? styles.goalButtonTextActive : undefined]}>
+                  {SEX_LABELS[sexKey]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        <Text style={styles.fieldLabel}>Activity Level</Text>
+        <View style={styles.goalGroup}>
+          {ACTIVITY_LEVELS.map((level) => {
+            const active = activityLevel === level;
+            return (
+              <Pressable
+                key={level}
+                style={[styles.goalButton, active ? styles.goalButtonActive : undefined]}
+                onPress={() => setActivityLevel(level)}
+              >
+                <Text style={[styles.goalButtonText, active ? styles.goalButtonTextActive : undefined]}>
+                  {ACTIVITY_LABELS[level]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <Text style={styles.goalNote}>{ACTIVITY_DESCRIPTIONS[activityLevel]}</Text>
+
         <Text style={styles.fieldLabel}>Goal</Text>
         <View style={styles.goalGroup}>
           {(Object.keys(GOAL_LABELS) as FitnessGoal[]).map((goalKey) => {
@@ -1,31 +1,122 @@
 import { useMemo, useState } from "react";
 import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
 
+import { ChartSeries, TrendChart } from "../components/TrendChart";
 import { colors, radii, spacing } from "../theme";
 import { ProgressDraft, ProgressEntry, UserProfile } from "../types";
-import { formatDateLabel } from "../utils/date";
+import { formatDateLabel, toDateKey } from "../utils/date";
+import { CHART_RANGES, ChartRangeKey, GoalProjection, getWeightTrendSummary, pointsInRange } from "../utils/weightTrend";
 
 interface ProgressScreenProps {
   profile: UserProfile;
   entries: ProgressEntry[];
   onAddProgress: (draft: ProgressDraft) => void;
   onDeleteProgressEntry: (id: string) => void;
+  onSaveGoalWeight: (goalWeightKg: number | undefined) => void;
 }
 
-export function ProgressScreen({ profile, entries, onAddProgress, onDeleteProgressEntry }: ProgressScreenProps) {
+type ChartMetric = "weight" | "bodyFat" | "waist";
+
+const CHART_METRICS: Array<{ key: ChartMetric; label: string }> = [
+  { key: "weight", label: "Weight" },
+  { key: "bodyFat", label: "Body Fat" },
+  { key: "waist", label: "Waist" }
+];
+
+function formatWeeklyRate(weeklyRateKg: number): string {
+  return `${weeklyRateKg > 0 ? "+" : ""}${weeklyRateKg.toFixed(2)} kg/week`;
+}
+
+function describeProjection(projection: GoalProjection, goalWeightKg: number): string {
+  switch (projection.status) {
+    case "reached":
+      return `You're at your ${goalWeightKg} kg goal.`;
+    case "on_track":
+      return `At this rate you reach ${goalWeightKg} kg around ${formatDateLabel(projection.date)} (${projection.weeks} weeks).`;
+    case "stalled":
+      return `Your trend isn't heading toward ${goalWeightKg} kg yet, so there's no date to project.`;
+  }
+}
+
+export function ProgressScreen({
+  profile,
+  entries,
+  onAddProgress,
+  onDeleteProgressEntry,
+  onSaveGoalWeight
+}: ProgressScreenProps) {
   const [weightText, setWeightText] = useState(String(profile.currentWeightKg));
   const [bodyFatText, setBodyFatText] = useState("");
   const [waistText, setWaistText] = useState("");
+  const [goalWeightText, setGoalWeightText] = useState(profile.goalWeightKg !== undefined ? String(profile.goalWeightKg) : "");
+  const [chartMetric, setChartMetric] = useState<ChartMetric>("weight");
+  const [chartRange, setChartRange] = useState<ChartRangeKey>("3m");
   const [error, setError] = useState<string | null>(null);
+  const [goalError, setGoalError] = useState<string | null>(null);
 
-  const trend = useMemo(() => {
-    if (entries.length < 2) {
-      return null;
+  const summary = useMemo(() => getWeightTrendSummary(entries, profile.goalWeightKg), [entries, profile.goalWeightKg]);
+  const latestPoint = summary.points[summary.points.length - 1];
+
+  const chartSeries = useMemo((): ChartSeries[] => {
+    const days = CHART_RANGES.find((range) => range.key === chartRange)?.days ?? null;
+    const today = toDateKey();
+    if (chartMetric === "weight") {
+      const points = pointsInRange(summary.points, days, today);
+      return [
+        {
+          key: "scale",
+          label: "Scale weight",
+          color: colors.tabInactive,
+          points: points.map((point) => ({ date: point.date, value: point.weightKg })),
+          line: false,
+          dots: true
+        },
+        {
+          key: "trend",
+          label: "Trend",
+          color: colors.accent,
+          points: points.map((point) => ({ date: point.date, value: point.trendKg })),
+          line: true,
+          dots: false
+        }
+      ];
+    }
+    const field = chartMetric === "bodyFat" ? "bodyFatPct" : "waistCm";
+    const readings = [...entries]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .flatMap((entry) => {
+        const value = entry[field];
+        return value !== undefined ? [{ date: entry.date, value }] : [];
+      });
+    return [
+      {
+        key: field,
+        label: chartMetric === "bodyFat" ? "Body fat" : "Waist",
+        color: chartMetric === "bodyFat" ? colors.warning : colors.inkSoft,
+        points: pointsInRange(readings, days, today),
+        line: true,
+        dots: true
+      }
+    ];
+  }, [chartMetric, chartRange, entries, summary.points]);
+
+  const chartUnit = chartMetric === "weight" ? "kg" : chartMetric === "bodyFat" ? "%" : "cm";
+  const hasChartPoints = chartSeries.some((series) => series.points.length > 0);
+
+  function saveGoalWeight() {
+    if (!goalWeightText.trim()) {
+      setGoalError(null);
+      onSaveGoalWeight(undefined);
+      return;
+    }
+    const goalWeightKg = Number(goalWeightText);
+    if (!Number.isFinite(goalWeightKg) || goalWeightKg < 35 || goalWeightKg > 220) {
+      setGoalError("Goal weight must be between 35 and 220 kg.");
+      return;
     }
-    const latest = entries[0].weightKg;
-    const previous = entries[1].weightKg;
-    return Number((latest - previous).toFixed(1));
-  }, [entries]);
+    setGoalError(null);
+    onSaveGoalWeight(Number(goalWeightKg.toFixed(1)));
+  }
 
   function submit() {
     const weightKg = Number(weightText);
@@ -94,14 +185,78 @@ export function ProgressScreen({ profile, entries, onAddProgress, onDeleteProgre
       </View>
 
       <View style={styles.historyCard}>
-        <Text style={styles.historyTitle}>History</Text>
-        {trend !== null ? (
-          <Text style={styles.trendText}>
-            Last change: {trend > 0 ? "+" : ""}
-            {trend} kg
-          </Text>
+        <Text style={styles.historyTitle}>Trend</Text>
+        {latestPoint ? (
+          <>
+            <Text style={styles.trendText}>
+              Trend weight {latestPoint.trendKg.toFixed(1)} kg · scale {latestPoint.weightKg} kg
+            </Text>
+            <Text style={styles.trendNote}>
+              {summary.weeklyRateKg !== null
+                ? `Changing ${formatWeeklyRate(summary.weeklyRateKg)} over the last four weeks.`
+                : "Weigh in across at least a week to see your weekly rate."}
+            </Text>
+          </>
+        ) : (
+          <Text style={styles.emptyText}>Log a weigh-in to start your trend.</Text>
+        )}
+
+        <Text style={styles.fieldLabel}>Goal weight (kg)</Text>
+        <View style={styles.goalRow}>
+          <TextInput
+            value={goalWeightText}
+            onChangeText={setGoalWeightText}
+            keyboardType="numeric"
+            style={[styles.input, styles.goalInput]}
+            placeholder="Optional"
+          />
+          <Pressable style={styles.secondaryButton} onPress={saveGoalWeight}>
+            <Text style={styles.secondaryButtonText}>Save Goal</Text>
+          </Pressable>
+        </View>
+        {goalError ? <Text style={styles.errorText}>{goalError}</Text> : null}
+        {summary.projection && profile.goalWeightKg !== undefined ? (
+          <Text style={styles.trendNote}>{describeProjection(summary.projection, profile.goalWeightKg)}</Text>
         ) : null}
 
+        <View style={styles.chipRow}>
+          {CHART_METRICS.map((metric) => {
+            const active = chartMetric === metric.key;
+            return (
+              <Pressable
+                key={metric.key}
+                style={[styles.chip, active ? styles.chipActive : undefined]}
+                onPress={() => setChartMetric(metric.key)}
+              >
+                <Text style={[styles.chipText, active ? styles.chipTextActive : undefined]}>{metric.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        <View style={styles.chipRow}>
+          {CHART_RANGES.map((range) => {
+            const active = chartRange === range.key;
+            return (
+              <Pressable
+                key={range.key}
+                style={[styles.chip, active ? styles.chipActive : undefined]}
+                onPress={() => setChartRange(range.key)}
+              >
+                <Text style={[styles.chipText, active ? styles.chipTextActive : undefined]}>{range.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {hasChartPoints ? (
+          <TrendChart series={chartSeries} unit={chartUnit} />
+        ) : (
+          <Text style={styles.emptyText}>No readings in this range.</Text>
+        )}
+      </View>
+
+      <View style={styles.historyCard}>
+        <Text style={styles.historyTitle}>History</Text>
+
         {entries.length === 0 ? (
           <Text style={styles.emptyText}>No entries yet.</Text>
         ) : (
@@ -202,6 +357,55 @@ const styles = StyleSheet.create({
     color: colors.accent,
     fontWeight: "700"
   },
+  trendNote: {
+    marginTop: spacing.xs,
+    color: colors.inkMuted,
+    fontSize: 12
+  },
+  goalRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.sm
+  },
+  goalInput: {
+    flex: 1
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+    borderRadius: radii.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm
+  },
+  secondaryButtonText: {
+    color: colors.accent,
+    fontWeight: "700"
+  },
+  chipRow: {
+    marginTop: spacing.sm,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4
+  },
+  chipActive: {
+    backgroundColor: colors.accentSoft,
+    borderColor: colors.accent
+  },
+  chipText: {
+    color: colors.inkSoft,
+    fontWeight: "700",
+    fontSize: 12
+  },
+  chipTextActive: {
+    color: colors.accent
+  },
   emptyText: {
     marginTop: spacing.sm,
     color: colors.inkMuted
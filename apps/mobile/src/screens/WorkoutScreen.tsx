@@ -1,27 +1,58 @@
+import { findCatalogExercise, searchExerciseCatalog } from "@fitness/shared";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useEffect, useMemo, useState } from "react";
 import { Pressable, ScrollView, StyleSheet, Text, TextInput, View } from "react-native";
 
+import { WorkoutHistoryPage, WorkoutHistoryRequest } from "../api/fitnessApi";
 import { WORKOUT_TYPE_LABELS } from "../constants";
+import { filterWorkoutHistory, mergeExerciseAliases, mergeWorkoutHistoryPages } from "../state/appState";
 import { colors, radii, spacing } from "../theme";
-import { FitnessGoal, WorkoutDraft, WorkoutExerciseEntry, WorkoutLog, WorkoutType } from "../types";
+import { E1rmFormula, FitnessGoal, WorkoutDraft, WorkoutExerciseEntry, WorkoutLog, WorkoutSetEntry, WorkoutType } from "../types";
 import { formatDateLabel } from "../utils/date";
+import {
+  buildPersonalRecordTable,
+  E1RM_FORMULA_LABELS,
+  findPersonalRecordsByWorkout,
+  formatRecordSet
+} from "../utils/personalRecords";
+import {
+  formatNextPrescription,
+  NextPrescription,
+  prescribeNextSession,
+  PROGRESSION_RULE_LABELS
+} from "../utils/progression";
 import { getWorkoutDraftGuidance } from "../utils/scienceTraining";
+import { createStraightSets, sanitizeSetEntries } from "../utils/workoutSets";
 
 interface WorkoutScreenProps {
   goal: FitnessGoal;
   workouts: WorkoutLog[];
+  e1rmFormula: E1rmFormula;
+  onChangeE1rmFormula: (formula: E1rmFormula) => void;
   onCreateWorkout: (draft: WorkoutDraft) => Promise<void>;
   onUpdateWorkout: (id: string, draft: WorkoutDraft) => Promise<void>;
   onDeleteWorkout: (id: string) => void;
+  onMergeExerciseAliases: () => void;
+  /** Resolves to null when the API is unreachable; history then pages through local data. */
+  onLoadHistoryPage: (request: WorkoutHistoryRequest) => Promise<WorkoutHistoryPage | null>;
+  /** A draft to load into the form, e.g. today's program session. Cleared via `onPrefillApplied`. */
+  prefillDraft: WorkoutDraft | null;
+  onPrefillApplied: () => void;
 }
 
-interface ExerciseDraftRow {
+interface SetDraftRow {
   id: string;
-  name: string;
-  setsText: string;
   repsText: string;
   weightText: string;
+  rpeText: string;
+  rirText: string;
+  isWarmup: boolean;
+}
+
+interface ExerciseDraftRow {
+  id: string;
+  name: string;
+  sets: SetDraftRow[];
 }
 
 interface WorkoutTemplate {
@@ -36,6 +67,14 @@ interface WorkoutTemplate {
 }
 
 const TEMPLATE_STORAGE_KEY = "@fittrack/workout-templates/v1";
+const HISTORY_PAGE_SIZE = 8;
+const HISTORY_SEARCH_DELAY_MS = 300;
+
+interface LoadedHistory {
+  items: WorkoutLog[];
+  count: number;
+  nextCursor: string | null;
+}
 
 const BUILTIN_TEMPLATES: WorkoutTemplate[] = [
   {
@@ -45,9 +84,9 @@ const BUILTIN_TEMPLATES: WorkoutTemplate[] = [
     durationMinutes: 65,
     intensityRpe: 8,
     exerciseEntries: [
-      { id: "push_ex_1", name: "Barbell Bench Press", sets: 4, reps: 6, weightKg: 70 },
-      { id: "push_ex_2", name: "Incline Dumbbell Press", sets: 3, reps: 10, weightKg: 26 },
-      { id: "push_ex_3", name: "Triceps Pushdown", sets: 3, reps: 12 }
+      { id: "push_ex_1", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 6, weightKg: 70 }) },
+      { id: "push_ex_2", name: "Incline Dumbbell Press", sets: createStraightSets(3, { reps: 10, weightKg: 26 }) },
+      { id: "push_ex_3", name: "Triceps Pushdown", sets: createStraightSets(3, { reps: 12 }) }
     ],
     notes: "Focus on steady reps and full lockout."
   },
@@ -58,9 +97,9 @@ const BUILTIN_TEMPLATES: WorkoutTemplate[] = [
     durationMinutes: 65,
     intensityRpe: 8,
     exerciseEntries: [
-      { id: "pull_ex_1", name: "Lat Pulldown", sets: 4, reps: 8, weightKg: 55 },
-      { id: "pull_ex_2", name: "Chest Supported Row", sets: 3, reps: 10, weightKg: 42 },
-      { id: "pull_ex_3", name: "Dumbbell Curl", sets: 3, reps: 12, weightKg: 12 }
+      { id: "pull_ex_1", name: "Lat Pulldown", sets: createStraightSets(4, { reps: 8, weightKg: 55 }) },
+      { id: "pull_ex_2", name: "Chest Supported Row", sets: createStraightSets(3, { reps: 10, weightKg: 42 }) },
+      { id: "pull_ex_3", name: "Dumbbell Curl", sets: createStraightSets(3, { reps: 12, weightKg: 12 }) }
     ],
     notes: "Pause on contraction and avoid momentum."
   },
@@ -71,9 +110,9 @@ const BUILTIN_TEMPLATES: WorkoutTemplate[] = [
     durationMinutes: 70,
     intensityRpe: 8.5,
     exerciseEntries: [
-      { id: "legs_ex_1", name: "Back Squat", sets: 4, reps: 5, weightKg: 90 },
-      { id: "legs_ex_2", name: "Romanian Deadlift", sets: 3, reps: 8, weightKg: 80 },
-      { id: "legs_ex_3", name: "Walking Lunges", sets: 3, reps: 12, weightKg: 14 }
+      { id: "legs_ex_1", name: "Back Squat", sets: createStraightSets(4, { reps: 5, weightKg: 90 }) },
+      { id: "legs_ex_2", name: "Romanian Deadlift", sets: createStraightSets(3, { reps: 8, weightKg: 80 }) },
+      { id: "legs_ex_3", name: "Walking Lunges", sets: createStraightSets(3, { reps: 12, weightKg: 14 }) }
     ],
     notes: "Brace hard and maintain range of motion."
   }
@@ -83,16 +122,35 @@ function createId(prefix: string): string {
   return `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
+function createSetRow(partial: Partial<SetDraftRow> = {}): SetDraftRow {
+  return {
+    id: partial.id ?? createId("set"),
+    repsText: partial.repsText ?? "",
+    weightText: partial.weightText ?? "",
+    rpeText: partial.rpeText ?? "",
+    rirText: partial.rirText ?? "",
+    isWarmup: partial.isWarmup ?? false
+  };
+}
+
 function createExerciseRow(partial: Partial<ExerciseDraftRow> = {}): ExerciseDraftRow {
   return {
     id: partial.id ?? createId("ex"),
     name: partial.name ?? "",
-    setsText: partial.setsText ?? "",
-    repsText: partial.repsText ?? "",
-    weightText: partial.weightText ?? ""
+    sets: partial.sets ?? [createSetRow()]
   };
 }
 
+function mapSetToRow(set: WorkoutSetEntry): SetDraftRow {
+  return createSetRow({
+    repsText: String(set.reps),
+    weightText: set.weightKg !== undefined ? String(set.weightKg) : "",
+    rpeText: toRpeText(set.rpe),
+    rirText: set.rir !== undefined ? String(set.rir) : "",
+    isWarmup: set.isWarmup === true
+  });
+}
+
 function mapExercisesToRows(entries: WorkoutExerciseEntry[]): ExerciseDraftRow[] {
   if (!entries.length) {
     return [createExerciseRow()];
@@ -101,13 +159,30 @@ function mapExercisesToRows(entries: WorkoutExerciseEntry[]): ExerciseDraftRow[]
     createExerciseRow({
       id: entry.id,
       name: entry.name,
-      setsText: String(entry.sets),
-      repsText: String(entry.reps),
-      weightText: entry.weightKg !== undefined ? String(entry.weightKg) : ""
+      sets: entry.sets.length ? entry.sets.map(mapSetToRow) : [createSetRow()]
     })
   );
 }
 
+function parseSetRowPreview(row: SetDraftRow): WorkoutSetEntry | null {
+  const reps = Number(row.repsText);
+  if (!row.repsText.trim() || !Number.isFinite(reps) || reps < 1) {
+    return null;
+  }
+
+  const weight = Number(row.weightText);
+  const rpe = Number(row.rpeText);
+  const rir = Number(row.rirText);
+
+  return {
+    reps: Math.round(reps),
+    weightKg: row.weightText.trim() && Number.isFinite(weight) && weight >= 0 ? Number(weight.toFixed(1)) : undefined,
+    rpe: row.rpeText.trim() && Number.isFinite(rpe) ? Number(rpe.toFixed(1)) : undefined,
+    rir: row.rirText.trim() && Number.isFinite(rir) ? Math.round(rir) : undefined,
+    isWarmup: row.isWarmup ? true : undefined
+  };
+}
+
 function parseTemplate(input: unknown): WorkoutTemplate | null {
   if (!input || typeof input !== "object") {
     return null;
@@ -131,19 +206,15 @@ function parseTemplate(input: unknown): WorkoutTemplate | null {
         if (!entry || typeof entry !== "object") {
           return [];
         }
-        const sets = Number(entry.sets);
-        const reps = Number(entry.reps);
-        if (!entry.name || !Number.isFinite(sets) || !Number.isFinite(reps) || sets < 1 || reps < 1) {
+        const sets = sanitizeSetEntries(entry as unknown as Record<string, unknown>);
+        if (!entry.name || !sets.length) {
           return [];
         }
-        const weight = Number(entry.weightKg);
         return [
           {
             id: typeof entry.id === "string" && entry.id.trim() ? entry.id : `${row.name}_${index}`,
             name: String(entry.name).trim(),
-            sets: Math.round(sets),
-            reps: Math.round(reps),
-            weightKg: Number.isFinite(weight) && weight >= 0 ? weight : undefined
+            sets
           }
         ];
       })
@@ -176,9 +247,15 @@ function toRpeText(rpe: number | undefined): string {
 export function WorkoutScreen({
   goal,
   workouts,
+  e1rmFormula,
+  onChangeE1rmFormula,
   onCreateWorkout,
   onUpdateWorkout,
-  onDeleteWorkout
+  onDeleteWorkout,
+  onMergeExerciseAliases,
+  onLoadHistoryPage,
+  prefillDraft,
+  onPrefillApplied
 }: WorkoutScreenProps) {
   const [workoutType, setWorkoutType] = useState<WorkoutType>("strength");
   const [durationText, setDurationText] = useState("45");
@@ -192,7 +269,79 @@ export function WorkoutScreen({
   const [editingWorkoutId, setEditingWorkoutId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const recentWorkouts = useMemo(() => workouts.slice(0, 8), [workouts]);
+  const [focusedExerciseRowId, setFocusedExerciseRowId] = useState<string | null>(null);
+  const [historyQuery, setHistoryQuery] = useState("");
+  const [historyType, setHistoryType] = useState<WorkoutType | null>(null);
+  const [historyLimit, setHistoryLimit] = useState(HISTORY_PAGE_SIZE);
+  const [loadedHistory, setLoadedHistory] = useState<LoadedHistory | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const filteredHistory = useMemo(
+    () => filterWorkoutHistory(workouts, { query: historyQuery, workoutType: historyType }),
+    [workouts, historyQuery, historyType]
+  );
+  const visibleHistory = useMemo(
+    () =>
+      loadedHistory
+        ? mergeWorkoutHistoryPages(
+            workouts,
+            loadedHistory.items,
+            { query: historyQuery, workoutType: historyType },
+            !loadedHistory.nextCursor
+          )
+        : filteredHistory.slice(0, historyLimit),
+    [filteredHistory, historyLimit, historyQuery, historyType, loadedHistory, workouts]
+  );
+  const olderHistoryCount = loadedHistory
+    ? loadedHistory.nextCursor
+      ? loadedHistory.count - loadedHistory.items.length
+      : 0
+    : filteredHistory.length - visibleHistory.length;
+
+  const recordHitsByWorkout = useMemo(
+    () => findPersonalRecordsByWorkout(workouts, e1rmFormula),
+    [workouts, e1rmFormula]
+  );
+  const aliasedEntryCount = useMemo(() => mergeExerciseAliases(workouts).renamedEntries, [workouts]);
+  const personalRecords = useMemo(() => buildPersonalRecordTable(workouts, e1rmFormula), [workouts, e1rmFormula]);
+
+  useEffect(() => {
+    setHistoryLimit(HISTORY_PAGE_SIZE);
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void onLoadHistoryPage({ limit: HISTORY_PAGE_SIZE, workoutType: historyType, q: historyQuery }).then((page) => {
+        if (!cancelled) {
+          setLoadedHistory(page ? { items: page.data, count: page.count, nextCursor: page.nextCursor } : null);
+        }
+      });
+    }, HISTORY_SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [historyQuery, historyType, onLoadHistoryPage]);
+
+  async function loadOlderHistory() {
+    if (!loadedHistory) {
+      setHistoryLimit((limit) => limit + HISTORY_PAGE_SIZE);
+      return;
+    }
+    if (!loadedHistory.nextCursor || loadingHistory) {
+      return;
+    }
+    setLoadingHistory(true);
+    const page = await onLoadHistoryPage({
+      limit: HISTORY_PAGE_SIZE,
+      cursor: loadedHistory.nextCursor,
+      workoutType: historyType,
+      q: historyQuery
+    });
+    setLoadingHistory(false);
+    if (page) {
+      setLoadedHistory((current) =>
+        current ? { items: [...current.items, ...page.data], count: page.count, nextCursor: page.nextCursor } : current
+      );
+    }
+  }
   const templates = useMemo(() => [...BUILTIN_TEMPLATES, ...customTemplates], [customTemplates]);
   const draftPreview = useMemo<WorkoutDraft>(() => {
     const duration = Number(durationText);
@@ -201,11 +350,12 @@ export function WorkoutScreen({
 
     const exerciseEntries = exerciseRows.flatMap((row) => {
       const name = row.name.trim();
-      const sets = Number(row.setsText);
-      const reps = Number(row.repsText);
-      const weight = Number(row.weightText);
+      const sets = row.sets.flatMap((setRow) => {
+        const set = parseSetRowPreview(setRow);
+        return set ? [set] : [];
+      });
 
-      if (!name || !Number.isFinite(sets) || !Number.isFinite(reps) || sets < 1 || reps < 1) {
+      if (!name || !sets.length) {
         return [];
       }
 
@@ -213,9 +363,7 @@ export function WorkoutScreen({
         {
           id: row.id,
           name,
-          sets: Math.round(sets),
-          reps: Math.round(reps),
-          weightKg: Number.isFinite(weight) && weight >= 0 ? Number(weight.toFixed(1)) : undefined
+          sets
         }
       ];
     });
@@ -234,6 +382,21 @@ export function WorkoutScreen({
     () => getWorkoutDraftGuidance(goal, draftPreview, workouts),
     [draftPreview, goal, workouts]
   );
+  // Suggestions aim at the middle of the goal's RPE band; edits of past sessions get none.
+  const suggestionTargetRpe = (scienceGuidance.targetRpe.min + scienceGuidance.targetRpe.max) / 2;
+  const prescriptions = useMemo(() => {
+    const byRow = new Map<string, NextPrescription>();
+    if (editingWorkoutId || workoutType !== "strength") {
+      return byRow;
+    }
+    for (const row of exerciseRows) {
+      const prescription = prescribeNextSession(workouts, row.name, { targetRpe: suggestionTargetRpe });
+      if (prescription) {
+        byRow.set(row.id, prescription);
+      }
+    }
+    return byRow;
+  }, [editingWorkoutId, exerciseRows, suggestionTargetRpe, workoutType, workouts]);
 
   useEffect(() => {
     void (async () => {
@@ -304,6 +467,24 @@ export function WorkoutScreen({
     setError(null);
   }
 
+  useEffect(() => {
+    if (!prefillDraft) {
+      return;
+    }
+    setWorkoutType(prefillDraft.workoutType);
+    setDurationText(String(prefillDraft.durationMinutes));
+    setIntensityRpeText(toRpeText(prefillDraft.intensityRpe));
+    setCaloriesBurnedText(prefillDraft.caloriesBurned !== undefined ? String(prefillDraft.caloriesBurned) : "");
+    setTemplateNameText(prefillDraft.templateName ?? "");
+    setNotes(prefillDraft.notes ?? "");
+    setExerciseRows(
+      mapExercisesToRows(prefillDraft.exerciseEntries.map((entry) => ({ ...entry, id: createId("ex") })))
+    );
+    setEditingWorkoutId(null);
+    setError(null);
+    onPrefillApplied();
+  }, [prefillDraft, onPrefillApplied]);
+
   function applyFromLoggedWorkout(entry: WorkoutLog) {
     setWorkoutType(entry.workoutType);
     setDurationText(String(entry.durationMinutes));
@@ -322,6 +503,71 @@ export function WorkoutScreen({
     );
   }
 
+  function applyPrescription(rowId: string, prescription: NextPrescription) {
+    const sets = createStraightSets(prescription.sets, {
+      reps: prescription.reps,
+      weightKg: prescription.weightKg,
+      rpe: prescription.targetRpe
+    });
+    updateExerciseRow(rowId, { sets: sets.map(mapSetToRow) });
+  }
+
+  function renderPrescription(rowId: string) {
+    const prescription = prescriptions.get(rowId);
+    if (!prescription) {
+      return null;
+    }
+    return (
+      <View style={styles.prescriptionBox}>
+        <Text style={styles.prescriptionTitle}>Next: {formatNextPrescription(prescription)}</Text>
+        <Text style={styles.guidanceMeta}>{PROGRESSION_RULE_LABELS[prescription.rule]}</Text>
+        <Text style={styles.guidanceHint}>{prescription.explanation}</Text>
+        <Pressable style={styles.smallSecondaryButton} onPress={() => applyPrescription(rowId, prescription)}>
+          <Text style={styles.smallSecondaryButtonText}>Use Suggestion</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  function updateSetRow(rowId: string, setId: string, patch: Partial<SetDraftRow>) {
+    setExerciseRows((prev) =>
+      prev.map((row) =>
+        row.id === rowId
+          ? { ...row, sets: row.sets.map((set) => (set.id === setId ? { ...set, ...patch } : set)) }
+          : row
+      )
+    );
+  }
+
+  function addSetRow(rowId: string) {
+    setExerciseRows((prev) =>
+      prev.map((row) => {
+        if (row.id !== rowId) {
+          return row;
+        }
+        const last = row.sets[row.sets.length - 1];
+        const next = last
+          ? createSetRow({ repsText: last.repsText, weightText: last.weightText })
+          : createSetRow();
+        return { ...row, sets: [...row.sets, next] };
+      })
+    );
+  }
+
+  function removeSetRow(rowId: string, setId: string) {
+    setExerciseRows((prev) =>
+      prev.map((row) => {
+        if (row.id !== rowId) {
+          return row;
+        }
+        if (row.sets.length === 1) {
+          return { ...row, sets: [createSetRow()] };
+        }
+        return { ...row, sets: row.sets.filter((set) => set.id !== setId) };
+      })
+    );
+  }
+
   function addExerciseRow() {
     setExerciseRows((prev) => [...prev, createExerciseRow()]);
   }
@@ -347,38 +593,61 @@ export function WorkoutScreen({
 
     for (const row of exerciseRows) {
       const name = row.name.trim();
-      const setsRaw = row.setsText.trim();
-      const repsRaw = row.repsText.trim();
-      const weightRaw = row.weightText.trim();
-      const hasAnyInput = Boolean(name || setsRaw || repsRaw || weightRaw);
+      const filledSets = row.sets.filter((set) =>
+        Boolean(set.repsText.trim() || set.weightText.trim() || set.rpeText.trim() || set.rirText.trim())
+      );
 
-      if (!hasAnyInput) {
+      if (!name && filledSets.length === 0) {
         continue;
       }
-
-      const sets = Number(setsRaw);
-      const reps = Number(repsRaw);
-      const weight = Number(weightRaw);
-
       if (!name) {
         return { draft: null, message: "Exercise name is required for each filled row." };
       }
-      if (!Number.isFinite(sets) || sets < 1 || sets > 30) {
-        return { draft: null, message: `Sets for "${name}" must be between 1 and 30.` };
+      if (filledSets.length === 0) {
+        return { draft: null, message: `Log at least one set for "${name}".` };
       }
-      if (!Number.isFinite(reps) || reps < 1 || reps > 200) {
-        return { draft: null, message: `Reps for "${name}" must be between 1 and 200.` };
+      if (filledSets.length > 30) {
+        return { draft: null, message: `"${name}" can have at most 30 sets.` };
       }
-      if (weightRaw && (!Number.isFinite(weight) || weight < 0 || weight > 1000)) {
-        return { draft: null, message: `Weight for "${name}" must be between 0 and 1000 kg.` };
+
+      const sets: WorkoutSetEntry[] = [];
+      for (const [index, set] of filledSets.entries()) {
+        const label = `Set ${index + 1} of "${name}"`;
+        const repsRaw = set.repsText.trim();
+        const weightRaw = set.weightText.trim();
+        const rpeRaw = set.rpeText.trim();
+        const rirRaw = set.rirText.trim();
+        const reps = Number(repsRaw);
+        const weight = Number(weightRaw);
+        const rpe = Number(rpeRaw);
+        const rir = Number(rirRaw);
+
+        if (!repsRaw || !Number.isFinite(reps) || reps < 1 || reps > 200) {
+          return { draft: null, message: `${label}: reps must be between 1 and 200.` };
+        }
+        if (weightRaw && (!Number.isFinite(weight) || weight < 0 || weight > 1000)) {
+          return { draft: null, message: `${label}: weight must be between 0 and 1000 kg.` };
+        }
+        if (rpeRaw && (!Number.isFinite(rpe) || rpe < 1 || rpe > 10)) {
+          return { draft: null, message: `${label}: RPE must be between 1 and 10.` };
+        }
+        if (rirRaw && (!Number.isInteger(rir) || rir < 0 || rir > 10)) {
+          return { draft: null, message: `${label}: RIR must be a whole number between 0 and 10.` };
+        }
+
+        sets.push({
+          reps: Math.round(reps),
+          weightKg: weightRaw ? Number(weight.toFixed(1)) : undefined,
+          rpe: rpeRaw ? Number(rpe.toFixed(1)) : undefined,
+          rir: rirRaw ? rir : undefined,
+          isWarmup: set.isWarmup ? true : undefined
+        });
       }
 
       parsedExercises.push({
         id: row.id,
         name,
-        sets: Math.round(sets),
-        reps: Math.round(reps),
-        weightKg: weightRaw ? Number(weight.toFixed(1)) : undefined
+        sets
       });
     }
 
@@ -482,7 +751,7 @@ export function WorkoutScreen({
   }
 
   return (
-    <ScrollView contentContainerStyle={styles.scrollContent}>
+    <ScrollView contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
       <Text style={styles.sectionTitle}>Log Workout</Text>
       <Text style={styles.subTitle}>Track exercises, intensity, calories, and reusable templates.</Text>
 
@@ -602,32 +871,91 @@ export function WorkoutScreen({
             <TextInput
               value={row.name}
               onChangeText={(value) => updateExerciseRow(row.id, { name: value })}
+              onFocus={() => setFocusedExerciseRowId(row.id)}
               style={styles.input}
               placeholder="Barbell Bench Press"
             />
-            <View style={styles.exerciseValueRow}>
-              <TextInput
-                value={row.setsText}
-                onChangeText={(value) => updateExerciseRow(row.id, { setsText: value })}
-                style={[styles.input, styles.exerciseValueInput]}
-                keyboardType="numeric"
-                placeholder="Sets"
-              />
-              <TextInput
-                value={row.repsText}
-                onChangeText={(value) => updateExerciseRow(row.id, { repsText: value })}
-                style={[styles.input, styles.exerciseValueInput]}
-                keyboardType="numeric"
-                placeholder="Reps"
-              />
-              <TextInput
-                value={row.weightText}
-                onChangeText={(value) => updateExerciseRow(row.id, { weightText: value })}
-                style={[styles.input, styles.exerciseValueInput]}
-                keyboardType="decimal-pad"
-                placeholder="Weight"
-              />
-            </View>
+            {focusedExerciseRowId === row.id && findCatalogExercise(row.name)?.name !== row.name ? (
+              <View style={styles.suggestionRow}>
+                {searchExerciseCatalog(row.name, 4).map((exercise) => (
+                  <Pressable
+                    key={exercise.id}
+                    style={styles.suggestionChip}
+                    onPress={() => {
+                      updateExerciseRow(row.id, { name: exercise.name });
+                      setFocusedExerciseRowId(null);
+                      // Fill an untouched exercise with its next prescription straight away.
+                      const prescription =
+                        editingWorkoutId || workoutType !== "strength"
+                          ? null
+                          : prescribeNextSession(workouts, exercise.name, { targetRpe: suggestionTargetRpe });
+                      const untouched = row.sets.every(
+                        (set) => !set.repsText.trim() && !set.weightText.trim() && !set.rpeText.trim() && !set.rirText.trim()
+                      );
+                      if (prescription && untouched) {
+                        applyPrescription(row.id, prescription);
+                      }
+                    }}
+                  >
+                    <Text style={styles.suggestionText}>{exercise.name}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            ) : null}
+            {renderPrescription(row.id)}
+            {row.sets.map((set, setIndex) => (
+              <View key={set.id} style={styles.setRow}>
+                <View style={styles.setHeader}>
+                  <Text style={styles.setLabel}>Set {setIndex + 1}</Text>
+                  <View style={styles.setHeaderActions}>
+                    <Pressable
+                      style={[styles.warmupToggle, set.isWarmup ? styles.warmupToggleActive : undefined]}
+                      onPress={() => updateSetRow(row.id, set.id, { isWarmup: !set.isWarmup })}
+                    >
+                      <Text style={[styles.warmupToggleText, set.isWarmup ? styles.warmupToggleTextActive : undefined]}>
+                        Warm-up
+                      </Text>
+                    </Pressable>
+                    <Pressable style={styles.setRemoveButton} onPress={() => removeSetRow(row.id, set.id)}>
+                      <Text style={styles.deleteText}>Remove</Text>
+                    </Pressable>
+                  </View>
+                </View>
+                <View style={styles.exerciseValueRow}>
+                  <TextInput
+                    value={set.repsText}
+                    onChangeText={(value) => updateSetRow(row.id, set.id, { repsText: value })}
+                    style={[styles.input, styles.exerciseValueInput]}
+                    keyboardType="numeric"
+                    placeholder="Reps"
+                  />
+                  <TextInput
+                    value={set.weightText}
+                    onChangeText={(value) => updateSetRow(row.id, set.id, { weightText: value })}
+                    style={[styles.input, styles.exerciseValueInput]}
+                    keyboardType="decimal-pad"
+                    placeholder="Kg"
+                  />
+                  <TextInput
+                    value={set.rpeText}
+                    onChangeText={(value) => updateSetRow(row.id, set.id, { rpeText: value })}
+                    style={[styles.input, styles.exerciseValueInput]}
+                    keyboardType="decimal-pad"
+                    placeholder="RPE"
+                  />
+                  <TextInput
+                    value={set.rirText}
+                    onChangeText={(value) => updateSetRow(row.id, set.id, { rirText: value })}
+                    style={[styles.input, styles.exerciseValueInput]}
+                    keyboardType="numeric"
+                    placeholder="RIR"
+                  />
+                </View>
+              </View>
+            ))}
+            <Pressable style={styles.smallSecondaryButton} onPress={() => addSetRow(row.id)}>
+              <Text style={styles.smallSecondaryButtonText}>Add Set</Text>
+            </Pressable>
             <Pressable style={styles.smallSecondaryButton} onPress={() => removeExerciseRow(row.id)}>
               <Text style={styles.smallSecondaryButtonText}>Remove Exercise</Text>
             </Pressable>
@@ -667,14 +995,85 @@ export function WorkoutScreen({
       </View>
 
       <View style={styles.historyCard}>
-        <Text style={styles.sectionSubTitle}>Recent Sessions</Text>
-        {recentWorkouts.length === 0 ? (
-          <Text style={styles.emptyText}>No workouts logged yet.</Text>
+        <Text style={styles.sectionSubTitle}>Personal Records</Text>
+        <View style={[styles.pills, styles.historyFilters]}>
+          {(Object.keys(E1RM_FORMULA_LABELS) as E1rmFormula[]).map((formula) => {
+            const active = e1rmFormula === formula;
+            return (
+              <Pressable
+                key={formula}
+                style={[styles.pill, active ? styles.pillActive : undefined]}
+                onPress={() => onChangeE1rmFormula(formula)}
+              >
+                <Text style={[styles.pillText, active ? styles.pillTextActive : undefined]}>
+                  {E1RM_FORMULA_LABELS[formula]} e1RM
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {personalRecords.length === 0 ? (
+          <Text style={styles.emptyText}>Log strength sets to start tracking records.</Text>
+        ) : (
+          personalRecords.map((record) => (
+            <View key={record.key} style={styles.entryRow}>
+              <View style={styles.entryMain}>
+                <Text style={styles.entryType}>{record.name}</Text>
+                <Text style={styles.entryMeta}>
+                  Heaviest {formatRecordSet(record.heaviest)} • {formatDateLabel(record.heaviest.date)}
+                </Text>
+                <Text style={styles.entryMeta}>
+                  Rep records: {record.repRecords.slice(0, 3).map(formatRecordSet).join(" • ")}
+                </Text>
+              </View>
+              <View style={styles.entryRight}>
+                <Text style={styles.recordValue}>
+                  {record.bestE1rm.e1rmKg > 0 ? `${record.bestE1rm.e1rmKg} kg` : "—"}
+                </Text>
+                <Text style={styles.entryMeta}>e1RM</Text>
+              </View>
+            </View>
+          ))
+        )}
+      </View>
+
+      <View style={styles.historyCard}>
+        <Text style={styles.sectionSubTitle}>Workout History</Text>
+        <TextInput
+          value={historyQuery}
+          onChangeText={setHistoryQuery}
+          style={[styles.input, styles.historySearch]}
+          placeholder="Search exercises or templates"
+          autoCapitalize="none"
+        />
+        <View style={[styles.pills, styles.historyFilters]}>
+          {([null, ...Object.keys(WORKOUT_TYPE_LABELS)] as Array<WorkoutType | null>).map((type) => {
+            const active = historyType === type;
+            return (
+              <Pressable
+                key={type ?? "all"}
+                style={[styles.pill, active ? styles.pillActive : undefined]}
+                onPress={() => setHistoryType(type)}
+              >
+                <Text style={[styles.pillText, active ? styles.pillTextActive : undefined]}>
+                  {type ? WORKOUT_TYPE_LABELS[type] : "All"}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+        {visibleHistory.length === 0 ? (
+          <Text style={styles.emptyText}>
+            {workouts.length === 0 ? "No workouts logged yet." : "No workouts match these filters."}
+          </Text>
         ) : (
-          recentWorkouts.map((entry) => (
+          visibleHistory.map((entry) => (
             <View key={entry.id} style={styles.entryRow}>
               <View style={styles.entryMain}>
-                <Text style={styles.entryType}>{WORKOUT_TYPE_LABELS[entry.workoutType]}</Text>
+                <View style={styles.entryTitleRow}>
+                  <Text style={styles.entryType}>{WORKOUT_TYPE_LABELS[entry.workoutType]}</Text>
+                  {recordHitsByWorkout.has(entry.id) ? <Text style={styles.recordBadge}>PR</Text> : null}
+                </View>
                 <Text style={styles.entryMeta}>
                   {formatDateLabel(entry.date)} • {entry.durationMinutes} min
                 </Text>
@@ -703,6 +1102,24 @@ export function WorkoutScreen({
             </View>
           ))
         )}
+        {aliasedEntryCount > 0 ? (
+          <Pressable style={styles.smallSecondaryButton} onPress={onMergeExerciseAliases}>
+            <Text style={styles.smallSecondaryButtonText}>
+              Merge exercise name aliases ({aliasedEntryCount} {aliasedEntryCount === 1 ? "entry" : "entries"})
+            </Text>
+          </Pressable>
+        ) : null}
+        {olderHistoryCount > 0 ? (
+          <Pressable
+            style={styles.secondaryButton}
+            onPress={() => void loadOlderHistory()}
+            disabled={loadingHistory}
+          >
+            <Text style={styles.secondaryButtonText}>
+              {loadingHistory ? "Loading..." : `Load More (${olderHistoryCount} older)`}
+            </Text>
+          </Pressable>
+        ) : null}
       </View>
     </ScrollView>
   );
@@ -871,6 +1288,53 @@ const styles = StyleSheet.create({
   exerciseValueInput: {
     flex: 1
   },
+  setRow: {
+    marginTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: "#ecf2e8",
+    paddingTop: spacing.xs
+  },
+  setHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center"
+  },
+  setHeaderActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs
+  },
+  setLabel: {
+    color: colors.inkMuted,
+    fontSize: 12,
+    fontWeight: "700"
+  },
+  warmupToggle: {
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 3
+  },
+  warmupToggleActive: {
+    backgroundColor: colors.warningSoft,
+    borderColor: colors.warning
+  },
+  warmupToggleText: {
+    color: colors.inkMuted,
+    fontSize: 11,
+    fontWeight: "700"
+  },
+  warmupToggleTextActive: {
+    color: colors.warning
+  },
+  setRemoveButton: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    borderRadius: radii.sm,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 3
+  },
   notesInput: {
     minHeight: 82,
     textAlignVertical: "top"
@@ -922,6 +1386,37 @@ const styles = StyleSheet.create({
     fontWeight: "700",
     fontSize: 12
   },
+  suggestionRow: {
+    marginTop: spacing.xs,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: spacing.xs
+  },
+  suggestionChip: {
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    backgroundColor: colors.accentSoft,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4
+  },
+  suggestionText: {
+    color: colors.accent,
+    fontSize: 12,
+    fontWeight: "700"
+  },
+  prescriptionBox: {
+    marginTop: spacing.xs,
+    borderWidth: 1,
+    borderColor: colors.cardBorder,
+    borderRadius: radii.sm,
+    backgroundColor: colors.accentSoft,
+    padding: spacing.sm
+  },
+  prescriptionTitle: {
+    color: colors.accent,
+    fontWeight: "700"
+  },
   historyCard: {
     marginTop: spacing.lg,
     backgroundColor: colors.card,
@@ -930,6 +1425,13 @@ const styles = StyleSheet.create({
     borderColor: colors.cardBorder,
     padding: spacing.md
   },
+  historySearch: {
+    marginTop: spacing.sm
+  },
+  historyFilters: {
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs
+  },
   emptyText: {
     color: colors.inkMuted,
     marginTop: spacing.sm
@@ -949,6 +1451,25 @@ const styles = StyleSheet.create({
     color: colors.inkSoft,
     fontWeight: "700"
   },
+  entryTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: spacing.xs
+  },
+  recordBadge: {
+    backgroundColor: colors.warningSoft,
+    color: colors.warning,
+    borderRadius: radii.sm,
+    paddingHorizontal: 6,
+    fontSize: 11,
+    fontWeight: "800",
+    overflow: "hidden"
+  },
+  recordValue: {
+    color: colors.accent,
+    fontSize: 16,
+    fontWeight: "800"
+  },
   entryMeta: {
     color: colors.inkMuted,
     fontSize: 12,
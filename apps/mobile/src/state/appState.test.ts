@@ -1,5 +1,17 @@
 import { AppData, NutritionLog, ProgressEntry, UserProfile, WorkoutLog } from "../types";
-import { mergeSnapshot, updateWorkoutInList } from "./appState";
+import { createStraightSets } from "../utils/workoutSets";
+import {
+  buildSyncBatch,
+  mergeSnapshot,
+  recordSyncConflict,
+  resolveSyncConflict,
+  filterWorkoutHistory,
+  mergeExerciseAliases,
+  mergeRemoteList,
+  mergeWorkoutHistoryPages,
+  summarizeGuestData,
+  updateWorkoutInList
+} from "./appState";
 
 function assert(condition: boolean, message: string) {
   if (!condition) {
@@ -31,8 +43,14 @@ function makeProfile(partial: Partial<UserProfile> = {}): UserProfile {
     heightCm: 176,
     currentWeightKg: 74,
     goal: "maintain",
+    activityLevel: "moderate",
+    weeklyRateKg: 0,
     dailyCalorieTarget: 2400,
     proteinTargetGrams: 140,
+    carbsTargetGrams: 323,
+    fatTargetGrams: 67,
+    fiberTargetGrams: 34,
+    waterTargetLiters: 2.6,
     ...partial
   };
 }
@@ -47,9 +65,7 @@ function makeWorkout(partial: Partial<WorkoutLog> = {}): WorkoutLog {
       {
         id: "ex-1",
         name: "Barbell Bench Press",
-        sets: 4,
-        reps: 6,
-        weightKg: 70
+        sets: createStraightSets(4, { reps: 6, weightKg: 70 })
       }
     ],
     intensityRpe: 8,
@@ -88,7 +104,8 @@ function makeLocalData(): AppData {
     auth: {
       userId: "user-1",
       email: "user@example.com",
-      token: "token"
+      token: "token",
+      refreshToken: "refresh-token"
     },
     profile: makeProfile(),
     workouts: [makeWorkout()],
@@ -103,12 +120,24 @@ function makeLocalData(): AppData {
       deletedWorkoutIds: [],
       deletedNutritionDates: [],
       deletedProgressIds: [],
-      lastSuccessfulSyncAt: null
+      programEnrollmentPending: false,
+      customFoodPendingIds: [],
+      recipePendingIds: [],
+      savedMealPendingIds: [],
+      lastSuccessfulSyncAt: null,
+      changeCursor: null,
+      conflicts: []
     },
     settings: {
       dailyReminderEnabled: false,
       dailyReminderTime: "20:00",
-      reminderNotificationId: null
+      reminderNotificationId: null,
+      e1rmFormula: "epley",
+      programEnrollment: null,
+      customFoods: [],
+      recipes: [],
+      savedMeals: [],
+      lastTargetReviewDate: null
     }
   };
 }
@@ -148,6 +177,128 @@ runTest("mergeSnapshot keeps local profile when profile sync is pending", () =>
   assertEqual(merged.profile?.name, "Local Pending Name", "profile.name");
 });
 
+runTest("mergeSnapshot applies partial change sets and tombstones without touching pending records", () => {
+  const local = makeLocalData();
+  local.workouts = [
+    makeWorkout({ id: "wk-synced", notes: "local synced" }),
+    makeWorkout({ id: "wk-pending", notes: "local pending", syncedAt: null }),
+    makeWorkout({ id: "wk-removed" })
+  ];
+  local.progressEntries = [makeProgress({ id: "prog-removed" }), makeProgress({ id: "prog-pending" })];
+  local.sync.progressPendingIds = ["prog-pending"];
+
+  const merged = mergeSnapshot(local, {
+    workouts: [
+      makeWorkout({ id: "wk-synced", notes: "remote update" }),
+      makeWorkout({ id: "wk-pending", notes: "remote stale" })
+    ],
+    deletedWorkoutIds: ["wk-removed"],
+    deletedNutritionDates: ["2026-02-16"],
+    deletedProgressIds: ["prog-removed", "prog-pending"]
+  });
+
+  assertEqual(merged.profile?.name, "Default", "profile.name");
+  assertEqual(merged.workouts.length, 2, "workouts.length");
+  assertEqual(merged.workouts.find((entry) => entry.id === "wk-synced")?.notes, "remote update", "synced notes");
+  assertEqual(merged.workouts.find((entry) => entry.id === "wk-pending")?.notes, "local pending", "pending notes");
+  assert(!merged.nutritionByDate["2026-02-16"], "deleted nutrition date should be removed");
+  assertEqual(merged.progressEntries.length, 1, "progressEntries.length");
+  assertEqual(merged.progressEntries[0]?.id, "prog-pending", "remaining progress id");
+});
+
+runTest("buildSyncBatch orders deletes before upserts and skips records pending deletion", () => {
+  const local = makeLocalData();
+  local.workouts = [makeWorkout({ id: "wk-new", syncedAt: null }), makeWorkout({ id: "wk-gone", syncedAt: null })];
+  local.nutritionByDate["2026-02-17"] = makeNutrition({ date: "2026-02-17" });
+  local.sync.profilePending = true;
+  local.sync.nutritionPendingDates = ["2026-02-17", "2026-02-18"];
+  local.sync.deletedWorkoutIds = ["wk-gone"];
+  local.sync.deletedProgressIds = ["prog-1"];
+  local.sync.progressPendingIds = ["prog-1"];
+
+  const operations = buildSyncBatch(local);
+  const summary = operations.map((operation) =>
+    operation.op === "delete" ? `delete:${operation.entity}:${operation.key}` : `upsert:${operation.entity}`
+  );
+
+  assertEqual(
+    summary.join(","),
+    "delete:workout:wk-gone,delete:progress:prog-1,upsert:profile,upsert:nutrition,upsert:workout",
+    "operations"
+  );
+});
+
+runTest("sync conflicts hold records out of the batch until the user picks a version", () => {
+  const local = makeLocalData();
+  local.workouts = [makeWorkout({ id: "wk-1", notes: "phone A", version: 1, syncedAt: null })];
+  const remoteWorkout = makeWorkout({ id: "wk-1", notes: "phone B", version: 2 });
+
+  const conflicted = recordSyncConflict(local, {
+    entity: "workout",
+    key: "wk-1",
+    local: local.workouts[0],
+    remote: remoteWorkout,
+    detectedAt: "2026-02-17T08:00:00.000Z"
+  });
+  assertEqual(conflicted.sync.conflicts.length, 1, "conflicts.length");
+  assertEqual(buildSyncBatch(conflicted).length, 0, "batch while conflicted");
+
+  const keptLocal = resolveSyncConflict(conflicted, "workout", "wk-1", "local");
+  assertEqual(keptLocal.sync.conflicts.length, 0, "conflicts after keeping local");
+  assertEqual(keptLocal.workouts[0]?.notes, "phone A", "kept local notes");
+  assertEqual(keptLocal.workouts[0]?.version, 2, "rebased version");
+  const retry = buildSyncBatch(keptLocal);
+  assertEqual(retry.length, 1, "batch after keeping local");
+  assert(
+    retry[0]?.op === "upsert" && retry[0].entity === "workout" && retry[0].data.version === 2,
+    "retry should carry the server version"
+  );
+
+  const keptRemote = resolveSyncConflict(conflicted, "workout", "wk-1", "remote");
+  assertEqual(keptRemote.workouts[0]?.notes, "phone B", "kept remote notes");
+  assertEqual(buildSyncBatch(keptRemote).length, 0, "batch after keeping remote");
+});
+
+runTest("keeping the server nutrition copy clears the pending date", () => {
+  const local = makeLocalData();
+  local.sync.nutritionPendingDates = ["2026-02-16"];
+  const conflicted = recordSyncConflict(local, {
+    entity: "nutrition",
+    key: "2026-02-16",
+    local: makeNutrition({ calories: 1900 }),
+    remote: makeNutrition({ calories: 2500, version: 3 }),
+    detectedAt: "2026-02-17T08:00:00.000Z"
+  });
+
+  const resolved = resolveSyncConflict(conflicted, "nutrition", "2026-02-16", "remote");
+  assertEqual(resolved.nutritionByDate["2026-02-16"]?.calories, 2500, "calories");
+  assertEqual(resolved.sync.nutritionPendingDates.length, 0, "nutritionPendingDates.length");
+});
+
+runTest("conflicts with a deleted record either re-create or drop the local copy", () => {
+  const local = makeLocalData();
+  local.workouts = [makeWorkout({ id: "wk-1", notes: "phone A", version: 1, syncedAt: null })];
+  const conflicted = recordSyncConflict(local, {
+    entity: "workout",
+    key: "wk-1",
+    local: local.workouts[0],
+    remote: null,
+    detectedAt: "2026-02-17T08:00:00.000Z"
+  });
+
+  const keptLocal = resolveSyncConflict(conflicted, "workout", "wk-1", "local");
+  assertEqual(keptLocal.workouts[0]?.version, undefined, "version dropped so the push re-creates");
+  const retry = buildSyncBatch(keptLocal);
+  assert(
+    retry.length === 1 && retry[0]?.op === "upsert" && retry[0].entity === "workout" && retry[0].data.version === undefined,
+    "retry should be an unversioned upsert"
+  );
+
+  const keptRemote = resolveSyncConflict(conflicted, "workout", "wk-1", "remote");
+  assertEqual(keptRemote.workouts.length, 0, "workouts after accepting the delete");
+  assertEqual(buildSyncBatch(keptRemote).length, 0, "batch after accepting the delete");
+});
+
 runTest("updateWorkoutInList updates workout fields and marks it unsynced", () => {
   const workouts = [makeWorkout()];
 
@@ -158,8 +309,7 @@ runTest("updateWorkoutInList updates workout fields and marks it unsynced", () =
       {
         id: "ex-2",
         name: "Bike Intervals",
-        sets: 8,
-        reps: 1
+        sets: createStraightSets(8, { reps: 1 })
       }
     ],
     intensityRpe: 7.5,
@@ -197,3 +347,118 @@ runTest("updateWorkoutInList is a no-op for unknown workout ids", () => {
   assertEqual(result.updatedWorkout, null, "updatedWorkout");
   assertEqual(result.workouts, workouts, "workout list reference");
 });
+
+runTest("summarizeGuestData counts local records and ignores empty devices", () => {
+  const local = makeLocalData();
+  local.workouts.push(makeWorkout({ id: "wk-2" }));
+
+  const summary = summarizeGuestData(local);
+  assert(summary !== null, "summary should exist");
+  assertEqual(summary?.hasProfile, true, "summary.hasProfile");
+  assertEqual(summary?.workouts, 2, "summary.workouts");
+  assertEqual(summary?.nutritionDays, 1, "summary.nutritionDays");
+  assertEqual(summary?.progressEntries, 1, "summary.progressEntries");
+  assertEqual(summary?.customFoods, 0, "summary.customFoods");
+
+  const bare = { ...local, profile: null, workouts: [], nutritionByDate: {}, progressEntries: [] };
+  assertEqual(summarizeGuestData(bare), null, "empty summary");
+
+  const foodsOnly = summarizeGuestData({
+    ...bare,
+    settings: {
+      ...bare.settings,
+      customFoods: [
+        { id: "cf-1", name: "Granola", servingSize: 50, servingUnit: "g", calories: 220, protein: 5, carbs: 30, fat: 9 }
+      ]
+    }
+  });
+  assertEqual(foodsOnly?.customFoods, 1, "custom foods alone count as guest data");
+
+  const mealsOnly = summarizeGuestData({
+    ...bare,
+    settings: { ...bare.settings, savedMeals: [{ id: "sm-1", name: "Breakfast", items: [] }] }
+  });
+  assertEqual(mealsOnly?.savedMeals, 1, "saved meals alone count as guest data");
+
+  const programOnly = summarizeGuestData({
+    ...bare,
+    settings: {
+      ...bare.settings,
+      programEnrollment: { programId: "full_body_3x", startDate: "2026-03-02", enrolledAt: "2026-03-02T07:00:00.000Z" }
+    }
+  });
+  assertEqual(programOnly?.hasProgram, true, "a program alone counts as guest data");
+});
+
+runTest("filterWorkoutHistory matches type and template or exercise names", () => {
+  const workouts = [
+    makeWorkout(),
+    makeWorkout({
+      id: "wk-2",
+      workoutType: "cardio",
+      templateName: undefined,
+      exerciseEntries: [{ id: "ex-2", name: "Rowing Intervals", sets: createStraightSets(5, { reps: 1 }) }]
+    }),
+    makeWorkout({ id: "wk-3", templateName: "Pull A", exerciseEntries: [] })
+  ];
+
+  const ids = (filter: Parameters<typeof filterWorkoutHistory>[1]) =>
+    filterWorkoutHistory(workouts, filter).map((workout) => workout.id).join(",");
+
+  assertEqual(ids({ query: "", workoutType: null }), "wk-1,wk-2,wk-3", "unfiltered");
+  assertEqual(ids({ query: "  BENCH ", workoutType: null }), "wk-1", "exercise search");
+  assertEqual(ids({ query: "pull", workoutType: null }), "wk-3", "template search");
+  assertEqual(ids({ query: "", workoutType: "cardio" }), "wk-2", "type filter");
+  assertEqual(ids({ query: "row", workoutType: "strength" }), "", "combined filters");
+});
+
+runTest("mergeWorkoutHistoryPages shows loaded pages through local copies and keeps unsynced workouts", () => {
+  const local = [
+    makeWorkout({ id: "wk-new", date: "2026-02-20" }),
+    makeWorkout({ id: "wk-page", date: "2026-02-18", notes: "edited locally" }),
+    makeWorkout({ id: "wk-older", date: "2026-02-10" }),
+    makeWorkout({ id: "wk-pending-old", date: "2026-02-01", syncedAt: null })
+  ];
+  const loaded = [makeWorkout({ id: "wk-page", date: "2026-02-18" }), makeWorkout({ id: "wk-deleted", date: "2026-02-15" })];
+  const filter = { query: "", workoutType: null };
+
+  const ids = (workouts: WorkoutLog[]) => workouts.map((workout) => workout.id).join(",");
+  const partial = mergeWorkoutHistoryPages(local, loaded, filter, false);
+  assertEqual(ids(partial), "wk-new,wk-page,wk-pending-old", "partial history");
+  assertEqual(partial[1]?.notes, "edited locally", "local copy wins");
+  assertEqual(ids(mergeWorkoutHistoryPages(local, loaded, filter, true)), "wk-new,wk-page,wk-older,wk-pending-old", "complete");
+});
+
+runTest("mergeRemoteList takes the server list but keeps pending local changes", () => {
+  const local = [
+    { id: "food-a", name: "Local oats" },
+    { id: "food-b", name: "Unsynced shake" }
+  ];
+  const remote = [
+    { id: "food-a", name: "Oats from another phone" },
+    { id: "food-c", name: "Server only" },
+    { id: "food-d", name: "Deleted here" }
+  ];
+
+  const merged = mergeRemoteList(local, remote, ["food-b", "food-d"]);
+  assertEqual(merged.map((item) => item.name).join(","), "Oats from another phone,Server only,Unsynced shake", "names");
+});
+
+runTest("mergeExerciseAliases renames catalog aliases and queues the workouts for sync", () => {
+  const workouts = [
+    makeWorkout({
+      exerciseEntries: [
+        { id: "ex-1", name: "BB bench", sets: createStraightSets(3, { reps: 5, weightKg: 80 }) },
+        { id: "ex-2", name: "Cable Rope Curl Thing", sets: createStraightSets(3, { reps: 12 }) }
+      ]
+    }),
+    makeWorkout({ id: "wk-2" })
+  ];
+
+  const merged = mergeExerciseAliases(workouts);
+  assertEqual(merged.renamedEntries, 1, "renamed entries");
+  assertEqual(merged.workouts[0].exerciseEntries[0].name, "Barbell Bench Press", "canonical name");
+  assertEqual(merged.workouts[0].exerciseEntries[1].name, "Cable Rope Curl Thing", "unknown name kept");
+  assertEqual(merged.workouts[0].syncedAt, null, "renamed workout is pending sync");
+  assert(merged.workouts[1] === workouts[1], "untouched workout is reused");
+});
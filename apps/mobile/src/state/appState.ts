@@ -1,22 +1,81 @@
-import { AppData, WorkoutDraft, WorkoutLog } from "../types";
+import { findCatalogExercise } from "@fitness/shared";
+
+import {
+  AppData,
+  GuestDataSummary,
+  SyncBatchOperation,
+  SyncChangeSet,
+  SyncConflict,
+  SyncConflictChoice,
+  WorkoutDraft,
+  WorkoutLog,
+  WorkoutType
+} from "../types";
+import { completeProfile } from "../utils/targets";
 
 export type SnapshotData = Omit<AppData, "auth" | "sync" | "settings">;
 
-function mergeById<T extends { id: string }>(remoteItems: T[], localItems: T[]): T[] {
+function mergeById<T extends { id: string }>(
+  localItems: T[],
+  remoteItems: T[],
+  remoteDeletedIds: Set<string>,
+  isLocalPending: (item: T) => boolean
+): T[] {
   const map = new Map<string, T>();
-  for (const remoteItem of remoteItems) {
-    map.set(remoteItem.id, remoteItem);
-  }
   for (const localItem of localItems) {
+    if (remoteDeletedIds.has(localItem.id) && !isLocalPending(localItem)) {
+      continue;
+    }
     map.set(localItem.id, localItem);
   }
+  for (const remoteItem of remoteItems) {
+    const localItem = map.get(remoteItem.id);
+    if (localItem && isLocalPending(localItem)) {
+      continue;
+    }
+    map.set(remoteItem.id, remoteItem);
+  }
   return Array.from(map.values());
 }
 
-export function mergeSnapshot(local: AppData, remote: SnapshotData): AppData {
+/**
+ * Takes the server's full list for a synced setting such as custom foods. Ids with local
+ * changes that have not reached the server keep the device's copy, or stay deleted.
+ */
+export function mergeRemoteList<T extends { id: string }>(localItems: T[], remoteItems: T[], pendingIds: string[]): T[] {
+  const pending = new Set(pendingIds);
+  return [
+    ...remoteItems.filter((item) => !pending.has(item.id)),
+    ...localItems.filter((item) => pending.has(item.id))
+  ];
+}
+
+/** Counts what a guest has logged on this device, or returns null when there is nothing to keep. */
+export function summarizeGuestData(data: AppData): GuestDataSummary | null {
+  const summary: GuestDataSummary = {
+    hasProfile: !!data.profile,
+    workouts: data.workouts.length,
+    nutritionDays: Object.keys(data.nutritionByDate).length,
+    progressEntries: data.progressEntries.length,
+    customFoods: data.settings.customFoods.length,
+    recipes: data.settings.recipes.length,
+    savedMeals: data.settings.savedMeals.length,
+    hasProgram: !!data.settings.programEnrollment
+  };
+  return Object.values(summary).some(Boolean) ? summary : null;
+}
+
+/**
+ * Applies a full snapshot or a partial change set from the server. Remote records replace
+ * local ones unless the local copy still has unsynced edits; remote tombstones remove
+ * local records under the same rule.
+ */
+export function mergeSnapshot(local: AppData, remote: SyncChangeSet): AppData {
   const deletedWorkoutIds = new Set(local.sync.deletedWorkoutIds);
   const deletedNutritionDates = new Set(local.sync.deletedNutritionDates);
   const deletedProgressIds = new Set(local.sync.deletedProgressIds);
+  const pendingNutritionDates = new Set(local.sync.nutritionPendingDates);
+  const pendingProgressIds = new Set(local.sync.progressPendingIds);
 
   const normalizedRemoteWorkouts = (remote.workouts ?? [])
     .map((entry) => ({
@@ -32,35 +91,55 @@ export function mergeSnapshot(local: AppData, remote: SnapshotData): AppData {
 
   const localWorkouts = local.workouts.filter((entry) => !deletedWorkoutIds.has(entry.id));
 
+  const remoteDeletedNutritionDates = new Set(remote.deletedNutritionDates ?? []);
   const filteredRemoteNutrition = Object.fromEntries(
-    Object.entries(remote.nutritionByDate ?? {}).filter(([date]) => !deletedNutritionDates.has(date))
+    Object.entries(remote.nutritionByDate ?? {}).filter(
+      ([date]) => !deletedNutritionDates.has(date) && !pendingNutritionDates.has(date)
+    )
   );
   const localNutrition = Object.fromEntries(
-    Object.entries(local.nutritionByDate).filter(([date]) => !deletedNutritionDates.has(date))
+    Object.entries(local.nutritionByDate).filter(
+      ([date]) =>
+        !deletedNutritionDates.has(date) &&
+        (!remoteDeletedNutritionDates.has(date) || pendingNutritionDates.has(date))
+    )
   );
 
   const filteredRemoteProgress = (remote.progressEntries ?? []).filter(
     (entry) => !deletedProgressIds.has(entry.id)
   );
   const localProgress = local.progressEntries.filter((entry) => !deletedProgressIds.has(entry.id));
-  const mergedProfile = local.sync.profilePending
-    ? (local.profile ?? remote.profile ?? null)
-    : (remote.profile ?? local.profile ?? null);
+  const chosenProfile =
+    remote.profile === undefined || local.sync.profilePending
+      ? (local.profile ?? remote.profile ?? null)
+      : (remote.profile ?? local.profile ?? null);
+  // Another client may have saved the profile before it knew about the newer targets.
+  const mergedProfile = chosenProfile ? completeProfile(chosenProfile) : null;
 
   return {
     auth: local.auth,
     profile: mergedProfile,
-    workouts: mergeById(normalizedRemoteWorkouts, localWorkouts).sort((a, b) => {
+    workouts: mergeById(
+      localWorkouts,
+      normalizedRemoteWorkouts,
+      new Set(remote.deletedWorkoutIds ?? []),
+      (entry) => !entry.syncedAt
+    ).sort((a, b) => {
       if (a.date === b.date) {
         return b.createdAt.localeCompare(a.createdAt);
       }
       return b.date.localeCompare(a.date);
     }),
     nutritionByDate: {
-      ...filteredRemoteNutrition,
-      ...localNutrition
+      ...localNutrition,
+      ...filteredRemoteNutrition
     },
-    progressEntries: mergeById(filteredRemoteProgress, localProgress).sort((a, b) =>
+    progressEntries: mergeById(
+      localProgress,
+      filteredRemoteProgress,
+      new Set(remote.deletedProgressIds ?? []),
+      (entry) => pendingProgressIds.has(entry.id)
+    ).sort((a, b) =>
       b.date.localeCompare(a.date)
     ),
     sync: local.sync,
@@ -68,6 +147,141 @@ export function mergeSnapshot(local: AppData, remote: SnapshotData): AppData {
   };
 }
 
+function hasConflict(data: AppData, entity: SyncConflict["entity"], key: string): boolean {
+  return data.sync.conflicts.some((conflict) => conflict.entity === entity && conflict.key === key);
+}
+
+/**
+ * Collects every pending local mutation into one ordered batch: deletes first, then the
+ * profile, nutrition, progress and workout upserts. Records with an open conflict wait until
+ * the user picks a version.
+ */
+export function buildSyncBatch(data: AppData): SyncBatchOperation[] {
+  const operations: SyncBatchOperation[] = [
+    ...data.sync.deletedWorkoutIds.map((key) => ({ op: "delete" as const, entity: "workout" as const, key })),
+    ...data.sync.deletedNutritionDates.map((key) => ({ op: "delete" as const, entity: "nutrition" as const, key })),
+    ...data.sync.deletedProgressIds.map((key) => ({ op: "delete" as const, entity: "progress" as const, key }))
+  ];
+
+  if (data.profile && data.sync.profilePending) {
+    operations.push({ op: "upsert", entity: "profile", data: data.profile });
+  }
+
+  for (const date of data.sync.nutritionPendingDates) {
+    const log = data.nutritionByDate[date];
+    if (log && !data.sync.deletedNutritionDates.includes(date) && !hasConflict(data, "nutrition", date)) {
+      operations.push({ op: "upsert", entity: "nutrition", data: log });
+    }
+  }
+
+  for (const entryId of data.sync.progressPendingIds) {
+    const entry = data.progressEntries.find((item) => item.id === entryId);
+    if (entry && !data.sync.deletedProgressIds.includes(entryId) && !hasConflict(data, "progress", entryId)) {
+      operations.push({ op: "upsert", entity: "progress", data: entry });
+    }
+  }
+
+  for (const workout of data.workouts) {
+    if (
+      !workout.syncedAt &&
+      !data.sync.deletedWorkoutIds.includes(workout.id) &&
+      !hasConflict(data, "workout", workout.id)
+    ) {
+      operations.push({ op: "upsert", entity: "workout", data: workout });
+    }
+  }
+
+  return operations;
+}
+
+export function recordSyncConflict(data: AppData, conflict: SyncConflict): AppData {
+  return {
+    ...data,
+    sync: {
+      ...data.sync,
+      conflicts: [
+        ...data.sync.conflicts.filter((item) => item.entity !== conflict.entity || item.key !== conflict.key),
+        conflict
+      ]
+    }
+  };
+}
+
+/**
+ * Settles a conflict. Keeping the local copy rebases it onto the server version so the next
+ * push overwrites the server, or re-creates it when the server copy was deleted; keeping the
+ * server copy replaces or removes the local record and drops its pending flag.
+ */
+export function resolveSyncConflict(
+  data: AppData,
+  entity: SyncConflict["entity"],
+  key: string,
+  choice: SyncConflictChoice
+): AppData {
+  const conflict = data.sync.conflicts.find((item) => item.entity === entity && item.key === key);
+  if (!conflict) {
+    return data;
+  }
+
+  const sync = {
+    ...data.sync,
+    conflicts: data.sync.conflicts.filter((item) => item !== conflict)
+  };
+
+  if (conflict.entity === "workout") {
+    const nextWorkout =
+      choice === "local"
+        ? { ...conflict.local, version: conflict.remote?.version, syncedAt: null }
+        : conflict.remote;
+    const others = data.workouts.filter((entry) => entry.id !== key);
+    const exists = others.length < data.workouts.length;
+    return {
+      ...data,
+      workouts: !nextWorkout
+        ? others
+        : exists
+          ? data.workouts.map((entry) => (entry.id === key ? nextWorkout : entry))
+          : [nextWorkout, ...data.workouts],
+      sync
+    };
+  }
+
+  if (conflict.entity === "nutrition") {
+    const nextLog = choice === "local" ? { ...conflict.local, version: conflict.remote?.version } : conflict.remote;
+    const { [key]: _replaced, ...otherDays } = data.nutritionByDate;
+    return {
+      ...data,
+      nutritionByDate: nextLog ? { ...otherDays, [key]: nextLog } : otherDays,
+      sync: {
+        ...sync,
+        nutritionPendingDates:
+          choice === "local"
+            ? Array.from(new Set([...sync.nutritionPendingDates, key]))
+            : sync.nutritionPendingDates.filter((date) => date !== key)
+      }
+    };
+  }
+
+  const nextEntry = choice === "local" ? { ...conflict.local, version: conflict.remote?.version } : conflict.remote;
+  const others = data.progressEntries.filter((entry) => entry.id !== key);
+  const exists = others.length < data.progressEntries.length;
+  return {
+    ...data,
+    progressEntries: !nextEntry
+      ? others
+      : exists
+        ? data.progressEntries.map((entry) => (entry.id === key ? nextEntry : entry))
+        : [nextEntry, ...data.progressEntries],
+    sync: {
+      ...sync,
+      progressPendingIds:
+        choice === "local"
+          ? Array.from(new Set([...sync.progressPendingIds, key]))
+          : sync.progressPendingIds.filter((id) => id !== key)
+    }
+  };
+}
+
 function buildUpdatedWorkout(existing: WorkoutLog, draft: WorkoutDraft): WorkoutLog {
   return {
     ...existing,
@@ -82,6 +296,85 @@ function buildUpdatedWorkout(existing: WorkoutLog, draft: WorkoutDraft): Workout
   };
 }
 
+export interface WorkoutHistoryFilter {
+  /** Matched case-insensitively against template and exercise names. */
+  query: string;
+  workoutType: WorkoutType | null;
+}
+
+export function filterWorkoutHistory(workouts: WorkoutLog[], filter: WorkoutHistoryFilter): WorkoutLog[] {
+  const needle = filter.query.trim().toLowerCase();
+  return workouts.filter((workout) => {
+    if (filter.workoutType && workout.workoutType !== filter.workoutType) {
+      return false;
+    }
+    if (!needle) {
+      return true;
+    }
+    return (
+      (workout.templateName?.toLowerCase().includes(needle) ?? false) ||
+      (workout.exerciseEntries ?? []).some((entry) => entry.name.toLowerCase().includes(needle))
+    );
+  });
+}
+
+// Matches the server's history order, so local rows slot between loaded pages correctly.
+function compareWorkoutsNewestFirst(a: WorkoutLog, b: WorkoutLog): number {
+  const keyA = [a.date, a.createdAt, a.id];
+  const keyB = [b.date, b.createdAt, b.id];
+  for (let index = 0; index < keyA.length; index += 1) {
+    if (keyA[index] !== keyB[index]) {
+      return keyA[index] < keyB[index] ? 1 : -1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Shows history pages loaded from the server through the device's copies, so local edits and
+ * pending deletes show up straight away. Local matches that the loaded pages cannot contain yet
+ * (unsynced, or newer than the last loaded row) are merged in; once every page has loaded, all
+ * local matches are shown.
+ */
+export function mergeWorkoutHistoryPages(
+  workouts: WorkoutLog[],
+  loaded: WorkoutLog[],
+  filter: WorkoutHistoryFilter,
+  complete: boolean
+): WorkoutLog[] {
+  const loadedIds = new Set(loaded.map((workout) => workout.id));
+  const last = loaded[loaded.length - 1];
+  return filterWorkoutHistory(workouts, filter)
+    .filter(
+      (workout) =>
+        complete || !last || loadedIds.has(workout.id) || !workout.syncedAt || compareWorkoutsNewestFirst(workout, last) < 0
+    )
+    .sort(compareWorkoutsNewestFirst);
+}
+
+/**
+ * Renames exercises logged under a catalog alias ("BB Bench", "bench press") to the canonical
+ * name. Renamed workouts are marked unsynced so the cleanup reaches the server too.
+ */
+export function mergeExerciseAliases(workouts: WorkoutLog[]): { workouts: WorkoutLog[]; renamedEntries: number } {
+  let renamedEntries = 0;
+  const merged = workouts.map((workout) => {
+    let changed = false;
+    const exerciseEntries = (workout.exerciseEntries ?? []).map((entry) => {
+      const canonical = findCatalogExercise(entry.name)?.name;
+      if (!canonical || canonical === entry.name) {
+        return entry;
+      }
+      changed = true;
+      renamedEntries += 1;
+      return { ...entry, name: canonical };
+    });
+    return changed ? { ...workout, exerciseEntries, syncedAt: null } : workout;
+  });
+
+  return { workouts: merged, renamedEntries };
+}
+
 export function updateWorkoutInList(
   workouts: WorkoutLog[],
   workoutId: string,
@@ -1,15 +1,20 @@
+import { FoodItem, MealComponent, ProgramEnrollment, Recipe, SavedMeal } from "@fitness/shared";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-import { AppData, WorkoutExerciseEntry, WorkoutLog } from "../types";
+import { AppData, SyncConflict, WorkoutExerciseEntry, WorkoutLog } from "../types";
+import { completeProfile } from "../utils/targets";
+import { sanitizeSetEntries } from "../utils/workoutSets";
 
 const STORAGE_KEY = "@fittrack/app-data/v1";
+const GUEST_STORAGE_KEY = "@fittrack/guest-data/v1";
 
 export function createEmptyAppData(): AppData {
   return {
     auth: {
       userId: null,
       email: null,
-      token: null
+      token: null,
+      refreshToken: null
     },
     profile: null,
     workouts: [],
@@ -22,12 +27,24 @@ export function createEmptyAppData(): AppData {
       deletedWorkoutIds: [],
       deletedNutritionDates: [],
       deletedProgressIds: [],
+      programEnrollmentPending: false,
+      customFoodPendingIds: [],
+      recipePendingIds: [],
+      savedMealPendingIds: [],
+      changeCursor: null,
+      conflicts: [],
       lastSuccessfulSyncAt: null
     },
     settings: {
       dailyReminderEnabled: false,
       dailyReminderTime: "20:00",
-      reminderNotificationId: null
+      reminderNotificationId: null,
+      e1rmFormula: "epley",
+      programEnrollment: null,
+      customFoods: [],
+      recipes: [],
+      savedMeals: [],
+      lastTargetReviewDate: null
     }
   };
 }
@@ -44,26 +61,21 @@ function sanitizeExerciseEntries(input: unknown): WorkoutExerciseEntry[] {
       return [];
     }
 
-    const row = item as Partial<WorkoutExerciseEntry>;
+    const row = item as Record<string, unknown>;
     if (typeof row.name !== "string" || !row.name.trim()) {
       return [];
     }
 
-    const sets = Number(row.sets);
-    const reps = Number(row.reps);
-    if (!Number.isFinite(sets) || !Number.isFinite(reps) || sets < 1 || reps < 1) {
+    const sets = sanitizeSetEntries(row);
+    if (!sets.length) {
       return [];
     }
 
-    const weight = Number(row.weightKg);
-
     return [
       {
         id: typeof row.id === "string" && row.id.trim() ? row.id : `ex_local_${index}`,
         name: row.name.trim(),
-        sets: Math.round(sets),
-        reps: Math.round(reps),
-        weightKg: Number.isFinite(weight) && weight >= 0 ? weight : undefined
+        sets
       }
     ];
   });
@@ -97,10 +109,99 @@ function sanitizeWorkoutLog(input: unknown, index: number): WorkoutLog | null {
       : undefined,
     notes: typeof row.notes === "string" && row.notes.trim() ? row.notes.trim() : undefined,
     createdAt: typeof row.createdAt === "string" ? row.createdAt : new Date().toISOString(),
-    syncedAt: typeof row.syncedAt === "string" ? row.syncedAt : null
+    syncedAt: typeof row.syncedAt === "string" ? row.syncedAt : null,
+    updatedAt: typeof row.updatedAt === "string" ? row.updatedAt : undefined,
+    version: Number.isInteger(row.version) ? row.version : undefined
   };
 }
 
+function sanitizeConflicts(input: unknown): SyncConflict[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+
+  return input.filter((item): item is SyncConflict => {
+    if (!item || typeof item !== "object") {
+      return false;
+    }
+    const row = item as Partial<SyncConflict>;
+    return (
+      (row.entity === "workout" || row.entity === "nutrition" || row.entity === "progress") &&
+      typeof row.key === "string" &&
+      !!row.local &&
+      typeof row.local === "object" &&
+      (row.remote === null || (!!row.remote && typeof row.remote === "object"))
+    );
+  });
+}
+
+function sanitizeProgramEnrollment(input: unknown): ProgramEnrollment | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+  const row = input as Partial<ProgramEnrollment>;
+  return typeof row.programId === "string" && typeof row.startDate === "string" && typeof row.enrolledAt === "string"
+    ? { programId: row.programId, startDate: row.startDate, enrolledAt: row.enrolledAt }
+    : null;
+}
+
+function sanitizeCustomFoods(input: unknown): FoodItem[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+  return input.filter((item): item is FoodItem => {
+    if (!item || typeof item !== "object") {
+      return false;
+    }
+    const row = item as Partial<FoodItem>;
+    return typeof row.id === "string"
+      && typeof row.name === "string"
+      && typeof row.servingSize === "number"
+      && typeof row.servingUnit === "string"
+      && [row.calories, row.protein, row.carbs, row.fat].every((value) => typeof value === "number");
+  });
+}
+
+function isMealComponent(item: unknown): item is MealComponent {
+  if (!item || typeof item !== "object") {
+    return false;
+  }
+  const row = item as Partial<MealComponent>;
+  return typeof row.id === "string"
+    && (typeof row.foodId === "string" || row.foodId === null)
+    && typeof row.name === "string"
+    && [row.servings, row.calories, row.protein, row.carbs, row.fat].every((value) => typeof value === "number");
+}
+
+function sanitizeRecipes(input: unknown): Recipe[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+  return input.flatMap((item): Recipe[] => {
+    const row = (item ?? {}) as Partial<Recipe>;
+    return typeof row.id === "string" && typeof row.name === "string" && typeof row.yieldServings === "number"
+      ? [{
+          id: row.id,
+          name: row.name,
+          yieldServings: row.yieldServings,
+          ingredients: Array.isArray(row.ingredients) ? row.ingredients.filter(isMealComponent) : []
+        }]
+      : [];
+  });
+}
+
+function sanitizeSavedMeals(input: unknown): SavedMeal[] {
+  if (!Array.isArray(input)) {
+    return [];
+  }
+  return input.flatMap((item): SavedMeal[] => {
+    const row = (item ?? {}) as Partial<SavedMeal>;
+    return typeof row.id === "string" && typeof row.name === "string"
+      ? [{ id: row.id, name: row.name, items: Array.isArray(row.items) ? row.items.filter(isMealComponent) : [] }]
+      : [];
+  });
+}
+
 function sanitize(input: Partial<AppData>): AppData {
   const workouts = Array.isArray(input.workouts)
     ? input.workouts.flatMap((entry, index) => {
@@ -113,9 +214,10 @@ function sanitize(input: Partial<AppData>): AppData {
     auth: {
       userId: input.auth?.userId ?? null,
       email: input.auth?.email ?? null,
-      token: input.auth?.token ?? null
+      token: input.auth?.token ?? null,
+      refreshToken: input.auth?.refreshToken ?? null
     },
-    profile: input.profile ?? null,
+    profile: input.profile ? completeProfile(input.profile) : null,
     workouts,
     nutritionByDate: input.nutritionByDate ?? {},
     progressEntries: Array.isArray(input.progressEntries) ? input.progressEntries : [],
@@ -136,12 +238,27 @@ function sanitize(input: Partial<AppData>): AppData {
       deletedProgressIds: Array.isArray(input.sync?.deletedProgressIds)
         ? input.sync.deletedProgressIds
         : [],
+      programEnrollmentPending: input.sync?.programEnrollmentPending === true,
+      customFoodPendingIds: Array.isArray(input.sync?.customFoodPendingIds)
+        ? input.sync.customFoodPendingIds
+        : [],
+      recipePendingIds: Array.isArray(input.sync?.recipePendingIds) ? input.sync.recipePendingIds : [],
+      savedMealPendingIds: Array.isArray(input.sync?.savedMealPendingIds) ? input.sync.savedMealPendingIds : [],
+      changeCursor: typeof input.sync?.changeCursor === "string" ? input.sync.changeCursor : null,
+      conflicts: sanitizeConflicts(input.sync?.conflicts),
       lastSuccessfulSyncAt: input.sync?.lastSuccessfulSyncAt ?? null
     },
     settings: {
       dailyReminderEnabled: input.settings?.dailyReminderEnabled ?? false,
       dailyReminderTime: input.settings?.dailyReminderTime ?? "20:00",
-      reminderNotificationId: input.settings?.reminderNotificationId ?? null
+      reminderNotificationId: input.settings?.reminderNotificationId ?? null,
+      e1rmFormula: input.settings?.e1rmFormula === "brzycki" ? "brzycki" : "epley",
+      programEnrollment: sanitizeProgramEnrollment(input.settings?.programEnrollment),
+      customFoods: sanitizeCustomFoods(input.settings?.customFoods),
+      recipes: sanitizeRecipes(input.settings?.recipes),
+      savedMeals: sanitizeSavedMeals(input.settings?.savedMeals),
+      lastTargetReviewDate:
+        typeof input.settings?.lastTargetReviewDate === "string" ? input.settings.lastTargetReviewDate : null
     }
   };
 }
@@ -162,3 +279,22 @@ export async function loadAppData(): Promise<AppData> {
 export async function saveAppData(data: AppData): Promise<void> {
   await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(data));
 }
+
+/** Parks guest data the user chose to keep separate from their account. */
+export async function saveGuestAppData(data: AppData): Promise<void> {
+  await AsyncStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(data));
+}
+
+/** Returns parked guest data, if any, and removes it. */
+export async function takeGuestAppData(): Promise<AppData | null> {
+  try {
+    const raw = await AsyncStorage.getItem(GUEST_STORAGE_KEY);
+    if (!raw) {
+      return null;
+    }
+    await AsyncStorage.removeItem(GUEST_STORAGE_KEY);
+    return sanitize(JSON.parse(raw) as Partial<AppData>);
+  } catch (_error) {
+    return null;
+  }
+}
@@ -0,0 +1,27 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+const DEVICE_IDENTITY_KEY = "@fittrack/device-identity/v1";
+
+export interface DeviceIdentity {
+  deviceId: string;
+  guestToken: string;
+}
+
+export async function loadDeviceIdentity(): Promise<DeviceIdentity | null> {
+  try {
+    const raw = await AsyncStorage.getItem(DEVICE_IDENTITY_KEY);
+    if (!raw) {
+      return null;
+    }
+    const row = JSON.parse(raw) as Partial<DeviceIdentity>;
+    return typeof row.deviceId === "string" && typeof row.guestToken === "string"
+      ? { deviceId: row.deviceId, guestToken: row.guestToken }
+      : null;
+  } catch (_error) {
+    return null;
+  }
+}
+
+export async function saveDeviceIdentity(identity: DeviceIdentity): Promise<void> {
+  await AsyncStorage.setItem(DEVICE_IDENTITY_KEY, JSON.stringify(identity));
+}
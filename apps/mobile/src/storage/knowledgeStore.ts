@@ -0,0 +1,83 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { createEmptyKnowledgeProgress, type KnowledgeProgress } from "../state/knowledgeState";
+
+const KNOWLEDGE_PROGRESS_KEY = "@fittrack/knowledge-progress/v1";
+
+function parseKnowledgeProgress(input: unknown): KnowledgeProgress {
+  if (!input || typeof input !== "object") {
+    return createEmptyKnowledgeProgress();
+  }
+
+  const row = input as Partial<KnowledgeProgress>;
+  const completedLessonIds = Array.isArray(row.completedLessonIds)
+    ? row.completedLessonIds.filter((item): item is string => typeof item === "string")
+    : [];
+  const learningActivityDates = Array.isArray(row.learningActivityDates)
+    ? row.learningActivityDates.filter((item): item is string => typeof item === "string")
+    : [];
+
+  const lessonQuizProgress =
+    row.lessonQuizProgress && typeof row.lessonQuizProgress === "object"
+      ? Object.fromEntries(
+          Object.entries(row.lessonQuizProgress).flatMap(([lessonId, value]) => {
+            if (!value || typeof value !== "object") {
+              return [];
+            }
+            const entry = value as {
+              attempts?: number;
+              correct?: number;
+              lastAttemptAt?: string;
+              lastSelectedIndex?: number;
+            };
+            const attempts = entry.attempts;
+            const correct = entry.correct;
+            const lastSelectedIndex = entry.lastSelectedIndex;
+            if (
+              typeof attempts !== "number" ||
+              !Number.isFinite(attempts) ||
+              typeof correct !== "number" ||
+              !Number.isFinite(correct) ||
+              typeof entry.lastAttemptAt !== "string" ||
+              typeof lastSelectedIndex !== "number" ||
+              !Number.isFinite(lastSelectedIndex)
+            ) {
+              return [];
+            }
+            return [
+              [
+                lessonId,
+                {
+                  attempts: Math.max(0, Math.round(attempts)),
+                  correct: Math.max(0, Math.round(correct)),
+                  lastAttemptAt: entry.lastAttemptAt,
+                  lastSelectedIndex: Math.max(0, Math.round(lastSelectedIndex))
+                }
+              ]
+            ];
+          })
+        )
+      : {};
+
+  return {
+    completedLessonIds,
+    learningActivityDates,
+    lessonQuizProgress
+  };
+}
+
+export async function loadKnowledgeProgress(): Promise<KnowledgeProgress> {
+  try {
+    const raw = await AsyncStorage.getItem(KNOWLEDGE_PROGRESS_KEY);
+    if (!raw) {
+      return createEmptyKnowledgeProgress();
+    }
+    return parseKnowledgeProgress(JSON.parse(raw));
+  } catch (_error) {
+    return createEmptyKnowledgeProgress();
+  }
+}
+
+export async function saveKnowledgeProgress(progress: KnowledgeProgress): Promise<void> {
+  await AsyncStorage.setItem(KNOWLEDGE_PROGRESS_KEY, JSON.stringify(progress));
+}
@@ -1,13 +1,25 @@
+import { FoodItem, FoodLogItem, ProgramEnrollment, Recipe, SavedMeal } from "@fitness/shared";
+
 export type FitnessGoal = "lose_weight" | "gain_muscle" | "maintain";
 
 export type WorkoutType = "strength" | "cardio" | "mobility";
 
+export type Sex = "male" | "female";
+
+export type ActivityLevel = "sedentary" | "light" | "moderate" | "active" | "very_active";
+
+export interface WorkoutSetEntry {
+  reps: number;
+  weightKg?: number;
+  rpe?: number;
+  rir?: number;
+  isWarmup?: boolean;
+}
+
 export interface WorkoutExerciseEntry {
   id: string;
   name: string;
-  sets: number;
-  reps: number;
-  weightKg?: number;
+  sets: WorkoutSetEntry[];
 }
 
 export interface UserProfile {
@@ -17,8 +29,19 @@ export interface UserProfile {
   heightCm: number;
   currentWeightKg: number;
   goal: FitnessGoal;
+  /** Missing on profiles created before it was asked; the calculator then averages both. */
+  sex?: Sex;
+  activityLevel: ActivityLevel;
+  /** Planned weight change in kg per week; negative while cutting. */
+  weeklyRateKg: number;
   dailyCalorieTarget: number;
   proteinTargetGrams: number;
+  carbsTargetGrams: number;
+  fatTargetGrams: number;
+  fiberTargetGrams: number;
+  waterTargetLiters: number;
+  /** Optional; drives the projected date on the Progress screen. */
+  goalWeightKg?: number;
 }
 
 export interface WorkoutLog {
@@ -33,6 +56,8 @@ export interface WorkoutLog {
   notes?: string;
   createdAt: string;
   syncedAt: string | null;
+  updatedAt?: string;
+  version?: number;
 }
 
 export interface NutritionLog {
@@ -42,6 +67,12 @@ export interface NutritionLog {
   carbs: number;
   fat: number;
   waterLiters: number;
+  /** Food entries by meal; the macro totals are derived from these. Older logs have none. */
+  items?: FoodLogItem[];
+  /** Summed from `items` on this device; the API keeps fiber on the items only. */
+  fiber?: number;
+  updatedAt?: string;
+  version?: number;
 }
 
 export interface ProgressEntry {
@@ -50,20 +81,66 @@ export interface ProgressEntry {
   weightKg: number;
   bodyFatPct?: number;
   waistCm?: number;
+  updatedAt?: string;
+  version?: number;
 }
 
+export type E1rmFormula = "epley" | "brzycki";
+
 export interface AppSettings {
   dailyReminderEnabled: boolean;
   dailyReminderTime: string;
   reminderNotificationId: string | null;
+  e1rmFormula: E1rmFormula;
+  /** Kept on the device so today's session shows offline; mirrored to the API when reachable. */
+  programEnrollment: ProgramEnrollment | null;
+  /** Foods the user created. Pulled from the API after sign-in and sync; unsynced local edits win. */
+  customFoods: FoodItem[];
+  /** Synced the same way as custom foods. */
+  recipes: Recipe[];
+  savedMeals: SavedMeal[];
+  /** Last day a proposed target was applied or dismissed; proposals wait a week after it. */
+  lastTargetReviewDate: string | null;
 }
 
 export interface AuthState {
   userId: string | null;
   email: string | null;
   token: string | null;
+  refreshToken: string | null;
+}
+
+/** What to do with offline (guest) data when signing in to an account. */
+export type GuestDataChoice = "merge" | "discard" | "keep";
+
+export interface GuestDataSummary {
+  hasProfile: boolean;
+  workouts: number;
+  nutritionDays: number;
+  progressEntries: number;
+  customFoods: number;
+  recipes: number;
+  savedMeals: number;
+  hasProgram: boolean;
 }
 
+export interface AuthDeviceSession {
+  id: string;
+  deviceName: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
+/** `remote` is null when another device deleted the record this one edited. */
+export type SyncConflict =
+  | { entity: "workout"; key: string; local: WorkoutLog; remote: WorkoutLog | null; detectedAt: string }
+  | { entity: "nutrition"; key: string; local: NutritionLog; remote: NutritionLog | null; detectedAt: string }
+  | { entity: "progress"; key: string; local: ProgressEntry; remote: ProgressEntry | null; detectedAt: string };
+
+export type SyncConflictChoice = "local" | "remote";
+
 export interface LocalSyncState {
   profilePending: boolean;
   nutritionPendingDates: string[];
@@ -71,6 +148,14 @@ export interface LocalSyncState {
   deletedWorkoutIds: string[];
   deletedNutritionDates: string[];
   deletedProgressIds: string[];
+  /** The device's enrollment has not reached the API yet, so pulls must not overwrite it. */
+  programEnrollmentPending: boolean;
+  /** Custom foods saved or deleted here that the API has not confirmed yet. */
+  customFoodPendingIds: string[];
+  recipePendingIds: string[];
+  savedMealPendingIds: string[];
+  changeCursor: string | null;
+  conflicts: SyncConflict[];
   lastSuccessfulSyncAt: string | null;
 }
 
@@ -96,6 +181,35 @@ export interface AppData {
   settings: AppSettings;
 }
 
+export interface SyncChangeSet {
+  profile?: UserProfile | null;
+  workouts?: WorkoutLog[];
+  nutritionByDate?: Record<string, NutritionLog>;
+  progressEntries?: ProgressEntry[];
+  deletedWorkoutIds?: string[];
+  deletedNutritionDates?: string[];
+  deletedProgressIds?: string[];
+}
+
+export type SyncEntity = "profile" | "workout" | "nutrition" | "progress";
+
+export type SyncBatchOperation =
+  | { op: "upsert"; entity: "profile"; data: UserProfile }
+  | { op: "upsert"; entity: "workout"; data: WorkoutLog }
+  | { op: "upsert"; entity: "nutrition"; data: NutritionLog }
+  | { op: "upsert"; entity: "progress"; data: ProgressEntry }
+  | { op: "delete"; entity: Exclude<SyncEntity, "profile">; key: string };
+
+export interface SyncBatchResult {
+  index: number;
+  op: SyncBatchOperation["op"] | null;
+  entity: SyncEntity | null;
+  key: string | null;
+  status: "applied" | "rejected" | "conflict";
+  message: string;
+  data?: WorkoutLog | NutritionLog | ProgressEntry | UserProfile;
+}
+
 export interface WorkoutDraft {
   workoutType: WorkoutType;
   durationMinutes: number;
@@ -7,6 +7,16 @@ export function toDateKey(date: Date = new Date()): string {
   return `${year}-${month}-${day}`;
 }
 
+/** Whole days since the epoch, for date-key arithmetic that ignores time zones. */
+export function dayIndex(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / 86_400_000);
+}
+
+export function addDaysToKey(dateKey: string, days: number): string {
+  return new Date((dayIndex(dateKey) + days) * 86_400_000).toISOString().slice(0, 10);
+}
+
 export function formatDateLabel(dateKey: string): string {
   const [year, month, day] = dateKey.split("-").map(Number);
   const date = new Date(year, month - 1, day);
@@ -0,0 +1,132 @@
+import {
+  createFoodLogItem,
+  createMealComponent,
+  expandSavedMeal,
+  findFood,
+  getRecipeServingMacros,
+  recipeAsFood,
+  searchFoods
+} from "@fitness/shared";
+
+import { NutritionLog } from "../types";
+import {
+  addFoodLogItem,
+  addFoodLogItems,
+  getFoodLogItems,
+  groupItemsByMeal,
+  removeFoodLogItem,
+  toMealComponents
+} from "./nutrition";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+function makeLog(partial: Partial<NutritionLog> = {}): NutritionLog {
+  return { date: "2026-03-05", calories: 0, protein: 0, carbs: 0, fat: 0, waterLiters: 1.5, ...partial };
+}
+
+runTest("day totals are derived from food entries across meals", () => {
+  const oats = findFood("db_oats");
+  const chicken = findFood("db_chicken_breast");
+  assert(!!oats && !!chicken, "bundled foods should resolve");
+  if (!oats || !chicken) {
+    return;
+  }
+
+  let log = addFoodLogItem(makeLog(), createFoodLogItem("i1", "breakfast", oats, 2));
+  log = addFoodLogItem(log, createFoodLogItem("i2", "dinner", chicken, 1.5));
+
+  assertEqual(log.calories, 552, "calories");
+  assertEqual(log.protein, 57.1, "protein");
+  assertEqual(log.carbs, 54, "carbs");
+  assertEqual(log.waterLiters, 1.5, "water is untouched");
+  assertEqual(groupItemsByMeal(getFoodLogItems(log)).dinner[0]?.name, "Chicken Breast, cooked", "dinner entry");
+
+  const withoutBreakfast = removeFoodLogItem(log, "i1");
+  assertEqual(withoutBreakfast.calories, 248, "calories after removal");
+});
+
+runTest("typed totals from older logs survive the first food entry", () => {
+  const banana = findFood("db_banana");
+  if (!banana) {
+    throw new Error("banana should resolve");
+  }
+  const log = addFoodLogItem(makeLog({ calories: 1800, protein: 120 }), createFoodLogItem("i1", "snacks", banana, 1));
+
+  assertEqual(log.items?.length, 2, "earlier totals become an entry");
+  assertEqual(log.calories, 1905, "calories");
+  assertEqual(log.protein, 121.3, "protein");
+});
+
+runTest("custom foods rank ahead of bundled foods in search", () => {
+  const custom = [
+    { id: "food_1", name: "Chicken Burrito Bowl", servingSize: 1, servingUnit: "bowl", calories: 650, protein: 42, carbs: 70, fat: 20 }
+  ];
+  const results = searchFoods("chicken", custom);
+  assertEqual(results[0]?.id, "food_1", "custom first");
+  assertEqual(results[1]?.id, "db_chicken_breast", "then bundled");
+  assertEqual(searchFoods("cooked", custom).some((food) => food.id === "food_1"), false, "no false matches");
+});
+
+runTest("recipes split batch macros into servings and log as one entry", () => {
+  const turkey = findFood("db_turkey_breast");
+  const beans = findFood("db_black_beans");
+  if (!turkey || !beans) {
+    throw new Error("bundled foods should resolve");
+  }
+  const recipe = {
+    id: "recipe_chili",
+    name: "Turkey Chili",
+    yieldServings: 4,
+    ingredients: [createMealComponent("g1", turkey, 5), createMealComponent("g2", beans, 4)]
+  };
+
+  const perServing = getRecipeServingMacros(recipe);
+  assertEqual(perServing.calories, 301, "calories per serving");
+  assertEqual(perServing.protein, 46.4, "protein per serving");
+
+  const log = addFoodLogItem(makeLog(), createFoodLogItem("i1", "dinner", recipeAsFood(recipe), 1.5));
+  assertEqual(log.calories, 452, "one and a half servings");
+  assertEqual(searchFoods("chili", [recipeAsFood(recipe)])[0]?.servingUnit, "serving", "searchable as a food");
+});
+
+runTest("saved meals log a fresh copy of their foods to the chosen meal", () => {
+  const egg = findFood("db_egg");
+  const toast = findFood("db_whole_wheat_bread");
+  if (!egg || !toast) {
+    throw new Error("bundled foods should resolve");
+  }
+  let log = addFoodLogItem(makeLog(), createFoodLogItem("i1", "breakfast", egg, 2));
+  log = addFoodLogItem(log, createFoodLogItem("i2", "breakfast", toast, 2));
+  const savedMeal = { id: "meal_1", name: "Eggs on toast", items: toMealComponents(groupItemsByMeal(getFoodLogItems(log)).breakfast) };
+  assert(savedMeal.items.every((item) => !("meal" in item)), "saved items drop their meal");
+
+  let counter = 0;
+  const next = addFoodLogItems(makeLog({ date: "2026-03-06" }), expandSavedMeal(savedMeal, "lunch", () => `n${++counter}`));
+  assertEqual(next.calories, 306, "calories");
+  assertEqual(groupItemsByMeal(getFoodLogItems(next)).lunch.length, 2, "logged to lunch");
+  assertEqual(next.items?.[1]?.id, "n2", "fresh ids");
+
+  // Editing the saved meal afterwards does not change a day that already used it.
+  savedMeal.items = savedMeal.items.slice(0, 1);
+  assertEqual(next.calories, 306, "logged day unchanged");
+});
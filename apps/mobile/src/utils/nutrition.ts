@@ -0,0 +1,80 @@
+import { FoodItem, FoodLogItem, Macros, MEAL_TYPES, MealComponent, MealType, sumFoodLogItems } from "@fitness/shared";
+
+import { NutritionLog } from "../types";
+
+export const MEAL_LABELS: Record<MealType, string> = {
+  breakfast: "Breakfast",
+  lunch: "Lunch",
+  dinner: "Dinner",
+  snacks: "Snacks"
+};
+
+/**
+ * The day's food entries. Logs saved before food logging only carry typed totals; those come
+ * back as a single snack entry so adding a food never wipes them.
+ */
+export function getFoodLogItems(log: NutritionLog): FoodLogItem[] {
+  if (log.items?.length) {
+    return log.items;
+  }
+  if (!log.calories && !log.protein && !log.carbs && !log.fat) {
+    return [];
+  }
+  return [
+    {
+      id: `${log.date}_earlier`,
+      meal: "snacks",
+      foodId: null,
+      name: "Earlier totals",
+      servings: 1,
+      calories: log.calories,
+      protein: log.protein,
+      carbs: log.carbs,
+      fat: log.fat
+    }
+  ];
+}
+
+function withItems(log: NutritionLog, items: FoodLogItem[]): NutritionLog {
+  return { ...log, ...sumFoodLogItems(items), items };
+}
+
+export function addFoodLogItem(log: NutritionLog, item: FoodLogItem): NutritionLog {
+  return addFoodLogItems(log, [item]);
+}
+
+export function addFoodLogItems(log: NutritionLog, items: FoodLogItem[]): NutritionLog {
+  return withItems(log, [...getFoodLogItems(log), ...items]);
+}
+
+export function removeFoodLogItem(log: NutritionLog, itemId: string): NutritionLog {
+  return withItems(log, getFoodLogItems(log).filter((item) => item.id !== itemId));
+}
+
+export function createQuickAddItem(id: string, meal: MealType, calories: number): FoodLogItem {
+  return { id, meal, foodId: null, name: "Quick add", servings: 1, calories, protein: 0, carbs: 0, fat: 0 };
+}
+
+/** A meal's entries as saved-meal components, without the meal they were logged to. */
+export function toMealComponents(items: FoodLogItem[]): MealComponent[] {
+  return items.map(({ meal: _meal, ...item }) => item);
+}
+
+export function groupItemsByMeal(items: FoodLogItem[]): Record<MealType, FoodLogItem[]> {
+  const groups = Object.fromEntries(MEAL_TYPES.map((meal) => [meal, [] as FoodLogItem[]])) as Record<
+    MealType,
+    FoodLogItem[]
+  >;
+  for (const item of items) {
+    groups[item.meal].push(item);
+  }
+  return groups;
+}
+
+export function formatServing(food: FoodItem): string {
+  return `${food.servingSize} ${food.servingUnit}`;
+}
+
+export function formatMacros(macros: Macros): string {
+  return `${Math.round(macros.calories)} kcal · P ${macros.protein} · C ${macros.carbs} · F ${macros.fat}`;
+}
@@ -0,0 +1,94 @@
+import { WorkoutLog, WorkoutSetEntry } from "../types";
+import {
+  buildPersonalRecordTable,
+  detectPersonalRecords,
+  estimateOneRepMax,
+  findPersonalRecordsByWorkout
+} from "./personalRecords";
+import { createStraightSets } from "./workoutSets";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+function makeBenchWorkout(id: string, date: string, sets: WorkoutSetEntry[]): WorkoutLog {
+  return {
+    id,
+    date,
+    workoutType: "strength",
+    durationMinutes: 60,
+    exerciseEntries: [
+      {
+        id: `ex-${id}`,
+        name: "Barbell Bench Press",
+        sets: [{ reps: 8, weightKg: 40, isWarmup: true }, ...sets]
+      }
+    ],
+    createdAt: `${date}T10:00:00.000Z`,
+    syncedAt: null
+  };
+}
+
+runTest("estimateOneRepMax supports Epley and Brzycki", () => {
+  assertEqual(estimateOneRepMax(100, 1, "epley"), 100, "single rep");
+  assertEqual(estimateOneRepMax(100, 5, "epley"), 116.7, "epley 5 reps");
+  assertEqual(estimateOneRepMax(100, 5, "brzycki"), 112.5, "brzycki 5 reps");
+  assertEqual(estimateOneRepMax(0, 10, "epley"), 0, "bodyweight");
+  assertEqual(estimateOneRepMax(100, 40, "brzycki"), estimateOneRepMax(100, 12, "brzycki"), "high reps are capped");
+});
+
+runTest("detectPersonalRecords finds load, rep and e1RM records against earlier sessions", () => {
+  const history = [makeBenchWorkout("wk-1", "2026-02-01", createStraightSets(3, { reps: 5, weightKg: 80 }))];
+
+  assertEqual(detectPersonalRecords([], history[0], "epley").length, 0, "first session only sets a baseline");
+
+  const heavier = detectPersonalRecords(history, makeBenchWorkout("wk-2", "2026-02-08", [{ reps: 3, weightKg: 85 }]), "epley");
+  assertEqual(heavier.length, 1, "load hit count");
+  assertEqual(heavier[0].kinds.join(","), "load,e1rm", "load hit kinds");
+  assertEqual(heavier[0].name, "Barbell Bench Press", "hit name");
+
+  const moreReps = detectPersonalRecords(history, makeBenchWorkout("wk-3", "2026-02-08", [{ reps: 6, weightKg: 80 }]), "epley");
+  assertEqual(moreReps[0]?.kinds.join(","), "reps,e1rm", "rep hit kinds");
+
+  const lighterRepPr = detectPersonalRecords(history, makeBenchWorkout("wk-4", "2026-02-08", [{ reps: 6, weightKg: 70 }]), "epley");
+  assertEqual(lighterRepPr[0]?.kinds.join(","), "reps", "rep PR at a new lighter load");
+
+  const noRecord = detectPersonalRecords(history, makeBenchWorkout("wk-5", "2026-02-08", [{ reps: 5, weightKg: 75 }]), "epley");
+  assertEqual(noRecord.length, 0, "dominated set is not a record");
+});
+
+runTest("buildPersonalRecordTable and findPersonalRecordsByWorkout replay the whole history", () => {
+  const workouts = [
+    makeBenchWorkout("wk-3", "2026-02-15", [{ reps: 2, weightKg: 90 }]),
+    makeBenchWorkout("wk-1", "2026-02-01", createStraightSets(3, { reps: 5, weightKg: 80 })),
+    makeBenchWorkout("wk-2", "2026-02-08", [{ reps: 8, weightKg: 70 }])
+  ];
+
+  const [bench] = buildPersonalRecordTable(workouts, "epley");
+  assertEqual(bench.heaviest.weightKg, 90, "heaviest load");
+  assertEqual(bench.bestE1rm.workoutId, "wk-3", "best e1RM session");
+  assertEqual(bench.repRecords.map((set) => `${set.weightKg}x${set.reps}`).join(","), "90x2,80x5,70x8", "rep records");
+
+  const hits = findPersonalRecordsByWorkout(workouts, "epley");
+  assert(!hits.has("wk-1"), "baseline session has no badge");
+  assertEqual(hits.get("wk-2")?.[0].kinds.join(","), "reps", "wk-2 rep PR");
+  assert(hits.get("wk-3")?.[0].kinds.includes("load") ?? false, "wk-3 load PR");
+});
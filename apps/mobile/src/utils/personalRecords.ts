@@ -0,0 +1,196 @@
+import { E1rmFormula, WorkoutLog } from "../types";
+import { formatExerciseName, keyExerciseName } from "./scienceTraining";
+import { getWorkingSets } from "./workoutSets";
+
+export type PersonalRecordKind = "load" | "reps" | "e1rm";
+
+export interface RecordSet {
+  weightKg: number;
+  reps: number;
+  e1rmKg: number;
+  date: string;
+  workoutId: string;
+}
+
+export interface ExercisePersonalRecords {
+  key: string;
+  name: string;
+  bestE1rm: RecordSet;
+  heaviest: RecordSet;
+  /** Best rep count at each load that no heavier set has matched, heaviest first. */
+  repRecords: RecordSet[];
+}
+
+export interface PersonalRecordHit {
+  key: string;
+  name: string;
+  kinds: PersonalRecordKind[];
+  set: RecordSet;
+}
+
+export const E1RM_FORMULA_LABELS: Record<E1rmFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki"
+};
+
+// Both formulas lose accuracy quickly past ~10 reps; Brzycki breaks down entirely near 37.
+const MAX_ESTIMATE_REPS = 12;
+
+export function estimateOneRepMax(weightKg: number, reps: number, formula: E1rmFormula): number {
+  if (weightKg <= 0 || reps < 1) {
+    return 0;
+  }
+  if (reps === 1) {
+    return weightKg;
+  }
+
+  const cappedReps = Math.min(reps, MAX_ESTIMATE_REPS);
+  const estimate = formula === "brzycki" ? (weightKg * 36) / (37 - cappedReps) : weightKg * (1 + cappedReps / 30);
+  return Number(estimate.toFixed(1));
+}
+
+function isDominated(frontier: RecordSet[], candidate: RecordSet): boolean {
+  return frontier.some((set) => set.weightKg >= candidate.weightKg && set.reps >= candidate.reps);
+}
+
+function addToFrontier(frontier: RecordSet[], candidate: RecordSet): RecordSet[] {
+  if (isDominated(frontier, candidate)) {
+    return frontier;
+  }
+  return [...frontier.filter((set) => !(candidate.weightKg >= set.weightKg && candidate.reps >= set.reps)), candidate]
+    .sort((a, b) => b.weightKg - a.weightKg);
+}
+
+function toChronological(workouts: WorkoutLog[]): WorkoutLog[] {
+  return [...workouts].sort((a, b) =>
+    a.date === b.date ? a.createdAt.localeCompare(b.createdAt) : a.date.localeCompare(b.date)
+  );
+}
+
+/**
+ * Replays strength history oldest first. A session sets a record when one of its working sets beats
+ * everything logged for that exercise in earlier sessions; the first session of an exercise only
+ * establishes the baseline.
+ */
+function replayPersonalRecords(workouts: WorkoutLog[], formula: E1rmFormula) {
+  const records = new Map<string, ExercisePersonalRecords>();
+  const hitsByWorkout = new Map<string, PersonalRecordHit[]>();
+
+  for (const workout of toChronological(workouts)) {
+    if (workout.workoutType !== "strength") {
+      continue;
+    }
+
+    const setsByExercise = new Map<string, { name: string; sets: RecordSet[] }>();
+    for (const exercise of workout.exerciseEntries ?? []) {
+      const key = keyExerciseName(exercise.name);
+      if (!key) {
+        continue;
+      }
+      const group = setsByExercise.get(key) ?? { name: formatExerciseName(exercise.name), sets: [] };
+      for (const set of getWorkingSets(exercise)) {
+        const weightKg = set.weightKg ?? 0;
+        group.sets.push({
+          weightKg,
+          reps: set.reps,
+          e1rmKg: estimateOneRepMax(weightKg, set.reps, formula),
+          date: workout.date,
+          workoutId: workout.id
+        });
+      }
+      setsByExercise.set(key, group);
+    }
+
+    const hits: PersonalRecordHit[] = [];
+    for (const [key, { name, sets }] of setsByExercise) {
+      if (!sets.length) {
+        continue;
+      }
+
+      const previous = records.get(key);
+      if (previous) {
+        let best: { set: RecordSet; kinds: PersonalRecordKind[] } | null = null;
+        for (const set of sets) {
+          const kinds: PersonalRecordKind[] = [];
+          if (set.weightKg > previous.heaviest.weightKg) {
+            kinds.push("load");
+          } else if (!isDominated(previous.repRecords, set)) {
+            kinds.push("reps");
+          }
+          if (set.e1rmKg > previous.bestE1rm.e1rmKg) {
+            kinds.push("e1rm");
+          }
+          if (kinds.length && (!best || set.e1rmKg > best.set.e1rmKg || (set.e1rmKg === best.set.e1rmKg && set.reps > best.set.reps))) {
+            best = { set, kinds };
+          }
+        }
+        if (best) {
+          hits.push({ key, name, ...best });
+        }
+      }
+
+      let next: ExercisePersonalRecords = previous ?? {
+        key,
+        name,
+        bestE1rm: sets[0],
+        heaviest: sets[0],
+        repRecords: []
+      };
+      for (const set of sets) {
+        next = {
+          ...next,
+          name,
+          bestE1rm: set.e1rmKg > next.bestE1rm.e1rmKg ? set : next.bestE1rm,
+          heaviest:
+            set.weightKg > next.heaviest.weightKg || (set.weightKg === next.heaviest.weightKg && set.reps > next.heaviest.reps)
+              ? set
+              : next.heaviest,
+          repRecords: addToFrontier(next.repRecords, set)
+        };
+      }
+      records.set(key, next);
+    }
+
+    if (hits.length) {
+      hitsByWorkout.set(workout.id, hits);
+    }
+  }
+
+  return { records, hitsByWorkout };
+}
+
+/** One row per exercise ever trained, alphabetically. */
+export function buildPersonalRecordTable(workouts: WorkoutLog[], formula: E1rmFormula): ExercisePersonalRecords[] {
+  return Array.from(replayPersonalRecords(workouts, formula).records.values()).sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+}
+
+export function findPersonalRecordsByWorkout(
+  workouts: WorkoutLog[],
+  formula: E1rmFormula
+): Map<string, PersonalRecordHit[]> {
+  return replayPersonalRecords(workouts, formula).hitsByWorkout;
+}
+
+/** Records `workout` sets against `history`, which should not already contain it. */
+export function detectPersonalRecords(
+  history: WorkoutLog[],
+  workout: WorkoutLog,
+  formula: E1rmFormula
+): PersonalRecordHit[] {
+  return replayPersonalRecords([...history, workout], formula).hitsByWorkout.get(workout.id) ?? [];
+}
+
+export function formatRecordSet(set: RecordSet): string {
+  return set.weightKg > 0 ? `${set.weightKg} kg x ${set.reps}` : `${set.reps} reps`;
+}
+
+export function describePersonalRecord(hit: PersonalRecordHit): string {
+  const labels: Record<PersonalRecordKind, string> = {
+    load: "heaviest load",
+    reps: "rep PR",
+    e1rm: `e1RM ${hit.set.e1rmKg} kg`
+  };
+  return `${hit.name}: ${formatRecordSet(hit.set)} (${hit.kinds.map((kind) => labels[kind]).join(", ")})`;
+}
@@ -0,0 +1,80 @@
+import { getProgramDay, ProgramEnrollment } from "@fitness/shared";
+
+import { WorkoutLog } from "../types";
+import { buildProgramWorkoutDraft, describeProgramWeek } from "./programs";
+import { createStraightSets } from "./workoutSets";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+// Starts on Monday 2026-03-02; Full Body 3x trains Monday, Wednesday and Friday in 4-week blocks.
+const enrollment: ProgramEnrollment = {
+  programId: "full_body_3x",
+  startDate: "2026-03-02",
+  enrolledAt: "2026-03-02T07:00:00.000Z"
+};
+
+runTest("program day drafts prefill prescribed sets, reps and target RPE", () => {
+  const day = getProgramDay(enrollment, "2026-03-09");
+  assert(day !== null, "program day should exist");
+  const draft = day ? buildProgramWorkoutDraft(day, []) : null;
+  assert(draft !== null, "training day should build a draft");
+
+  assertEqual(draft?.templateName, "Full Body A", "draft.templateName");
+  assertEqual(draft?.workoutType, "strength", "draft.workoutType");
+  const squat = draft?.exerciseEntries.find((entry) => entry.name === "Back Squat");
+  assertEqual(squat?.sets.length, 3, "squat.sets.length");
+  assertEqual(squat?.sets[0]?.reps, 5, "squat reps start at the bottom of the range");
+  assertEqual(squat?.sets[0]?.rpe, 7.5, "week 2 adds half a point of RPE");
+  assert(draft?.notes?.includes("Back Squat 3 x 5-8 @ RPE 7.5") === true, "notes carry the full prescription");
+});
+
+runTest("deload weeks halve sets and rest days build no draft", () => {
+  const deload = getProgramDay(enrollment, "2026-03-23");
+  assert(deload !== null, "deload day should exist");
+  assertEqual(deload ? describeProgramWeek(deload) : null, "Week 4 of 4 (deload)", "deload label");
+  const squat = deload ? buildProgramWorkoutDraft(deload, [])?.exerciseEntries.find((entry) => entry.name === "Back Squat") : null;
+  assertEqual(squat?.sets.length, 2, "deload squat sets");
+
+  const restDay = getProgramDay(enrollment, "2026-03-10");
+  assertEqual(restDay ? buildProgramWorkoutDraft(restDay, []) : undefined, null, "rest day draft");
+  assertEqual(restDay?.nextSession?.name, "Full Body B", "next session after a rest day");
+});
+
+runTest("program drafts take loads from the progression engine", () => {
+  const lastSquat: WorkoutLog = {
+    id: "wk-squat",
+    date: "2026-03-02",
+    workoutType: "strength",
+    durationMinutes: 60,
+    exerciseEntries: [{ id: "ex-squat", name: "Back Squat", sets: createStraightSets(3, { reps: 6, weightKg: 100, rpe: 6.5 }) }],
+    createdAt: "2026-03-02T08:00:00.000Z",
+    syncedAt: null
+  };
+  const day = getProgramDay(enrollment, "2026-03-09");
+  const squat = day ? buildProgramWorkoutDraft(day, [lastSquat])?.exerciseEntries.find((entry) => entry.name === "Back Squat") : null;
+
+  // Week 2 targets RPE 7.5, one point above last time: +3.5% of 100 kg rounds to 105 in 5 kg steps.
+  assertEqual(squat?.sets.length, 3, "program keeps its set count");
+  assertEqual(squat?.sets[0]?.weightKg, 105, "auto-regulated load");
+  assertEqual(squat?.sets[0]?.reps, 6, "reps stay inside the program range");
+});
@@ -0,0 +1,52 @@
+import { ProgramDay, ProgramExercise } from "@fitness/shared";
+
+import { WorkoutDraft, WorkoutLog } from "../types";
+import { prescribeNextSession } from "./progression";
+import { createStraightSets } from "./workoutSets";
+
+export function formatPrescription(exercise: ProgramExercise): string {
+  const reps =
+    exercise.reps.min === exercise.reps.max ? `${exercise.reps.min}` : `${exercise.reps.min}-${exercise.reps.max}`;
+  return `${exercise.sets} x ${reps} @ RPE ${exercise.targetRpe}`;
+}
+
+export function describeProgramWeek(day: ProgramDay): string {
+  const week = `Week ${day.week} of ${day.mesocycleWeeks}`;
+  return day.isDeload ? `${week} (deload)` : week;
+}
+
+/**
+ * Turns the day's prescribed session into a logger draft: one set row per prescribed set at the
+ * week's target RPE. Load and reps come from the progression engine when the exercise has
+ * history, otherwise reps start at the bottom of the range. The full prescription goes in the notes.
+ */
+export function buildProgramWorkoutDraft(day: ProgramDay, workouts: WorkoutLog[]): WorkoutDraft | null {
+  const { session } = day;
+  if (!session) {
+    return null;
+  }
+
+  return {
+    workoutType: "strength",
+    durationMinutes: session.durationMinutes,
+    templateName: session.name,
+    notes: `${day.programName}, ${describeProgramWeek(day)}: ${session.exercises
+      .map((exercise) => `${exercise.name} ${formatPrescription(exercise)}`)
+      .join("; ")}`,
+    exerciseEntries: session.exercises.map((exercise, index) => {
+      const next = prescribeNextSession(workouts, exercise.name, {
+        repRange: exercise.reps,
+        targetRpe: exercise.targetRpe
+      });
+      return {
+        id: `${session.id}_${index}`,
+        name: exercise.name,
+        sets: createStraightSets(exercise.sets, {
+          reps: next?.reps ?? exercise.reps.min,
+          weightKg: next?.weightKg,
+          rpe: exercise.targetRpe
+        })
+      };
+    })
+  };
+}
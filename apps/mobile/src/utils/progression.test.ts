@@ -0,0 +1,102 @@
+import { WorkoutLog, WorkoutSetEntry } from "../types";
+import { prescribeNextSession } from "./progression";
+import { createStraightSets } from "./workoutSets";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+function makeWorkout(id: string, date: string, name: string, sets: WorkoutSetEntry[], intensityRpe?: number): WorkoutLog {
+  return {
+    id,
+    date,
+    workoutType: "strength",
+    durationMinutes: 60,
+    exerciseEntries: [{ id: `ex-${id}`, name, sets }],
+    intensityRpe,
+    createdAt: `${date}T08:00:00.000Z`,
+    syncedAt: null
+  };
+}
+
+runTest("double progression adds reps inside the range, then load at the top", () => {
+  const building = [
+    makeWorkout("wk-curl", "2026-03-02", "Dumbbell Curl", [
+      { reps: 12, weightKg: 14 },
+      { reps: 12, weightKg: 14 },
+      { reps: 11, weightKg: 14 }
+    ])
+  ];
+  const next = prescribeNextSession(building, "DB Curl");
+  assertEqual(next?.rule, "double_progression", "isolation rule");
+  assertEqual(next?.weightKg, 14, "load holds inside the range");
+  assertEqual(next?.reps, 12, "one more rep on the weakest set");
+  assertEqual(next?.sets, 3, "sets carry over");
+
+  const topped = [makeWorkout("wk-curl-top", "2026-03-05", "Dumbbell Curl", createStraightSets(3, { reps: 15, weightKg: 14 }))];
+  const loaded = prescribeNextSession([...building, ...topped], "Dumbbell Curl");
+  assertEqual(loaded?.weightKg, 16, "dumbbells jump 2 kg");
+  assertEqual(loaded?.reps, 10, "reps restart at the bottom of the range");
+  assert(loaded?.explanation.includes("top of the 10-15 range") === true, "explanation names the range");
+});
+
+runTest("missing the bottom of the range twice resets the load", () => {
+  const workouts = [
+    makeWorkout("wk-ext-1", "2026-03-02", "Leg Extension", [
+      { reps: 9, weightKg: 50 },
+      { reps: 9, weightKg: 50 }
+    ]),
+    makeWorkout("wk-ext-2", "2026-03-05", "Leg Extension", [
+      { reps: 8, weightKg: 50 },
+      { reps: 9, weightKg: 50 }
+    ])
+  ];
+  const next = prescribeNextSession(workouts, "Leg Extension");
+  assertEqual(next?.weightKg, 45, "10% reset rounded to the increment");
+  assertEqual(next?.reps, 10, "rebuild from the bottom of the range");
+
+  const once = prescribeNextSession(workouts.slice(1), "Leg Extension");
+  assertEqual(once?.weightKg, 50, "a single miss repeats the load");
+});
+
+runTest("compounds with logged effort auto-regulate load toward the target RPE", () => {
+  const easy = [
+    makeWorkout("wk-bench", "2026-03-02", "Barbell Bench Press", [
+      { reps: 5, weightKg: 60, isWarmup: true },
+      { reps: 5, weightKg: 80, rpe: 6.5 },
+      { reps: 5, weightKg: 80, rpe: 7 }
+    ])
+  ];
+  const up = prescribeNextSession(easy, "Bench Press", { targetRpe: 8 });
+  assertEqual(up?.rule, "rpe_autoregulation", "compound rule");
+  assertEqual(up?.weightKg, 82.5, "one RPE point under target adds ~3.5%");
+  assertEqual(up?.reps, 5, "reps follow the last top set");
+  assertEqual(up?.sets, 2, "warm-ups are not prescribed");
+  assert(up?.explanation.includes("80 kg x 5 at RPE 7") === true, "explanation quotes the top set");
+
+  const grinding = [makeWorkout("wk-squat", "2026-03-02", "Back Squat", createStraightSets(3, { reps: 5, weightKg: 100 }), 9.5)];
+  const down = prescribeNextSession(grinding, "Back Squat", { targetRpe: 8 });
+  assertEqual(down?.weightKg, 95, "session RPE above target backs off in 5 kg steps");
+});
+
+runTest("exercises without history get no prescription", () => {
+  assertEqual(prescribeNextSession([], "Barbell Row"), null, "no history");
+});
@@ -0,0 +1,233 @@
+import { CatalogExercise, findCatalogExercise, RepRange } from "@fitness/shared";
+
+import { WorkoutLog, WorkoutSetEntry } from "../types";
+import { keyExerciseName } from "./scienceTraining";
+import { getSetEffortRpe, getWorkingSets } from "./workoutSets";
+
+export type ProgressionRule = "double_progression" | "rpe_autoregulation";
+
+export interface NextPrescription {
+  rule: ProgressionRule;
+  sets: number;
+  reps: number;
+  weightKg?: number;
+  targetRpe: number;
+  /** Names the rule and the numbers from the last session that triggered it. */
+  explanation: string;
+}
+
+export interface ProgressionOptions {
+  /** Defaults to 6-10 reps for compounds and 10-15 for everything else. */
+  repRange?: RepRange;
+  targetRpe?: number;
+}
+
+interface SessionPerformance {
+  workingSets: WorkoutSetEntry[];
+  topLoad?: number;
+  /** Fewest reps among the sets done at the top load. */
+  lowestTopReps: number;
+  topSet: WorkoutSetEntry;
+  effortRpe?: number;
+}
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRule, string> = {
+  double_progression: "Double progression",
+  rpe_autoregulation: "RPE auto-regulation"
+};
+
+const DEFAULT_TARGET_RPE = 8;
+const COMPOUND_REP_RANGE: RepRange = { min: 6, max: 10 };
+const ACCESSORY_REP_RANGE: RepRange = { min: 10, max: 15 };
+// Near these rep ranges one rep in reserve is worth roughly 3-4% of the load.
+const LOAD_CHANGE_PER_RPE = 0.035;
+const MAX_LOAD_INCREASE = 0.075;
+const MAX_LOAD_DECREASE = 0.1;
+const RESET_LOAD_FACTOR = 0.9;
+
+function isCompound(exercise: CatalogExercise | null): boolean {
+  return !!exercise && exercise.pattern !== "isolation" && exercise.pattern !== "core";
+}
+
+/** Smallest sensible jump for the equipment; dumbbell loads are per hand. */
+function getLoadIncrementKg(exercise: CatalogExercise | null): number {
+  if (exercise?.equipment === "barbell" && (exercise.pattern === "squat" || exercise.pattern === "hinge")) {
+    return 5;
+  }
+  if (exercise?.equipment === "dumbbell") {
+    return 2;
+  }
+  if (exercise?.equipment === "kettlebell") {
+    return 4;
+  }
+  return 2.5;
+}
+
+function roundToIncrement(value: number, increment: number): number {
+  return Number((Math.round(value / increment) * increment).toFixed(2));
+}
+
+function formatRpe(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function summarizeSession(workout: WorkoutLog, key: string): SessionPerformance | null {
+  const workingSets = (workout.exerciseEntries ?? [])
+    .filter((entry) => keyExerciseName(entry.name) === key)
+    .flatMap(getWorkingSets);
+  if (!workingSets.length) {
+    return null;
+  }
+
+  const loads = workingSets.flatMap((set) => (set.weightKg !== undefined ? [set.weightKg] : []));
+  const topLoad = loads.length ? Math.max(...loads) : undefined;
+  const atTop = workingSets.filter((set) => set.weightKg === topLoad);
+  const topSet = atTop.reduce((best, set) => (set.reps > best.reps ? set : best), atTop[0]);
+
+  return {
+    workingSets,
+    topLoad,
+    lowestTopReps: Math.min(...atTop.map((set) => set.reps)),
+    topSet,
+    // The last hard set at the top load says most about how much was left in the tank.
+    effortRpe: [...atTop].reverse().map(getSetEffortRpe).find((value) => value !== undefined) ?? workout.intensityRpe
+  };
+}
+
+function findRecentSessions(workouts: WorkoutLog[], key: string): SessionPerformance[] {
+  return [...workouts]
+    .filter((workout) => workout.workoutType === "strength")
+    .sort((a, b) => (a.date === b.date ? b.createdAt.localeCompare(a.createdAt) : b.date.localeCompare(a.date)))
+    .flatMap((workout) => {
+      const session = summarizeSession(workout, key);
+      return session ? [session] : [];
+    })
+    .slice(0, 2);
+}
+
+function prescribeDoubleProgression(
+  latest: SessionPerformance,
+  previous: SessionPerformance | undefined,
+  range: RepRange,
+  increment: number,
+  targetRpe: number
+): NextPrescription {
+  const base = { rule: "double_progression" as const, sets: latest.workingSets.length, targetRpe };
+  const rangeLabel = `${range.min}-${range.max}`;
+
+  if (latest.topLoad === undefined) {
+    const reps = latest.lowestTopReps + 1;
+    return {
+      ...base,
+      reps,
+      explanation: `No load was logged, so progress with reps: aim for ${reps} on every set.`
+    };
+  }
+
+  const load = latest.topLoad;
+  if (latest.lowestTopReps >= range.max) {
+    return {
+      ...base,
+      reps: range.min,
+      weightKg: load + increment,
+      explanation: `Every set at ${load} kg reached ${range.max} reps, the top of the ${rangeLabel} range, so add ${increment} kg and restart at ${range.min}.`
+    };
+  }
+
+  if (latest.lowestTopReps < range.min) {
+    const missedTwice =
+      previous?.topLoad !== undefined && previous.topLoad >= load && previous.lowestTopReps < range.min;
+    if (missedTwice) {
+      const reset = roundToIncrement(load * RESET_LOAD_FACTOR, increment);
+      return {
+        ...base,
+        reps: range.min,
+        weightKg: reset,
+        explanation: `Two sessions in a row fell below ${range.min} reps at ${load} kg, so drop about 10% to ${reset} kg and build back up.`
+      };
+    }
+    return {
+      ...base,
+      reps: range.min,
+      weightKg: load,
+      explanation: `A set at ${load} kg fell below ${range.min} reps, so repeat the load and aim for ${range.min} on every set.`
+    };
+  }
+
+  const reps = Math.min(range.max, latest.lowestTopReps + 1);
+  return {
+    ...base,
+    reps,
+    weightKg: load,
+    explanation: `Reps at ${load} kg are inside the ${rangeLabel} range, so keep the load and add a rep (${reps}) before adding weight.`
+  };
+}
+
+function prescribeRpeAutoregulation(
+  latest: SessionPerformance,
+  effortRpe: number,
+  load: number,
+  range: RepRange | undefined,
+  increment: number,
+  targetRpe: number
+): NextPrescription {
+  const reps = range ? Math.min(range.max, Math.max(range.min, latest.topSet.reps)) : latest.topSet.reps;
+  const change = Math.min(
+    MAX_LOAD_INCREASE,
+    Math.max(-MAX_LOAD_DECREASE, (targetRpe - effortRpe) * LOAD_CHANGE_PER_RPE)
+  );
+  const weightKg = roundToIncrement(load * (1 + change), increment);
+  const lastSet = `${load} kg x ${latest.topSet.reps} at RPE ${formatRpe(effortRpe)}`;
+  const direction =
+    weightKg > load
+      ? `add load to ${weightKg} kg`
+      : weightKg < load
+        ? `back off to ${weightKg} kg`
+        : `stay at ${weightKg} kg`;
+
+  return {
+    rule: "rpe_autoregulation",
+    sets: latest.workingSets.length,
+    reps,
+    weightKg,
+    targetRpe,
+    explanation: `Top set was ${lastSet} against a target of RPE ${formatRpe(targetRpe)}; at about 3.5% per RPE point, ${direction}.`
+  };
+}
+
+/**
+ * The concrete next prescription for an exercise from its last logged sessions. Compound lifts
+ * with logged effort (set RPE/RIR, or the session RPE) are auto-regulated toward the target RPE;
+ * everything else uses double progression through the rep range. Returns null with no history.
+ */
+export function prescribeNextSession(
+  workouts: WorkoutLog[],
+  exerciseName: string,
+  options: ProgressionOptions = {}
+): NextPrescription | null {
+  const key = keyExerciseName(exerciseName);
+  if (!key) {
+    return null;
+  }
+
+  const [latest, previous] = findRecentSessions(workouts, key);
+  if (!latest) {
+    return null;
+  }
+
+  const catalogExercise = findCatalogExercise(exerciseName);
+  const increment = getLoadIncrementKg(catalogExercise);
+  const targetRpe = options.targetRpe ?? DEFAULT_TARGET_RPE;
+
+  if (isCompound(catalogExercise) && latest.topLoad !== undefined && latest.effortRpe !== undefined) {
+    return prescribeRpeAutoregulation(latest, latest.effortRpe, latest.topLoad, options.repRange, increment, targetRpe);
+  }
+
+  const range = options.repRange ?? (isCompound(catalogExercise) ? COMPOUND_REP_RANGE : ACCESSORY_REP_RANGE);
+  return prescribeDoubleProgression(latest, previous, range, increment, targetRpe);
+}
+
+export function formatNextPrescription(prescription: NextPrescription): string {
+  const load = prescription.weightKg !== undefined ? ` @ ${prescription.weightKg} kg` : "";
+  return `${prescription.sets} x ${prescription.reps}${load}, RPE ${formatRpe(prescription.targetRpe)}`;
+}
@@ -1,5 +1,6 @@
 import { WorkoutDraft, WorkoutLog } from "../types";
 import { getScienceBasedInsight, getWorkoutDraftGuidance } from "./scienceTraining";
+import { createStraightSets } from "./workoutSets";
 
 function assert(condition: boolean, message: string) {
   if (!condition) {
@@ -30,9 +31,9 @@ function makeWorkout(partial: Partial<WorkoutLog> = {}): WorkoutLog {
     workoutType: "strength",
     durationMinutes: 60,
     exerciseEntries: [
-      { id: "ex-1", name: "Barbell Bench Press", sets: 4, reps: 8, weightKg: 70 },
-      { id: "ex-2", name: "Chest Supported Row", sets: 4, reps: 10, weightKg: 50 },
-      { id: "ex-3", name: "Back Squat", sets: 4, reps: 6, weightKg: 90 }
+      { id: "ex-1", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 8, weightKg: 70 }) },
+      { id: "ex-2", name: "Chest Supported Row", sets: createStraightSets(4, { reps: 10, weightKg: 50 }) },
+      { id: "ex-3", name: "Back Squat", sets: createStraightSets(4, { reps: 6, weightKg: 90 }) }
     ],
     intensityRpe: 8,
     caloriesBurned: 420,
@@ -51,8 +52,8 @@ runTest("science insight reports weekly volume landmarks and progression", () =>
       id: "wk-2",
       date: "2026-02-14",
       exerciseEntries: [
-        { id: "ex-4", name: "Barbell Bench Press", sets: 4, reps: 7, weightKg: 67.5 },
-        { id: "ex-5", name: "Lat Pulldown", sets: 3, reps: 10, weightKg: 55 }
+        { id: "ex-4", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 7, weightKg: 67.5 }) },
+        { id: "ex-5", name: "Lat Pulldown", sets: createStraightSets(3, { reps: 10, weightKg: 55 }) }
       ],
       intensityRpe: 8.5,
       createdAt: "2026-02-14T08:00:00.000Z"
@@ -94,7 +95,7 @@ runTest("draft guidance enforces RPE and duration ranges with progression hint",
     makeWorkout({
       id: "wk-prev",
       date: "2026-02-12",
-      exerciseEntries: [{ id: "ex-prev", name: "Barbell Bench Press", sets: 4, reps: 6, weightKg: 80 }],
+      exerciseEntries: [{ id: "ex-prev", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 6, weightKg: 80 }) }],
       createdAt: "2026-02-12T08:00:00.000Z"
     })
   ];
@@ -102,7 +103,7 @@ runTest("draft guidance enforces RPE and duration ranges with progression hint",
   const draft: WorkoutDraft = {
     workoutType: "strength",
     durationMinutes: 100,
-    exerciseEntries: [{ id: "ex-now", name: "Barbell Bench Press", sets: 4, reps: 6, weightKg: 82.5 }],
+    exerciseEntries: [{ id: "ex-now", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 6, weightKg: 82.5 }) }],
     intensityRpe: 9.6,
     caloriesBurned: 500,
     notes: "hard day"
@@ -121,3 +122,116 @@ runTest("draft guidance enforces RPE and duration ranges with progression hint",
   assert(guidance.warnings.some((line) => line.includes("longer than")), "duration warning");
   assert(guidance.progressionHints.some((line) => line.includes("Barbell Bench Press")), "progression hint");
 });
+
+runTest("compound lifts give fractional weekly volume to assisting muscles", () => {
+  const workouts: WorkoutLog[] = [
+    makeWorkout({
+      id: "wk-credit",
+      date: "2026-02-17",
+      exerciseEntries: [
+        { id: "ex-bench", name: "Barbell Bench Press", sets: createStraightSets(4, { reps: 8, weightKg: 70 }) },
+        { id: "ex-ohp", name: "Overhead Press", sets: createStraightSets(3, { reps: 8, weightKg: 40 }) },
+        { id: "ex-skull", name: "EZ Skull Crusher", sets: createStraightSets(2, { reps: 12, weightKg: 25 }) }
+      ]
+    })
+  ];
+
+  const insight = getScienceBasedInsight("gain_muscle", workouts, new Date("2026-02-17T12:00:00.000Z"));
+  const setsFor = (group: string) => insight.weeklyVolume.find((item) => item.group === group)?.sets;
+
+  assertEqual(setsFor("chest"), 4, "chest.sets");
+  assertEqual(setsFor("shoulders"), 5, "shoulders.sets");
+  // 4 x 0.5 from bench, 3 x 0.5 from overhead press, and full credit for the uncatalogued skull crusher.
+  assertEqual(setsFor("triceps"), 5.5, "triceps.sets");
+  assertEqual(setsFor("core"), 0.8, "core.sets");
+  assertEqual(setsFor("biceps"), 0, "biceps.sets");
+});
+
+runTest("back and hip extensions count for the posterior chain, not triceps", () => {
+  const workouts: WorkoutLog[] = [
+    makeWorkout({
+      id: "wk-extensions",
+      date: "2026-02-17",
+      exerciseEntries: [
+        { id: "ex-back", name: "45 Degree Back Extension", sets: createStraightSets(3, { reps: 12 }) },
+        { id: "ex-hip", name: "Cable Hip Extension", sets: createStraightSets(2, { reps: 12, weightKg: 10 }) },
+        { id: "ex-rope", name: "Rope Overhead Extension", sets: createStraightSets(2, { reps: 12, weightKg: 15 }) }
+      ]
+    })
+  ];
+
+  const insight = getScienceBasedInsight("gain_muscle", workouts, new Date("2026-02-17T12:00:00.000Z"));
+  const setsFor = (group: string) => insight.weeklyVolume.find((item) => item.group === group)?.sets;
+
+  assertEqual(setsFor("glutes"), 5, "glutes.sets");
+  assertEqual(setsFor("hamstrings"), 5, "hamstrings.sets");
+  assertEqual(setsFor("triceps"), 2, "triceps.sets");
+});
+
+runTest("progression reads top sets and ignores warm-ups in weekly volume", () => {
+  const workouts: WorkoutLog[] = [
+    makeWorkout({
+      id: "wk-top",
+      date: "2026-02-17",
+      exerciseEntries: [
+        {
+          id: "ex-top",
+          name: "Barbell Bench Press",
+          sets: [
+            { reps: 10, weightKg: 40, isWarmup: true },
+            { reps: 5, weightKg: 60, isWarmup: true },
+            { reps: 5, weightKg: 85, rpe: 8.5 },
+            { reps: 8, weightKg: 72.5, rir: 2 },
+            { reps: 8, weightKg: 72.5, rir: 1 }
+          ]
+        }
+      ],
+      createdAt: "2026-02-17T08:00:00.000Z"
+    }),
+    makeWorkout({
+      id: "wk-prev-top",
+      date: "2026-02-14",
+      exerciseEntries: [
+        {
+          id: "ex-prev-top",
+          name: "Barbell Bench Press",
+          sets: [
+            { reps: 5, weightKg: 82.5, rpe: 8.5 },
+            { reps: 8, weightKg: 70 },
+            { reps: 8, weightKg: 70 }
+          ]
+        }
+      ],
+      createdAt: "2026-02-14T08:00:00.000Z"
+    })
+  ];
+
+  const insight = getScienceBasedInsight(
+    "gain_muscle",
+    workouts,
+    new Date("2026-02-17T12:00:00.000Z")
+  );
+
+  const chest = insight.weeklyVolume.find((item) => item.group === "chest");
+  assertEqual(chest?.sets, 6, "chest.sets");
+  assert(
+    insight.progressionTips.some((line) => line.startsWith("Barbell Bench Press: loading is trending up")),
+    "top-set load progression tip"
+  );
+
+  const guidance = getWorkoutDraftGuidance(
+    "gain_muscle",
+    {
+      workoutType: "strength",
+      durationMinutes: 60,
+      exerciseEntries: [{ id: "ex-draft", name: "Barbell Bench Press", sets: createStraightSets(3, { reps: 5 }) }]
+    },
+    workouts,
+    new Date("2026-02-18T12:00:00.000Z")
+  );
+
+  assert(
+    guidance.progressionHints.some((line) => line.includes("last top set was 85 kg x 5 @ RPE 8.5")),
+    "hint should quote the latest top set"
+  );
+});
@@ -1,6 +1,14 @@
-import { FitnessGoal, WorkoutDraft, WorkoutLog, WorkoutType } from "../types";
-
-type MuscleGroup = "chest" | "back" | "legs" | "shoulders" | "arms" | "core";
+import {
+  findCatalogExercise,
+  getMuscleCredits,
+  MUSCLE_GROUPS,
+  MuscleGroup,
+  normalizeExerciseName,
+  WEEKLY_SET_LANDMARKS
+} from "@fitness/shared";
+
+import { FitnessGoal, WorkoutDraft, WorkoutLog, WorkoutSetEntry, WorkoutType } from "../types";
+import { formatSetSummary, getSetEffortRpe, getTopSet, getWorkingSets } from "./workoutSets";
 
 type VolumeStatus = "low" | "on_target" | "high";
 
@@ -9,14 +17,10 @@ interface TargetRange {
   max: number;
 }
 
-interface GoalTargets {
-  weeklySets: Record<MuscleGroup, TargetRange>;
-}
-
 interface ExerciseHistoryPoint {
-  sets: number;
-  reps: number;
-  weightKg?: number;
+  topSet: WorkoutSetEntry;
+  workingSets: number;
+  volumeLoad: number;
   workoutRpe?: number;
   date: string;
   createdAt: string;
@@ -45,50 +49,19 @@ export interface WorkoutDraftGuidance {
   progressionHints: string[];
 }
 
-const GROUP_ORDER: MuscleGroup[] = ["chest", "back", "legs", "shoulders", "arms", "core"];
-
 const GROUP_LABELS: Record<MuscleGroup, string> = {
   chest: "Chest",
   back: "Back",
-  legs: "Legs",
   shoulders: "Shoulders",
-  arms: "Arms",
+  biceps: "Biceps",
+  triceps: "Triceps",
+  quads: "Quads",
+  hamstrings: "Hamstrings",
+  glutes: "Glutes",
+  calves: "Calves",
   core: "Core"
 };
 
-const GOAL_TARGETS: Record<FitnessGoal, GoalTargets> = {
-  gain_muscle: {
-    weeklySets: {
-      chest: { min: 10, max: 18 },
-      back: { min: 12, max: 20 },
-      legs: { min: 12, max: 20 },
-      shoulders: { min: 8, max: 16 },
-      arms: { min: 8, max: 16 },
-      core: { min: 6, max: 12 }
-    }
-  },
-  lose_weight: {
-    weeklySets: {
-      chest: { min: 8, max: 14 },
-      back: { min: 8, max: 16 },
-      legs: { min: 8, max: 16 },
-      shoulders: { min: 6, max: 12 },
-      arms: { min: 6, max: 12 },
-      core: { min: 4, max: 10 }
-    }
-  },
-  maintain: {
-    weeklySets: {
-      chest: { min: 6, max: 12 },
-      back: { min: 8, max: 14 },
-      legs: { min: 8, max: 14 },
-      shoulders: { min: 6, max: 10 },
-      arms: { min: 6, max: 10 },
-      core: { min: 4, max: 8 }
-    }
-  }
-};
-
 const DURATION_TARGETS: Record<WorkoutType, TargetRange> = {
   strength: { min: 45, max: 80 },
   cardio: { min: 25, max: 55 },
@@ -113,15 +86,6 @@ const RPE_TARGETS: Record<WorkoutType, Record<FitnessGoal, TargetRange>> = {
   }
 };
 
-const EXERCISE_PATTERNS: Array<{ pattern: RegExp; groups: MuscleGroup[] }> = [
-  { pattern: /(bench|chest\s*(press|fly)|pec|push[\s-]?up|dip)/i, groups: ["chest"] },
-  { pattern: /(row|pull[\s-]?up|chin[\s-]?up|pulldown|lat)/i, groups: ["back"] },
-  { pattern: /(squat|lunge|leg\s*press|deadlift|rdl|hamstring|quad|calf|hip\s*thrust)/i, groups: ["legs"] },
-  { pattern: /(overhead\s*press|shoulder\s*press|lateral\s*raise|rear\s*delt|face\s*pull|arnold\s*press)/i, groups: ["shoulders"] },
-  { pattern: /(curl|triceps|pushdown|skullcrusher|extension)/i, groups: ["arms"] },
-  { pattern: /(plank|crunch|ab|core|pallof|hanging\s*leg)/i, groups: ["core"] }
-];
-
 function parseDateKey(dateKey: string): Date {
   const [year, month, day] = dateKey.split("-").map(Number);
   return new Date(year, (month || 1) - 1, day || 1);
@@ -139,11 +103,16 @@ function isWithinLastDays(dateKey: string, referenceDate: Date, days: number): b
   return date >= start && date <= end;
 }
 
-function keyExerciseName(name: string): string {
-  return name.trim().toLowerCase().replace(/\s+/g, " ");
+/** Aliases of a catalog exercise share its id, so "BB Bench" and "bench press" are one history. */
+export function keyExerciseName(name: string): string {
+  return findCatalogExercise(name)?.id ?? normalizeExerciseName(name);
 }
 
-function formatExerciseName(name: string): string {
+export function formatExerciseName(name: string): string {
+  const catalogExercise = findCatalogExercise(name);
+  if (catalogExercise) {
+    return catalogExercise.name;
+  }
   const trimmed = name.trim();
   if (!trimmed) {
     return "Exercise";
@@ -154,18 +123,6 @@ function formatExerciseName(name: string): string {
     .join(" ");
 }
 
-function classifyExercise(name: string): MuscleGroup[] {
-  const groups = new Set<MuscleGroup>();
-  for (const matcher of EXERCISE_PATTERNS) {
-    if (matcher.pattern.test(name)) {
-      for (const group of matcher.groups) {
-        groups.add(group);
-      }
-    }
-  }
-  return Array.from(groups);
-}
-
 function toSortedRecentWorkouts(workouts: WorkoutLog[]): WorkoutLog[] {
   return [...workouts].sort((a, b) => {
     if (a.date === b.date) {
@@ -188,10 +145,15 @@ function buildExerciseHistory(workouts: WorkoutLog[], referenceDate: Date): Map<
       if (!key) {
         continue;
       }
+      const topSet = getTopSet(exercise);
+      if (!topSet) {
+        continue;
+      }
+      const workingSets = getWorkingSets(exercise);
       const next: ExerciseHistoryPoint = {
-        sets: exercise.sets,
-        reps: exercise.reps,
-        weightKg: exercise.weightKg,
+        topSet,
+        workingSets: workingSets.length,
+        volumeLoad: workingSets.reduce((sum, set) => sum + set.reps * (set.weightKg ?? 1), 0),
         workoutRpe: workout.intensityRpe,
         date: workout.date,
         createdAt: workout.createdAt
@@ -208,15 +170,9 @@ function buildExerciseHistory(workouts: WorkoutLog[], referenceDate: Date): Map<
   return history;
 }
 
+// Compound lifts credit their assisting groups fractionally, e.g. a bench set is a half set of triceps.
 function buildWeeklyVolume(goal: FitnessGoal, workouts: WorkoutLog[], referenceDate: Date): WeeklyVolumeSummary[] {
-  const counts: Record<MuscleGroup, number> = {
-    chest: 0,
-    back: 0,
-    legs: 0,
-    shoulders: 0,
-    arms: 0,
-    core: 0
-  };
+  const counts = Object.fromEntries(MUSCLE_GROUPS.map((group) => [group, 0])) as Record<MuscleGroup, number>;
 
   const recentStrength = workouts.filter(
     (workout) => workout.workoutType === "strength" && isWithinLastDays(workout.date, referenceDate, 7)
@@ -224,20 +180,16 @@ function buildWeeklyVolume(goal: FitnessGoal, workouts: WorkoutLog[], referenceD
 
   for (const workout of recentStrength) {
     for (const exercise of workout.exerciseEntries ?? []) {
-      const groups = classifyExercise(exercise.name);
-      if (!groups.length) {
-        continue;
-      }
-      const sets = Number.isFinite(exercise.sets) ? Math.max(1, Math.round(exercise.sets)) : 0;
-      for (const group of groups) {
-        counts[group] += sets;
+      const sets = getWorkingSets(exercise).length;
+      for (const [group, credit] of Object.entries(getMuscleCredits(exercise.name))) {
+        counts[group as MuscleGroup] += credit * sets;
       }
     }
   }
 
-  return GROUP_ORDER.map((group) => {
-    const target = GOAL_TARGETS[goal].weeklySets[group];
-    const sets = counts[group];
+  return MUSCLE_GROUPS.map((group) => {
+    const target = WEEKLY_SET_LANDMARKS[goal][group];
+    const sets = Math.round(counts[group] * 10) / 10;
     const status: VolumeStatus =
       sets < target.min
         ? "low"
@@ -348,40 +300,41 @@ function buildProgressionTips(workouts: WorkoutLog[], referenceDate: Date, maxTi
     const current = points[0];
     const previous = points[1];
     const name = formatExerciseName(key);
-
-    const currentVolume = current.sets * current.reps * (current.weightKg ?? 1);
-    const previousVolume = previous.sets * previous.reps * (previous.weightKg ?? 1);
+    const currentTop = current.topSet;
+    const previousTop = previous.topSet;
+    const currentEffort = getSetEffortRpe(currentTop) ?? current.workoutRpe ?? 0;
+    const previousEffort = getSetEffortRpe(previousTop) ?? previous.workoutRpe ?? 0;
 
     if (
-      current.weightKg !== undefined &&
-      previous.weightKg !== undefined &&
-      current.weightKg > previous.weightKg &&
-      current.reps >= previous.reps
+      currentTop.weightKg !== undefined &&
+      previousTop.weightKg !== undefined &&
+      currentTop.weightKg > previousTop.weightKg &&
+      currentTop.reps >= previousTop.reps
     ) {
       tips.push(`${name}: loading is trending up. Keep this lift in an RPE 7-9 range and add 2.5-5% only when reps stay strong.`);
       continue;
     }
 
     if (
-      current.weightKg !== undefined &&
-      previous.weightKg !== undefined &&
-      current.weightKg === previous.weightKg &&
-      current.reps > previous.reps
+      currentTop.weightKg !== undefined &&
+      previousTop.weightKg !== undefined &&
+      currentTop.weightKg === previousTop.weightKg &&
+      currentTop.reps > previousTop.reps
     ) {
-      tips.push(`${name}: reps improved at the same load. Use double progression and add small load next time.`);
+      tips.push(`${name}: top-set reps improved at the same load. Use double progression and add small load next time.`);
       continue;
     }
 
     if (
-      current.weightKg !== undefined &&
-      previous.weightKg !== undefined &&
-      (current.weightKg <= previous.weightKg * 0.95 || current.reps + 2 < previous.reps)
+      currentTop.weightKg !== undefined &&
+      previousTop.weightKg !== undefined &&
+      (currentTop.weightKg <= previousTop.weightKg * 0.95 || currentTop.reps + 2 < previousTop.reps)
     ) {
       tips.push(`${name}: performance dipped. Hold load steady and reduce weekly sets slightly until reps stabilize.`);
       continue;
     }
 
-    if ((current.workoutRpe ?? 0) >= 9 && (previous.workoutRpe ?? 0) >= 9 && currentVolume <= previousVolume) {
+    if (currentEffort >= 9 && previousEffort >= 9 && current.volumeLoad <= previous.volumeLoad) {
       tips.push(`${name}: high effort with flat output suggests a plateau. Keep 1-2 reps in reserve and progress more gradually.`);
       continue;
     }
@@ -412,21 +365,21 @@ function buildExerciseHint(
     return `${formatExerciseName(exerciseName)}: start near RPE 7 and add reps before adding load.`;
   }
 
-  const latest = points[0];
-  const latestWeight = latest.weightKg;
-  const latestReps = latest.reps;
+  const latestTop = points[0].topSet;
+  const latestWeight = latestTop.weightKg;
+  const latestReps = latestTop.reps;
   const currentRpe = draft.intensityRpe;
 
   if (latestWeight === undefined) {
-    return `${formatExerciseName(exerciseName)}: last log was ${latestReps} reps. Beat that by 1 rep before adding set count.`;
+    return `${formatExerciseName(exerciseName)}: last top set was ${latestReps} reps. Beat that by 1 rep before adding set count.`;
   }
 
   const suggestedTop = roundToOne(latestWeight * 1.05);
-  if (currentRpe !== undefined && currentRpe > 9) {
+  if ((currentRpe !== undefined && currentRpe > 9) || (getSetEffortRpe(latestTop) ?? 0) >= 9.5) {
     return `${formatExerciseName(exerciseName)}: effort is already high. Stay near ${latestWeight} kg and improve reps before loading up.`;
   }
 
-  return `${formatExerciseName(exerciseName)}: last was ${latestWeight} kg x ${latestReps}. If form is solid today, a ${latestWeight}-${suggestedTop} kg range is appropriate.`;
+  return `${formatExerciseName(exerciseName)}: last top set was ${formatSetSummary(latestTop)}. If form is solid today, a ${latestWeight}-${suggestedTop} kg range is appropriate.`;
 }
 
 function formatRpe(value: number): string {
@@ -458,7 +411,7 @@ export function getWorkoutDraftGuidance(
   const targetDuration = DURATION_TARGETS[draft.workoutType];
   const warnings: string[] = [];
 
-  const totalSets = draft.exerciseEntries.reduce((sum, entry) => sum + Math.max(0, entry.sets), 0);
+  const totalSets = draft.exerciseEntries.reduce((sum, entry) => sum + getWorkingSets(entry).length, 0);
 
   if (draft.intensityRpe !== undefined) {
     if (draft.intensityRpe < targetRpe.min) {
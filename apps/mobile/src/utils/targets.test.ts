@@ -0,0 +1,99 @@
+import { UserProfile } from "../types";
+import {
+  calculateBmr,
+  calculateMaintenanceCalories,
+  calculateNutritionTargets,
+  completeProfile,
+  getDefaultWeeklyRateKg,
+  splitMacros
+} from "./targets";
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+const body = { age: 30, heightCm: 180, weightKg: 80 };
+
+runTest("Mifflin-St Jeor uses the sex offset and falls back to the midpoint", () => {
+  assertEqual(calculateBmr({ ...body, sex: "male" }), 1780, "male");
+  assertEqual(calculateBmr({ ...body, sex: "female" }), 1614, "female");
+  assertEqual(calculateBmr(body), 1697, "unspecified");
+  assertEqual(calculateMaintenanceCalories({ ...body, sex: "male", activityLevel: "moderate" }), 2759, "moderate");
+});
+
+runTest("targets subtract the weekly rate and split every macro", () => {
+  const targets = calculateNutritionTargets({
+    ...body,
+    sex: "male",
+    goal: "lose_weight",
+    activityLevel: "moderate",
+    weeklyRateKg: -0.5
+  });
+
+  assertEqual(targets.dailyCalorieTarget, 2210, "calories");
+  assertEqual(targets.proteinTargetGrams, 160, "protein at 2 g/kg while cutting");
+  assertEqual(targets.fatTargetGrams, 61, "fat at a quarter of calories");
+  assertEqual(targets.carbsTargetGrams, 255, "carbs take the rest");
+  assertEqual(targets.fiberTargetGrams, 31, "fiber per 1000 kcal");
+  assertEqual(targets.waterTargetLiters, 2.8, "water");
+});
+
+runTest("small budgets keep the calorie and fat floors", () => {
+  const targets = calculateNutritionTargets({
+    sex: "female",
+    age: 60,
+    heightCm: 160,
+    weightKg: 50,
+    goal: "lose_weight",
+    activityLevel: "sedentary",
+    weeklyRateKg: -0.75
+  });
+  assertEqual(targets.dailyCalorieTarget, 1200, "calorie floor");
+
+  const macros = splitMacros(1200, 100, "maintain");
+  assertEqual(macros.fatTargetGrams, 60, "fat floor of 0.6 g/kg");
+  assertEqual(macros.carbsTargetGrams, 5, "carbs shrink first");
+});
+
+runTest("default weekly rates follow the goal", () => {
+  assertEqual(getDefaultWeeklyRateKg("lose_weight", 90), -0.45, "cut");
+  assertEqual(getDefaultWeeklyRateKg("gain_muscle", 80), 0.2, "gain");
+  assertEqual(getDefaultWeeklyRateKg("maintain", 80), 0, "maintain");
+});
+
+runTest("older profiles keep their calories and protein and gain the missing targets", () => {
+  const legacy = {
+    id: "u1",
+    name: "Sam",
+    age: 28,
+    heightCm: 176,
+    currentWeightKg: 74,
+    goal: "maintain",
+    dailyCalorieTarget: 2400,
+    proteinTargetGrams: 140
+  } satisfies Partial<UserProfile>;
+
+  const completed = completeProfile(legacy);
+  assertEqual(completed.dailyCalorieTarget, 2400, "calories kept");
+  assertEqual(completed.proteinTargetGrams, 140, "protein kept");
+  assertEqual(completed.activityLevel, "light", "activity default");
+  assertEqual(completed.weeklyRateKg, 0, "rate defaults from the goal");
+  assertEqual(completed.fatTargetGrams, 67, "fat");
+  assertEqual(completed.carbsTargetGrams, 309, "carbs");
+  assertEqual(completed.fiberTargetGrams, 34, "fiber");
+  assertEqual(completed.waterTargetLiters, 2.6, "water");
+
+  assertEqual(completeProfile({ ...completed, carbsTargetGrams: 250 }).carbsTargetGrams, 250, "saved targets win");
+});
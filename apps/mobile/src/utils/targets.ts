@@ -1,14 +1,131 @@
-import { FitnessGoal } from "../types";
+import { ActivityLevel, FitnessGoal, Sex, UserProfile } from "../types";
 
-export function calculateTargets(goal: FitnessGoal, weightKg: number) {
-  const calorieFactor =
-    goal === "gain_muscle" ? 36 :
-    goal === "lose_weight" ? 28 :
-    32;
+/** Energy in a kilogram of mixed body tissue; the usual planning figure. */
+export const KCAL_PER_KG = 7700;
+export const MIN_CALORIE_TARGET = 1200;
 
+export const ACTIVITY_LEVELS: ActivityLevel[] = ["sedentary", "light", "moderate", "active", "very_active"];
+
+// Standard multipliers applied to resting energy for total daily expenditure.
+export const ACTIVITY_MULTIPLIERS: Record<ActivityLevel, number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9
+};
+
+// Around 1.6 g/kg covers most lifters; a deficit needs more to hold on to muscle.
+const PROTEIN_PER_KG: Record<FitnessGoal, number> = {
+  lose_weight: 2.0,
+  gain_muscle: 1.8,
+  maintain: 1.6
+};
+
+const FAT_SHARE = 0.25;
+const MIN_FAT_PER_KG = 0.6;
+const FIBER_PER_1000_KCAL = 14;
+const WATER_LITERS_PER_KG = 0.035;
+
+export interface TargetInput {
+  goal: FitnessGoal;
+  sex?: Sex;
+  age: number;
+  heightCm: number;
+  weightKg: number;
+  activityLevel: ActivityLevel;
+  weeklyRateKg: number;
+}
+
+export interface MacroTargets {
+  proteinTargetGrams: number;
+  carbsTargetGrams: number;
+  fatTargetGrams: number;
+  fiberTargetGrams: number;
+}
+
+export interface NutritionTargets extends MacroTargets {
+  dailyCalorieTarget: number;
+  waterTargetLiters: number;
+}
+
+/** Mifflin-St Jeor resting energy. Without a sex it uses the midpoint of the two offsets. */
+export function calculateBmr({ sex, age, heightCm, weightKg }: Pick<TargetInput, "sex" | "age" | "heightCm" | "weightKg">) {
+  const offset = sex === "male" ? 5 : sex === "female" ? -161 : -78;
+  return 10 * weightKg + 6.25 * heightCm - 5 * age + offset;
+}
+
+export function calculateMaintenanceCalories(input: Omit<TargetInput, "goal" | "weeklyRateKg">): number {
+  return Math.round(calculateBmr(input) * ACTIVITY_MULTIPLIERS[input.activityLevel]);
+}
+
+/** Half a percent of bodyweight a week to cut, a quarter to gain. */
+export function getDefaultWeeklyRateKg(goal: FitnessGoal, weightKg: number): number {
+  const percent = goal === "lose_weight" ? -0.005 : goal === "gain_muscle" ? 0.0025 : 0;
+  return Number((Math.round((weightKg * percent) / 0.05) * 0.05).toFixed(2));
+}
+
+/**
+ * Splits a calorie budget: protein by goal and bodyweight unless given, a quarter of calories
+ * from fat (never under 0.6 g/kg), the rest carbs. Fiber scales at 14 g per 1000 kcal.
+ */
+export function splitMacros(
+  dailyCalorieTarget: number,
+  weightKg: number,
+  goal: FitnessGoal,
+  proteinTargetGrams = Math.round(weightKg * PROTEIN_PER_KG[goal])
+): MacroTargets {
+  const fatTargetGrams = Math.round(Math.max((dailyCalorieTarget * FAT_SHARE) / 9, weightKg * MIN_FAT_PER_KG));
+  const carbCalories = dailyCalorieTarget - proteinTargetGrams * 4 - fatTargetGrams * 9;
   return {
-    dailyCalorieTarget: Math.round(weightKg * calorieFactor),
-    proteinTargetGrams: Math.round(weightKg * 1.8)
+    proteinTargetGrams,
+    carbsTargetGrams: Math.max(0, Math.round(carbCalories / 4)),
+    fatTargetGrams,
+    fiberTargetGrams: Math.round((dailyCalorieTarget / 1000) * FIBER_PER_1000_KCAL)
   };
 }
 
+export function calculateWaterTargetLiters(weightKg: number): number {
+  return Number((weightKg * WATER_LITERS_PER_KG).toFixed(1));
+}
+
+export function calculateNutritionTargets(input: TargetInput): NutritionTargets {
+  const maintenance = calculateMaintenanceCalories(input);
+  const dailyCalorieTarget = Math.max(
+    MIN_CALORIE_TARGET,
+    Math.round((maintenance + (input.weeklyRateKg * KCAL_PER_KG) / 7) / 10) * 10
+  );
+  return {
+    dailyCalorieTarget,
+    ...splitMacros(dailyCalorieTarget, input.weightKg, input.goal),
+    waterTargetLiters: calculateWaterTargetLiters(input.weightKg)
+  };
+}
+
+type StoredProfile = Omit<
+  UserProfile,
+  "activityLevel" | "weeklyRateKg" | "carbsTargetGrams" | "fatTargetGrams" | "fiberTargetGrams" | "waterTargetLiters"
+> &
+  Partial<UserProfile>;
+
+/**
+ * Fills targets that profiles saved before full macro targets lack. The calories and protein the
+ * user already has are kept; the other macros are split from them.
+ */
+export function completeProfile(profile: StoredProfile): UserProfile {
+  const split = splitMacros(
+    profile.dailyCalorieTarget,
+    profile.currentWeightKg,
+    profile.goal,
+    profile.proteinTargetGrams
+  );
+  return {
+    ...profile,
+    activityLevel: profile.activityLevel ?? "light",
+    weeklyRateKg: profile.weeklyRateKg ?? getDefaultWeeklyRateKg(profile.goal, profile.currentWeightKg),
+    carbsTargetGrams: profile.carbsTargetGrams ?? split.carbsTargetGrams,
+    fatTargetGrams: profile.fatTargetGrams ?? split.fatTargetGrams,
+    fiberTargetGrams: profile.fiberTargetGrams ?? split.fiberTargetGrams,
+    waterTargetLiters: profile.waterTargetLiters ?? calculateWaterTargetLiters(profile.currentWeightKg)
+  };
+}
@@ -0,0 +1,126 @@
+import { NutritionLog, ProgressEntry, UserProfile } from "../types";
+import { estimateTdee, getAdaptiveTargetState, proposeTargets } from "./tdee";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+const TODAY = "2026-03-29";
+
+function dateKey(dayOfMarch: number): string {
+  return `2026-03-${String(dayOfMarch).padStart(2, "0")}`;
+}
+
+function makeLogs(days: number[], calories: number): Record<string, NutritionLog> {
+  return Object.fromEntries(
+    days.map((day) => [
+      dateKey(day),
+      { date: dateKey(day), calories, protein: 150, carbs: 200, fat: 70, waterLiters: 2 }
+    ])
+  );
+}
+
+/** Weigh-ins on the given days, losing `kgPerWeek` in a straight line from 90 kg on March 1. */
+function makeWeighIns(days: number[], kgPerWeek: number): ProgressEntry[] {
+  return days.map((day) => ({
+    id: `p${day}`,
+    date: dateKey(day),
+    weightKg: Number((90 + ((day - 1) * kgPerWeek) / 7).toFixed(3))
+  }));
+}
+
+const everyDay = Array.from({ length: 28 }, (_, index) => index + 1);
+const everyThirdDay = everyDay.filter((day) => (day - 1) % 3 === 0);
+
+const profile: UserProfile = {
+  id: "u1",
+  name: "Sam",
+  age: 32,
+  heightCm: 178,
+  currentWeightKg: 90,
+  goal: "lose_weight",
+  activityLevel: "moderate",
+  weeklyRateKg: -0.5,
+  dailyCalorieTarget: 2520,
+  proteinTargetGrams: 162,
+  carbsTargetGrams: 301,
+  fatTargetGrams: 70,
+  fiberTargetGrams: 35,
+  waterTargetLiters: 3.2
+};
+
+runTest("maintenance is intake plus the energy the weight trend lost", () => {
+  const estimate = estimateTdee(makeWeighIns(everyThirdDay, -0.5), makeLogs(everyDay, 2200), TODAY);
+
+  assertEqual(estimate.loggedDays, 28, "logged days");
+  assertEqual(estimate.weighIns, 10, "weigh-ins");
+  assertEqual(estimate.weeklyWeightChangeKg, -0.5, "weekly change");
+  assert(Math.abs((estimate.tdee ?? 0) - 2750) <= 2, `tdee near 2750, got ${estimate.tdee}`);
+  assertEqual(estimate.confidence, "high", "confidence");
+  assertEqual(estimate.reasons.length, 3, "reasoning lines");
+});
+
+runTest("too little data explains what is missing instead of guessing", () => {
+  const estimate = estimateTdee(makeWeighIns([20, 27], -0.5), makeLogs([24, 25, 26, 27], 2200), TODAY);
+
+  assertEqual(estimate.tdee, null, "no estimate");
+  assertEqual(estimate.confidence, null, "no confidence");
+  assertEqual(estimate.reasons.length, 2, "both gaps listed");
+  assertEqual(proposeTargets(profile, estimate, 90), null, "no proposal");
+});
+
+runTest("today's half-logged day and tiny days stay out of the average", () => {
+  const logs = { ...makeLogs(everyDay, 2200), ...makeLogs([29], 400), ...makeLogs([5, 6], 300) };
+  const estimate = estimateTdee(makeWeighIns(everyThirdDay, 0), logs, TODAY);
+
+  assertEqual(estimate.loggedDays, 26, "logged days");
+  assertEqual(estimate.averageIntake, 2200, "average intake");
+  assertEqual(estimate.tdee, 2200, "flat weight means intake is maintenance");
+});
+
+runTest("proposals steer toward the chosen rate in confidence-limited steps", () => {
+  const confident = estimateTdee(makeWeighIns(everyThirdDay, -0.5), makeLogs(everyDay, 2200), TODAY);
+  const proposal = proposeTargets(profile, confident, 88.1);
+  assertEqual(proposal?.dailyCalorieTarget, 2200, "calorie target");
+  assertEqual(proposal?.change, -320, "change");
+  assertEqual(proposal?.proteinTargetGrams, 176, "protein from latest weight");
+  assertEqual(proposal?.fatTargetGrams, 61, "fat re-split from the new calories");
+  assertEqual(proposal?.carbsTargetGrams, 237, "carbs take the remainder");
+
+  const sparse = estimateTdee(makeWeighIns([10, 16, 22], -0.5), makeLogs(everyDay.slice(10, 20), 2200), TODAY);
+  assertEqual(sparse.confidence, "low", "sparse confidence");
+  const cautious = proposeTargets(profile, sparse, 88.1);
+  assertEqual(cautious?.change, -150, "low confidence caps the step");
+  assert(!!cautious?.reasons.some((reason) => reason.includes("at most 150 kcal")), "cap is explained");
+});
+
+runTest("a proposal waits a week after the last review", () => {
+  const progress = makeWeighIns(everyThirdDay, -0.5);
+  const logs = makeLogs(everyDay, 2200);
+  const settings = { lastTargetReviewDate: "2026-03-26" };
+
+  assertEqual(getAdaptiveTargetState(profile, progress, logs, settings, TODAY).proposal, null, "reviewed 3 days ago");
+  const due = getAdaptiveTargetState(profile, progress, logs, { lastTargetReviewDate: "2026-03-22" }, TODAY);
+  assertEqual(due.proposal?.dailyCalorieTarget, 2200, "due after 7 days");
+
+  const faster = getAdaptiveTargetState({ ...profile, weeklyRateKg: -0.75 }, progress, logs, { lastTargetReviewDate: null }, TODAY);
+  assertEqual(faster.proposal?.dailyCalorieTarget, 2020, "the profile's rate drives the proposal");
+});
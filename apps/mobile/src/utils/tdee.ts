@@ -0,0 +1,181 @@
+import { AppSettings, NutritionLog, ProgressEntry, UserProfile } from "../types";
+import { dayIndex } from "./date";
+import { KCAL_PER_KG, MacroTargets, MIN_CALORIE_TARGET, splitMacros } from "./targets";
+import { weightSlopePerDay } from "./weightTrend";
+
+export const TDEE_WINDOW_DAYS = 28;
+const REVIEW_INTERVAL_DAYS = 7;
+// Days below this are almost always half-logged and would drag the average intake down.
+const MIN_COMPLETE_DAY_KCAL = 600;
+const MIN_LOGGED_DAYS = 10;
+const MIN_WEIGH_INS = 3;
+const MIN_WEIGHT_SPAN_DAYS = 10;
+
+export type EstimateConfidence = "low" | "medium" | "high";
+
+const MAX_STEP_BY_CONFIDENCE: Record<EstimateConfidence, number> = {
+  low: 150,
+  medium: 300,
+  high: 500
+};
+
+export const WEEKLY_RATE_OPTIONS = [-0.75, -0.5, -0.25, 0, 0.25, 0.5];
+
+export interface TdeeEstimate {
+  /** Null until the window has enough intake and weight data. */
+  tdee: number | null;
+  confidence: EstimateConfidence | null;
+  averageIntake: number | null;
+  weeklyWeightChangeKg: number | null;
+  loggedDays: number;
+  weighIns: number;
+  windowDays: number;
+  reasons: string[];
+}
+
+export interface TargetProposal extends MacroTargets {
+  dailyCalorieTarget: number;
+  change: number;
+  reasons: string[];
+}
+
+export interface AdaptiveTargetState {
+  estimate: TdeeEstimate;
+  /** Null when targets already match the estimate or were reviewed in the last week. */
+  proposal: TargetProposal | null;
+}
+
+function formatKcal(value: number): string {
+  return `${Math.round(value).toLocaleString("en-US")} kcal`;
+}
+
+function formatRate(kgPerWeek: number): string {
+  return `${kgPerWeek > 0 ? "+" : ""}${kgPerWeek.toFixed(2)} kg/week`;
+}
+
+/**
+ * Back-calculates maintenance calories from the last `TDEE_WINDOW_DAYS`: average logged intake
+ * minus the energy the weight trend says was stored or burned. Today is left out of the intake
+ * average because it is usually still being logged.
+ */
+export function estimateTdee(
+  progressEntries: ProgressEntry[],
+  nutritionByDate: Record<string, NutritionLog>,
+  today: string
+): TdeeEstimate {
+  const end = dayIndex(today);
+  const start = end - TDEE_WINDOW_DAYS;
+
+  const intakes = Object.values(nutritionByDate)
+    .filter((log) => {
+      const day = dayIndex(log.date);
+      return day >= start && day < end && log.calories >= MIN_COMPLETE_DAY_KCAL;
+    })
+    .map((log) => log.calories);
+  const weights = progressEntries
+    .map((entry) => ({ day: dayIndex(entry.date), weightKg: entry.weightKg }))
+    .filter((point) => point.day >= start && point.day <= end && point.weightKg > 0);
+  const weightSpan = weights.length
+    ? Math.max(...weights.map((point) => point.day)) - Math.min(...weights.map((point) => point.day))
+    : 0;
+
+  const base = {
+    loggedDays: intakes.length,
+    weighIns: weights.length,
+    windowDays: TDEE_WINDOW_DAYS
+  };
+
+  const missing: string[] = [];
+  if (intakes.length < MIN_LOGGED_DAYS) {
+    missing.push(`Log food on at least ${MIN_LOGGED_DAYS} days (${intakes.length} so far in the last ${TDEE_WINDOW_DAYS}).`);
+  }
+  if (weights.length < MIN_WEIGH_INS || weightSpan < MIN_WEIGHT_SPAN_DAYS) {
+    missing.push(`Weigh in at least ${MIN_WEIGH_INS} times across ${MIN_WEIGHT_SPAN_DAYS}+ days (${weights.length} so far).`);
+  }
+  if (missing.length) {
+    return { ...base, tdee: null, confidence: null, averageIntake: null, weeklyWeightChangeKg: null, reasons: missing };
+  }
+
+  const averageIntake = intakes.reduce((sum, value) => sum + value, 0) / intakes.length;
+  const slope = weightSlopePerDay(weights);
+  const weeklyWeightChangeKg = Number((slope * 7).toFixed(2));
+  const tdee = Math.round(averageIntake - slope * KCAL_PER_KG);
+  const confidence: EstimateConfidence =
+    intakes.length >= 21 && weights.length >= 8 && weightSpan >= 21 ? "high" :
+    intakes.length >= 14 && weights.length >= 5 ? "medium" :
+    "low";
+
+  return {
+    ...base,
+    tdee,
+    confidence,
+    averageIntake: Math.round(averageIntake),
+    weeklyWeightChangeKg,
+    reasons: [
+      `You averaged ${formatKcal(averageIntake)} on ${intakes.length} logged days of the last ${TDEE_WINDOW_DAYS}.`,
+      `Your weight trend moved ${formatRate(weeklyWeightChangeKg)} across ${weights.length} weigh-ins.`,
+      `Together that puts maintenance near ${formatKcal(tdee)}.`
+    ]
+  };
+}
+
+/**
+ * New targets that steer toward `weeklyRateKg`, moving at most a confidence-dependent step per
+ * review so one noisy week cannot swing the plan.
+ */
+export function proposeTargets(
+  profile: UserProfile,
+  estimate: TdeeEstimate,
+  latestWeightKg: number
+): TargetProposal | null {
+  if (estimate.tdee === null || estimate.confidence === null) {
+    return null;
+  }
+
+  const { weeklyRateKg } = profile;
+  const dailyDelta = (weeklyRateKg * KCAL_PER_KG) / 7;
+  const desired = Math.max(estimate.tdee + dailyDelta, MIN_CALORIE_TARGET);
+  const maxStep = MAX_STEP_BY_CONFIDENCE[estimate.confidence];
+  const step = Math.max(-maxStep, Math.min(maxStep, desired - profile.dailyCalorieTarget));
+  const dailyCalorieTarget = Math.round((profile.dailyCalorieTarget + step) / 10) * 10;
+  const macros = splitMacros(dailyCalorieTarget, latestWeightKg, profile.goal);
+  const change = dailyCalorieTarget - profile.dailyCalorieTarget;
+
+  if (Math.abs(change) < 50 && macros.proteinTargetGrams === profile.proteinTargetGrams) {
+    return null;
+  }
+
+  const reasons = [
+    weeklyRateKg === 0
+      ? "Holding weight steady means eating at maintenance."
+      : `Aiming for ${formatRate(weeklyRateKg)} means about ${formatKcal(Math.abs(dailyDelta))} ${
+          dailyDelta < 0 ? "below" : "above"
+        } maintenance a day.`
+  ];
+  if (Math.abs(desired - profile.dailyCalorieTarget) > maxStep) {
+    reasons.push(`With ${estimate.confidence} confidence the target moves at most ${maxStep} kcal per week.`);
+  }
+  reasons.push("Protein follows your latest weight; fat and carbs are re-split from the new calories.");
+
+  return { dailyCalorieTarget, ...macros, change, reasons };
+}
+
+export function isTargetReviewDue(lastReviewDate: string | null, today: string): boolean {
+  return !lastReviewDate || dayIndex(today) - dayIndex(lastReviewDate) >= REVIEW_INTERVAL_DAYS;
+}
+
+export function getAdaptiveTargetState(
+  profile: UserProfile,
+  progressEntries: ProgressEntry[],
+  nutritionByDate: Record<string, NutritionLog>,
+  settings: Pick<AppSettings, "lastTargetReviewDate">,
+  today: string
+): AdaptiveTargetState {
+  const estimate = estimateTdee(progressEntries, nutritionByDate, today);
+  const latestWeightKg =
+    [...progressEntries].sort((a, b) => b.date.localeCompare(a.date))[0]?.weightKg ?? profile.currentWeightKg;
+  const proposal = isTargetReviewDue(settings.lastTargetReviewDate, today)
+    ? proposeTargets(profile, estimate, latestWeightKg)
+    : null;
+  return { estimate, proposal };
+}
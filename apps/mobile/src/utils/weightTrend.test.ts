@@ -0,0 +1,97 @@
+import { ProgressEntry } from "../types";
+import { addDaysToKey } from "./date";
+import { buildWeightTrend, getWeeklyTrendRate, getWeightTrendSummary, pointsInRange, projectGoalDate } from "./weightTrend";
+
+function assert(condition: boolean, message: string) {
+  if (!condition) {
+    throw new Error(message);
+  }
+}
+
+function assertEqual<T>(actual: T, expected: T, label: string) {
+  if (actual !== expected) {
+    throw new Error(`${label} expected ${String(expected)} but got ${String(actual)}`);
+  }
+}
+
+function runTest(name: string, fn: () => void) {
+  try {
+    fn();
+    console.log(`ok - ${name}`);
+  } catch (error) {
+    console.error(`not ok - ${name}`);
+    throw error;
+  }
+}
+
+const START = "2026-01-01";
+
+function weighIn(day: number, weightKg: number): ProgressEntry {
+  return { id: `p${day}`, date: addDaysToKey(START, day), weightKg };
+}
+
+/** A daily steady loss of `kgPerWeek` from 90 kg, with an optional extra swing per day. */
+function dailyWeighIns(days: number, kgPerWeek: number, noise: (day: number) => number = () => 0): ProgressEntry[] {
+  return Array.from({ length: days }, (_, day) => weighIn(day, Number((90 + (day * kgPerWeek) / 7 + noise(day)).toFixed(2))));
+}
+
+runTest("the trend closes a tenth of the gap per day and compounds over missed days", () => {
+  const points = buildWeightTrend([weighIn(3, 80), weighIn(0, 80), weighIn(1, 81)]);
+
+  assertEqual(points.map((point) => point.date).join(","), "2026-01-01,2026-01-02,2026-01-04", "oldest first");
+  assertEqual(points[0].trendKg, 80, "starts at the first weigh-in");
+  assertEqual(points[1].trendKg, 80.1, "one day");
+  assertEqual(points[2].trendKg, 80.08, "two-day gap");
+});
+
+runTest("several weigh-ins on one day count once, at their average", () => {
+  const points = buildWeightTrend([
+    weighIn(0, 80),
+    { id: "p1_morning", date: addDaysToKey(START, 1), weightKg: 80.5 },
+    { id: "p1_evening", date: addDaysToKey(START, 1), weightKg: 81.5 }
+  ]);
+
+  assertEqual(points.length, 2, "one point per day");
+  assertEqual(points[1].weightKg, 81, "averaged weight");
+  assertEqual(points[1].trendKg, 80.1, "one day of smoothing");
+});
+
+runTest("a water spike barely moves the trend while the weekly rate follows the real loss", () => {
+  const spiky = dailyWeighIns(42, -0.5, (day) => (day === 40 ? 1.5 : 0));
+  const points = buildWeightTrend(spiky);
+  const spike = points[40];
+
+  assert(spike.weightKg - points[39].weightKg > 1.4, "scale jumps");
+  assert(spike.trendKg - points[39].trendKg < 0.1, `trend moves under 0.1 kg, got ${spike.trendKg - points[39].trendKg}`);
+
+  // The trend needs a few weeks to catch up with a steady loss, so give it ten.
+  const rate = getWeeklyTrendRate(buildWeightTrend(dailyWeighIns(70, -0.5)));
+  assert(rate !== null && Math.abs(rate + 0.5) <= 0.03, `weekly rate near -0.5, got ${rate}`);
+});
+
+runTest("the weekly rate waits for a week of weigh-ins", () => {
+  assertEqual(getWeeklyTrendRate(buildWeightTrend(dailyWeighIns(5, -0.5))), null, "five days");
+  assertEqual(getWeeklyTrendRate([]), null, "no entries");
+});
+
+runTest("goal projections give a date only when the trend is heading there", () => {
+  const onTrack = projectGoalDate(90, -0.5, 85, "2026-03-29");
+  assertEqual(onTrack.status, "on_track", "on track");
+  assertEqual(onTrack.status === "on_track" ? onTrack.date : null, "2026-06-07", "ten weeks out");
+  assertEqual(onTrack.status === "on_track" ? onTrack.weeks : null, 10, "weeks");
+
+  assertEqual(projectGoalDate(85.2, -0.5, 85, "2026-03-29").status, "reached", "within tolerance");
+  assertEqual(projectGoalDate(90, 0.2, 85, "2026-03-29").status, "stalled", "moving away");
+  assertEqual(projectGoalDate(90, -0.04, 85, "2026-03-29").status, "stalled", "flat");
+  assertEqual(projectGoalDate(95, -0.05, 85, "2026-03-29").status, "stalled", "over two years");
+  assertEqual(getWeightTrendSummary(dailyWeighIns(14, -0.5)).projection, null, "no goal, no projection");
+});
+
+runTest("chart ranges keep readings inside the window", () => {
+  const points = buildWeightTrend(dailyWeighIns(100, -0.5));
+  const lastDate = points[points.length - 1].date;
+
+  assertEqual(pointsInRange(points, 30, lastDate).length, 30, "one month");
+  assertEqual(pointsInRange(points, null, lastDate).length, 100, "all");
+  assert(pointsInRange(points, 30, lastDate)[0].trendKg < points[0].trendKg, "trend carries its history into the range");
+});
@@ -0,0 +1,148 @@
+import { ProgressEntry } from "../types";
+import { addDaysToKey, dayIndex } from "./date";
+
+/** Share of each day's gap between scale weight and trend that the trend closes. */
+export const TREND_SMOOTHING = 0.1;
+const RATE_WINDOW_DAYS = 28;
+const MIN_RATE_SPAN_DAYS = 7;
+// Closer than this to the goal counts as there; the daily swing is bigger.
+const GOAL_TOLERANCE_KG = 0.25;
+const MIN_PROJECTED_RATE_KG = 0.05;
+const MAX_PROJECTION_WEEKS = 104;
+
+export type ChartRangeKey = "1m" | "3m" | "6m" | "1y" | "all";
+
+export const CHART_RANGES: Array<{ key: ChartRangeKey; label: string; days: number | null }> = [
+  { key: "1m", label: "1M", days: 30 },
+  { key: "3m", label: "3M", days: 90 },
+  { key: "6m", label: "6M", days: 180 },
+  { key: "1y", label: "1Y", days: 365 },
+  { key: "all", label: "All", days: null }
+];
+
+export interface TrendPoint {
+  date: string;
+  weightKg: number;
+  trendKg: number;
+}
+
+export type GoalProjection =
+  | { status: "reached" }
+  | { status: "on_track"; date: string; weeks: number }
+  /** The trend is flat, heading the other way, or would take over two years. */
+  | { status: "stalled" };
+
+export interface WeightTrendSummary {
+  points: TrendPoint[];
+  trendKg: number | null;
+  /** Null until the trend covers at least a week. */
+  weeklyRateKg: number | null;
+  projection: GoalProjection | null;
+}
+
+/** Least-squares slope in kg per day. */
+export function weightSlopePerDay(points: Array<{ day: number; weightKg: number }>): number {
+  const meanDay = points.reduce((sum, point) => sum + point.day, 0) / points.length;
+  const meanWeight = points.reduce((sum, point) => sum + point.weightKg, 0) / points.length;
+  let numerator = 0;
+  let denominator = 0;
+  for (const point of points) {
+    numerator += (point.day - meanDay) * (point.weightKg - meanWeight);
+    denominator += (point.day - meanDay) ** 2;
+  }
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/** One weigh-in per day, oldest first; several on the same day are averaged. */
+function dailyWeighIns(entries: ProgressEntry[]): Array<{ date: string; weightKg: number }> {
+  const byDate = new Map<string, number[]>();
+  for (const entry of entries) {
+    if (entry.weightKg > 0) {
+      byDate.set(entry.date, [...(byDate.get(entry.date) ?? []), entry.weightKg]);
+    }
+  }
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, weights]) => ({
+      date,
+      weightKg: Number((weights.reduce((sum, weightKg) => sum + weightKg, 0) / weights.length).toFixed(2))
+    }));
+}
+
+/**
+ * Exponentially smoothed weight, oldest first. The smoothing compounds over the days between
+ * weigh-ins, so a reading after a two-week gap moves the trend further than one from yesterday.
+ */
+export function buildWeightTrend(entries: ProgressEntry[]): TrendPoint[] {
+  const points: TrendPoint[] = [];
+  for (const entry of dailyWeighIns(entries)) {
+    const previous = points[points.length - 1];
+    const gapDays = previous ? Math.max(1, dayIndex(entry.date) - dayIndex(previous.date)) : 0;
+    const trendKg = previous
+      ? previous.trendKg + (1 - (1 - TREND_SMOOTHING) ** gapDays) * (entry.weightKg - previous.trendKg)
+      : entry.weightKg;
+    points.push({ date: entry.date, weightKg: entry.weightKg, trendKg: Number(trendKg.toFixed(2)) });
+  }
+  return points;
+}
+
+/** Slope of the trend over the last four weeks of weigh-ins, in kg per week. */
+export function getWeeklyTrendRate(points: TrendPoint[]): number | null {
+  const latest = points[points.length - 1];
+  if (!latest) {
+    return null;
+  }
+  const end = dayIndex(latest.date);
+  const recent = points
+    .map((point) => ({ day: dayIndex(point.date), weightKg: point.trendKg }))
+    .filter((point) => point.day > end - RATE_WINDOW_DAYS);
+  if (recent.length < 2 || end - recent[0].day < MIN_RATE_SPAN_DAYS) {
+    return null;
+  }
+  return Number((weightSlopePerDay(recent) * 7).toFixed(2));
+}
+
+export function projectGoalDate(
+  trendKg: number,
+  weeklyRateKg: number | null,
+  goalWeightKg: number,
+  fromDate: string
+): GoalProjection {
+  const remainingKg = goalWeightKg - trendKg;
+  if (Math.abs(remainingKg) <= GOAL_TOLERANCE_KG) {
+    return { status: "reached" };
+  }
+  if (weeklyRateKg === null || Math.abs(weeklyRateKg) < MIN_PROJECTED_RATE_KG || Math.sign(weeklyRateKg) !== Math.sign(remainingKg)) {
+    return { status: "stalled" };
+  }
+  const weeks = remainingKg / weeklyRateKg;
+  if (weeks > MAX_PROJECTION_WEEKS) {
+    return { status: "stalled" };
+  }
+  return { status: "on_track", date: addDaysToKey(fromDate, Math.ceil(weeks * 7)), weeks: Math.ceil(weeks) };
+}
+
+export function getWeightTrendSummary(entries: ProgressEntry[], goalWeightKg?: number): WeightTrendSummary {
+  const points = buildWeightTrend(entries);
+  const latest = points[points.length - 1];
+  const weeklyRateKg = getWeeklyTrendRate(points);
+  return {
+    points,
+    trendKg: latest?.trendKg ?? null,
+    weeklyRateKg,
+    projection:
+      latest && goalWeightKg !== undefined ? projectGoalDate(latest.trendKg, weeklyRateKg, goalWeightKg, latest.date) : null
+  };
+}
+
+/**
+ * Points within `days` of `today`, or all of them. The trend is built from the whole history
+ * first so a short range starts from a settled trend rather than its first raw weigh-in.
+ */
+export function pointsInRange<T extends { date: string }>(points: T[], days: number | null, today: string): T[] {
+  if (days === null) {
+    return points;
+  }
+  const start = addDaysToKey(today, -days);
+  return points.filter((point) => point.date > start && point.date <= today);
+}
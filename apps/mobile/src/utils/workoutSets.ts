@@ -0,0 +1,85 @@
+import { WorkoutExerciseEntry, WorkoutSetEntry } from "../types";
+
+export function createStraightSets(count: number, set: WorkoutSetEntry): WorkoutSetEntry[] {
+  return Array.from({ length: Math.max(0, Math.round(count)) }, () => ({ ...set }));
+}
+
+function sanitizeSetEntry(input: unknown): WorkoutSetEntry | null {
+  if (!input || typeof input !== "object") {
+    return null;
+  }
+
+  const row = input as Partial<WorkoutSetEntry>;
+  const reps = Number(row.reps);
+  if (!Number.isFinite(reps) || reps < 1) {
+    return null;
+  }
+
+  const weight = Number(row.weightKg);
+  const rpe = Number(row.rpe);
+  const rir = Number(row.rir);
+
+  return {
+    reps: Math.round(reps),
+    weightKg: Number.isFinite(weight) && weight >= 0 ? weight : undefined,
+    rpe: Number.isFinite(rpe) && rpe >= 1 && rpe <= 10 ? Number(rpe.toFixed(1)) : undefined,
+    rir: Number.isFinite(rir) && rir >= 0 && rir <= 10 ? Math.round(rir) : undefined,
+    isWarmup: row.isWarmup === true ? true : undefined
+  };
+}
+
+export function sanitizeSetEntries(row: Record<string, unknown>): WorkoutSetEntry[] {
+  if (Array.isArray(row.sets)) {
+    return row.sets.flatMap((item) => {
+      const set = sanitizeSetEntry(item);
+      return set ? [set] : [];
+    });
+  }
+
+  // Entries saved before per-set logging carried a single sets x reps x weight triple.
+  const count = Number(row.sets);
+  const set = sanitizeSetEntry({ reps: row.reps, weightKg: row.weightKg });
+  if (!Number.isFinite(count) || count < 1 || !set) {
+    return [];
+  }
+
+  return createStraightSets(Math.min(count, 30), set);
+}
+
+export function getWorkingSets(entry: WorkoutExerciseEntry): WorkoutSetEntry[] {
+  return entry.sets.filter((set) => !set.isWarmup);
+}
+
+export function getSetEffortRpe(set: WorkoutSetEntry): number | undefined {
+  if (set.rpe !== undefined) {
+    return set.rpe;
+  }
+  return set.rir !== undefined ? Math.max(1, 10 - set.rir) : undefined;
+}
+
+export function getTopSet(entry: WorkoutExerciseEntry): WorkoutSetEntry | null {
+  let top: WorkoutSetEntry | null = null;
+  for (const set of getWorkingSets(entry)) {
+    if (!top) {
+      top = set;
+      continue;
+    }
+    const load = set.weightKg ?? 0;
+    const topLoad = top.weightKg ?? 0;
+    if (load > topLoad || (load === topLoad && set.reps > top.reps)) {
+      top = set;
+    }
+  }
+  return top;
+}
+
+export function formatSetSummary(set: WorkoutSetEntry): string {
+  const load = set.weightKg !== undefined ? `${set.weightKg} kg x ${set.reps}` : `${set.reps} reps`;
+  const effort =
+    set.rpe !== undefined
+      ? ` @ RPE ${set.rpe}`
+      : set.rir !== undefined
+        ? ` @ ${set.rir} RIR`
+        : "";
+  return `${load}${effort}`;
+}
@@ -0,0 +1,407 @@
+export type MuscleGroup =
+  | "chest"
+  | "back"
+  | "shoulders"
+  | "biceps"
+  | "triceps"
+  | "quads"
+  | "hamstrings"
+  | "glutes"
+  | "calves"
+  | "core";
+
+export type Equipment = "barbell" | "dumbbell" | "machine" | "cable" | "bodyweight" | "kettlebell";
+
+export type MovementPattern =
+  | "horizontal_push"
+  | "vertical_push"
+  | "horizontal_pull"
+  | "vertical_pull"
+  | "squat"
+  | "hinge"
+  | "lunge"
+  | "isolation"
+  | "core";
+
+export interface CatalogExercise {
+  id: string;
+  name: string;
+  aliases: string[];
+  /** Hard-set credit per muscle group: 1 for primary movers, a fraction for secondary ones. */
+  muscles: Partial<Record<MuscleGroup, number>>;
+  equipment: Equipment;
+  pattern: MovementPattern;
+}
+
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  {
+    id: "barbell_bench_press",
+    name: "Barbell Bench Press",
+    aliases: ["bench press", "bench", "bb bench", "flat bench", "barbell bench"],
+    muscles: { chest: 1, triceps: 0.5, shoulders: 0.5 },
+    equipment: "barbell",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "incline_barbell_bench_press",
+    name: "Incline Barbell Bench Press",
+    aliases: ["incline bench", "incline bench press", "incline bb bench"],
+    muscles: { chest: 1, shoulders: 0.5, triceps: 0.5 },
+    equipment: "barbell",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "dumbbell_bench_press",
+    name: "Dumbbell Bench Press",
+    aliases: ["db bench", "db bench press", "dumbbell bench"],
+    muscles: { chest: 1, triceps: 0.5, shoulders: 0.5 },
+    equipment: "dumbbell",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "incline_dumbbell_press",
+    name: "Incline Dumbbell Press",
+    aliases: ["incline db press", "incline dumbbell bench press", "incline db bench"],
+    muscles: { chest: 1, shoulders: 0.5, triceps: 0.5 },
+    equipment: "dumbbell",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "chest_press_machine",
+    name: "Machine Chest Press",
+    aliases: ["chest press"],
+    muscles: { chest: 1, triceps: 0.5, shoulders: 0.5 },
+    equipment: "machine",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "cable_fly",
+    name: "Cable Fly",
+    aliases: ["cable flye", "cable crossover", "chest fly", "pec fly"],
+    muscles: { chest: 1 },
+    equipment: "cable",
+    pattern: "isolation"
+  },
+  {
+    id: "push_up",
+    name: "Push-Up",
+    aliases: ["push up", "pushup", "push-ups", "pushups"],
+    muscles: { chest: 1, triceps: 0.5, shoulders: 0.5, core: 0.25 },
+    equipment: "bodyweight",
+    pattern: "horizontal_push"
+  },
+  {
+    id: "dip",
+    name: "Dip",
+    aliases: ["dips", "chest dip", "parallel bar dip"],
+    muscles: { chest: 1, triceps: 1, shoulders: 0.5 },
+    equipment: "bodyweight",
+    pattern: "vertical_push"
+  },
+  {
+    id: "overhead_press",
+    name: "Overhead Press",
+    aliases: ["ohp", "military press", "standing press", "barbell overhead press"],
+    muscles: { shoulders: 1, triceps: 0.5, core: 0.25 },
+    equipment: "barbell",
+    pattern: "vertical_push"
+  },
+  {
+    id: "dumbbell_shoulder_press",
+    name: "Dumbbell Shoulder Press",
+    aliases: ["db shoulder press", "seated dumbbell press", "db ohp"],
+    muscles: { shoulders: 1, triceps: 0.5 },
+    equipment: "dumbbell",
+    pattern: "vertical_push"
+  },
+  {
+    id: "lateral_raise",
+    name: "Lateral Raise",
+    aliases: ["lateral raises", "db lateral raise"],
+    muscles: { shoulders: 1 },
+    equipment: "dumbbell",
+    pattern: "isolation"
+  },
+  {
+    id: "rear_delt_fly",
+    name: "Rear Delt Fly",
+    aliases: ["reverse fly", "rear delt raise"],
+    muscles: { shoulders: 1, back: 0.25 },
+    equipment: "dumbbell",
+    pattern: "isolation"
+  },
+  {
+    id: "face_pull",
+    name: "Face Pull",
+    aliases: ["face pulls", "cable face pull"],
+    muscles: { shoulders: 1, back: 0.5 },
+    equipment: "cable",
+    pattern: "horizontal_pull"
+  },
+  {
+    id: "barbell_row",
+    name: "Barbell Row",
+    aliases: ["bent over row", "bb row", "bent-over row"],
+    muscles: { back: 1, biceps: 0.5, shoulders: 0.25 },
+    equipment: "barbell",
+    pattern: "horizontal_pull"
+  },
+  {
+    id: "dumbbell_row",
+    name: "Dumbbell Row",
+    aliases: ["db row", "one arm row", "single arm dumbbell row"],
+    muscles: { back: 1, biceps: 0.5 },
+    equipment: "dumbbell",
+    pattern: "horizontal_pull"
+  },
+  {
+    id: "chest_supported_row",
+    name: "Chest Supported Row",
+    aliases: ["chest-supported row"],
+    muscles: { back: 1, biceps: 0.5, shoulders: 0.25 },
+    equipment: "machine",
+    pattern: "horizontal_pull"
+  },
+  {
+    id: "seated_cable_row",
+    name: "Seated Cable Row",
+    aliases: ["cable row", "seated row", "low row"],
+    muscles: { back: 1, biceps: 0.5 },
+    equipment: "cable",
+    pattern: "horizontal_pull"
+  },
+  {
+    id: "pull_up",
+    name: "Pull-Up",
+    aliases: ["pull up", "pullup", "pull-ups", "pullups"],
+    muscles: { back: 1, biceps: 0.5 },
+    equipment: "bodyweight",
+    pattern: "vertical_pull"
+  },
+  {
+    id: "lat_pulldown",
+    name: "Lat Pulldown",
+    aliases: ["pulldown", "lat pull down", "cable pulldown", "lat pull-down"],
+    muscles: { back: 1, biceps: 0.5 },
+    equipment: "cable",
+    pattern: "vertical_pull"
+  },
+  {
+    id: "back_squat",
+    name: "Back Squat",
+    aliases: ["squat", "squats", "barbell squat", "bb squat", "high bar squat", "low bar squat"],
+    muscles: { quads: 1, glutes: 0.5, core: 0.25 },
+    equipment: "barbell",
+    pattern: "squat"
+  },
+  {
+    id: "front_squat",
+    name: "Front Squat",
+    aliases: ["front squats", "barbell front squat"],
+    muscles: { quads: 1, glutes: 0.5, core: 0.5 },
+    equipment: "barbell",
+    pattern: "squat"
+  },
+  {
+    id: "goblet_squat",
+    name: "Goblet Squat",
+    aliases: ["goblet squats", "db goblet squat", "kb goblet squat"],
+    muscles: { quads: 1, glutes: 0.5, core: 0.25 },
+    equipment: "dumbbell",
+    pattern: "squat"
+  },
+  {
+    id: "leg_press",
+    name: "Leg Press",
+    aliases: ["machine leg press", "45 degree leg press"],
+    muscles: { quads: 1, glutes: 0.5 },
+    equipment: "machine",
+    pattern: "squat"
+  },
+  {
+    id: "deadlift",
+    name: "Deadlift",
+    aliases: ["conventional deadlift", "barbell deadlift", "dl"],
+    muscles: { glutes: 1, hamstrings: 0.5, quads: 0.5, back: 0.5, core: 0.25 },
+    equipment: "barbell",
+    pattern: "hinge"
+  },
+  {
+    id: "romanian_deadlift",
+    name: "Romanian Deadlift",
+    aliases: ["rdl", "rdls"],
+    muscles: { hamstrings: 1, glutes: 0.5, back: 0.25 },
+    equipment: "barbell",
+    pattern: "hinge"
+  },
+  {
+    id: "hip_thrust",
+    name: "Hip Thrust",
+    aliases: ["barbell hip thrust", "hip thrusts"],
+    muscles: { glutes: 1, hamstrings: 0.25 },
+    equipment: "barbell",
+    pattern: "hinge"
+  },
+  {
+    id: "kettlebell_swing",
+    name: "Kettlebell Swing",
+    aliases: ["kb swing", "kettlebell swings", "swings"],
+    muscles: { glutes: 1, hamstrings: 0.5, core: 0.25 },
+    equipment: "kettlebell",
+    pattern: "hinge"
+  },
+  {
+    id: "walking_lunge",
+    name: "Walking Lunge",
+    aliases: ["walking lunges"],
+    muscles: { quads: 1, glutes: 0.5 },
+    equipment: "dumbbell",
+    pattern: "lunge"
+  },
+  {
+    id: "bulgarian_split_squat",
+    name: "Bulgarian Split Squat",
+    aliases: ["bss", "rear foot elevated split squat"],
+    muscles: { quads: 1, glutes: 0.5 },
+    equipment: "dumbbell",
+    pattern: "lunge"
+  },
+  {
+    id: "leg_extension",
+    name: "Leg Extension",
+    aliases: ["leg extensions", "quad extension"],
+    muscles: { quads: 1 },
+    equipment: "machine",
+    pattern: "isolation"
+  },
+  {
+    id: "leg_curl",
+    name: "Leg Curl",
+    aliases: ["hamstring curl", "lying leg curl", "seated leg curl", "leg curls"],
+    muscles: { hamstrings: 1 },
+    equipment: "machine",
+    pattern: "isolation"
+  },
+  {
+    id: "calf_raise",
+    name: "Calf Raise",
+    aliases: ["calf raises", "standing calf raise"],
+    muscles: { calves: 1 },
+    equipment: "machine",
+    pattern: "isolation"
+  },
+  {
+    id: "barbell_curl",
+    name: "Barbell Curl",
+    aliases: ["bb curl", "biceps curl", "bicep curl"],
+    muscles: { biceps: 1 },
+    equipment: "barbell",
+    pattern: "isolation"
+  },
+  {
+    id: "dumbbell_curl",
+    name: "Dumbbell Curl",
+    aliases: ["db curl", "dumbbell curls"],
+    muscles: { biceps: 1 },
+    equipment: "dumbbell",
+    pattern: "isolation"
+  },
+  {
+    id: "triceps_pushdown",
+    name: "Triceps Pushdown",
+    aliases: ["tricep pushdown", "pushdown", "rope pushdown", "cable pushdown"],
+    muscles: { triceps: 1 },
+    equipment: "cable",
+    pattern: "isolation"
+  },
+  {
+    id: "overhead_triceps_extension",
+    name: "Overhead Triceps Extension",
+    aliases: ["overhead tricep extension"],
+    muscles: { triceps: 1 },
+    equipment: "cable",
+    pattern: "isolation"
+  },
+  {
+    id: "plank",
+    name: "Plank",
+    aliases: ["planks", "front plank"],
+    muscles: { core: 1 },
+    equipment: "bodyweight",
+    pattern: "core"
+  },
+  {
+    id: "hanging_leg_raise",
+    name: "Hanging Leg Raise",
+    aliases: ["hanging leg raises", "leg raise"],
+    muscles: { core: 1 },
+    equipment: "bodyweight",
+    pattern: "core"
+  },
+  {
+    id: "cable_crunch",
+    name: "Cable Crunch",
+    aliases: ["kneeling cable crunch"],
+    muscles: { core: 1 },
+    equipment: "cable",
+    pattern: "core"
+  },
+  {
+    id: "pallof_press",
+    name: "Pallof Press",
+    aliases: ["pallof", "anti-rotation press"],
+    muscles: { core: 1 },
+    equipment: "cable",
+    pattern: "core"
+  }
+];
+
+/** Lower-cased with punctuation folded to spaces, so "Push-ups" and "push ups" compare equal. */
+export function normalizeExerciseName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+const catalogIndex = new Map<string, CatalogExercise>();
+for (const exercise of EXERCISE_CATALOG) {
+  for (const label of [exercise.name, ...exercise.aliases]) {
+    catalogIndex.set(normalizeExerciseName(label), exercise);
+  }
+}
+
+/** Resolves a free-text exercise name to its catalog entry by canonical name or alias. */
+export function findCatalogExercise(name: string): CatalogExercise | null {
+  return catalogIndex.get(normalizeExerciseName(name)) ?? null;
+}
+
+/**
+ * Catalog entries whose name or an alias contains `query`, best matches first: canonical-name
+ * prefixes, then alias prefixes, then any substring.
+ */
+export function searchExerciseCatalog(query: string, limit = 6): CatalogExercise[] {
+  const needle = normalizeExerciseName(query);
+  if (!needle) {
+    return [];
+  }
+
+  const ranked = EXERCISE_CATALOG.flatMap((exercise) => {
+    const name = normalizeExerciseName(exercise.name);
+    const aliases = exercise.aliases.map(normalizeExerciseName);
+    const rank = name.startsWith(needle)
+      ? 0
+      : aliases.some((alias) => alias.startsWith(needle))
+        ? 1
+        : [name, ...aliases].some((label) => label.includes(needle))
+          ? 2
+          : -1;
+    return rank < 0 ? [] : [{ exercise, rank }];
+  });
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.exercise.name.localeCompare(b.exercise.name))
+    .slice(0, limit)
+    .map((entry) => entry.exercise);
+}
@@ -0,0 +1,210 @@
+import { normalizeExerciseName } from "./exerciseCatalog.js";
+
+export type MealType = "breakfast" | "lunch" | "dinner" | "snacks";
+
+export const MEAL_TYPES: MealType[] = ["breakfast", "lunch", "dinner", "snacks"];
+
+export interface Macros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  /** Grams. Missing on custom foods and entries saved before fiber was tracked. */
+  fiber?: number;
+}
+
+/** A food with its macros for one serving of `servingSize` `servingUnit`. */
+export interface FoodItem extends Macros {
+  id: string;
+  name: string;
+  brand?: string;
+  servingSize: number;
+  servingUnit: string;
+}
+
+/**
+ * An amount of one food. Macros are copied from the food when it is added and already scaled
+ * by `servings`, so editing or deleting a custom food or recipe never rewrites what used it.
+ */
+export interface MealComponent extends Macros {
+  id: string;
+  /** Null for quick-add entries that were never a food. */
+  foodId: string | null;
+  name: string;
+  servings: number;
+}
+
+/** One food eaten at a meal on a logged day. */
+export interface FoodLogItem extends MealComponent {
+  meal: MealType;
+}
+
+/** A dish cooked in bulk: ingredients for the whole batch, split into `yieldServings` portions. */
+export interface Recipe {
+  id: string;
+  name: string;
+  yieldServings: number;
+  ingredients: MealComponent[];
+}
+
+/** A group of foods eaten together often enough to log in one tap. */
+export interface SavedMeal {
+  id: string;
+  name: string;
+  items: MealComponent[];
+}
+
+function food(
+  id: string,
+  name: string,
+  servingSize: number,
+  servingUnit: string,
+  calories: number,
+  protein: number,
+  carbs: number,
+  fat: number,
+  fiber: number
+): FoodItem {
+  return { id, name, servingSize, servingUnit, calories, protein, carbs, fat, fiber };
+}
+
+// Generic foods with macros rounded from USDA FoodData Central. Custom ids never start with "db_".
+export const FOOD_DATABASE: FoodItem[] = [
+  food("db_chicken_breast", "Chicken Breast, cooked", 100, "g", 165, 31, 0, 3.6, 0),
+  food("db_chicken_thigh", "Chicken Thigh, cooked", 100, "g", 209, 26, 0, 10.9, 0),
+  food("db_ground_beef_90", "Ground Beef 90% lean, cooked", 100, "g", 217, 26, 0, 11.7, 0),
+  food("db_salmon", "Salmon, cooked", 100, "g", 206, 22, 0, 12.4, 0),
+  food("db_tuna_canned", "Tuna, canned in water", 100, "g", 116, 25.5, 0, 0.8, 0),
+  food("db_shrimp", "Shrimp, cooked", 100, "g", 99, 24, 0.2, 0.3, 0),
+  food("db_turkey_breast", "Turkey Breast, roasted", 100, "g", 135, 30, 0, 1, 0),
+  food("db_tofu_firm", "Tofu, firm", 100, "g", 144, 17.3, 2.8, 8.7, 2.3),
+  food("db_egg", "Egg, whole", 1, "large", 72, 6.3, 0.4, 4.8, 0),
+  food("db_egg_white", "Egg White", 100, "g", 52, 10.9, 0.7, 0.2, 0),
+  food("db_greek_yogurt", "Greek Yogurt, plain nonfat", 170, "g", 100, 17, 6, 0.7, 0),
+  food("db_cottage_cheese", "Cottage Cheese, low fat", 100, "g", 81, 10.5, 4.3, 2.3, 0),
+  food("db_milk_2", "Milk, 2%", 240, "ml", 122, 8.1, 11.7, 4.8, 0),
+  food("db_cheddar", "Cheddar Cheese", 28, "g", 113, 7, 0.4, 9.3, 0),
+  food("db_whey", "Whey Protein Powder", 30, "g", 120, 24, 3, 1.5, 0),
+  food("db_oats", "Rolled Oats, dry", 40, "g", 152, 5.3, 27, 2.6, 4),
+  food("db_white_rice", "White Rice, cooked", 100, "g", 130, 2.7, 28.2, 0.3, 0.4),
+  food("db_brown_rice", "Brown Rice, cooked", 100, "g", 123, 2.7, 25.6, 1, 1.6),
+  food("db_pasta", "Pasta, cooked", 100, "g", 158, 5.8, 30.9, 0.9, 1.8),
+  food("db_quinoa", "Quinoa, cooked", 100, "g", 120, 4.4, 21.3, 1.9, 2.8),
+  food("db_whole_wheat_bread", "Whole Wheat Bread", 1, "slice", 81, 4, 13.8, 1.1, 1.9),
+  food("db_tortilla", "Flour Tortilla", 1, "medium", 144, 3.9, 24, 3.6, 1.7),
+  food("db_potato", "Potato, baked", 100, "g", 93, 2.5, 21.2, 0.1, 2.2),
+  food("db_sweet_potato", "Sweet Potato, baked", 100, "g", 90, 2, 20.7, 0.2, 3.3),
+  food("db_black_beans", "Black Beans, cooked", 100, "g", 132, 8.9, 23.7, 0.5, 8.7),
+  food("db_lentils", "Lentils, cooked", 100, "g", 116, 9, 20.1, 0.4, 7.9),
+  food("db_banana", "Banana", 1, "medium", 105, 1.3, 27, 0.4, 3.1),
+  food("db_apple", "Apple", 1, "medium", 95, 0.5, 25.1, 0.3, 4.4),
+  food("db_blueberries", "Blueberries", 100, "g", 57, 0.7, 14.5, 0.3, 2.4),
+  food("db_orange", "Orange", 1, "medium", 62, 1.2, 15.4, 0.2, 3.1),
+  food("db_broccoli", "Broccoli, cooked", 100, "g", 35, 2.4, 7.2, 0.4, 3.3),
+  food("db_spinach", "Spinach, raw", 100, "g", 23, 2.9, 3.6, 0.4, 2.2),
+  food("db_mixed_salad", "Mixed Salad Greens", 100, "g", 17, 1.4, 3.3, 0.2, 2),
+  food("db_avocado", "Avocado", 100, "g", 160, 2, 8.5, 14.7, 6.7),
+  food("db_olive_oil", "Olive Oil", 1, "tbsp", 119, 0, 0, 13.5, 0),
+  food("db_butter", "Butter", 1, "tbsp", 102, 0.1, 0, 11.5, 0),
+  food("db_almonds", "Almonds", 28, "g", 164, 6, 6.1, 14.2, 3.5),
+  food("db_peanut_butter", "Peanut Butter", 2, "tbsp", 191, 7.1, 7.1, 16.4, 1.9),
+  food("db_dark_chocolate", "Dark Chocolate 70-85%", 28, "g", 170, 2.2, 13, 12.1, 3.1),
+  food("db_honey", "Honey", 1, "tbsp", 64, 0.1, 17.3, 0, 0),
+  food("db_orange_juice", "Orange Juice", 240, "ml", 112, 1.7, 25.8, 0.5, 0.5),
+  food("db_cola", "Cola", 355, "ml", 140, 0, 39, 0, 0)
+];
+
+const EMPTY_MACROS: Required<Macros> = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+function roundMacro(value: number): number {
+  return Number(value.toFixed(1));
+}
+
+/** Looks a food up by id among the user's custom foods, then the bundled database. */
+export function findFood(id: string, customFoods: FoodItem[] = []): FoodItem | null {
+  return customFoods.find((item) => item.id === id) ?? FOOD_DATABASE.find((item) => item.id === id) ?? null;
+}
+
+/**
+ * Foods whose name or brand contains `query`, custom foods ahead of the database at the same
+ * rank, with name prefixes before other matches.
+ */
+export function searchFoods(query: string, customFoods: FoodItem[] = [], limit = 8): FoodItem[] {
+  const needle = normalizeExerciseName(query);
+  if (!needle) {
+    return [];
+  }
+
+  const ranked = [...customFoods, ...FOOD_DATABASE].flatMap((item, order) => {
+    const name = normalizeExerciseName(item.name);
+    const brand = item.brand ? normalizeExerciseName(item.brand) : "";
+    const rank = name.startsWith(needle) ? 0 : name.includes(needle) || brand.includes(needle) ? 1 : -1;
+    return rank < 0 ? [] : [{ item, rank, order }];
+  });
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .slice(0, limit)
+    .map((entry) => entry.item);
+}
+
+export function createMealComponent(id: string, item: FoodItem, servings: number): MealComponent {
+  return {
+    id,
+    foodId: item.id,
+    name: item.brand ? `${item.name} (${item.brand})` : item.name,
+    servings,
+    calories: Math.round(item.calories * servings),
+    protein: roundMacro(item.protein * servings),
+    carbs: roundMacro(item.carbs * servings),
+    fat: roundMacro(item.fat * servings),
+    ...(item.fiber !== undefined ? { fiber: roundMacro(item.fiber * servings) } : {})
+  };
+}
+
+export function createFoodLogItem(id: string, meal: MealType, item: FoodItem, servings: number): FoodLogItem {
+  return { ...createMealComponent(id, item, servings), meal };
+}
+
+export function sumFoodLogItems(items: MealComponent[]): Required<Macros> {
+  const total = items.reduce(
+    (sum, item) => ({
+      calories: sum.calories + item.calories,
+      protein: sum.protein + item.protein,
+      carbs: sum.carbs + item.carbs,
+      fat: sum.fat + item.fat,
+      fiber: sum.fiber + (item.fiber ?? 0)
+    }),
+    EMPTY_MACROS
+  );
+  return {
+    calories: Math.round(total.calories),
+    protein: roundMacro(total.protein),
+    carbs: roundMacro(total.carbs),
+    fat: roundMacro(total.fat),
+    fiber: roundMacro(total.fiber)
+  };
+}
+
+/** Macros for one of the recipe's `yieldServings` portions. */
+export function getRecipeServingMacros(recipe: Recipe): Required<Macros> {
+  const total = sumFoodLogItems(recipe.ingredients);
+  const portions = recipe.yieldServings > 0 ? recipe.yieldServings : 1;
+  return {
+    calories: Math.round(total.calories / portions),
+    protein: roundMacro(total.protein / portions),
+    carbs: roundMacro(total.carbs / portions),
+    fat: roundMacro(total.fat / portions),
+    fiber: roundMacro(total.fiber / portions)
+  };
+}
+
+/** A recipe as a searchable food whose serving is one portion. */
+export function recipeAsFood(recipe: Recipe): FoodItem {
+  return { id: recipe.id, name: recipe.name, servingSize: 1, servingUnit: "serving", ...getRecipeServingMacros(recipe) };
+}
+
+/** The saved meal's foods as entries for `meal`; `createId` gives each a fresh id. */
+export function expandSavedMeal(savedMeal: SavedMeal, meal: MealType, createId: () => string): FoodLogItem[] {
+  return savedMeal.items.map((item) => ({ ...item, id: createId(), meal }));
+}
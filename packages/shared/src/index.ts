@@ -17,3 +17,8 @@ export interface WorkoutSession {
   notes?: string;
 }
 
+
+export * from "./exerciseCatalog.js";
+export * from "./trainingVolume.js";
+export * from "./programs.js";
+export * from "./foods.js";
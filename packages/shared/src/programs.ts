@@ -0,0 +1,320 @@
+import type { FitnessGoal } from "./index.js";
+
+export interface RepRange {
+  min: number;
+  max: number;
+}
+
+export interface ProgramExercise {
+  /** Catalog names, so logged sessions line up with history, records and volume. */
+  name: string;
+  sets: number;
+  reps: RepRange;
+  targetRpe: number;
+}
+
+export interface ProgramSession {
+  id: string;
+  name: string;
+  /** ISO weekday: 1 is Monday, 7 is Sunday. */
+  weekday: number;
+  durationMinutes: number;
+  exercises: ProgramExercise[];
+}
+
+export interface TrainingProgram {
+  id: string;
+  name: string;
+  description: string;
+  goals: FitnessGoal[];
+  /** Length of one mesocycle, deload included. Mesocycles repeat until the user leaves. */
+  mesocycleWeeks: number;
+  /** 1-based weeks within each mesocycle that are deloads. */
+  deloadWeeks: number[];
+  sessions: ProgramSession[];
+}
+
+export interface ProgramEnrollment {
+  programId: string;
+  /** Date key; week 1 is the Monday-based week containing it. */
+  startDate: string;
+  enrolledAt: string;
+}
+
+export interface ProgramDay {
+  programId: string;
+  programName: string;
+  date: string;
+  mesocycle: number;
+  week: number;
+  mesocycleWeeks: number;
+  isDeload: boolean;
+  /** The session prescribed for `date`, adjusted for the week, or null on a rest day. */
+  session: ProgramSession | null;
+  nextSession: { date: string; name: string } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accumulation weeks push effort up by this much each week; deloads halve sets and back off RPE.
+const WEEKLY_RPE_STEP = 0.5;
+const MAX_TARGET_RPE = 9.5;
+const DELOAD_RPE_DROP = 2;
+const MIN_TARGET_RPE = 5;
+
+function lift(name: string, sets: number, min: number, max: number, targetRpe: number): ProgramExercise {
+  return { name, sets, reps: { min, max }, targetRpe };
+}
+
+export const TRAINING_PROGRAMS: TrainingProgram[] = [
+  {
+    id: "full_body_3x",
+    name: "Full Body 3x",
+    description: "Three full body sessions a week. A solid default for any goal, and the easiest to recover from.",
+    goals: ["lose_weight", "gain_muscle", "maintain"],
+    mesocycleWeeks: 4,
+    deloadWeeks: [4],
+    sessions: [
+      {
+        id: "full_body_a",
+        name: "Full Body A",
+        weekday: 1,
+        durationMinutes: 60,
+        exercises: [
+          lift("Back Squat", 3, 5, 8, 7),
+          lift("Barbell Bench Press", 3, 6, 10, 7),
+          lift("Barbell Row", 3, 8, 12, 7),
+          lift("Hanging Leg Raise", 2, 10, 15, 7)
+        ]
+      },
+      {
+        id: "full_body_b",
+        name: "Full Body B",
+        weekday: 3,
+        durationMinutes: 60,
+        exercises: [
+          lift("Romanian Deadlift", 3, 8, 10, 7),
+          lift("Overhead Press", 3, 6, 10, 7),
+          lift("Lat Pulldown", 3, 10, 12, 7),
+          lift("Walking Lunge", 2, 10, 12, 7)
+        ]
+      },
+      {
+        id: "full_body_c",
+        name: "Full Body C",
+        weekday: 5,
+        durationMinutes: 55,
+        exercises: [
+          lift("Leg Press", 3, 10, 15, 7.5),
+          lift("Incline Dumbbell Press", 3, 8, 12, 7.5),
+          lift("Seated Cable Row", 3, 10, 12, 7.5),
+          lift("Lateral Raise", 2, 12, 20, 8),
+          lift("Cable Crunch", 2, 12, 15, 7.5)
+        ]
+      }
+    ]
+  },
+  {
+    id: "upper_lower_4x",
+    name: "Upper/Lower 4x",
+    description: "Four sessions split into upper and lower days, for more weekly volume per muscle group.",
+    goals: ["gain_muscle"],
+    mesocycleWeeks: 5,
+    deloadWeeks: [5],
+    sessions: [
+      {
+        id: "upper_a",
+        name: "Upper A",
+        weekday: 1,
+        durationMinutes: 70,
+        exercises: [
+          lift("Barbell Bench Press", 4, 5, 8, 7.5),
+          lift("Barbell Row", 4, 6, 10, 7.5),
+          lift("Dumbbell Shoulder Press", 3, 8, 12, 7.5),
+          lift("Lat Pulldown", 3, 10, 12, 8),
+          lift("Barbell Curl", 2, 10, 15, 8),
+          lift("Triceps Pushdown", 2, 10, 15, 8)
+        ]
+      },
+      {
+        id: "lower_a",
+        name: "Lower A",
+        weekday: 2,
+        durationMinutes: 65,
+        exercises: [
+          lift("Back Squat", 4, 5, 8, 7.5),
+          lift("Romanian Deadlift", 3, 8, 10, 7.5),
+          lift("Leg Extension", 3, 10, 15, 8),
+          lift("Leg Curl", 3, 10, 15, 8),
+          lift("Calf Raise", 3, 10, 15, 8)
+        ]
+      },
+      {
+        id: "upper_b",
+        name: "Upper B",
+        weekday: 4,
+        durationMinutes: 70,
+        exercises: [
+          lift("Overhead Press", 3, 6, 10, 7.5),
+          lift("Pull-Up", 3, 6, 10, 7.5),
+          lift("Incline Dumbbell Press", 3, 8, 12, 8),
+          lift("Chest Supported Row", 3, 10, 12, 8),
+          lift("Lateral Raise", 3, 12, 20, 8.5),
+          lift("Overhead Triceps Extension", 2, 10, 15, 8)
+        ]
+      },
+      {
+        id: "lower_b",
+        name: "Lower B",
+        weekday: 6,
+        durationMinutes: 65,
+        exercises: [
+          lift("Deadlift", 3, 3, 6, 7.5),
+          lift("Bulgarian Split Squat", 3, 8, 12, 8),
+          lift("Hip Thrust", 3, 8, 12, 8),
+          lift("Calf Raise", 3, 10, 15, 8),
+          lift("Hanging Leg Raise", 3, 10, 15, 8)
+        ]
+      }
+    ]
+  },
+  {
+    id: "minimal_strength_2x",
+    name: "Minimal Strength 2x",
+    description: "Two short sessions that keep strength and muscle while a cut or a busy schedule takes priority.",
+    goals: ["lose_weight", "maintain"],
+    mesocycleWeeks: 6,
+    deloadWeeks: [6],
+    sessions: [
+      {
+        id: "minimal_a",
+        name: "Strength A",
+        weekday: 1,
+        durationMinutes: 45,
+        exercises: [
+          lift("Back Squat", 3, 5, 8, 7.5),
+          lift("Barbell Bench Press", 3, 5, 8, 7.5),
+          lift("Pull-Up", 3, 6, 10, 7.5)
+        ]
+      },
+      {
+        id: "minimal_b",
+        name: "Strength B",
+        weekday: 4,
+        durationMinutes: 45,
+        exercises: [
+          lift("Deadlift", 2, 3, 5, 7.5),
+          lift("Overhead Press", 3, 6, 10, 7.5),
+          lift("Dumbbell Row", 3, 8, 12, 7.5)
+        ]
+      }
+    ]
+  }
+];
+
+const programIndex = new Map(TRAINING_PROGRAMS.map((program) => [program.id, program]));
+
+export function findTrainingProgram(id: string): TrainingProgram | null {
+  return programIndex.get(id) ?? null;
+}
+
+/** Programs written for `goal` first, keeping library order within each half. */
+export function listProgramsForGoal(goal: FitnessGoal): TrainingProgram[] {
+  return [
+    ...TRAINING_PROGRAMS.filter((program) => program.goals.includes(goal)),
+    ...TRAINING_PROGRAMS.filter((program) => !program.goals.includes(goal))
+  ];
+}
+
+// Date keys are calendar days, so the arithmetic stays in UTC to dodge DST shifts.
+function toDayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isoWeekday(dayNumber: number): number {
+  const weekday = new Date(dayNumber * DAY_MS).getUTCDay();
+  return weekday === 0 ? 7 : weekday;
+}
+
+/**
+ * Scales a session for week `week` of the mesocycle: each accumulation week adds
+ * {@link WEEKLY_RPE_STEP} to the target RPE, and deload weeks halve the sets at a lower RPE.
+ */
+export function prescribeSession(program: TrainingProgram, session: ProgramSession, week: number): ProgramSession {
+  const isDeload = program.deloadWeeks.includes(week);
+  const accumulationWeek = Array.from({ length: week - 1 }, (_, index) => index + 1).filter(
+    (earlier) => !program.deloadWeeks.includes(earlier)
+  ).length;
+
+  return {
+    ...session,
+    exercises: session.exercises.map((exercise) =>
+      isDeload
+        ? {
+            ...exercise,
+            sets: Math.max(1, Math.ceil(exercise.sets / 2)),
+            targetRpe: Math.max(MIN_TARGET_RPE, exercise.targetRpe - DELOAD_RPE_DROP)
+          }
+        : {
+            ...exercise,
+            targetRpe: Math.min(MAX_TARGET_RPE, exercise.targetRpe + accumulationWeek * WEEKLY_RPE_STEP)
+          }
+    )
+  };
+}
+
+function getProgramWeek(program: TrainingProgram, startDay: number, dayNumber: number) {
+  const firstMonday = startDay - (isoWeekday(startDay) - 1);
+  const weekIndex = Math.floor((dayNumber - firstMonday) / 7);
+  return {
+    mesocycle: Math.floor(weekIndex / program.mesocycleWeeks) + 1,
+    week: (weekIndex % program.mesocycleWeeks) + 1
+  };
+}
+
+function findSession(program: TrainingProgram, startDay: number, dayNumber: number): ProgramSession | null {
+  if (dayNumber < startDay) {
+    return null;
+  }
+  const session = program.sessions.find((item) => item.weekday === isoWeekday(dayNumber));
+  return session ? prescribeSession(program, session, getProgramWeek(program, startDay, dayNumber).week) : null;
+}
+
+/**
+ * Where `date` falls in an enrollment and what it prescribes. Returns null when the program is
+ * unknown or `date` is before the enrollment starts.
+ */
+export function getProgramDay(enrollment: ProgramEnrollment, date: string): ProgramDay | null {
+  const program = findTrainingProgram(enrollment.programId);
+  const startDay = toDayNumber(enrollment.startDate);
+  const dayNumber = toDayNumber(date);
+  if (!program || dayNumber < startDay) {
+    return null;
+  }
+
+  const { mesocycle, week } = getProgramWeek(program, startDay, dayNumber);
+  let nextSession: ProgramDay["nextSession"] = null;
+  for (let day = dayNumber + 1; day <= dayNumber + 7 && !nextSession; day += 1) {
+    const session = findSession(program, startDay, day);
+    if (session) {
+      nextSession = { date: fromDayNumber(day), name: session.name };
+    }
+  }
+
+  return {
+    programId: program.id,
+    programName: program.name,
+    date,
+    mesocycle,
+    week,
+    mesocycleWeeks: program.mesocycleWeeks,
+    isDeload: program.deloadWeeks.includes(week),
+    session: findSession(program, startDay, dayNumber),
+    nextSession
+  };
+}
@@ -0,0 +1,97 @@
+import { findCatalogExercise, type MuscleGroup } from "./exerciseCatalog.js";
+import type { FitnessGoal } from "./index.js";
+
+export interface WeeklySetLandmark {
+  min: number;
+  max: number;
+}
+
+export const MUSCLE_GROUPS: MuscleGroup[] = [
+  "chest",
+  "back",
+  "shoulders",
+  "biceps",
+  "triceps",
+  "quads",
+  "hamstrings",
+  "glutes",
+  "calves",
+  "core"
+];
+
+/**
+ * Weekly hard-set landmarks per muscle group. Secondary credit counts toward these, which is why
+ * arms and glutes sit lower than the groups that mostly get trained directly.
+ */
+export const WEEKLY_SET_LANDMARKS: Record<FitnessGoal, Record<MuscleGroup, WeeklySetLandmark>> = {
+  gain_muscle: {
+    chest: { min: 10, max: 18 },
+    back: { min: 12, max: 20 },
+    shoulders: { min: 8, max: 16 },
+    biceps: { min: 8, max: 14 },
+    triceps: { min: 6, max: 12 },
+    quads: { min: 10, max: 18 },
+    hamstrings: { min: 8, max: 14 },
+    glutes: { min: 6, max: 12 },
+    calves: { min: 8, max: 14 },
+    core: { min: 6, max: 12 }
+  },
+  lose_weight: {
+    chest: { min: 8, max: 14 },
+    back: { min: 8, max: 16 },
+    shoulders: { min: 6, max: 12 },
+    biceps: { min: 6, max: 10 },
+    triceps: { min: 4, max: 10 },
+    quads: { min: 8, max: 14 },
+    hamstrings: { min: 6, max: 12 },
+    glutes: { min: 4, max: 10 },
+    calves: { min: 6, max: 10 },
+    core: { min: 4, max: 10 }
+  },
+  maintain: {
+    chest: { min: 6, max: 12 },
+    back: { min: 8, max: 14 },
+    shoulders: { min: 6, max: 10 },
+    biceps: { min: 4, max: 8 },
+    triceps: { min: 4, max: 8 },
+    quads: { min: 6, max: 12 },
+    hamstrings: { min: 6, max: 10 },
+    glutes: { min: 4, max: 8 },
+    calves: { min: 4, max: 8 },
+    core: { min: 4, max: 8 }
+  }
+};
+
+// Fallback for names the exercise catalog does not know; these only ever grant full primary credit.
+const EXERCISE_PATTERNS: Array<{ pattern: RegExp; group: MuscleGroup }> = [
+  { pattern: /(bench|chest\s*(press|fly)|pec|push[\s-]?up|dip)/i, group: "chest" },
+  { pattern: /(row|pull[\s-]?up|chin[\s-]?up|pulldown|lat)/i, group: "back" },
+  { pattern: /(overhead\s*press|shoulder\s*press|lateral\s*raise|rear\s*delt|face\s*pull|arnold\s*press)/i, group: "shoulders" },
+  { pattern: /(bicep|hammer|preacher|^(?!.*(leg|hamstring)).*curl)/i, group: "biceps" },
+  // "Extension" alone also names leg, back and hip extensions, so triceps need a clearer cue.
+  { pattern: /(tricep|pushdown|skull|overhead\s*extension|french\s*press)/i, group: "triceps" },
+  { pattern: /(squat|lunge|leg\s*press|leg\s*extension|quad|step[\s-]?up)/i, group: "quads" },
+  { pattern: /(deadlift|rdl|hamstring|leg\s*curl|good\s*morning|(back|hip|hyper)[\s-]?extension)/i, group: "hamstrings" },
+  { pattern: /(hip\s*thrust|glute|bridge|(back|hip|hyper)[\s-]?extension)/i, group: "glutes" },
+  { pattern: /calf/i, group: "calves" },
+  { pattern: /(plank|crunch|ab|core|pallof|hanging\s*leg)/i, group: "core" }
+];
+
+/**
+ * How many sets each muscle group is credited per working set of `name`: 1 for the prime movers,
+ * a fraction for groups that assist. Unknown names with no matching pattern credit nothing.
+ */
+export function getMuscleCredits(name: string): Partial<Record<MuscleGroup, number>> {
+  const catalogExercise = findCatalogExercise(name);
+  if (catalogExercise) {
+    return catalogExercise.muscles;
+  }
+
+  const credits: Partial<Record<MuscleGroup, number>> = {};
+  for (const { pattern, group } of EXERCISE_PATTERNS) {
+    if (pattern.test(name)) {
+      credits[group] = 1;
+    }
+  }
+  return credits;
+}